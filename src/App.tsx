@@ -8,40 +8,70 @@
  * - Wallet connection and session management
  * - Account information and voting data management
  * - Block producer selection and vote delegation
+ * - Proxy voting and proxy registration
  * - Resource staking and unstaking
- * - Network switching (testnet/mainnet)
+ * - Network switching (testnet/mainnet/custom networks)
+ * - Finality tracking of signed transactions
+ * - Address book with recent recipients
  *
  * @component
  * @returns {JSX.Element} The main application component
  */
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 
-import { Router } from './components/index';
+import { Router, TransactionReview } from './components/index';
 import { smartCache, CacheKeys } from './utils/SmartCache';
 import { RefreshTriggers } from './utils/RefreshTriggers';
+import { useAppStore } from './store';
 import {
   connectWallet,
   disconnectWallet,
   delegateVotes,
   getAccountInfo,
   getBlockProducers,
+  getProxies,
+  registerProxy,
   checkExistingSession,
+  setActiveWalletSession,
   stakeResources,
   unstakeResources,
+  claimRefund,
   getVoteInfo,
+  getVoterRewards,
+  claimVoterRewards,
   checkVotingResources,
+  verifyCustomNetwork,
+  verifyNetworkChainId,
+  signPaymentRequest,
+  updatePermissions,
+  setTransactionReviewer,
+  rpcPool,
 } from './services';
-import { transferTokens, clearTransferCache } from './services/token';
-import { extractTransactionId } from './utils/transactionUtils';
-import { generatePaymentRequestUrl } from './utils/urlUtils';
+import {
+  transferTokens,
+  transferBatch,
+  clearTransferCache,
+} from './services/token';
+import { createFinality, trackTransactionFinality } from './services/finality';
+import {
+  createPaymentRequestId,
+  generatePaymentRequestUrl,
+} from './utils/urlUtils';
 import type {
   WalletInstance as Wallet,
   AccountInfo,
+  BatchTransferResult,
   BlockProducer,
+  CustomNetworkInput,
+  ProxyInfo,
+  VoterRewards,
   NetworkType,
+  PermissionChange,
   StakeData,
+  TransactionFinality,
   TransferData,
   RequestPaymentData,
+  TransactionReview as TransactionReviewData,
 } from './types';
 
 /* eslint-disable @typescript-eslint/no-explicit-any */
@@ -49,24 +79,92 @@ import type {
 const App: React.FC = () => {
   // Application state management
   const [wallet, setWallet] = useState<Wallet | null>(null); // Connected wallet instance
+  const [sessions, setSessions] = useState<Wallet[]>([]); // All connected sessions on the current network
+  const [signingPermission, setSigningPermission] = useState(''); // Explicit signing permission ('' = automatic)
   const [account, setAccount] = useState<AccountInfo | null>(null); // Account information and voting data
   const [blockProducers, setBlockProducers] = useState<BlockProducer[]>([]); // List of available block producers
+  const [proxies, setProxies] = useState<ProxyInfo[]>([]); // Registered voting proxies
+  const [voterRewards, setVoterRewards] = useState<VoterRewards | null>(null); // Accrued voter rewards
   const [selectedBPs, setSelectedBPs] = useState<string[]>([]); // Currently selected block producers (max 4)
   const [loading, setLoading] = useState<boolean>(false); // Loading state for async operations
   const [message, setMessage] = useState<any>(null); // Status messages for user feedback
   const [network, setNetwork] = useState<NetworkType>('testnet'); // Current network (testnet/mainnet)
   const [currentPage, setCurrentPage] = useState<
-    'home' | 'transfer' | 'request'
+    | 'home'
+    | 'transfer'
+    | 'request'
+    | 'producer'
+    | 'history'
+    | 'contacts'
+    | 'permissions'
   >('home'); // Current page
   const [urlRequestData, setUrlRequestData] =
     useState<RequestPaymentData | null>(null); // Request data from URL
   const [pendingTransferData, setPendingTransferData] =
     useState<RequestPaymentData | null>(null); // Pending transfer data from URL
+  const [transactionReview, setTransactionReview] = useState<{
+    review: TransactionReviewData;
+    resolve: (approved: boolean) => void;
+  } | null>(null); // Transaction awaiting approval before the wallet prompt
+
+  // Custom networks are persisted in the store
+  const customNetworks = useAppStore(state => state.customNetworks);
+  const addCustomNetwork = useAppStore(state => state.addCustomNetwork);
+  const removeCustomNetwork = useAppStore(state => state.removeCustomNetwork);
+  const setTransactionFinality = useAppStore(
+    state => state.setTransactionFinality
+  );
+
+  // Address book is persisted in the store for all networks
+  const allContacts = useAppStore(state => state.contacts);
+  const allRecentRecipients = useAppStore(state => state.recentRecipients);
+  const saveContact = useAppStore(state => state.saveContact);
+  const removeContact = useAppStore(state => state.removeContact);
+  const importContacts = useAppStore(state => state.importContacts);
+  const addRecentRecipient = useAppStore(state => state.addRecentRecipient);
+  const contacts = useMemo(
+    () => allContacts.filter(contact => contact.network === network),
+    [allContacts, network]
+  );
+  const recentRecipients = useMemo(
+    () =>
+      allRecentRecipients
+        .filter(recent => recent.network === network)
+        .map(recent => recent.account),
+    [allRecentRecipients, network]
+  );
 
   // Performance optimization: prevent duplicate API calls
   const dataLoadedRef = useRef<boolean>(false); // Track if data has been loaded
   const currentWalletRef = useRef<string | null>(null); // Track current wallet/network combination
 
+  // Keep endpoint health fresh for the active network
+  useEffect(() => rpcPool.startProbing(network), [network]);
+
+  // Services ask for approval through the review modal before signing
+  useEffect(() => {
+    setTransactionReviewer(
+      review =>
+        new Promise<boolean>(resolve =>
+          setTransactionReview({ review, resolve })
+        )
+    );
+    return () => setTransactionReviewer(null);
+  }, []);
+
+  /**
+   * Close the review modal and continue or cancel the transaction
+   */
+  const handleTransactionReview = (approved: boolean) => {
+    transactionReview?.resolve(approved);
+    setTransactionReview(null);
+  };
+
+  // An explicit signing permission belongs to the active session
+  useEffect(() => {
+    setSigningPermission('');
+  }, [wallet]);
+
   /**
    * Check for existing wallet session on component mount and network changes
    * This allows users to maintain their connection across page refreshes
@@ -74,15 +172,23 @@ const App: React.FC = () => {
   useEffect(() => {
     const checkSession = async () => {
       try {
-        const existingSession = await checkExistingSession(network);
+        const restoredSessions = await checkExistingSession(network);
 
-        if (existingSession) {
+        if (restoredSessions.length > 0) {
+          // Most recently used session becomes the active one
+          const [existingSession] = restoredSessions;
+          setSessions(restoredSessions);
           setWallet(existingSession);
           setAccount(existingSession.account);
 
+          const others = restoredSessions.length - 1;
           const sessionMessage = {
             type: 'success' as const,
-            text: `Restored session for ${existingSession.account.account_name}`,
+            text: `Restored session for ${existingSession.account.account_name}${
+              others > 0
+                ? ` and ${others} other account${others !== 1 ? 's' : ''}`
+                : ''
+            }`,
           };
 
           // Debug: Log the message being set
@@ -213,6 +319,22 @@ const App: React.FC = () => {
           setAccount(accountWithVoteInfo);
           setBlockProducers(bps);
 
+          // Proxy registry is optional - don't fail the whole load on it
+          try {
+            setProxies(await getProxies(network, wallet.session));
+          } catch {
+            setProxies([]);
+          }
+
+          // Voter rewards are optional as well
+          try {
+            setVoterRewards(
+              await getVoterRewards(accountName, network, wallet.session)
+            );
+          } catch {
+            setVoterRewards(null);
+          }
+
           // Mark as loaded to prevent duplicate calls
           dataLoadedRef.current = true;
           currentWalletRef.current = walletKey;
@@ -242,10 +364,23 @@ const App: React.FC = () => {
 
     try {
       const walletInstance = await connectWallet(network);
+      const { actor, permission } = walletInstance.session.auth;
+      setSessions(prev => [
+        walletInstance,
+        ...prev.filter(
+          item =>
+            item.session.auth.actor !== actor ||
+            item.session.auth.permission !== permission
+        ),
+      ]);
       setWallet(walletInstance);
 
       if (walletInstance.account) {
         setAccount(walletInstance.account);
+        if (walletInstance.account.account_name !== account?.account_name) {
+          setSelectedBPs([]);
+          setVoterRewards(null);
+        }
 
         // Trigger intelligent refresh for wallet connection
         RefreshTriggers.onWalletConnect(
@@ -284,11 +419,14 @@ const App: React.FC = () => {
    */
   const handleDisconnectWallet = async (): Promise<void> => {
     try {
-      await disconnectWallet();
+      await disconnectWallet(network);
+      setSessions([]);
       setWallet(null);
       setAccount(null);
       setSelectedBPs([]);
       setBlockProducers([]); // Clear block producers when disconnecting
+      setProxies([]);
+      setVoterRewards(null);
 
       // Reset performance tracking
       dataLoadedRef.current = false;
@@ -303,6 +441,79 @@ const App: React.FC = () => {
     }
   };
 
+  /**
+   * Handle switching the active account to another connected session
+   * Account data is served from the per-session cache while it refreshes.
+   */
+  const handleSwitchAccount = (storagePrefix: string): void => {
+    const target = sessions.find(item => item.storagePrefix === storagePrefix);
+    if (!target || target === wallet) return;
+
+    setWallet(target);
+    setAccount(target.account);
+    setSelectedBPs([]);
+    setVoterRewards(null);
+    setActiveWalletSession(storagePrefix);
+    RefreshTriggers.onAccountSwitched(target.account.account_name, network);
+
+    setMessage({
+      type: 'info',
+      text: `Switched to ${target.session.auth.actor}@${target.session.auth.permission}`,
+    });
+  };
+
+  /**
+   * Handle disconnecting a single session
+   * Switches to the next connected session when the active one is removed.
+   */
+  const handleDisconnectAccount = async (
+    storagePrefix: string
+  ): Promise<void> => {
+    const target = sessions.find(item => item.storagePrefix === storagePrefix);
+    if (!target) return;
+
+    try {
+      await disconnectWallet(network, target);
+    } catch (error: unknown) {
+      setMessage({
+        type: 'error',
+        text:
+          error instanceof Error
+            ? error.message
+            : 'Failed to disconnect wallet',
+      });
+      return;
+    }
+
+    const remaining = sessions.filter(item => item !== target);
+    setSessions(remaining);
+
+    if (target !== wallet) {
+      setMessage({
+        type: 'info',
+        text: `Disconnected ${target.account.account_name}`,
+      });
+      return;
+    }
+
+    const [next] = remaining;
+    setWallet(next || null);
+    setAccount(next ? next.account : null);
+    setSelectedBPs([]);
+    setVoterRewards(null);
+    if (next?.storagePrefix) {
+      setActiveWalletSession(next.storagePrefix);
+      RefreshTriggers.onAccountSwitched(next.account.account_name, network);
+    }
+
+    setMessage({
+      type: 'info',
+      text: next
+        ? `Disconnected ${target.account.account_name}, switched to ${next.account.account_name}`
+        : 'Wallet disconnected',
+    });
+  };
+
   /**
    * Handle Block Producer selection (toggle)
    * Adds to selection if not selected, removes if already selected
@@ -360,16 +571,18 @@ const App: React.FC = () => {
         accountName,
         bpsToVote, // Use the BPs to vote for
         network,
-        wallet.session
+        wallet.session,
+        signingPermission || undefined
       );
 
       setMessage({
         type: 'success',
         text: `Successfully delegated votes to ${bpsToVote.length} producer${bpsToVote.length !== 1 ? 's' : ''}! Transaction ID: ${result.transactionId}`,
+        // Trigger intelligent refresh for vote delegation once irreversible
+        finality: trackFinality(result, () =>
+          RefreshTriggers.onVoteDelegated(accountName, network)
+        ),
       });
-
-      // Trigger intelligent refresh for vote delegation
-      RefreshTriggers.onVoteDelegated(accountName, network);
     } catch (error: unknown) {
       setMessage({
         type: 'error',
@@ -381,16 +594,205 @@ const App: React.FC = () => {
     }
   };
 
+  /**
+   * Track a signed transaction until it is irreversible (best-effort)
+   * Refresh triggers run only once the transaction can no longer be reverted.
+   * @returns Initial finality to attach to the status message
+   */
+  const trackFinality = (
+    result: { transactionId: string; blockNum?: number },
+    onIrreversible: () => void
+  ): TransactionFinality | undefined => {
+    if (!result.transactionId || result.transactionId === 'No transaction ID') {
+      // Nothing to track - refresh right away
+      onIrreversible();
+      return undefined;
+    }
+
+    const initial = createFinality(
+      result.transactionId,
+      network,
+      result.blockNum
+    );
+    setTransactionFinality(initial);
+
+    trackTransactionFinality(initial, {
+      onUpdate: finality => {
+        setTransactionFinality(finality);
+        setMessage((prev: any) =>
+          prev?.finality?.transactionId === finality.transactionId
+            ? {
+                ...prev,
+                type:
+                  finality.status === 'failed' || finality.status === 'expired'
+                    ? 'error'
+                    : prev.type,
+                finality,
+              }
+            : prev
+        );
+      },
+    })
+      .then(finality => {
+        if (finality.status === 'irreversible') {
+          onIrreversible();
+        }
+      })
+      .catch(() => {
+        // Finality is informational - never fail a transaction on it
+      });
+
+    return initial;
+  };
+
+  /**
+   * Refresh vote info on the current account after a voting transaction
+   */
+  const refreshVoteInfo = async (accountName: string): Promise<void> => {
+    if (!wallet) return;
+    try {
+      const voteInfo = await getVoteInfo(accountName, network, wallet.session);
+      setAccount(prev =>
+        prev ? { ...prev, vote_info: voteInfo || undefined } : prev
+      );
+    } catch {
+      // Ignore refresh errors
+    }
+  };
+
+  /**
+   * Handle delegation of vote weight to a proxy account
+   * Replaces any direct producer votes with the proxy's choices
+   */
+  const handleDelegateToProxy = async (proxyName: string): Promise<void> => {
+    if (!account || !wallet) {
+      setMessage({
+        type: 'warning',
+        text: 'Please select a proxy and ensure wallet is connected',
+      });
+      return;
+    }
+
+    const accountName = account.account_name;
+
+    setLoading(true);
+    setMessage(null);
+
+    try {
+      const result = await delegateVotes(
+        accountName,
+        { proxy: proxyName },
+        network,
+        wallet.session,
+        signingPermission || undefined
+      );
+
+      setMessage({
+        type: 'success',
+        text: `Successfully delegated votes to proxy ${proxyName}! Transaction ID: ${result.transactionId}`,
+        finality: trackFinality(result, () =>
+          RefreshTriggers.onVoteDelegated(accountName, network)
+        ),
+      });
+
+      setSelectedBPs([]);
+      await refreshVoteInfo(accountName);
+    } catch (error: unknown) {
+      setMessage({
+        type: 'error',
+        text:
+          error instanceof Error
+            ? error.message
+            : 'Failed to delegate votes to proxy',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /**
+   * Handle registering or unregistering the connected account as a proxy
+   */
+  const handleRegisterProxy = async (isProxy: boolean): Promise<void> => {
+    if (!account || !wallet) {
+      setMessage({
+        type: 'error',
+        text: 'Please connect your wallet first',
+      });
+      return;
+    }
+
+    const accountName = account.account_name;
+
+    setLoading(true);
+    setMessage(null);
+
+    try {
+      const result = await registerProxy(
+        accountName,
+        isProxy,
+        network,
+        wallet.session,
+        signingPermission || undefined
+      );
+
+      setMessage({
+        type: 'success',
+        text: `Successfully ${isProxy ? 'registered' : 'unregistered'} ${accountName} as a proxy! Transaction ID: ${result.transactionId}`,
+        finality: trackFinality(result, () =>
+          RefreshTriggers.onVoteDelegated(accountName, network)
+        ),
+      });
+
+      await refreshVoteInfo(accountName);
+      try {
+        setProxies(await getProxies(network, wallet.session));
+      } catch {
+        // Ignore refresh errors
+      }
+    } catch (error: unknown) {
+      setMessage({
+        type: 'error',
+        text:
+          error instanceof Error
+            ? error.message
+            : 'Failed to update proxy registration',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
   /**
    * Handle network switching between testnet and mainnet
    * Resets application state and clears cached data
    */
-  const handleNetworkChange = (newNetwork: NetworkType): void => {
+  const handleNetworkChange = async (
+    newNetwork: NetworkType
+  ): Promise<void> => {
+    // Custom networks must still serve the expected chain before selection
+    if (customNetworks.some(item => item.id === newNetwork)) {
+      try {
+        await verifyNetworkChainId(newNetwork);
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : 'Unknown error';
+        setMessage({
+          type: 'error',
+          text: `Cannot switch network: ${errorMessage}`,
+        });
+        return;
+      }
+    }
+
     setNetwork(newNetwork);
+    setSessions([]);
     setWallet(null);
     setAccount(null);
     setSelectedBPs([]);
     setBlockProducers([]); // Clear block producers when changing network
+    setProxies([]);
+    setVoterRewards(null);
 
     // Reset performance tracking when changing network
     dataLoadedRef.current = false;
@@ -399,6 +801,31 @@ const App: React.FC = () => {
     setMessage(null);
   };
 
+  /**
+   * Handle adding a custom network
+   * Verifies every endpoint's chain ID via get_info before persisting.
+   * Errors are rethrown so the form can display them inline.
+   */
+  const handleAddNetwork = async (input: CustomNetworkInput): Promise<void> => {
+    const config = await verifyCustomNetwork(input);
+    addCustomNetwork(config);
+    setMessage({
+      type: 'success',
+      text: `Network "${config.name}" verified and added`,
+    });
+  };
+
+  /**
+   * Handle removing a custom network
+   * Switches back to testnet if the removed network is active.
+   */
+  const handleRemoveNetwork = (networkId: string): void => {
+    if (network === networkId) {
+      void handleNetworkChange('testnet');
+    }
+    removeCustomNetwork(networkId);
+  };
+
   /**
    * Handle resource staking and unstaking operations
    * Determines operation type based on input values and refreshes account data
@@ -437,13 +864,23 @@ const App: React.FC = () => {
               net: Math.abs(stakeData.net),
             },
             network,
-            wallet.session
+            wallet.session,
+            signingPermission || undefined
           )
-        : await stakeResources(accountName, stakeData, network, wallet.session);
+        : await stakeResources(
+            accountName,
+            stakeData,
+            network,
+            wallet.session,
+            signingPermission || undefined
+          );
 
       setMessage({
         type: 'success',
         text: `Successfully ${isUnstake ? 'unstaked' : 'staked'} resources! Transaction ID: ${result.transactionId}`,
+        finality: trackFinality(result, () =>
+          RefreshTriggers.onResourcesStaked(accountName, network)
+        ),
       });
 
       // Refresh account info and voting info to show updated resources
@@ -477,6 +914,194 @@ const App: React.FC = () => {
     }
   };
 
+  /**
+   * Handle claiming unstaked XPR once the refund delay has elapsed
+   */
+  const handleClaimRefund = async (): Promise<void> => {
+    if (!account || !wallet) {
+      setMessage({
+        type: 'error',
+        text: 'Please connect your wallet first',
+      });
+      return;
+    }
+
+    const accountName = account.account_name;
+
+    setLoading(true);
+    setMessage(null);
+
+    try {
+      const result = await claimRefund(
+        accountName,
+        network,
+        wallet.session,
+        signingPermission || undefined
+      );
+
+      setMessage({
+        type: 'success',
+        text: `Successfully claimed ${result.claimed.toFixed(4)} XPR refund! Transaction ID: ${result.transactionId}`,
+        finality: trackFinality(result, () =>
+          RefreshTriggers.onRefundClaimed(accountName, network)
+        ),
+      });
+
+      try {
+        const updatedAccount = await getAccountInfo(
+          accountName,
+          network,
+          wallet.session
+        );
+
+        // Keep existing voting info, only balances change on refund
+        setAccount(prev => ({
+          ...updatedAccount,
+          vote_info: prev?.vote_info,
+          voting_resources: prev?.voting_resources,
+        }));
+      } catch {
+        // Ignore refresh errors
+      }
+    } catch (error: unknown) {
+      setMessage({
+        type: 'error',
+        text: `Error claiming refund: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /**
+   * Handle claiming accrued voter rewards
+   */
+  const handleClaimVoterRewards = async (): Promise<void> => {
+    if (!account || !wallet) {
+      setMessage({
+        type: 'error',
+        text: 'Please connect your wallet first',
+      });
+      return;
+    }
+
+    const accountName = account.account_name;
+
+    setLoading(true);
+    setMessage(null);
+
+    try {
+      const result = await claimVoterRewards(
+        accountName,
+        network,
+        wallet.session,
+        signingPermission || undefined
+      );
+
+      setMessage({
+        type: 'success',
+        text: `Successfully claimed ${result.claimed.toFixed(4)} XPR in voter rewards! Transaction ID: ${result.transactionId}`,
+        finality: trackFinality(result, () =>
+          RefreshTriggers.onRewardsClaimed(accountName, network)
+        ),
+      });
+
+      try {
+        const [updatedAccount, rewards] = await Promise.all([
+          getAccountInfo(accountName, network, wallet.session),
+          getVoterRewards(accountName, network, wallet.session),
+        ]);
+
+        setAccount(prev => ({
+          ...updatedAccount,
+          vote_info: prev?.vote_info,
+          voting_resources: prev?.voting_resources,
+        }));
+        setVoterRewards(rewards);
+      } catch {
+        // Ignore refresh errors
+      }
+    } catch (error: unknown) {
+      setMessage({
+        type: 'error',
+        text: `Error claiming voter rewards: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /**
+   * Handle permission changes (updateauth/deleteauth/linkauth/unlinkauth)
+   * @returns True once the transaction is signed
+   */
+  const handleUpdatePermissions = async (
+    changes: PermissionChange[]
+  ): Promise<boolean> => {
+    if (!account || !wallet) {
+      setMessage({
+        type: 'error',
+        text: 'Please connect your wallet first',
+      });
+      return false;
+    }
+
+    const accountName = account.account_name;
+
+    setLoading(true);
+    setMessage(null);
+
+    try {
+      const result = await updatePermissions(
+        changes,
+        network,
+        wallet.session,
+        signingPermission || undefined
+      );
+
+      setMessage({
+        type: 'success',
+        text: `Successfully updated permissions (${result.actions} change${result.actions !== 1 ? 's' : ''})! Transaction ID: ${result.transactionId}`,
+        finality: trackFinality(result, () =>
+          RefreshTriggers.onPermissionsUpdated(accountName, network)
+        ),
+      });
+
+      try {
+        const updatedAccount = await getAccountInfo(
+          accountName,
+          network,
+          wallet.session
+        );
+
+        // Only the permission tree changes
+        setAccount(prev => ({
+          ...updatedAccount,
+          vote_info: prev?.vote_info,
+          voting_resources: prev?.voting_resources,
+        }));
+      } catch {
+        // Ignore refresh errors
+      }
+
+      return true;
+    } catch (error: unknown) {
+      setMessage({
+        type: 'error',
+        text: `Error updating permissions: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+      });
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  };
+
   /**
    * Handle token transfer
    */
@@ -490,21 +1115,24 @@ const App: React.FC = () => {
 
     try {
       const result = await transferTokens(
-        transferData,
-        wallet.session as any,
+        {
+          ...transferData,
+          permission: transferData.permission || signingPermission || undefined,
+        },
+        wallet.session,
         network
       );
 
-      // Extract transaction ID using utility function
-      const transactionId = extractTransactionId(
-        result as Record<string, unknown>
-      );
-
       setMessage({
         type: 'success',
-        text: `Successfully transferred ${transferData.quantity} to ${transferData.to}! Transaction ID: ${transactionId}`,
+        text: `Successfully transferred ${transferData.quantity} to ${transferData.to}! Transaction ID: ${result.transactionId}`,
+        finality: trackFinality(result, () =>
+          RefreshTriggers.onTokensTransferred(transferData.from, network)
+        ),
       });
 
+      addRecentRecipient(transferData.to, network);
+
       // Clear cache after successful transfer
       clearTransferCache(transferData.from);
     } catch (error: unknown) {
@@ -519,11 +1147,92 @@ const App: React.FC = () => {
     }
   };
 
+  /**
+   * Handle a batch of transfers, one transaction per batch
+   * Stops at the first failed transaction so the wallet is not prompted
+   * again; later batches are reported as not sent.
+   */
+  const handleBatchTransfer = async (
+    batches: TransferData[][]
+  ): Promise<BatchTransferResult[]> => {
+    if (!wallet?.session) {
+      throw new Error('Wallet not connected');
+    }
+
+    setLoading(true);
+    setMessage(null);
+
+    const results: BatchTransferResult[] = [];
+    const signedTransactions: {
+      transactionId: string;
+      finality?: TransactionFinality;
+    }[] = [];
+
+    try {
+      for (const transfers of batches) {
+        if (results.some(result => result.error)) {
+          results.push({
+            transfers,
+            error: 'Not sent: a previous transaction failed',
+          });
+          continue;
+        }
+
+        try {
+          const result = await transferBatch(
+            transfers.map(transfer => ({
+              ...transfer,
+              permission: transfer.permission || signingPermission || undefined,
+            })),
+            wallet.session,
+            network
+          );
+          signedTransactions.push({
+            transactionId: result.transactionId,
+            finality: trackFinality(result, () =>
+              RefreshTriggers.onTokensTransferred(transfers[0].from, network)
+            ),
+          });
+          results.push({ transfers, transactionId: result.transactionId });
+        } catch (error: unknown) {
+          results.push({
+            transfers,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      }
+
+      const total = batches.reduce((sum, batch) => sum + batch.length, 0);
+      const sent = results
+        .filter(result => result.transactionId)
+        .reduce((sum, result) => sum + result.transfers.length, 0);
+      const single =
+        signedTransactions.length === 1 ? signedTransactions[0] : undefined;
+
+      setMessage({
+        type: sent === total ? 'success' : sent > 0 ? 'warning' : 'error',
+        text: `Sent ${sent} of ${total} transfers in ${signedTransactions.length} transaction${signedTransactions.length !== 1 ? 's' : ''}.${
+          single ? ` Transaction ID: ${single.transactionId}` : ''
+        }`,
+        finality: single?.finality,
+      });
+
+      if (sent > 0) {
+        clearTransferCache(batches[0][0].from);
+      }
+
+      return results;
+    } finally {
+      setLoading(false);
+    }
+  };
+
   /**
    * Handle payment request creation
    */
   const handleRequest = async (
-    requestData: RequestPaymentData
+    requestData: RequestPaymentData,
+    sign = false
   ): Promise<void> => {
     if (!wallet?.session) {
       throw new Error('Wallet not connected');
@@ -533,8 +1242,20 @@ const App: React.FC = () => {
     setMessage(null);
 
     try {
+      // Every request gets an ID the payer echoes in the transfer memo
+      const unsignedRequest = {
+        ...requestData,
+        requestId: requestData.requestId || createPaymentRequestId(),
+        createdAt: requestData.createdAt || new Date().toISOString(),
+      };
+
+      // Optionally sign the request so payers can detect edited links
+      const request = sign
+        ? await signPaymentRequest(unsignedRequest, wallet.session, network)
+        : unsignedRequest;
+
       // Generate shareable payment request URL
-      const shareableUrl = generatePaymentRequestUrl(requestData);
+      const shareableUrl = generatePaymentRequestUrl(request);
 
       // Simulate API call delay
       await new Promise(resolve => setTimeout(resolve, 1000));
@@ -546,10 +1267,10 @@ const App: React.FC = () => {
 
       // Store the generated URL for copying
       console.log('Setting urlRequestData with shareableUrl:', {
-        ...requestData,
+        ...request,
         shareableUrl,
       });
-      setUrlRequestData({ ...requestData, shareableUrl });
+      setUrlRequestData({ ...request, shareableUrl });
     } catch (error: unknown) {
       setMessage({
         type: 'error',
@@ -565,7 +1286,15 @@ const App: React.FC = () => {
   /**
    * Navigation handlers
    */
-  const navigateToPage = (page: 'home' | 'transfer' | 'request') => {
+  const navigateToPage = (
+    page:
+      | 'home'
+      | 'transfer'
+      | 'request'
+      | 'history'
+      | 'contacts'
+      | 'permissions'
+  ) => {
     setCurrentPage(page);
     // Don't clear message on navigation - let user see important messages
   };
@@ -588,13 +1317,34 @@ const App: React.FC = () => {
         setMessage={setMessage}
         handleConnectWallet={handleConnectWallet}
         handleDisconnectWallet={handleDisconnectWallet}
+        handleSwitchAccount={handleSwitchAccount}
+        handleDisconnectAccount={handleDisconnectAccount}
+        sessions={sessions}
+        signingPermission={signingPermission}
+        handleSigningPermissionChange={setSigningPermission}
+        handleUpdatePermissions={handleUpdatePermissions}
         handleDelegateVotes={handleDelegateVotes}
         handleNetworkChange={handleNetworkChange}
+        handleAddNetwork={handleAddNetwork}
+        handleRemoveNetwork={handleRemoveNetwork}
         handleStakeResources={handleStakeResources}
+        handleClaimRefund={handleClaimRefund}
+        handleClaimVoterRewards={handleClaimVoterRewards}
         handleSelectBP={handleSelectBP}
+        handleDelegateToProxy={handleDelegateToProxy}
+        handleRegisterProxy={handleRegisterProxy}
         handleTransfer={handleTransfer}
+        handleBatchTransfer={handleBatchTransfer}
         handleRequest={handleRequest}
+        handleSaveContact={saveContact}
+        handleRemoveContact={removeContact}
+        handleImportContacts={importContacts}
+        contacts={contacts}
+        recentRecipients={recentRecipients}
         blockProducers={blockProducers}
+        proxies={proxies}
+        voterRewards={voterRewards}
+        customNetworks={customNetworks}
         selectedBPs={selectedBPs}
         loading={loading}
         network={network}
@@ -657,6 +1407,36 @@ const App: React.FC = () => {
                 >
                   Request
                 </button>
+                <button
+                  onClick={() => navigateToPage('history')}
+                  className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                    currentPage === 'history'
+                      ? 'bg-blue-100 text-blue-700'
+                      : 'text-gray-500 hover:text-gray-700 hover:bg-gray-100'
+                  }`}
+                >
+                  History
+                </button>
+                <button
+                  onClick={() => navigateToPage('contacts')}
+                  className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                    currentPage === 'contacts'
+                      ? 'bg-blue-100 text-blue-700'
+                      : 'text-gray-500 hover:text-gray-700 hover:bg-gray-100'
+                  }`}
+                >
+                  Contacts
+                </button>
+                <button
+                  onClick={() => navigateToPage('permissions')}
+                  className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                    currentPage === 'permissions'
+                      ? 'bg-blue-100 text-blue-700'
+                      : 'text-gray-500 hover:text-gray-700 hover:bg-gray-100'
+                  }`}
+                >
+                  Permissions
+                </button>
               </div>
             </div>
 
@@ -706,6 +1486,36 @@ const App: React.FC = () => {
               >
                 Request
               </button>
+              <button
+                onClick={() => navigateToPage('history')}
+                className={`block px-3 py-2 rounded-md text-base font-medium w-full text-left ${
+                  currentPage === 'history'
+                    ? 'bg-blue-100 text-blue-700'
+                    : 'text-gray-500 hover:text-gray-700 hover:bg-gray-100'
+                }`}
+              >
+                History
+              </button>
+              <button
+                onClick={() => navigateToPage('contacts')}
+                className={`block px-3 py-2 rounded-md text-base font-medium w-full text-left ${
+                  currentPage === 'contacts'
+                    ? 'bg-blue-100 text-blue-700'
+                    : 'text-gray-500 hover:text-gray-700 hover:bg-gray-100'
+                }`}
+              >
+                Contacts
+              </button>
+              <button
+                onClick={() => navigateToPage('permissions')}
+                className={`block px-3 py-2 rounded-md text-base font-medium w-full text-left ${
+                  currentPage === 'permissions'
+                    ? 'bg-blue-100 text-blue-700'
+                    : 'text-gray-500 hover:text-gray-700 hover:bg-gray-100'
+                }`}
+              >
+                Permissions
+              </button>
             </div>
           </div>
         </div>
@@ -713,6 +1523,15 @@ const App: React.FC = () => {
 
       {/* Page Content */}
       {renderCurrentPage()}
+
+      {/* Pre-signing review */}
+      {transactionReview && (
+        <TransactionReview
+          review={transactionReview.review}
+          onApprove={() => handleTransactionReview(true)}
+          onReject={() => handleTransactionReview(false)}
+        />
+      )}
     </>
   );
 };
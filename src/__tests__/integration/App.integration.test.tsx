@@ -78,6 +78,8 @@ jest.mock('../../services', () => ({
     },
   ]),
   checkExistingSession: jest.fn().mockResolvedValue(null),
+  setTransactionReviewer: jest.fn(),
+  rpcPool: { startProbing: jest.fn(() => jest.fn()) },
   stakeResources: jest.fn().mockResolvedValue({
     transactionId: 'mock-stake-tx-id',
     actions: 1,
@@ -172,7 +174,7 @@ describe('App Integration Tests', () => {
 
   describe('Application Initialization', () => {
     test('should render the application with initial state', async () => {
-      (services.checkExistingSession as jest.Mock).mockResolvedValue(null);
+      (services.checkExistingSession as jest.Mock).mockResolvedValue([]);
 
       await act(async () => {
         render(<App />);
@@ -189,7 +191,7 @@ describe('App Integration Tests', () => {
     });
 
     test('should check for existing session on mount', async () => {
-      (services.checkExistingSession as jest.Mock).mockResolvedValue(null);
+      (services.checkExistingSession as jest.Mock).mockResolvedValue([]);
 
       await act(async () => {
         render(<App />);
@@ -199,9 +201,9 @@ describe('App Integration Tests', () => {
     });
 
     test('should restore existing session if found', async () => {
-      (services.checkExistingSession as jest.Mock).mockResolvedValue(
-        mockWallet
-      );
+      (services.checkExistingSession as jest.Mock).mockResolvedValue([
+        mockWallet,
+      ]);
 
       await act(async () => {
         render(<App />);
@@ -217,7 +219,7 @@ describe('App Integration Tests', () => {
   describe('Wallet Connection Flow', () => {
     test('should connect wallet successfully', async () => {
       const user = userEvent.setup();
-      (services.checkExistingSession as jest.Mock).mockResolvedValue(null);
+      (services.checkExistingSession as jest.Mock).mockResolvedValue([]);
       (services.connectWallet as jest.Mock).mockResolvedValue(mockWallet);
       (services.getBlockProducers as jest.Mock).mockResolvedValue(
         mockBlockProducers
@@ -242,7 +244,7 @@ describe('App Integration Tests', () => {
 
     test('should handle wallet connection failure', async () => {
       const user = userEvent.setup();
-      (services.checkExistingSession as jest.Mock).mockResolvedValue(null);
+      (services.checkExistingSession as jest.Mock).mockResolvedValue([]);
       (services.connectWallet as jest.Mock).mockRejectedValue(
         new Error('Connection failed')
       );
@@ -263,9 +265,9 @@ describe('App Integration Tests', () => {
 
     test('should disconnect wallet successfully', async () => {
       const user = userEvent.setup();
-      (services.checkExistingSession as jest.Mock).mockResolvedValue(
-        mockWallet
-      );
+      (services.checkExistingSession as jest.Mock).mockResolvedValue([
+        mockWallet,
+      ]);
       (services.disconnectWallet as jest.Mock).mockResolvedValue(undefined);
 
       await act(async () => {
@@ -289,7 +291,7 @@ describe('App Integration Tests', () => {
   describe('Network Switching', () => {
     test('should switch between testnet and mainnet', async () => {
       const user = userEvent.setup();
-      (services.checkExistingSession as jest.Mock).mockResolvedValue(null);
+      (services.checkExistingSession as jest.Mock).mockResolvedValue([]);
 
       await act(async () => {
         render(<App />);
@@ -303,9 +305,9 @@ describe('App Integration Tests', () => {
 
     test('should reset wallet state when switching networks', async () => {
       const user = userEvent.setup();
-      (services.checkExistingSession as jest.Mock).mockResolvedValue(
-        mockWallet
-      );
+      (services.checkExistingSession as jest.Mock).mockResolvedValue([
+        mockWallet,
+      ]);
 
       await act(async () => {
         render(<App />);
@@ -327,9 +329,9 @@ describe('App Integration Tests', () => {
   describe('Vote Delegation Flow', () => {
     test('should delegate votes to selected block producer', async () => {
       const user = userEvent.setup();
-      (services.checkExistingSession as jest.Mock).mockResolvedValue(
-        mockWallet
-      );
+      (services.checkExistingSession as jest.Mock).mockResolvedValue([
+        mockWallet,
+      ]);
       (services.getBlockProducers as jest.Mock).mockResolvedValue(
         mockBlockProducers
       );
@@ -378,9 +380,9 @@ describe('App Integration Tests', () => {
 
     test('should show error when no block producer is selected', async () => {
       const user = userEvent.setup();
-      (services.checkExistingSession as jest.Mock).mockResolvedValue(
-        mockWallet
-      );
+      (services.checkExistingSession as jest.Mock).mockResolvedValue([
+        mockWallet,
+      ]);
       (services.getBlockProducers as jest.Mock).mockResolvedValue(
         mockBlockProducers
       );
@@ -408,9 +410,9 @@ describe('App Integration Tests', () => {
   describe('Resource Staking Flow', () => {
     test('should stake resources successfully', async () => {
       const user = userEvent.setup();
-      (services.checkExistingSession as jest.Mock).mockResolvedValue(
-        mockWallet
-      );
+      (services.checkExistingSession as jest.Mock).mockResolvedValue([
+        mockWallet,
+      ]);
       (services.stakeResources as jest.Mock).mockResolvedValue({
         transactionId: 'stake-tx-id',
         actions: 1,
@@ -451,9 +453,9 @@ describe('App Integration Tests', () => {
 
     test('should unstake resources successfully', async () => {
       const user = userEvent.setup();
-      (services.checkExistingSession as jest.Mock).mockResolvedValue(
-        mockWallet
-      );
+      (services.checkExistingSession as jest.Mock).mockResolvedValue([
+        mockWallet,
+      ]);
       (services.unstakeResources as jest.Mock).mockResolvedValue({
         transactionId: 'unstake-tx-id',
         actions: 1,
@@ -509,9 +511,9 @@ describe('App Integration Tests', () => {
     });
 
     test('should handle service errors during operations', async () => {
-      (services.checkExistingSession as jest.Mock).mockResolvedValue(
-        mockWallet
-      );
+      (services.checkExistingSession as jest.Mock).mockResolvedValue([
+        mockWallet,
+      ]);
       (services.getBlockProducers as jest.Mock).mockRejectedValue(
         new Error('Service error')
       );
@@ -535,9 +537,9 @@ describe('App Integration Tests', () => {
 
   describe('Component Integration', () => {
     test('should display account information when wallet is connected', async () => {
-      (services.checkExistingSession as jest.Mock).mockResolvedValue(
-        mockWallet
-      );
+      (services.checkExistingSession as jest.Mock).mockResolvedValue([
+        mockWallet,
+      ]);
 
       await act(async () => {
         render(<App />);
@@ -552,9 +554,9 @@ describe('App Integration Tests', () => {
     });
 
     test('should show voting information when available', async () => {
-      (services.checkExistingSession as jest.Mock).mockResolvedValue(
-        mockWallet
-      );
+      (services.checkExistingSession as jest.Mock).mockResolvedValue([
+        mockWallet,
+      ]);
 
       await act(async () => {
         render(<App />);
@@ -568,9 +570,9 @@ describe('App Integration Tests', () => {
     });
 
     test('should show resource management interface when wallet is connected', async () => {
-      (services.checkExistingSession as jest.Mock).mockResolvedValue(
-        mockWallet
-      );
+      (services.checkExistingSession as jest.Mock).mockResolvedValue([
+        mockWallet,
+      ]);
 
       await act(async () => {
         render(<App />);
@@ -587,7 +589,7 @@ describe('App Integration Tests', () => {
   describe('State Management', () => {
     test('should maintain state consistency across operations', async () => {
       const user = userEvent.setup();
-      (services.checkExistingSession as jest.Mock).mockResolvedValue(null);
+      (services.checkExistingSession as jest.Mock).mockResolvedValue([]);
       (services.connectWallet as jest.Mock).mockResolvedValue(mockWallet);
       (services.getBlockProducers as jest.Mock).mockResolvedValue(
         mockBlockProducers
@@ -25,6 +25,8 @@ jest.mock('../../services', () => ({
   getAccountInfo: jest.fn(),
   getBlockProducers: jest.fn(),
   checkExistingSession: jest.fn(),
+  setTransactionReviewer: jest.fn(),
+  rpcPool: { startProbing: jest.fn(() => jest.fn()) },
   stakeResources: jest.fn(),
   unstakeResources: jest.fn(),
   getVoteInfo: jest.fn(),
@@ -90,9 +92,9 @@ describe('Voting Flow Integration Tests', () => {
 
   describe('Block Producer Loading', () => {
     test('should load block producers after wallet connection', async () => {
-      (services.checkExistingSession as jest.Mock).mockResolvedValue(
-        mockWallet
-      );
+      (services.checkExistingSession as jest.Mock).mockResolvedValue([
+        mockWallet,
+      ]);
       (services.getBlockProducers as jest.Mock).mockResolvedValue(
         mockBlockProducers
       );
@@ -116,9 +118,9 @@ describe('Voting Flow Integration Tests', () => {
     });
 
     test('should handle block producer loading failure', async () => {
-      (services.checkExistingSession as jest.Mock).mockResolvedValue(
-        mockWallet
-      );
+      (services.checkExistingSession as jest.Mock).mockResolvedValue([
+        mockWallet,
+      ]);
       (services.getBlockProducers as jest.Mock).mockRejectedValue(
         new Error('Failed to load producers')
       );
@@ -136,9 +138,9 @@ describe('Voting Flow Integration Tests', () => {
 
     test('should refresh block producers after network change', async () => {
       const user = userEvent.setup();
-      (services.checkExistingSession as jest.Mock).mockResolvedValue(
-        mockWallet
-      );
+      (services.checkExistingSession as jest.Mock).mockResolvedValue([
+        mockWallet,
+      ]);
       (services.getBlockProducers as jest.Mock).mockResolvedValue(
         mockBlockProducers
       );
@@ -171,9 +173,9 @@ describe('Voting Flow Integration Tests', () => {
   describe('Block Producer Selection', () => {
     test('should allow selection of block producer from dropdown', async () => {
       const user = userEvent.setup();
-      (services.checkExistingSession as jest.Mock).mockResolvedValue(
-        mockWallet
-      );
+      (services.checkExistingSession as jest.Mock).mockResolvedValue([
+        mockWallet,
+      ]);
       (services.getBlockProducers as jest.Mock).mockResolvedValue(
         mockBlockProducers
       );
@@ -195,9 +197,9 @@ describe('Voting Flow Integration Tests', () => {
 
     test('should show selected block producer information', async () => {
       const user = userEvent.setup();
-      (services.checkExistingSession as jest.Mock).mockResolvedValue(
-        mockWallet
-      );
+      (services.checkExistingSession as jest.Mock).mockResolvedValue([
+        mockWallet,
+      ]);
       (services.getBlockProducers as jest.Mock).mockResolvedValue(
         mockBlockProducers
       );
@@ -220,9 +222,9 @@ describe('Voting Flow Integration Tests', () => {
 
     test('should validate block producer name format', async () => {
       const user = userEvent.setup();
-      (services.checkExistingSession as jest.Mock).mockResolvedValue(
-        mockWallet
-      );
+      (services.checkExistingSession as jest.Mock).mockResolvedValue([
+        mockWallet,
+      ]);
       (services.getBlockProducers as jest.Mock).mockResolvedValue(
         mockBlockProducers
       );
@@ -247,9 +249,9 @@ describe('Voting Flow Integration Tests', () => {
   describe('Vote Delegation', () => {
     test('should delegate votes to selected block producer', async () => {
       const user = userEvent.setup();
-      (services.checkExistingSession as jest.Mock).mockResolvedValue(
-        mockWallet
-      );
+      (services.checkExistingSession as jest.Mock).mockResolvedValue([
+        mockWallet,
+      ]);
       (services.getBlockProducers as jest.Mock).mockResolvedValue(
         mockBlockProducers
       );
@@ -308,9 +310,9 @@ describe('Voting Flow Integration Tests', () => {
         },
       };
 
-      (services.checkExistingSession as jest.Mock).mockResolvedValue(
-        insufficientResourcesWallet
-      );
+      (services.checkExistingSession as jest.Mock).mockResolvedValue([
+        insufficientResourcesWallet,
+      ]);
       (services.getBlockProducers as jest.Mock).mockResolvedValue(
         mockBlockProducers
       );
@@ -343,9 +345,9 @@ describe('Voting Flow Integration Tests', () => {
 
     test('should handle delegation transaction failure', async () => {
       const user = userEvent.setup();
-      (services.checkExistingSession as jest.Mock).mockResolvedValue(
-        mockWallet
-      );
+      (services.checkExistingSession as jest.Mock).mockResolvedValue([
+        mockWallet,
+      ]);
       (services.getBlockProducers as jest.Mock).mockResolvedValue(
         mockBlockProducers
       );
@@ -378,9 +380,9 @@ describe('Voting Flow Integration Tests', () => {
 
     test('should require block producer selection before delegation', async () => {
       const user = userEvent.setup();
-      (services.checkExistingSession as jest.Mock).mockResolvedValue(
-        mockWallet
-      );
+      (services.checkExistingSession as jest.Mock).mockResolvedValue([
+        mockWallet,
+      ]);
       (services.getBlockProducers as jest.Mock).mockResolvedValue(
         mockBlockProducers
       );
@@ -407,9 +409,9 @@ describe('Voting Flow Integration Tests', () => {
 
   describe('Voting Information Display', () => {
     test('should display current voting information', async () => {
-      (services.checkExistingSession as jest.Mock).mockResolvedValue(
-        mockWallet
-      );
+      (services.checkExistingSession as jest.Mock).mockResolvedValue([
+        mockWallet,
+      ]);
 
       await act(async () => {
         render(<App />);
@@ -424,9 +426,9 @@ describe('Voting Flow Integration Tests', () => {
     });
 
     test('should display voting resource status', async () => {
-      (services.checkExistingSession as jest.Mock).mockResolvedValue(
-        mockWallet
-      );
+      (services.checkExistingSession as jest.Mock).mockResolvedValue([
+        mockWallet,
+      ]);
 
       await act(async () => {
         render(<App />);
@@ -441,9 +443,9 @@ describe('Voting Flow Integration Tests', () => {
 
     test('should update voting information after delegation', async () => {
       const user = userEvent.setup();
-      (services.checkExistingSession as jest.Mock).mockResolvedValue(
-        mockWallet
-      );
+      (services.checkExistingSession as jest.Mock).mockResolvedValue([
+        mockWallet,
+      ]);
       (services.getBlockProducers as jest.Mock).mockResolvedValue(
         mockBlockProducers
       );
@@ -491,9 +493,9 @@ describe('Voting Flow Integration Tests', () => {
         status: 'success',
       };
 
-      (services.checkExistingSession as jest.Mock).mockResolvedValue(
-        mockWallet
-      );
+      (services.checkExistingSession as jest.Mock).mockResolvedValue([
+        mockWallet,
+      ]);
       (services.getBlockProducers as jest.Mock).mockResolvedValue(
         mockBlockProducers
       );
@@ -528,9 +530,9 @@ describe('Voting Flow Integration Tests', () => {
 
     test('should handle transaction timeout', async () => {
       const user = userEvent.setup();
-      (services.checkExistingSession as jest.Mock).mockResolvedValue(
-        mockWallet
-      );
+      (services.checkExistingSession as jest.Mock).mockResolvedValue([
+        mockWallet,
+      ]);
       (services.getBlockProducers as jest.Mock).mockResolvedValue(
         mockBlockProducers
       );
@@ -563,9 +565,9 @@ describe('Voting Flow Integration Tests', () => {
   describe('Error Handling', () => {
     test('should handle network errors during vote delegation', async () => {
       const user = userEvent.setup();
-      (services.checkExistingSession as jest.Mock).mockResolvedValue(
-        mockWallet
-      );
+      (services.checkExistingSession as jest.Mock).mockResolvedValue([
+        mockWallet,
+      ]);
       (services.getBlockProducers as jest.Mock).mockResolvedValue(
         mockBlockProducers
       );
@@ -596,9 +598,9 @@ describe('Voting Flow Integration Tests', () => {
 
     test('should handle invalid block producer selection', async () => {
       const user = userEvent.setup();
-      (services.checkExistingSession as jest.Mock).mockResolvedValue(
-        mockWallet
-      );
+      (services.checkExistingSession as jest.Mock).mockResolvedValue([
+        mockWallet,
+      ]);
       (services.getBlockProducers as jest.Mock).mockResolvedValue(
         mockBlockProducers
       );
@@ -625,9 +627,9 @@ describe('Voting Flow Integration Tests', () => {
 
   describe('Performance and Optimization', () => {
     test('should not make duplicate API calls for block producers', async () => {
-      (services.checkExistingSession as jest.Mock).mockResolvedValue(
-        mockWallet
-      );
+      (services.checkExistingSession as jest.Mock).mockResolvedValue([
+        mockWallet,
+      ]);
       (services.getBlockProducers as jest.Mock).mockResolvedValue(
         mockBlockProducers
       );
@@ -649,9 +651,9 @@ describe('Voting Flow Integration Tests', () => {
     });
 
     test('should cache block producer data', async () => {
-      (services.checkExistingSession as jest.Mock).mockResolvedValue(
-        mockWallet
-      );
+      (services.checkExistingSession as jest.Mock).mockResolvedValue([
+        mockWallet,
+      ]);
       (services.getBlockProducers as jest.Mock).mockResolvedValue(
         mockBlockProducers
       );
@@ -96,7 +96,7 @@ describe('Wallet Flow Integration Tests', () => {
   describe('Wallet Connection', () => {
     test('should connect wallet and load account information', async () => {
       const user = userEvent.setup();
-      (walletService.checkExistingSession as jest.Mock).mockResolvedValue(null);
+      (walletService.checkExistingSession as jest.Mock).mockResolvedValue([]);
       (walletService.connectWallet as jest.Mock).mockResolvedValue(mockWallet);
       (blockchainService.getBlockProducers as jest.Mock).mockResolvedValue([]);
 
@@ -120,7 +120,7 @@ describe('Wallet Flow Integration Tests', () => {
 
     test('should handle wallet connection timeout', async () => {
       const user = userEvent.setup();
-      (walletService.checkExistingSession as jest.Mock).mockResolvedValue(null);
+      (walletService.checkExistingSession as jest.Mock).mockResolvedValue([]);
       (walletService.connectWallet as jest.Mock).mockRejectedValue(
         new Error('ProtonSDK timeout after 30 seconds')
       );
@@ -141,7 +141,7 @@ describe('Wallet Flow Integration Tests', () => {
 
     test('should handle wallet connection cancellation', async () => {
       const user = userEvent.setup();
-      (walletService.checkExistingSession as jest.Mock).mockResolvedValue(null);
+      (walletService.checkExistingSession as jest.Mock).mockResolvedValue([]);
       (walletService.connectWallet as jest.Mock).mockRejectedValue(
         new Error('Wallet connection cancelled or failed to establish session.')
       );
@@ -163,9 +163,9 @@ describe('Wallet Flow Integration Tests', () => {
 
   describe('Session Management', () => {
     test('should restore existing session on app load', async () => {
-      (walletService.checkExistingSession as jest.Mock).mockResolvedValue(
-        mockWallet
-      );
+      (walletService.checkExistingSession as jest.Mock).mockResolvedValue([
+        mockWallet,
+      ]);
 
       await act(async () => {
         render(<App />);
@@ -196,9 +196,9 @@ describe('Wallet Flow Integration Tests', () => {
 
     test('should clear session data on disconnect', async () => {
       const user = userEvent.setup();
-      (walletService.checkExistingSession as jest.Mock).mockResolvedValue(
-        mockWallet
-      );
+      (walletService.checkExistingSession as jest.Mock).mockResolvedValue([
+        mockWallet,
+      ]);
       (walletService.disconnectWallet as jest.Mock).mockResolvedValue(
         undefined
       );
@@ -224,7 +224,7 @@ describe('Wallet Flow Integration Tests', () => {
   describe('Network-Specific Wallet Operations', () => {
     test('should connect to testnet by default', async () => {
       const user = userEvent.setup();
-      (walletService.checkExistingSession as jest.Mock).mockResolvedValue(null);
+      (walletService.checkExistingSession as jest.Mock).mockResolvedValue([]);
       (walletService.connectWallet as jest.Mock).mockResolvedValue(mockWallet);
 
       await act(async () => {
@@ -241,7 +241,7 @@ describe('Wallet Flow Integration Tests', () => {
 
     test('should connect to mainnet when network is switched', async () => {
       const user = userEvent.setup();
-      (walletService.checkExistingSession as jest.Mock).mockResolvedValue(null);
+      (walletService.checkExistingSession as jest.Mock).mockResolvedValue([]);
       (walletService.connectWallet as jest.Mock).mockResolvedValue(mockWallet);
 
       await act(async () => {
@@ -261,7 +261,7 @@ describe('Wallet Flow Integration Tests', () => {
     });
 
     test('should check existing session for current network', async () => {
-      (walletService.checkExistingSession as jest.Mock).mockResolvedValue(null);
+      (walletService.checkExistingSession as jest.Mock).mockResolvedValue([]);
 
       await act(async () => {
         render(<App />);
@@ -276,7 +276,7 @@ describe('Wallet Flow Integration Tests', () => {
   describe('Account Information Loading', () => {
     test('should load comprehensive account information on connection', async () => {
       const user = userEvent.setup();
-      (walletService.checkExistingSession as jest.Mock).mockResolvedValue(null);
+      (walletService.checkExistingSession as jest.Mock).mockResolvedValue([]);
       (walletService.connectWallet as jest.Mock).mockResolvedValue(mockWallet);
 
       await act(async () => {
@@ -294,9 +294,9 @@ describe('Wallet Flow Integration Tests', () => {
     });
 
     test('should display voting information when available', async () => {
-      (walletService.checkExistingSession as jest.Mock).mockResolvedValue(
-        mockWallet
-      );
+      (walletService.checkExistingSession as jest.Mock).mockResolvedValue([
+        mockWallet,
+      ]);
 
       await act(async () => {
         render(<App />);
@@ -310,9 +310,9 @@ describe('Wallet Flow Integration Tests', () => {
     });
 
     test('should display resource information when available', async () => {
-      (walletService.checkExistingSession as jest.Mock).mockResolvedValue(
-        mockWallet
-      );
+      (walletService.checkExistingSession as jest.Mock).mockResolvedValue([
+        mockWallet,
+      ]);
 
       await act(async () => {
         render(<App />);
@@ -328,9 +328,9 @@ describe('Wallet Flow Integration Tests', () => {
 
   describe('Wallet State Management', () => {
     test('should maintain wallet state across component re-renders', async () => {
-      (walletService.checkExistingSession as jest.Mock).mockResolvedValue(
-        mockWallet
-      );
+      (walletService.checkExistingSession as jest.Mock).mockResolvedValue([
+        mockWallet,
+      ]);
 
       const { rerender } = render(<App />);
 
@@ -348,9 +348,9 @@ describe('Wallet Flow Integration Tests', () => {
 
     test('should reset wallet state when network changes', async () => {
       const user = userEvent.setup();
-      (walletService.checkExistingSession as jest.Mock).mockResolvedValue(
-        mockWallet
-      );
+      (walletService.checkExistingSession as jest.Mock).mockResolvedValue([
+        mockWallet,
+      ]);
 
       await act(async () => {
         render(<App />);
@@ -382,7 +382,7 @@ describe('Wallet Flow Integration Tests', () => {
   describe('Error Handling', () => {
     test('should handle wallet service errors gracefully', async () => {
       const user = userEvent.setup();
-      (walletService.checkExistingSession as jest.Mock).mockResolvedValue(null);
+      (walletService.checkExistingSession as jest.Mock).mockResolvedValue([]);
       (walletService.connectWallet as jest.Mock).mockRejectedValue(
         new Error('Wallet service unavailable')
       );
@@ -403,7 +403,7 @@ describe('Wallet Flow Integration Tests', () => {
 
     test('should handle blockchain service errors during wallet connection', async () => {
       const user = userEvent.setup();
-      (walletService.checkExistingSession as jest.Mock).mockResolvedValue(null);
+      (walletService.checkExistingSession as jest.Mock).mockResolvedValue([]);
       (walletService.connectWallet as jest.Mock).mockRejectedValue(
         new Error('Failed to get account info')
       );
@@ -424,9 +424,9 @@ describe('Wallet Flow Integration Tests', () => {
 
     test('should handle session removal errors', async () => {
       const user = userEvent.setup();
-      (walletService.checkExistingSession as jest.Mock).mockResolvedValue(
-        mockWallet
-      );
+      (walletService.checkExistingSession as jest.Mock).mockResolvedValue([
+        mockWallet,
+      ]);
       (walletService.disconnectWallet as jest.Mock).mockRejectedValue(
         new Error('Failed to remove session')
       );
@@ -453,7 +453,7 @@ describe('Wallet Flow Integration Tests', () => {
   describe('Performance and Optimization', () => {
     test('should not make duplicate API calls during wallet connection', async () => {
       const user = userEvent.setup();
-      (walletService.checkExistingSession as jest.Mock).mockResolvedValue(null);
+      (walletService.checkExistingSession as jest.Mock).mockResolvedValue([]);
       (walletService.connectWallet as jest.Mock).mockResolvedValue(mockWallet);
 
       await act(async () => {
@@ -476,9 +476,9 @@ describe('Wallet Flow Integration Tests', () => {
     });
 
     test('should cache wallet state to prevent unnecessary re-renders', async () => {
-      (walletService.checkExistingSession as jest.Mock).mockResolvedValue(
-        mockWallet
-      );
+      (walletService.checkExistingSession as jest.Mock).mockResolvedValue([
+        mockWallet,
+      ]);
 
       const { rerender } = render(<App />);
 
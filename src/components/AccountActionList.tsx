@@ -0,0 +1,170 @@
+/**
+ * AccountActionList Component
+ *
+ * Paginated list of on-chain actions for an account, as reported by the
+ * network's history API. Complements the local transaction history with
+ * activity signed from other wallets or devices.
+ *
+ * Features:
+ * - Transfers (in/out), producer votes and XPR stake/unstake
+ * - Explorer link per transaction
+ * - Previous/next pagination with total count
+ * - Loading and empty states
+ *
+ * @component
+ * @param {string} accountName - Account the actions belong to
+ * @param {Object} actionsPage - Current page of normalized actions
+ * @param {string} network - Network type for explorer links
+ * @param {boolean} loading - Loading state while a page is fetched
+ * @param {Function} onPageChange - Callback with the requested page index
+ * @returns {JSX.Element} Account action list component
+ */
+import React from 'react';
+
+import type { AccountAction, AccountActionListProps } from '../types';
+import { formatTransactionId } from '../utils/helpers';
+import { getExplorerUrl } from '../utils/transactionUtils';
+
+const TYPE_LABELS: Record<AccountAction['type'], string> = {
+  transfer: 'Transfer',
+  voteproducer: 'Vote',
+  stakexpr: 'Stake',
+  unstakexpr: 'Unstake',
+};
+
+/**
+ * Summarize an action for the table
+ */
+const describeAction = (action: AccountAction): string => {
+  switch (action.type) {
+    case 'transfer':
+      return action.direction === 'in'
+        ? `${action.quantity} ← ${action.from}`
+        : `${action.quantity} → ${action.to}`;
+    case 'voteproducer':
+      return action.proxy
+        ? `via ${action.proxy}`
+        : action.producers.join(', ') || 'Cleared votes';
+    default:
+      return action.receiver && action.receiver !== action.from
+        ? `${action.quantity} for ${action.receiver}`
+        : action.quantity;
+  }
+};
+
+const AccountActionList: React.FC<AccountActionListProps> = ({
+  accountName,
+  actionsPage,
+  network,
+  loading,
+  onPageChange,
+}) => {
+  const actions = actionsPage?.actions || [];
+  const page = actionsPage?.page || 0;
+  const totalPages = actionsPage
+    ? Math.max(1, Math.ceil(actionsPage.total / actionsPage.pageSize))
+    : 1;
+
+  return (
+    <div className='space-y-4'>
+      {loading && actions.length === 0 ? (
+        <p className='text-sm text-gray-500'>Loading on-chain activity...</p>
+      ) : actions.length === 0 ? (
+        <p className='text-sm text-gray-500 text-center py-8'>
+          No on-chain activity found for {accountName}
+        </p>
+      ) : (
+        <div
+          className={`overflow-x-auto ${loading ? 'opacity-50' : ''}`}
+          aria-busy={loading}
+        >
+          <table className='w-full text-sm'>
+            <thead>
+              <tr className='text-left text-gray-500 border-b border-gray-200'>
+                <th className='py-2 font-medium'>Date</th>
+                <th className='py-2 font-medium'>Type</th>
+                <th className='py-2 font-medium'>Details</th>
+                <th className='py-2 font-medium'>Transaction</th>
+                <th className='py-2 font-medium text-right'>Block</th>
+              </tr>
+            </thead>
+            <tbody>
+              {actions.map((action, index) => (
+                <tr
+                  key={`${action.trx_id}-${index}`}
+                  className='border-b border-gray-100'
+                >
+                  <td className='py-2 text-gray-600'>
+                    {action.timestamp
+                      ? new Date(action.timestamp).toLocaleString()
+                      : '—'}
+                  </td>
+                  <td className='py-2 font-medium text-gray-900'>
+                    {TYPE_LABELS[action.type]}
+                    {action.type === 'transfer' && (
+                      <span
+                        className={`ml-2 px-2 py-0.5 rounded text-xs ${
+                          action.direction === 'in'
+                            ? 'text-green-700 bg-green-50'
+                            : 'text-gray-700 bg-gray-50'
+                        }`}
+                      >
+                        {action.direction === 'in' ? 'In' : 'Out'}
+                      </span>
+                    )}
+                  </td>
+                  <td className='py-2 text-gray-700'>
+                    {describeAction(action)}
+                    {action.type === 'transfer' && action.memo && (
+                      <div className='text-xs text-gray-500 break-all'>
+                        {action.memo}
+                      </div>
+                    )}
+                  </td>
+                  <td className='py-2 font-mono'>
+                    <a
+                      href={getExplorerUrl(action.trx_id, network)}
+                      target='_blank'
+                      rel='noopener noreferrer'
+                      className='text-blue-600 hover:text-blue-800'
+                    >
+                      {formatTransactionId(action.trx_id)}
+                    </a>
+                  </td>
+                  <td className='py-2 text-right text-gray-600'>
+                    {action.block_num || '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Pagination */}
+      {actionsPage && actionsPage.total > 0 && (
+        <div className='flex items-center justify-between text-sm'>
+          <button
+            onClick={() => onPageChange(page - 1)}
+            disabled={loading || page === 0}
+            className='btn-secondary disabled:opacity-50'
+          >
+            ← Newer
+          </button>
+          <span className='text-gray-600'>
+            Page {page + 1} of {totalPages} · {actionsPage.total} actions
+          </span>
+          <button
+            onClick={() => onPageChange(page + 1)}
+            disabled={loading || !actionsPage.hasMore}
+            className='btn-secondary disabled:opacity-50'
+          >
+            Older →
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AccountActionList;
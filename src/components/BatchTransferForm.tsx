@@ -0,0 +1,318 @@
+/**
+ * BatchTransferForm Component - XPR Delegation Demo
+ *
+ * Pays out to many accounts at once from a CSV upload. Every row is
+ * validated before anything is signed, and transfers are packed into as
+ * few transactions as the sender's resources allow.
+ *
+ * Features:
+ * - CSV upload or paste (account, amount, memo)
+ * - Per-row format validation and on-chain account existence check
+ * - Exchange deposit memo rules
+ * - Batch total vs liquid balance
+ * - Transaction packing within CPU/NET limits
+ * - Per-row result reporting after sending
+ *
+ * @fileoverview Batch token transfer form from CSV
+ */
+
+import React, { useMemo, useState } from 'react';
+import type { BatchTransferFormProps, BatchTransferRow } from '../types';
+import {
+  getBatchTotal,
+  parseTransferCsv,
+  planTransferBatches,
+  toTransferData,
+  validateTransferRows,
+} from '../utils/batchTransferUtils';
+import { formatTransactionId } from '../utils/helpers';
+
+const STATUS_STYLES: Record<BatchTransferRow['status'], string> = {
+  valid: 'text-gray-700 bg-gray-50',
+  invalid: 'text-red-700 bg-red-50',
+  sent: 'text-green-700 bg-green-50',
+  failed: 'text-red-700 bg-red-50',
+};
+
+/**
+ * BatchTransferForm - CSV batch transfer form
+ */
+const BatchTransferForm: React.FC<BatchTransferFormProps> = ({
+  token,
+  account,
+  network,
+  loading = false,
+  onCheckAccounts,
+  onSubmit,
+}) => {
+  // Form state
+  const [csvText, setCsvText] = useState('');
+  const [rows, setRows] = useState<BatchTransferRow[]>([]);
+  const [checking, setChecking] = useState(false);
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const sender = account?.account_name || '';
+  const validRows = useMemo(
+    () => rows.filter(row => row.status === 'valid'),
+    [rows]
+  );
+  const invalidCount = rows.filter(row => row.status === 'invalid').length;
+  const total = token ? getBatchTotal(validRows, token.precision) : 0;
+  const liquid = token ? parseFloat(token.liquid) || 0 : 0;
+  const insufficient = total > liquid;
+
+  // Transfers grouped per transaction for the current valid rows
+  const batches = useMemo(
+    () =>
+      token
+        ? planTransferBatches(
+            validRows.map(row => toTransferData(row, token, sender)),
+            account
+          )
+        : [],
+    [validRows, token, sender, account]
+  );
+
+  /**
+   * Parse, validate and check recipients for the entered CSV
+   */
+  const handleValidate = async (text: string = csvText) => {
+    if (!token || !sender) return;
+
+    setError(null);
+    const validated = validateTransferRows(
+      parseTransferCsv(text),
+      token,
+      sender,
+      network
+    );
+    setRows(validated);
+
+    if (validated.length === 0) {
+      setError('No transfers found in the CSV');
+      return;
+    }
+
+    const recipients = validated
+      .filter(row => row.status === 'valid')
+      .map(row => row.to);
+    if (recipients.length === 0) return;
+
+    try {
+      setChecking(true);
+      const existence = await onCheckAccounts(recipients);
+      setRows(
+        validated.map(row =>
+          row.status === 'valid' && existence[row.to] === false
+            ? {
+                ...row,
+                status: 'invalid',
+                errors: [...row.errors, 'Account does not exist'],
+              }
+            : row
+        )
+      );
+    } catch (err: unknown) {
+      setError(
+        `Could not verify recipients: ${
+          err instanceof Error ? err.message : 'Unknown error'
+        }`
+      );
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  /**
+   * Load CSV file contents into the editor and validate them
+   */
+  const handleFileLoaded = async (text: string) => {
+    setCsvText(text);
+    await handleValidate(text);
+  };
+
+  /**
+   * Send every planned batch and report results per row
+   */
+  const handleSend = async () => {
+    if (batches.length === 0 || insufficient || sending) return;
+
+    try {
+      setSending(true);
+      setError(null);
+
+      const results = await onSubmit(batches);
+
+      // Batches keep valid-row order, so results map back positionally
+      const outcomes = results.flatMap(result =>
+        result.transfers.map(() => result)
+      );
+      let validIndex = 0;
+      setRows(prev =>
+        prev.map(row => {
+          if (row.status !== 'valid') return row;
+          const outcome = outcomes[validIndex++];
+          if (!outcome) return row;
+          return outcome.transactionId
+            ? { ...row, status: 'sent', transactionId: outcome.transactionId }
+            : {
+                ...row,
+                status: 'failed',
+                errors: [outcome.error || 'Transaction failed'],
+              };
+        })
+      );
+    } catch (err: unknown) {
+      setError(
+        `Batch transfer failed: ${
+          err instanceof Error ? err.message : 'Unknown error'
+        }`
+      );
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const isBusy = loading || checking || sending;
+
+  return (
+    <div className='bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4'>
+      {/* Header */}
+      <div>
+        <h3 className='text-lg font-semibold text-gray-900'>Batch Transfer</h3>
+        <p className='text-sm text-gray-600 mt-1'>
+          Upload or paste a CSV with one transfer per line:{' '}
+          <span className='font-mono'>account,amount,memo</span>
+        </p>
+      </div>
+
+      {/* CSV Input */}
+      <div className='space-y-2'>
+        <input
+          type='file'
+          accept='.csv,text/csv'
+          onChange={async e => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) await handleFileLoaded(await file.text());
+          }}
+          disabled={isBusy}
+          className='block w-full text-sm text-gray-600'
+        />
+        <textarea
+          value={csvText}
+          onChange={e => setCsvText(e.target.value)}
+          placeholder={'alice,10.0000,Weekly payout\nbob,2.5,Bonus'}
+          rows={5}
+          disabled={isBusy}
+          className='w-full px-4 py-3 border border-gray-300 rounded-lg font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+        />
+        <button
+          type='button'
+          onClick={() => handleValidate()}
+          disabled={isBusy || !csvText.trim() || !token}
+          className='btn-secondary disabled:opacity-50'
+        >
+          {checking ? 'Checking accounts...' : 'Validate'}
+        </button>
+      </div>
+
+      {error && (
+        <p className='text-sm text-red-600' role='alert'>
+          {error}
+        </p>
+      )}
+
+      {rows.length > 0 && token && (
+        <>
+          {/* Summary */}
+          <div
+            className={`p-4 rounded-lg border text-sm ${
+              insufficient
+                ? 'bg-red-50 border-red-200 text-red-800'
+                : 'bg-blue-50 border-blue-200 text-blue-900'
+            }`}
+          >
+            <div className='flex justify-between'>
+              <span>
+                {validRows.length} valid · {invalidCount} invalid
+              </span>
+              <span className='font-semibold'>
+                Total {total.toFixed(token.precision)} {token.symbol}
+              </span>
+            </div>
+            <div className='flex justify-between mt-1'>
+              <span>
+                {batches.length} transaction{batches.length !== 1 ? 's' : ''}
+              </span>
+              <span>
+                Available {token.liquid} {token.symbol}
+              </span>
+            </div>
+            {insufficient && (
+              <p className='mt-2 font-medium'>
+                Batch total exceeds your liquid balance
+              </p>
+            )}
+          </div>
+
+          {/* Rows */}
+          <div className='overflow-x-auto max-h-80 overflow-y-auto'>
+            <table className='w-full text-sm'>
+              <thead>
+                <tr className='text-left text-gray-500 border-b border-gray-200'>
+                  <th className='py-2 font-medium'>Line</th>
+                  <th className='py-2 font-medium'>Account</th>
+                  <th className='py-2 font-medium text-right'>Amount</th>
+                  <th className='py-2 font-medium'>Memo</th>
+                  <th className='py-2 font-medium'>Result</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr key={row.line} className='border-b border-gray-100'>
+                    <td className='py-2 text-gray-500'>{row.line}</td>
+                    <td className='py-2 font-medium text-gray-900'>{row.to}</td>
+                    <td className='py-2 text-right font-mono'>{row.amount}</td>
+                    <td className='py-2 text-gray-600 break-all'>{row.memo}</td>
+                    <td className='py-2'>
+                      <span
+                        className={`px-2 py-0.5 rounded text-xs capitalize ${STATUS_STYLES[row.status]}`}
+                      >
+                        {row.status}
+                      </span>
+                      {row.transactionId && (
+                        <span className='ml-2 text-xs font-mono text-gray-600'>
+                          {formatTransactionId(row.transactionId)}
+                        </span>
+                      )}
+                      {row.errors.length > 0 && (
+                        <div className='text-xs text-red-600'>
+                          {row.errors.join('; ')}
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <button
+            type='button'
+            onClick={handleSend}
+            disabled={isBusy || batches.length === 0 || insufficient}
+            className='btn-primary w-full disabled:opacity-50'
+          >
+            {sending
+              ? 'Sending...'
+              : `Send ${validRows.length} transfer${validRows.length !== 1 ? 's' : ''} in ${batches.length} transaction${batches.length !== 1 ? 's' : ''}`}
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BatchTransferForm;
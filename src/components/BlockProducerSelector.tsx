@@ -11,12 +11,18 @@
  * - Loading states and empty state handling
  * - Responsive design with Tailwind CSS
  * - Keyboard navigation support
+ * - Vote share display and link to producer details
+ * - Full producer list with virtualized rendering
+ * - Sort by rank, name or votes and active-only filter
+ * - Vote change preview (added/removed/kept) before signing
  *
  * @component
  * @param {Array} blockProducers - Array of Block Producer objects
  * @param {string} selectedBP - Currently selected Block Producer name
  * @param {Function} onSelectBP - Callback when BP is selected
  * @param {Function} onDelegateVotes - Callback to delegate votes
+ * @param {Function} onViewProducer - Callback to open a producer's detail view
+ * @param {Object} voteInfo - Current vote information for the change preview
  * @param {boolean} loading - Loading state for delegation
  * @returns {JSX.Element} Block Producer selector component
  */
@@ -24,19 +30,53 @@
 import React, { useState, useMemo, useEffect, useRef } from 'react';
 
 import { CardLayout } from '../layout';
-import type { BlockProducerSelectorProps } from '../types';
+import VoteChangePreview from './VoteChangePreview';
+import type {
+  BlockProducer,
+  BlockProducerSelectorProps,
+  ProducerStatus,
+} from '../types';
+
+type ProducerSort = 'rank' | 'name' | 'votes';
+
+// Virtualized list sizing (rows have a fixed height)
+const ROW_HEIGHT = 68;
+const LIST_HEIGHT = 240;
+const OVERSCAN = 4;
+
+const STATUS_STYLES: Record<ProducerStatus, string> = {
+  active: 'bg-green-100 text-green-800',
+  standby: 'bg-yellow-100 text-yellow-800',
+  inactive: 'bg-gray-100 text-gray-600',
+};
+
+const PRODUCER_SORTS: Record<
+  ProducerSort,
+  (a: BlockProducer, b: BlockProducer) => number
+> = {
+  rank: (a, b) => (a.rank ?? Infinity) - (b.rank ?? Infinity),
+  name: (a, b) => a.name.localeCompare(b.name),
+  votes: (a, b) => Number(b.total_votes || 0) - Number(a.total_votes || 0),
+};
 
 const BlockProducerSelector: React.FC<BlockProducerSelectorProps> = ({
   blockProducers,
   selectedBPs,
   onSelectBP,
   onDelegateVotes,
+  onViewProducer,
+  voteInfo,
   loading,
 }) => {
   // Component state management
   const [isOpen, setIsOpen] = useState(false); // Dropdown open/close state
   const [searchTerm, setSearchTerm] = useState(''); // Search input value
+  const [sortBy, setSortBy] = useState<ProducerSort>('rank'); // List sort order
+  const [activeOnly, setActiveOnly] = useState(false); // Hide standby/inactive producers
+  const [scrollTop, setScrollTop] = useState(0); // List scroll offset for virtualization
+  const [showPreview, setShowPreview] = useState(false); // Vote change confirmation step
   const dropdownRef = useRef<HTMLDivElement>(null); // Reference for click outside detection
+  const listRef = useRef<HTMLDivElement>(null); // Scrollable producer list
 
   /**
    * Handle click outside dropdown to close it
@@ -63,18 +103,37 @@ const BlockProducerSelector: React.FC<BlockProducerSelectorProps> = ({
   }, []);
 
   /**
-   * Filter block producers based on search term
+   * Filter and sort block producers
    * Searches both name and URL fields for comprehensive results
    */
   const filteredProducers = useMemo(() => {
-    if (!searchTerm) return blockProducers;
+    const term = searchTerm.toLowerCase();
 
-    return blockProducers.filter(
-      bp =>
-        bp.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        bp.url.toLowerCase().includes(searchTerm.toLowerCase())
-    );
-  }, [blockProducers, searchTerm]);
+    return blockProducers
+      .filter(bp => !activeOnly || bp.status === 'active')
+      .filter(
+        bp =>
+          !term ||
+          bp.name.toLowerCase().includes(term) ||
+          bp.url.toLowerCase().includes(term)
+      )
+      .sort(PRODUCER_SORTS[sortBy]);
+  }, [blockProducers, searchTerm, activeOnly, sortBy]);
+
+  // Reset scroll position when the visible list changes or the list reopens
+  // (the list remounts at the top when reopened)
+  useEffect(() => {
+    if (listRef.current) listRef.current.scrollTop = 0;
+    setScrollTop(0);
+  }, [searchTerm, activeOnly, sortBy, isOpen]);
+
+  // Only render rows inside the scroll viewport (plus overscan)
+  const startIndex = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const endIndex = Math.min(
+    filteredProducers.length,
+    Math.ceil((scrollTop + LIST_HEIGHT) / ROW_HEIGHT) + OVERSCAN
+  );
+  const visibleProducers = filteredProducers.slice(startIndex, endIndex);
 
   /**
    * Handle Block Producer selection (toggle)
@@ -92,10 +151,16 @@ const BlockProducerSelector: React.FC<BlockProducerSelectorProps> = ({
    */
   const handleDelegateVotes = (): void => {
     if (selectedBPs.length > 0) {
+      setShowPreview(false);
       onDelegateVotes(selectedBPs);
     }
   };
 
+  // Editing the selection invalidates the previewed diff
+  useEffect(() => {
+    setShowPreview(false);
+  }, [selectedBPs]);
+
   // Find selected Block Producer data for display
   const selectedBPData = blockProducers.filter(bp =>
     selectedBPs.includes(bp.name)
@@ -193,7 +258,7 @@ const BlockProducerSelector: React.FC<BlockProducerSelectorProps> = ({
 
           {/* Dropdown Menu */}
           {isOpen && (
-            <div className='absolute z-50 w-full mt-1 bg-white border border-gray-300 rounded-lg shadow-lg max-h-80 overflow-hidden'>
+            <div className='absolute z-50 w-full mt-1 bg-white border border-gray-300 rounded-lg shadow-lg overflow-hidden'>
               {/* Search Input */}
               <div className='p-3 border-b border-gray-200'>
                 <div className='relative'>
@@ -218,60 +283,132 @@ const BlockProducerSelector: React.FC<BlockProducerSelectorProps> = ({
                     className='w-full pl-10 pr-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent'
                   />
                 </div>
+                <div className='flex items-center justify-between mt-2 text-sm'>
+                  <label className='flex items-center gap-2 text-gray-600'>
+                    Sort by
+                    <select
+                      value={sortBy}
+                      onChange={e => setSortBy(e.target.value as ProducerSort)}
+                      className='border border-gray-300 rounded-md px-2 py-1 text-sm'
+                      aria-label='Sort Block Producers'
+                    >
+                      <option value='rank'>Rank</option>
+                      <option value='name'>Name</option>
+                      <option value='votes'>Votes</option>
+                    </select>
+                  </label>
+                  <label className='flex items-center gap-2 text-gray-600'>
+                    <input
+                      type='checkbox'
+                      checked={activeOnly}
+                      onChange={e => setActiveOnly(e.target.checked)}
+                    />
+                    Active only
+                  </label>
+                </div>
+                <div className='mt-1 text-xs text-gray-400'>
+                  {filteredProducers.length} of {blockProducers.length}{' '}
+                  producers
+                </div>
               </div>
 
               {/* Producer List */}
-              <div className='max-h-60 overflow-y-auto'>
+              <div
+                ref={listRef}
+                className='overflow-y-auto'
+                style={{ maxHeight: LIST_HEIGHT }}
+                onScroll={e => setScrollTop(e.currentTarget.scrollTop)}
+              >
                 {filteredProducers.length > 0 ? (
-                  filteredProducers.map((bp, index) => (
-                    <button
-                      key={index}
-                      type='button'
-                      className={`w-full text-left p-3 cursor-pointer hover:bg-gray-50 border-b border-gray-100 last:border-b-0 ${
-                        selectedBPs.includes(bp.name) ? 'bg-primary-50' : ''
-                      }`}
-                      onClick={() => handleSelectBP(bp.name)}
-                      onKeyDown={e => {
-                        if (e.key === 'Enter' || e.key === ' ') {
-                          handleSelectBP(bp.name);
-                        }
-                      }}
-                      disabled={
-                        !selectedBPs.includes(bp.name) &&
-                        selectedBPs.length >= 4
-                      }
-                    >
-                      <div className='flex justify-between items-center'>
-                        <div className='flex-1'>
-                          <div className='font-medium text-gray-900'>
-                            {bp.name}
-                          </div>
-                          <div className='text-sm text-gray-600 truncate'>
-                            {bp.url}
+                  <div
+                    style={{
+                      height: filteredProducers.length * ROW_HEIGHT,
+                      paddingTop: startIndex * ROW_HEIGHT,
+                      boxSizing: 'border-box',
+                    }}
+                  >
+                    {visibleProducers.map(bp => (
+                      <div
+                        key={bp.name}
+                        style={{ height: ROW_HEIGHT }}
+                        className={`flex items-stretch border-b border-gray-100 overflow-hidden ${
+                          selectedBPs.includes(bp.name) ? 'bg-primary-50' : ''
+                        }`}
+                      >
+                        <button
+                          type='button'
+                          className='flex-1 text-left p-3 cursor-pointer hover:bg-gray-50'
+                          onClick={() => handleSelectBP(bp.name)}
+                          onKeyDown={e => {
+                            if (e.key === 'Enter' || e.key === ' ') {
+                              handleSelectBP(bp.name);
+                            }
+                          }}
+                          disabled={
+                            !selectedBPs.includes(bp.name) &&
+                            selectedBPs.length >= 4
+                          }
+                        >
+                          <div className='flex justify-between items-center'>
+                            <div className='flex-1'>
+                              <div className='font-medium text-gray-900'>
+                                {bp.rank !== undefined && (
+                                  <span className='mr-2 text-xs font-normal text-gray-400'>
+                                    #{bp.rank}
+                                  </span>
+                                )}
+                                {bp.name}
+                                {bp.status && (
+                                  <span
+                                    className={`ml-2 px-1.5 py-0.5 rounded text-xs font-normal capitalize ${STATUS_STYLES[bp.status]}`}
+                                  >
+                                    {bp.status}
+                                  </span>
+                                )}
+                                {bp.vote_share !== undefined && (
+                                  <span className='ml-2 text-xs font-normal text-gray-500'>
+                                    {bp.vote_share.toFixed(2)}%
+                                  </span>
+                                )}
+                              </div>
+                              <div className='text-sm text-gray-600 truncate'>
+                                {bp.url}
+                              </div>
+                            </div>
+                            {selectedBPs.includes(bp.name) && (
+                              <svg
+                                className='w-5 h-5 text-primary-500'
+                                fill='currentColor'
+                                viewBox='0 0 20 20'
+                              >
+                                <path
+                                  fillRule='evenodd'
+                                  d='M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z'
+                                  clipRule='evenodd'
+                                />
+                              </svg>
+                            )}
+                            {!selectedBPs.includes(bp.name) &&
+                              selectedBPs.length >= 4 && (
+                                <span className='text-xs text-gray-400'>
+                                  Max reached
+                                </span>
+                              )}
                           </div>
-                        </div>
-                        {selectedBPs.includes(bp.name) && (
-                          <svg
-                            className='w-5 h-5 text-primary-500'
-                            fill='currentColor'
-                            viewBox='0 0 20 20'
+                        </button>
+                        {onViewProducer && (
+                          <button
+                            type='button'
+                            onClick={() => onViewProducer(bp.name)}
+                            className='px-3 text-sm text-blue-600 hover:text-blue-800 hover:bg-gray-50'
+                            aria-label={`View ${bp.name} details`}
                           >
-                            <path
-                              fillRule='evenodd'
-                              d='M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z'
-                              clipRule='evenodd'
-                            />
-                          </svg>
+                            Details
+                          </button>
                         )}
-                        {!selectedBPs.includes(bp.name) &&
-                          selectedBPs.length >= 4 && (
-                            <span className='text-xs text-gray-400'>
-                              Max reached
-                            </span>
-                          )}
                       </div>
-                    </button>
-                  ))
+                    ))}
+                  </div>
                 ) : (
                   <div className='p-4 text-center text-gray-500'>
                     <svg
@@ -322,14 +459,34 @@ const BlockProducerSelector: React.FC<BlockProducerSelectorProps> = ({
                 <div key={bp.name} className='text-sm text-blue-800'>
                   <span className='font-medium'>{bp.name}</span>
                   <span className='text-blue-600 ml-2'>{bp.url}</span>
+                  {onViewProducer && (
+                    <button
+                      type='button'
+                      onClick={() => onViewProducer(bp.name)}
+                      className='ml-2 text-blue-600 hover:text-blue-800 underline'
+                    >
+                      Details
+                    </button>
+                  )}
                 </div>
               ))}
             </div>
           </div>
         )}
 
+        {/* Vote Change Preview */}
+        {selectedBPs.length > 0 && showPreview && (
+          <VoteChangePreview
+            voteInfo={voteInfo}
+            selectedBPs={selectedBPs}
+            onConfirm={handleDelegateVotes}
+            onCancel={() => setShowPreview(false)}
+            loading={loading}
+          />
+        )}
+
         {/* Delegate Button */}
-        {selectedBPs.length > 0 && (
+        {selectedBPs.length > 0 && !showPreview && (
           <div className='bg-green-50 border border-green-200 rounded-lg p-6 text-center'>
             <p className='text-green-800 mb-4 font-medium'>
               Ready to delegate votes to:{' '}
@@ -339,7 +496,7 @@ const BlockProducerSelector: React.FC<BlockProducerSelectorProps> = ({
               </span>
             </p>
             <button
-              onClick={handleDelegateVotes}
+              onClick={() => setShowPreview(true)}
               disabled={loading}
               className={`btn-primary ${loading ? 'opacity-50 cursor-not-allowed' : ''}`}
             >
@@ -364,7 +521,7 @@ const BlockProducerSelector: React.FC<BlockProducerSelectorProps> = ({
                   Delegating...
                 </span>
               ) : (
-                `Delegate Votes to ${selectedBPs.length} Producer${selectedBPs.length !== 1 ? 's' : ''}`
+                `Review Vote Change for ${selectedBPs.length} Producer${selectedBPs.length !== 1 ? 's' : ''}`
               )}
             </button>
           </div>
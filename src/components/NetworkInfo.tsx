@@ -6,7 +6,7 @@
  *
  * Features:
  * - Network configuration display
- * - Visual status indicators (testnet/mainnet)
+ * - Visual status indicators (testnet/mainnet/custom)
  * - Truncated chain ID for readability
  * - Color-coded network status
  * - Responsive card layout
@@ -60,9 +60,11 @@ const NetworkInfo: React.FC<NetworkInfoProps> = ({ network }) => {
       <div
         className={`mt-4 p-3 rounded-lg text-sm ${network === 'testnet' ? 'bg-yellow-50 text-yellow-700' : 'bg-green-50 text-green-700'}`}
       >
-        {network === 'testnet'
-          ? '⚠️ Testnet - Safe for testing'
-          : '🔒 Mainnet - Real transactions'}
+        {config.custom
+          ? '🛠️ Custom network - Chain ID verified on add'
+          : network === 'testnet'
+            ? '⚠️ Testnet - Safe for testing'
+            : '🔒 Mainnet - Real transactions'}
       </div>
     </div>
   );
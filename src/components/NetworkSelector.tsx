@@ -1,27 +1,82 @@
 /**
  * NetworkSelector Component
  *
- * Dropdown component for selecting between XPR Network testnet and mainnet.
+ * Dropdown component for selecting between XPR Network testnet, mainnet
+ * and any custom networks (local devnets, private chains) added at runtime.
  * Provides clear visual indicators and status information for each network.
  *
  * Features:
  * - Testnet/Mainnet selection
+ * - Custom network selection and removal
+ * - Add custom network form (verified via get_info chain ID before saving)
  * - Visual status indicators
  * - Custom styled dropdown with hover effects
  * - Responsive design
  *
  * @component
- * @param network - Current selected network ('testnet' | 'mainnet')
+ * @param network - Current selected network ('testnet' | 'mainnet' | custom ID)
  * @param onNetworkChange - Callback when network changes
+ * @param customNetworks - Custom networks persisted in the store
+ * @param onAddNetwork - Callback to verify and persist a new custom network
+ * @param onRemoveNetwork - Callback to remove a custom network
  * @returns Network selector component
  */
-import React from 'react';
+import React, { useState } from 'react';
 import type { NetworkSelectorProps } from '../types';
 
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
 const NetworkSelector: React.FC<NetworkSelectorProps> = ({
   network,
   onNetworkChange,
+  customNetworks = [],
+  onAddNetwork,
+  onRemoveNetwork,
 }) => {
+  // Add-network form state
+  const [showForm, setShowForm] = useState(false);
+  const [name, setName] = useState('');
+  const [chainId, setChainId] = useState('');
+  const [endpoints, setEndpoints] = useState('');
+  const [webauth, setWebauth] = useState('');
+  const [color, setColor] = useState('#6b7280');
+  const [verifying, setVerifying] = useState(false);
+  const [formError, setFormError] = useState('');
+
+  const activeCustomNetwork = customNetworks.find(item => item.id === network);
+
+  /**
+   * Verify and save the custom network, then reset the form
+   */
+  const handleAddNetwork = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault();
+    if (!onAddNetwork) return;
+
+    setVerifying(true);
+    setFormError('');
+    try {
+      await onAddNetwork({
+        name,
+        chainId,
+        endpoints: endpoints.split(/[\s,]+/).filter(Boolean),
+        webauth,
+        color,
+      });
+      setName('');
+      setChainId('');
+      setEndpoints('');
+      setWebauth('');
+      setShowForm(false);
+    } catch (error: unknown) {
+      setFormError(
+        error instanceof Error ? error.message : 'Network verification failed'
+      );
+    } finally {
+      setVerifying(false);
+    }
+  };
+
   return (
     <div className='mb-6'>
       <label
@@ -35,13 +90,20 @@ const NetworkSelector: React.FC<NetworkSelectorProps> = ({
           id='network-select'
           className='w-full px-4 py-3 pr-8 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 bg-white text-gray-900 appearance-none cursor-pointer hover:border-gray-400'
           value={network}
-          onChange={e =>
-            onNetworkChange(e.target.value as 'testnet' | 'mainnet')
-          }
+          onChange={e => onNetworkChange(e.target.value)}
           data-testid='network-select'
         >
           <option value='testnet'>Testnet</option>
           <option value='mainnet'>Mainnet</option>
+          {customNetworks.length > 0 && (
+            <optgroup label='Custom Networks'>
+              {customNetworks.map(item => (
+                <option key={item.id} value={item.id}>
+                  {item.name}
+                </option>
+              ))}
+            </optgroup>
+          )}
         </select>
         <div className='absolute inset-y-0 right-0 flex items-center pr-3 pointer-events-none'>
           <svg
@@ -59,11 +121,102 @@ const NetworkSelector: React.FC<NetworkSelectorProps> = ({
           </svg>
         </div>
       </div>
-      <div className='mt-2 text-xs text-gray-500'>
-        {network === 'testnet'
-          ? '🧪 Testnet - Safe for testing'
-          : '🔒 Mainnet - Real transactions'}
+      <div className='mt-2 flex items-center justify-between text-xs text-gray-500'>
+        <span>
+          {activeCustomNetwork
+            ? `🛠️ Custom network - ${activeCustomNetwork.endpoints[0]}`
+            : network === 'testnet'
+              ? '🧪 Testnet - Safe for testing'
+              : '🔒 Mainnet - Real transactions'}
+        </span>
+        <span className='space-x-3'>
+          {activeCustomNetwork && onRemoveNetwork && (
+            <button
+              type='button'
+              onClick={() => onRemoveNetwork(activeCustomNetwork.id)}
+              className='text-red-600 hover:text-red-800'
+            >
+              Remove
+            </button>
+          )}
+          {onAddNetwork && (
+            <button
+              type='button'
+              onClick={() => setShowForm(prev => !prev)}
+              className='text-blue-600 hover:text-blue-800'
+            >
+              {showForm ? 'Cancel' : '+ Add custom network'}
+            </button>
+          )}
+        </span>
       </div>
+
+      {/* Add Custom Network Form */}
+      {showForm && onAddNetwork && (
+        <form
+          onSubmit={handleAddNetwork}
+          className='mt-3 p-4 bg-gray-50 border border-gray-200 rounded-lg space-y-3'
+        >
+          <input
+            type='text'
+            placeholder='Network name (e.g. Local Devnet)'
+            aria-label='Network name'
+            value={name}
+            onChange={e => setName(e.target.value)}
+            className={inputClassName}
+            required
+          />
+          <input
+            type='text'
+            placeholder='Chain ID (64 hex characters)'
+            aria-label='Chain ID'
+            value={chainId}
+            onChange={e => setChainId(e.target.value)}
+            className={`${inputClassName} font-mono`}
+            required
+          />
+          <textarea
+            placeholder='RPC endpoints, one per line (e.g. http://127.0.0.1:8888)'
+            aria-label='RPC endpoints'
+            value={endpoints}
+            onChange={e => setEndpoints(e.target.value)}
+            className={`${inputClassName} font-mono`}
+            rows={2}
+            required
+          />
+          <div className='flex space-x-3'>
+            <input
+              type='text'
+              placeholder='WebAuth host (optional)'
+              aria-label='WebAuth host'
+              value={webauth}
+              onChange={e => setWebauth(e.target.value)}
+              className={inputClassName}
+            />
+            <input
+              type='color'
+              aria-label='Network color'
+              value={color}
+              onChange={e => setColor(e.target.value)}
+              className='h-9 w-12 border border-gray-300 rounded-md cursor-pointer'
+            />
+          </div>
+
+          {formError && (
+            <p className='text-sm text-red-600' role='alert'>
+              {formError}
+            </p>
+          )}
+
+          <button
+            type='submit'
+            disabled={verifying}
+            className={`btn-primary w-full ${verifying ? 'opacity-50 cursor-not-allowed' : ''}`}
+          >
+            {verifying ? 'Verifying chain ID...' : 'Verify & Add Network'}
+          </button>
+        </form>
+      )}
     </div>
   );
 };
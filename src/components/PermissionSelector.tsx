@@ -0,0 +1,86 @@
+/**
+ * PermissionSelector Component
+ *
+ * Lets users choose which account permission signs their transactions.
+ * Automatic mode picks the least-privileged permission that satisfies
+ * each action's linked auth.
+ *
+ * Features:
+ * - Automatic (least-privileged) or explicit permission choice
+ * - Permissions the connected key cannot sign for are disabled
+ * - Linked actions shown for the selected permission
+ *
+ * @component
+ * @param actor - Connected account name
+ * @param sessionPermission - Permission the wallet session signs with
+ * @param permissions - Account permission tree
+ * @param value - Selected permission ('' = automatic)
+ * @param onChange - Callback when the selection changes
+ * @returns Signing permission selector
+ */
+import React from 'react';
+
+import type { PermissionSelectorProps } from '../types';
+import { getSignablePermissions } from '../utils/permissionUtils';
+
+const PermissionSelector: React.FC<PermissionSelectorProps> = ({
+  actor,
+  sessionPermission,
+  permissions,
+  value,
+  onChange,
+}) => {
+  const signable = getSignablePermissions(permissions, {
+    actor,
+    permission: sessionPermission,
+  });
+  const selected = permissions.find(
+    permission => permission.perm_name === value
+  );
+  const linkedActions = selected?.linked_actions || [];
+
+  return (
+    <div className='card'>
+      <label
+        htmlFor='signing-permission'
+        className='block text-sm font-medium text-gray-700 mb-1'
+      >
+        Signing Permission
+      </label>
+      <select
+        id='signing-permission'
+        value={value}
+        onChange={e => onChange(e.target.value)}
+        className='w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500'
+        aria-describedby='signing-permission-help'
+      >
+        <option value=''>Automatic (least privileged)</option>
+        {permissions.map(permission => (
+          <option
+            key={permission.perm_name}
+            value={permission.perm_name}
+            disabled={!signable.includes(permission.perm_name)}
+          >
+            {actor}@{permission.perm_name}
+            {signable.includes(permission.perm_name)
+              ? ''
+              : ' (not available to this key)'}
+          </option>
+        ))}
+      </select>
+      <p id='signing-permission-help' className='mt-2 text-xs text-gray-500'>
+        {value
+          ? linkedActions.length > 0
+            ? `Linked to ${linkedActions
+                .map(link =>
+                  link.action ? `${link.account}::${link.action}` : link.account
+                )
+                .join(', ')}`
+            : `Actions are signed with ${actor}@${value}`
+          : `Each action is signed with the narrowest permission ${actor}@${sessionPermission} can satisfy`}
+      </p>
+    </div>
+  );
+};
+
+export default PermissionSelector;
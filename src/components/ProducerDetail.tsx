@@ -0,0 +1,197 @@
+/**
+ * ProducerDetail Component
+ *
+ * Detail view for a single Block Producer built from its bp.json metadata.
+ * Helps voters understand who they are voting for before delegating.
+ *
+ * Features:
+ * - Logo, organization name and location
+ * - Vote share of total producer vote weight
+ * - Website, email and social links
+ * - Published node endpoints by node type
+ * - Loading and missing-metadata states
+ *
+ * @component
+ * @param {Object} producer - Block Producer from the producers table
+ * @param {Object} metadata - Parsed bp.json metadata (null if unavailable)
+ * @param {boolean} loading - Loading state while bp.json is fetched
+ * @param {string} error - Error message if metadata failed to load
+ * @returns {JSX.Element} Producer detail component
+ */
+import React from 'react';
+
+import { CardLayout } from '../layout';
+import type { ProducerDetailProps } from '../types';
+import { validateUrl } from '../utils/security';
+
+// Profile URL builders for common bp.json social platforms
+const SOCIAL_LINKS: Record<string, (handle: string) => string> = {
+  twitter: handle => `https://twitter.com/${handle}`,
+  github: handle => `https://github.com/${handle}`,
+  telegram: handle => `https://t.me/${handle}`,
+  youtube: handle => `https://youtube.com/${handle}`,
+  medium: handle => `https://medium.com/@${handle}`,
+  reddit: handle => `https://reddit.com/u/${handle}`,
+  facebook: handle => `https://facebook.com/${handle}`,
+  keybase: handle => `https://keybase.io/${handle}`,
+};
+
+const ProducerDetail: React.FC<ProducerDetailProps> = ({
+  producer,
+  metadata,
+  loading,
+  error,
+}) => {
+  // Only link to HTTPS profile URLs built from known platforms
+  const socialEntries = Object.entries(metadata?.social || {}).map(
+    ([platform, handle]) => {
+      const href = SOCIAL_LINKS[platform]?.(handle);
+      return [
+        platform,
+        handle,
+        href && validateUrl(href) ? href : null,
+      ] as const;
+    }
+  );
+  const nodes = metadata?.nodes || [];
+
+  return (
+    <CardLayout title='🏛️ Block Producer'>
+      <div className='space-y-6'>
+        {/* Header */}
+        <div className='flex items-center gap-4'>
+          {metadata?.logo ? (
+            <img
+              src={metadata.logo}
+              alt={`${producer.name} logo`}
+              className='h-16 w-16 rounded-full border border-gray-200 object-cover'
+            />
+          ) : (
+            <div className='h-16 w-16 rounded-full bg-gray-100 flex items-center justify-center text-2xl'>
+              🏛️
+            </div>
+          )}
+          <div>
+            <h2 className='text-xl font-semibold text-gray-900'>
+              {metadata?.candidate_name || producer.name}
+            </h2>
+            <p className='text-sm text-gray-600 font-mono'>{producer.name}</p>
+            {(metadata?.location || metadata?.country) && (
+              <p className='text-sm text-gray-500'>
+                📍{' '}
+                {[metadata.location, metadata.country]
+                  .filter(Boolean)
+                  .join(', ')}
+              </p>
+            )}
+          </div>
+        </div>
+
+        {/* Vote Share */}
+        <div className='bg-blue-50 border border-blue-200 rounded-lg p-4'>
+          <div className='flex justify-between text-sm mb-2'>
+            <span className='text-blue-900 font-medium'>Vote Share</span>
+            <span className='text-blue-900 font-semibold'>
+              {(producer.vote_share || 0).toFixed(2)}%
+            </span>
+          </div>
+          <div className='w-full bg-blue-100 rounded-full h-2'>
+            <div
+              className='bg-blue-600 h-2 rounded-full'
+              style={{ width: `${Math.min(producer.vote_share || 0, 100)}%` }}
+            />
+          </div>
+        </div>
+
+        {loading && (
+          <p className='text-sm text-gray-500'>Loading producer metadata...</p>
+        )}
+
+        {!loading && (error || !metadata) && (
+          <div className='bg-yellow-50 border border-yellow-200 rounded-lg p-4 text-sm text-yellow-800'>
+            {error || 'This producer does not publish a bp.json file.'}
+          </div>
+        )}
+
+        {/* Links */}
+        {metadata && (
+          <div className='space-y-2 text-sm'>
+            <h3 className='font-semibold text-gray-900'>Links</h3>
+            <div className='flex flex-wrap gap-3'>
+              {metadata.website && validateUrl(metadata.website) && (
+                <a
+                  href={metadata.website}
+                  target='_blank'
+                  rel='noopener noreferrer'
+                  className='text-blue-600 hover:text-blue-800'
+                >
+                  🌐 Website
+                </a>
+              )}
+              {metadata.email && (
+                <a
+                  href={`mailto:${metadata.email}`}
+                  className='text-blue-600 hover:text-blue-800'
+                >
+                  ✉️ {metadata.email}
+                </a>
+              )}
+              {socialEntries.map(([platform, handle, href]) =>
+                href ? (
+                  <a
+                    key={platform}
+                    href={href}
+                    target='_blank'
+                    rel='noopener noreferrer'
+                    className='text-blue-600 hover:text-blue-800 capitalize'
+                  >
+                    {platform}
+                  </a>
+                ) : (
+                  <span key={platform} className='text-gray-600 capitalize'>
+                    {platform}: {handle}
+                  </span>
+                )
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Nodes */}
+        {nodes.length > 0 && (
+          <div className='space-y-2 text-sm'>
+            <h3 className='font-semibold text-gray-900'>
+              Nodes ({nodes.length})
+            </h3>
+            <div className='divide-y divide-gray-100 border border-gray-200 rounded-lg'>
+              {nodes.map((node, index) => (
+                <div key={index} className='p-3'>
+                  <div className='flex justify-between'>
+                    <span className='font-medium text-gray-900 capitalize'>
+                      {node.node_type}
+                    </span>
+                    {node.location && (
+                      <span className='text-gray-500'>{node.location}</span>
+                    )}
+                  </div>
+                  {[node.ssl_endpoint, node.api_endpoint, node.p2p_endpoint]
+                    .filter(Boolean)
+                    .map(endpoint => (
+                      <div
+                        key={endpoint}
+                        className='text-xs text-gray-600 font-mono break-all'
+                      >
+                        {endpoint}
+                      </div>
+                    ))}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </CardLayout>
+  );
+};
+
+export default ProducerDetail;
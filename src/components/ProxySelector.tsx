@@ -0,0 +1,179 @@
+/**
+ * ProxySelector Component
+ *
+ * Browser for registered voting proxies on XPR Network.
+ * Lets users delegate their whole vote weight to a proxy account instead of
+ * picking producers directly, and lets an account register itself as a proxy.
+ *
+ * Features:
+ * - Searchable proxy list sorted by proxied vote weight
+ * - Shows each proxy's current producer votes
+ * - Delegate to proxy (replaces any direct producer votes)
+ * - Register/unregister the connected account as a proxy
+ *
+ * @component
+ * @param {Array} proxies - Registered proxies from the voters table
+ * @param {Object} account - Connected account with vote info
+ * @param {Function} onDelegateToProxy - Callback to delegate vote weight to a proxy
+ * @param {Function} onRegisterProxy - Callback to register/unregister as proxy
+ * @param {boolean} loading - Loading state for transactions
+ * @returns {JSX.Element} Proxy selector component
+ */
+import React, { useState, useMemo } from 'react';
+
+import { CardLayout } from '../layout';
+import type { ProxySelectorProps } from '../types';
+
+const ProxySelector: React.FC<ProxySelectorProps> = ({
+  proxies,
+  account,
+  onDelegateToProxy,
+  onRegisterProxy,
+  loading,
+}) => {
+  // Component state management
+  const [searchTerm, setSearchTerm] = useState(''); // Search input value
+  const [selectedProxy, setSelectedProxy] = useState(''); // Proxy picked for delegation
+
+  const currentProxy = account?.vote_info?.proxy || '';
+  const isProxy = Boolean(account?.vote_info?.is_proxy);
+
+  /**
+   * Filter proxies by owner name or voted producer
+   */
+  const filteredProxies = useMemo(() => {
+    if (!searchTerm) return proxies;
+
+    const term = searchTerm.toLowerCase();
+    return proxies.filter(
+      proxy =>
+        proxy.owner.toLowerCase().includes(term) ||
+        proxy.producers.some(producer => producer.includes(term))
+    );
+  }, [proxies, searchTerm]);
+
+  /**
+   * Handle delegation to the selected proxy
+   */
+  const handleDelegate = (): void => {
+    if (selectedProxy) {
+      onDelegateToProxy(selectedProxy);
+    }
+  };
+
+  return (
+    <CardLayout title='🤝 Voting Proxies'>
+      <div className='space-y-4'>
+        {/* Current proxy status */}
+        <div className='bg-gray-50 border border-gray-200 rounded-lg p-4 text-sm'>
+          <div className='flex justify-between'>
+            <span className='text-gray-600'>Current Proxy:</span>
+            <span className='font-medium text-gray-900'>
+              {currentProxy || 'None (direct voting)'}
+            </span>
+          </div>
+          <div className='flex justify-between mt-2'>
+            <span className='text-gray-600'>Registered as Proxy:</span>
+            <span
+              className={`font-medium ${isProxy ? 'text-green-600' : 'text-gray-900'}`}
+            >
+              {isProxy ? 'Yes' : 'No'}
+            </span>
+          </div>
+        </div>
+
+        {/* Search */}
+        <input
+          type='text'
+          placeholder='Search proxies or producers...'
+          aria-label='Search proxies'
+          value={searchTerm}
+          onChange={e => setSearchTerm(e.target.value)}
+          className='w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent'
+        />
+
+        {/* Proxy List */}
+        <div className='max-h-60 overflow-y-auto border border-gray-200 rounded-lg'>
+          {filteredProxies.length > 0 ? (
+            filteredProxies.map(proxy => (
+              <button
+                key={proxy.owner}
+                type='button'
+                onClick={() =>
+                  setSelectedProxy(prev =>
+                    prev === proxy.owner ? '' : proxy.owner
+                  )
+                }
+                disabled={proxy.owner === account?.account_name}
+                className={`w-full text-left p-3 border-b border-gray-100 last:border-b-0 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed ${
+                  selectedProxy === proxy.owner ? 'bg-primary-50' : ''
+                }`}
+              >
+                <div className='flex justify-between items-center'>
+                  <div className='font-medium text-gray-900'>
+                    {proxy.owner}
+                    {proxy.owner === currentProxy && (
+                      <span className='ml-2 text-xs text-green-600'>
+                        (current)
+                      </span>
+                    )}
+                  </div>
+                  <div className='text-xs text-gray-500'>
+                    {proxy.producers.length} producer
+                    {proxy.producers.length !== 1 ? 's' : ''}
+                  </div>
+                </div>
+                {proxy.producers.length > 0 && (
+                  <div className='text-xs text-gray-600 truncate mt-1'>
+                    {proxy.producers.join(', ')}
+                  </div>
+                )}
+              </button>
+            ))
+          ) : (
+            <div className='p-4 text-center text-sm text-gray-500'>
+              {searchTerm
+                ? 'No proxies match your search'
+                : 'No registered proxies found'}
+            </div>
+          )}
+        </div>
+
+        {/* Delegate Button */}
+        {selectedProxy && (
+          <div className='bg-green-50 border border-green-200 rounded-lg p-4 text-center'>
+            <p className='text-green-800 mb-3 text-sm'>
+              Delegating to <span className='font-bold'>{selectedProxy}</span>{' '}
+              replaces your direct producer votes.
+            </p>
+            <button
+              onClick={handleDelegate}
+              disabled={loading}
+              className={`btn-primary ${loading ? 'opacity-50 cursor-not-allowed' : ''}`}
+            >
+              {loading ? 'Delegating...' : `Delegate to ${selectedProxy}`}
+            </button>
+          </div>
+        )}
+
+        {/* Proxy Registration */}
+        <div className='flex items-center justify-between border-t border-gray-200 pt-4'>
+          <p className='text-sm text-gray-600'>
+            {isProxy
+              ? 'Other accounts can delegate their votes to you.'
+              : 'Let other accounts delegate their votes to you.'}
+          </p>
+          <button
+            onClick={() => onRegisterProxy(!isProxy)}
+            disabled={loading}
+            className='ml-4 px-4 py-2 text-sm font-medium rounded-md border border-gray-300 text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed'
+          >
+            {isProxy ? 'Unregister Proxy' : 'Register as Proxy'}
+          </button>
+        </div>
+      </div>
+    </CardLayout>
+  );
+};
+
+export default ProxySelector;
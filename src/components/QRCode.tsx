@@ -3,6 +3,7 @@
  *
  * Component for generating and displaying QR codes for shareable payment request URLs.
  * Provides a user-friendly interface for sharing payment requests via QR code.
+ * Can encode an `esr:` signing request instead, which wallets scan directly.
  *
  * @fileoverview QR code component for payment requests
  */
@@ -20,6 +21,8 @@ interface QRCodeProps {
   size?: number;
   /** Callback when QR code is generated */
   onGenerated?: (qrDataUrl: string) => void;
+  /** `esr:` signing request to encode instead of the shareable URL */
+  esrUri?: string | null;
 }
 
 /**
@@ -30,16 +33,20 @@ const QRCode: React.FC<QRCodeProps> = ({
   show,
   size = 200,
   onGenerated,
+  esrUri,
 }) => {
   const [qrDataUrl, setQrDataUrl] = useState<string>('');
   const [generating, setGenerating] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // Content to encode
+  const qrValue = esrUri || requestData.shareableUrl;
+
   /**
-   * Generate QR code from shareable URL
+   * Generate QR code from shareable URL or signing request
    */
   useEffect(() => {
-    if (!show || !requestData.shareableUrl) {
+    if (!show || !qrValue) {
       return;
     }
 
@@ -48,11 +55,7 @@ const QRCode: React.FC<QRCodeProps> = ({
       setError(null);
 
       try {
-        if (!requestData.shareableUrl) {
-          throw new Error('No shareable URL provided');
-        }
-
-        const qrDataUrl = await QRCodeLib.toDataURL(requestData.shareableUrl, {
+        const qrDataUrl = await QRCodeLib.toDataURL(qrValue, {
           width: size,
           margin: 2,
           color: {
@@ -73,7 +76,7 @@ const QRCode: React.FC<QRCodeProps> = ({
     };
 
     generateQRCode();
-  }, [show, requestData.shareableUrl, size, onGenerated]);
+  }, [show, qrValue, size, onGenerated]);
 
   if (!show) {
     return null;
@@ -128,10 +131,12 @@ const QRCode: React.FC<QRCodeProps> = ({
             </div>
 
             <div className='text-xs text-purple-700'>
-              <p>Scan this QR code to open the payment request</p>
-              <p className='mt-1 font-mono text-xs break-all'>
-                {requestData.shareableUrl}
+              <p>
+                {esrUri
+                  ? 'Scan this QR code with an XPR wallet to pay'
+                  : 'Scan this QR code to open the payment request'}
               </p>
+              <p className='mt-1 font-mono text-xs break-all'>{qrValue}</p>
             </div>
 
             <div className='flex justify-center space-x-2'>
@@ -169,12 +174,20 @@ const QRCode: React.FC<QRCodeProps> = ({
         <p>
           <strong>How to use:</strong>
         </p>
-        <ul className='mt-1 space-y-1'>
-          <li>• Show this QR code to {requestData.recipient}</li>
-          <li>• They can scan it with their phone camera</li>
-          <li>• The QR code will open the payment request link</li>
-          <li>• They can then approve and send the payment</li>
-        </ul>
+        {esrUri ? (
+          <ul className='mt-1 space-y-1'>
+            <li>• Show this QR code to the payer</li>
+            <li>• They scan it from Anchor, WebAuth or any ESR wallet</li>
+            <li>• The wallet opens the transfer ready to sign</li>
+          </ul>
+        ) : (
+          <ul className='mt-1 space-y-1'>
+            <li>• Show this QR code to {requestData.recipient}</li>
+            <li>• They can scan it with their phone camera</li>
+            <li>• The QR code will open the payment request link</li>
+            <li>• They can then approve and send the payment</li>
+          </ul>
+        )}
       </div>
     </div>
   );
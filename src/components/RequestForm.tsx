@@ -3,12 +3,25 @@
  *
  * Form component for creating payment requests with recipient, amount, and memo fields.
  * Provides validation and user-friendly interface for requesting payments.
+ * Requests expire after a selectable period and can be signed with the
+ * wallet so payers can detect edited links.
  *
  * @fileoverview Request payment form component
  */
 
 import React, { useState, useEffect } from 'react';
 import type { RequestFormProps, RequestPaymentData } from '../types';
+import { getRecipientSuggestions } from '../utils/addressBookUtils';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Request lifetimes offered in the form (0 = never expires)
+const EXPIRY_OPTIONS: { label: string; value: number }[] = [
+  { label: '1 hour', value: HOUR_MS },
+  { label: '24 hours', value: 24 * HOUR_MS },
+  { label: '7 days', value: 7 * 24 * HOUR_MS },
+  { label: 'Never', value: 0 },
+];
 
 /**
  * RequestForm - Payment request form interface
@@ -20,6 +33,8 @@ const RequestForm: React.FC<RequestFormProps> = ({
   error,
   urlRequestData,
   onClearUrlData,
+  contacts = [],
+  recentRecipients = [],
 }) => {
   // Form state
   const [formData, setFormData] = useState({
@@ -28,6 +43,12 @@ const RequestForm: React.FC<RequestFormProps> = ({
     memo: '',
     symbol: 'XPR',
   });
+  const [expiresIn, setExpiresIn] = useState(24 * HOUR_MS);
+  const [signLink, setSignLink] = useState(false);
+
+  // Only the recipient's own wallet can sign the request
+  const canSign =
+    !!account && formData.recipient.trim() === account.account_name;
 
   const [validationErrors, setValidationErrors] = useState<{
     recipient?: string;
@@ -67,7 +88,20 @@ const RequestForm: React.FC<RequestFormProps> = ({
     e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
   ) => {
     const { name, value } = e.target;
-    setFormData(prev => ({ ...prev, [name]: value }));
+
+    // Picking a contact fills its default memo
+    const contact =
+      name === 'recipient'
+        ? contacts.find(item => item.account === value.trim())
+        : undefined;
+
+    setFormData(prev => ({
+      ...prev,
+      [name]: value,
+      ...(contact?.defaultMemo && !prev.memo.trim()
+        ? { memo: contact.defaultMemo }
+        : {}),
+    }));
 
     // Clear validation error when user starts typing
     if (validationErrors[name as keyof typeof validationErrors]) {
@@ -132,9 +166,12 @@ const RequestForm: React.FC<RequestFormProps> = ({
         amount: `${formData.amount} ${formData.symbol}`,
         memo: formData.memo.trim(),
         symbol: formData.symbol,
+        expirationDate: expiresIn
+          ? new Date(Date.now() + expiresIn).toISOString()
+          : undefined,
       };
 
-      await onRequest(requestData);
+      await onRequest(requestData, signLink && canSign);
 
       // Reset form on success
       setFormData({
@@ -230,6 +267,8 @@ const RequestForm: React.FC<RequestFormProps> = ({
                 ? `Default: ${account.account_name}`
                 : 'Enter recipient account name'
             }
+            list='request-recipients'
+            autoComplete='off'
             className={`w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
               validationErrors.recipient
                 ? 'border-red-300 focus:ring-red-500 focus:border-red-500'
@@ -240,6 +279,15 @@ const RequestForm: React.FC<RequestFormProps> = ({
               validationErrors.recipient ? 'recipient-error' : undefined
             }
           />
+          <datalist id='request-recipients'>
+            {getRecipientSuggestions(contacts, recentRecipients).map(
+              suggestion => (
+                <option key={suggestion.account} value={suggestion.account}>
+                  {suggestion.label}
+                </option>
+              )
+            )}
+          </datalist>
           {validationErrors.recipient && (
             <p id='recipient-error' className='mt-1 text-sm text-red-600'>
               {validationErrors.recipient}
@@ -317,6 +365,49 @@ const RequestForm: React.FC<RequestFormProps> = ({
           </p>
         </div>
 
+        {/* Expiry Field */}
+        <div>
+          <label
+            htmlFor='expiresIn'
+            className='block text-sm font-medium text-gray-700 mb-2'
+          >
+            Expires After
+          </label>
+          <select
+            id='expiresIn'
+            value={expiresIn}
+            onChange={e => setExpiresIn(Number(e.target.value))}
+            className='w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+            disabled={loading}
+          >
+            {EXPIRY_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Signature Option */}
+        <div className='flex items-start'>
+          <input
+            id='signLink'
+            type='checkbox'
+            checked={signLink && canSign}
+            onChange={e => setSignLink(e.target.checked)}
+            className='mt-1 h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500'
+            disabled={loading || !canSign}
+          />
+          <label htmlFor='signLink' className='ml-2 text-sm text-gray-700'>
+            Sign link with my wallet
+            <span className='block text-xs text-gray-500'>
+              {canSign
+                ? 'Payers can check that the amount and recipient were not changed'
+                : 'Available when the recipient is your connected account'}
+            </span>
+          </label>
+        </div>
+
         {/* Error Display */}
         {error && (
           <div className='bg-red-50 border border-red-200 rounded-md p-3'>
@@ -2,28 +2,55 @@
  * Router Component - XPR Delegation Demo
  *
  * Centralized routing management for the application.
- * Handles page navigation and URL parameter processing.
+ * Handles page navigation and URL parameter processing, including
+ * payment request links and incoming `esr:` signing requests.
  *
  * @fileoverview Router component for page management
  */
 
-import React, { useEffect } from 'react';
-import { HomePage, TransferPage, RequestPage } from '../pages/index';
+import React, { useEffect, useState } from 'react';
+import {
+  HomePage,
+  TransferPage,
+  RequestPage,
+  ProducerPage,
+  HistoryPage,
+  AddressBookPage,
+  PermissionsPage,
+} from '../pages/index';
 import {
   parsePaymentRequestUrl,
   hasPaymentRequestInUrl,
   clearPaymentRequestFromUrl,
+  isPaymentRequestExpired,
+  getSigningRequestFromUrl,
 } from '../utils/urlUtils';
+import { parseEsrPaymentRequest } from '../utils/esrUtils';
 import type {
+  AddressBookContact,
   WalletInstance as Wallet,
   AccountInfo,
   BlockProducer,
+  CustomNetworkConfig,
+  CustomNetworkInput,
+  ProxyInfo,
+  VoterRewards,
   NetworkType,
+  PermissionChange,
   RequestPaymentData,
   Message,
+  TransferData,
+  BatchTransferResult,
 } from '../types';
 
-export type PageType = 'home' | 'transfer' | 'request';
+export type PageType =
+  | 'home'
+  | 'transfer'
+  | 'request'
+  | 'producer'
+  | 'history'
+  | 'contacts'
+  | 'permissions';
 
 interface RouterProps {
   // Current page state
@@ -32,6 +59,8 @@ interface RouterProps {
 
   // Wallet and account state
   wallet: Wallet | null;
+  sessions: Wallet[];
+  signingPermission: string;
   account: AccountInfo | null;
 
   // URL data state
@@ -47,15 +76,41 @@ interface RouterProps {
   // Handler functions
   handleConnectWallet: () => Promise<void>;
   handleDisconnectWallet: () => Promise<void>;
+  handleSwitchAccount: (storagePrefix: string) => void;
+  handleDisconnectAccount: (storagePrefix: string) => Promise<void>;
+  handleSigningPermissionChange: (permission: string) => void;
+  handleUpdatePermissions: (changes: PermissionChange[]) => Promise<boolean>;
   handleDelegateVotes: (producerNames?: string[]) => Promise<void>;
   handleNetworkChange: (network: NetworkType) => void;
+  handleAddNetwork: (input: CustomNetworkInput) => Promise<void>;
+  handleRemoveNetwork: (networkId: string) => void;
   handleStakeResources: (stakeData: any) => Promise<void>;
+  handleClaimRefund: () => Promise<void>;
+  handleClaimVoterRewards: () => Promise<void>;
   handleSelectBP: (bpName: string) => void;
+  handleDelegateToProxy: (proxyName: string) => Promise<void>;
+  handleRegisterProxy: (isProxy: boolean) => Promise<void>;
   handleTransfer: (transferData: any) => Promise<void>;
-  handleRequest: (requestData: RequestPaymentData) => Promise<void>;
+  handleBatchTransfer: (
+    batches: TransferData[][]
+  ) => Promise<BatchTransferResult[]>;
+  handleRequest: (
+    requestData: RequestPaymentData,
+    sign?: boolean
+  ) => Promise<void>;
+  handleSaveContact: (contact: AddressBookContact) => void;
+  handleRemoveContact: (account: string, network: NetworkType) => void;
+  handleImportContacts: (contacts: AddressBookContact[]) => void;
+
+  // Address book (current network)
+  contacts: AddressBookContact[];
+  recentRecipients: string[];
 
   // Other props
   blockProducers: BlockProducer[];
+  proxies: ProxyInfo[];
+  voterRewards: VoterRewards | null;
+  customNetworks: CustomNetworkConfig[];
   selectedBPs: string[];
   loading: boolean;
   network: NetworkType;
@@ -68,6 +123,8 @@ const Router: React.FC<RouterProps> = ({
   currentPage,
   setCurrentPage,
   wallet,
+  sessions,
+  signingPermission,
   account,
   pendingTransferData,
   setPendingTransferData,
@@ -77,48 +134,115 @@ const Router: React.FC<RouterProps> = ({
   setMessage,
   handleConnectWallet,
   handleDisconnectWallet,
+  handleSwitchAccount,
+  handleDisconnectAccount,
+  handleSigningPermissionChange,
+  handleUpdatePermissions,
   handleDelegateVotes,
   handleNetworkChange,
+  handleAddNetwork,
+  handleRemoveNetwork,
   handleStakeResources,
+  handleClaimRefund,
+  handleClaimVoterRewards,
   handleSelectBP,
+  handleDelegateToProxy,
+  handleRegisterProxy,
   handleTransfer,
+  handleBatchTransfer,
   handleRequest,
+  handleSaveContact,
+  handleRemoveContact,
+  handleImportContacts,
+  contacts,
+  recentRecipients,
   blockProducers,
+  proxies,
+  voterRewards,
+  customNetworks,
   selectedBPs,
   loading,
   network,
 }) => {
+  // Producer shown on the producer detail page
+  const [producerName, setProducerName] = useState<string | null>(null);
+
   /**
    * Check for payment request URL parameters on component mount
    */
   useEffect(() => {
+    let cancelled = false;
+
+    const applyRequest = (requestData: RequestPaymentData) => {
+      console.log('Router: Setting pendingTransferData:', requestData);
+      setPendingTransferData(requestData);
+
+      // Expired requests are shown but cannot be paid
+      if (isPaymentRequestExpired(requestData)) {
+        if (wallet && account) {
+          setCurrentPage('transfer');
+        }
+        setMessage({
+          type: 'warning',
+          text: `Payment request for ${requestData.amount} to ${requestData.recipient} has expired and can no longer be paid`,
+        });
+      } else if (wallet && account) {
+        // If wallet is already connected, go directly to transfer page
+        setCurrentPage('transfer');
+        setMessage({
+          type: 'info',
+          text: `Payment request link opened: ${requestData.amount} from ${requestData.recipient}`,
+        });
+      } else {
+        // If wallet not connected, stay on current page but show connect prompt
+        setMessage({
+          type: 'warning',
+          text: `Please connect your wallet to process payment request: ${requestData.amount} from ${requestData.recipient}`,
+        });
+      }
+    };
+
     const checkUrlParams = () => {
       if (hasPaymentRequestInUrl()) {
         const requestData = parsePaymentRequestUrl();
         if (requestData) {
-          console.log('Router: Setting pendingTransferData:', requestData);
-          setPendingTransferData(requestData);
+          applyRequest(requestData);
+        }
+        return;
+      }
 
-          // If wallet is already connected, go directly to transfer page
-          if (wallet && account) {
-            setCurrentPage('transfer');
+      // Signing requests (esr:) opened through the app
+      const signingRequest = getSigningRequestFromUrl();
+      if (signingRequest) {
+        parseEsrPaymentRequest(signingRequest, network)
+          .then(requestData => {
+            if (!cancelled) applyRequest(requestData);
+          })
+          .catch((error: unknown) => {
+            if (cancelled) return;
             setMessage({
-              type: 'info',
-              text: `Payment request link opened: ${requestData.amount} from ${requestData.recipient}`,
+              type: 'error',
+              text: `Could not open signing request: ${
+                error instanceof Error ? error.message : 'Unknown error'
+              }`,
             });
-          } else {
-            // If wallet not connected, stay on current page but show connect prompt
-            setMessage({
-              type: 'warning',
-              text: `Please connect your wallet to process payment request: ${requestData.amount} from ${requestData.recipient}`,
-            });
-          }
-        }
+          });
       }
     };
 
     checkUrlParams();
-  }, [wallet, account, setPendingTransferData, setCurrentPage, setMessage]);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    wallet,
+    account,
+    network,
+    setPendingTransferData,
+    setCurrentPage,
+    setMessage,
+  ]);
 
   /**
    * Handle wallet connection success - redirect to transfer if pending data
@@ -131,10 +255,17 @@ const Router: React.FC<RouterProps> = ({
       currentPage !== 'transfer'
     ) {
       setCurrentPage('transfer');
-      setMessage({
-        type: 'success',
-        text: `Connected! Processing payment request: ${pendingTransferData.amount} from ${pendingTransferData.recipient}`,
-      });
+      setMessage(
+        isPaymentRequestExpired(pendingTransferData)
+          ? {
+              type: 'warning',
+              text: `Payment request for ${pendingTransferData.amount} to ${pendingTransferData.recipient} has expired and can no longer be paid`,
+            }
+          : {
+              type: 'success',
+              text: `Connected! Processing payment request: ${pendingTransferData.amount} from ${pendingTransferData.recipient}`,
+            }
+      );
     }
   }, [
     wallet,
@@ -158,12 +289,18 @@ const Router: React.FC<RouterProps> = ({
             loading={loading}
             network={network}
             handleTransfer={handleTransfer}
+            handleBatchTransfer={handleBatchTransfer}
             message={message}
             pendingTransferData={pendingTransferData}
             onClearPendingData={() => {
               setPendingTransferData(null);
               clearPaymentRequestFromUrl();
             }}
+            contacts={contacts}
+            recentRecipients={recentRecipients}
+            onSaveContact={contact =>
+              handleSaveContact({ ...contact, network, updatedAt: Date.now() })
+            }
           />
         );
       case 'request':
@@ -180,6 +317,41 @@ const Router: React.FC<RouterProps> = ({
               setUrlRequestData(null);
               clearPaymentRequestFromUrl();
             }}
+            contacts={contacts}
+            recentRecipients={recentRecipients}
+          />
+        );
+      case 'history':
+        return <HistoryPage account={account} network={network} />;
+      case 'contacts':
+        return (
+          <AddressBookPage
+            network={network}
+            contacts={contacts}
+            onSaveContact={handleSaveContact}
+            onRemoveContact={handleRemoveContact}
+            onImportContacts={handleImportContacts}
+          />
+        );
+      case 'permissions':
+        return (
+          <PermissionsPage
+            wallet={wallet}
+            account={account}
+            network={network}
+            loading={loading}
+            signingPermission={signingPermission}
+            onUpdatePermissions={handleUpdatePermissions}
+          />
+        );
+      case 'producer':
+        return (
+          <ProducerPage
+            producer={
+              blockProducers.find(bp => bp.name === producerName) || null
+            }
+            network={network}
+            onBack={() => setCurrentPage('home')}
           />
         );
       default:
@@ -189,17 +361,35 @@ const Router: React.FC<RouterProps> = ({
             wallet={wallet}
             account={account}
             blockProducers={blockProducers}
+            proxies={proxies}
+            voterRewards={voterRewards}
             selectedBPs={selectedBPs}
             loading={loading}
             message={message}
             network={network}
             handleConnectWallet={handleConnectWallet}
             handleDisconnectWallet={handleDisconnectWallet}
+            sessions={sessions}
+            handleSwitchAccount={handleSwitchAccount}
+            handleDisconnectAccount={handleDisconnectAccount}
+            signingPermission={signingPermission}
+            handleSigningPermissionChange={handleSigningPermissionChange}
             handleDelegateVotes={handleDelegateVotes}
             handleNetworkChange={handleNetworkChange}
+            customNetworks={customNetworks}
+            handleAddNetwork={handleAddNetwork}
+            handleRemoveNetwork={handleRemoveNetwork}
             handleStakeResources={handleStakeResources}
+            handleClaimRefund={handleClaimRefund}
+            handleClaimVoterRewards={handleClaimVoterRewards}
             handleSelectBP={handleSelectBP}
+            handleDelegateToProxy={handleDelegateToProxy}
+            handleRegisterProxy={handleRegisterProxy}
             navigateToTransfer={() => setCurrentPage('transfer')}
+            navigateToProducer={(name: string) => {
+              setProducerName(name);
+              setCurrentPage('producer');
+            }}
           />
         );
     }
@@ -2,17 +2,18 @@
  * ShareableLink Component - XPR Delegation Demo
  *
  * Component for displaying and copying shareable payment request URLs.
- * Provides a user-friendly interface for sharing payment requests.
+ * Provides a user-friendly interface for sharing payment requests, either
+ * as an app link or as an `esr:` signing request any wallet can open.
  *
  * @fileoverview Shareable link component
  */
 
 import React, { useState } from 'react';
 import {
-  copyPaymentRequestUrl,
+  copyTextToClipboard,
   generatePaymentRequestUrl,
 } from '../utils/urlUtils';
-import type { RequestPaymentData } from '../types';
+import type { PaymentLinkFormat, RequestPaymentData } from '../types';
 
 interface ShareableLinkProps {
   /** Payment request data */
@@ -21,6 +22,12 @@ interface ShareableLinkProps {
   show: boolean;
   /** Callback when link is copied */
   onCopied?: () => void;
+  /** `esr:` signing request for the payment, if one could be built */
+  esrUri?: string | null;
+  /** Selected link format */
+  format?: PaymentLinkFormat;
+  /** Format change handler */
+  onFormatChange?: (format: PaymentLinkFormat) => void;
 }
 
 /**
@@ -30,6 +37,9 @@ const ShareableLink: React.FC<ShareableLinkProps> = ({
   requestData,
   show,
   onCopied,
+  esrUri,
+  format = 'link',
+  onFormatChange,
 }) => {
   const [copied, setCopied] = useState(false);
   const [copying, setCopying] = useState(false);
@@ -40,7 +50,9 @@ const ShareableLink: React.FC<ShareableLinkProps> = ({
 
   // Generate shareable URL if not provided
   const shareableUrl =
-    requestData.shareableUrl || generatePaymentRequestUrl(requestData);
+    format === 'esr' && esrUri
+      ? esrUri
+      : requestData.shareableUrl || generatePaymentRequestUrl(requestData);
 
   /**
    * Handle copy URL to clipboard
@@ -50,7 +62,7 @@ const ShareableLink: React.FC<ShareableLinkProps> = ({
 
     setCopying(true);
     try {
-      await copyPaymentRequestUrl(requestData);
+      await copyTextToClipboard(shareableUrl);
       setCopied(true);
       onCopied?.();
 
@@ -77,11 +89,41 @@ const ShareableLink: React.FC<ShareableLinkProps> = ({
         </div>
       </div>
 
+      {/* Format Selector */}
+      {esrUri && onFormatChange && (
+        <div className='flex gap-2 mb-3' role='group' aria-label='Link format'>
+          {(
+            [
+              ['link', 'App Link'],
+              ['esr', 'Wallet Request (ESR)'],
+            ] as const
+          ).map(([value, label]) => (
+            <button
+              key={value}
+              type='button'
+              onClick={() => onFormatChange(value)}
+              aria-pressed={format === value}
+              className={`px-3 py-1 text-xs font-medium rounded-md border ${
+                format === value
+                  ? 'bg-green-600 border-green-600 text-white'
+                  : 'bg-white border-green-300 text-green-700 hover:bg-green-100'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* URL Display */}
       <div className='bg-white border border-green-200 rounded-md p-3 mb-3'>
         <div className='flex items-center justify-between'>
           <div className='flex-1 min-w-0'>
-            <p className='text-xs text-gray-500 mb-1'>Shareable Link:</p>
+            <p className='text-xs text-gray-500 mb-1'>
+              {format === 'esr' && esrUri
+                ? 'Signing Request:'
+                : 'Shareable Link:'}
+            </p>
             <p className='text-sm text-gray-900 break-all font-mono'>
               {shareableUrl}
             </p>
@@ -173,12 +215,21 @@ const ShareableLink: React.FC<ShareableLinkProps> = ({
         <p>
           <strong>Instructions:</strong>
         </p>
-        <ul className='mt-1 space-y-1'>
-          <li>• Send this link to {requestData.recipient}</li>
-          <li>• They can click the link to view the payment request</li>
-          <li>• The link will auto-fill the payment form</li>
-          <li>• They can then approve and send the payment</li>
-        </ul>
+        {format === 'esr' && esrUri ? (
+          <ul className='mt-1 space-y-1'>
+            <li>• Send this request to the payer</li>
+            <li>• They can open it in Anchor, WebAuth or any ESR wallet</li>
+            <li>• The wallet shows the transfer ready to sign</li>
+            <li>• They approve it there; no app link needed</li>
+          </ul>
+        ) : (
+          <ul className='mt-1 space-y-1'>
+            <li>• Send this link to {requestData.recipient}</li>
+            <li>• They can click the link to view the payment request</li>
+            <li>• The link will auto-fill the payment form</li>
+            <li>• They can then approve and send the payment</li>
+          </ul>
+        )}
       </div>
     </div>
   );
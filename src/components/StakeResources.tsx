@@ -6,6 +6,8 @@
  *
  * Features:
  * - Stake/unstake XPR tokens for network resources
+ * - Liquid/staked/refunding XPR breakdown
+ * - Pending refund countdown with claim button once unlocked
  * - Input validation and error handling
  * - Loading states and transaction feedback
  * - Network-specific token symbol detection
@@ -14,23 +16,39 @@
  * @component
  * @param {Object} account - Account object with XPR token information
  * @param {Function} onStakeResources - Callback to execute XPR staking operations
+ * @param {Function} onClaimRefund - Callback to claim a refund once claimable
  * @param {boolean} loading - Loading state for operations
  * @param {string} network - Current network ('testnet' | 'mainnet')
  * @returns {JSX.Element} XPR token staking component
  */
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 
 import { CardLayout } from '../layout';
 import type { StakeResourcesProps } from '../types';
+import { formatCountdown } from '../utils/helpers';
 
 const StakeResources: React.FC<StakeResourcesProps> = ({
   account,
   onStakeResources,
+  onClaimRefund,
   loading,
 }) => {
   // Component state management
   const [stakeAmount, setStakeAmount] = useState(''); // Amount to stake/unstake
   const [isStaking, setIsStaking] = useState(false); // Local staking state
+  const [now, setNow] = useState(Date.now()); // Clock for the refund countdown
+
+  const refund = account?.refund;
+  const refundRemaining = refund ? refund.claimable_at - now : 0;
+  const refundClaimable = !!refund && refundRemaining <= 0;
+
+  // Tick every second while a refund is still locked
+  useEffect(() => {
+    if (!refund || refundClaimable) return;
+
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [refund, refundClaimable]);
 
   const handleStake = async () => {
     if (!stakeAmount) {
@@ -77,6 +95,7 @@ const StakeResources: React.FC<StakeResourcesProps> = ({
   };
 
   const canVote = account?.voting_resources?.canVote;
+  const coreBalance = account?.core_balance;
 
   return (
     <CardLayout title='⚡ Stake XPR Tokens'>
@@ -97,6 +116,57 @@ const StakeResources: React.FC<StakeResourcesProps> = ({
           </div>
         )}
 
+        {/* XPR Balance Breakdown */}
+        {coreBalance && (
+          <div className='grid grid-cols-3 gap-4 text-sm bg-gray-50 border border-gray-200 rounded-lg p-4'>
+            <div>
+              <span className='text-gray-600'>Liquid:</span>
+              <div className='font-medium text-gray-900'>
+                {coreBalance.liquid} XPR
+              </div>
+            </div>
+            <div>
+              <span className='text-gray-600'>Staked:</span>
+              <div className='font-medium text-gray-900'>
+                {coreBalance.staked} XPR
+              </div>
+            </div>
+            <div>
+              <span className='text-gray-600'>Refunding:</span>
+              <div className='font-medium text-gray-900'>
+                {coreBalance.refunding} XPR
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Pending Refund */}
+        {refund && (
+          <div className='flex items-center justify-between bg-orange-50 border border-orange-200 rounded-lg p-4 text-sm'>
+            <div>
+              <span className='text-gray-600'>Pending refund:</span>
+              <div className='font-medium text-gray-900'>
+                {refund.amount.toFixed(4)} XPR
+              </div>
+              <div className='text-xs text-orange-700'>
+                {refundClaimable
+                  ? 'Unstaking complete - ready to claim'
+                  : `Claimable in ${formatCountdown(refundRemaining)}`}
+              </div>
+            </div>
+            {refundClaimable && onClaimRefund && (
+              <button
+                onClick={onClaimRefund}
+                disabled={loading}
+                className='btn-primary disabled:opacity-50 disabled:cursor-not-allowed'
+                aria-label='Claim refund'
+              >
+                Claim Refund
+              </button>
+            )}
+          </div>
+        )}
+
         {/* Stake Form */}
         <div className='space-y-4'>
           <div className='grid grid-cols-2 gap-4'>
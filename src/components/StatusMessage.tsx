@@ -8,20 +8,49 @@
  * Features:
  * - Multiple message types (success, error, warning, info)
  * - Auto-dismiss functionality with timer
+ * - Transaction finality progress (submitted → in block → irreversible)
  * - Accessible design with ARIA attributes
  * - Responsive design with Tailwind CSS
  * - Smooth animations and transitions
  *
  * @component
- * @param {Object} message - Message object with type and text
+ * @param {Object} message - Message object with type, text and optional finality
  * @param {Function} onDismiss - Optional callback when message is dismissed
  * @returns {JSX.Element} Status message component
  */
 import React, { useEffect, useState } from 'react';
 
-import type { Message, NetworkType } from '../types';
+import type {
+  Message,
+  NetworkType,
+  TransactionFinality,
+  TransactionFinalityStatus,
+} from '../types';
 import { getTransactionDisplay } from '../utils/transactionUtils';
 
+const FINALITY_STEPS: TransactionFinalityStatus[] = [
+  'submitted',
+  'in_block',
+  'irreversible',
+];
+
+const FINALITY_LABELS: Record<TransactionFinalityStatus, string> = {
+  submitted: 'Submitted',
+  in_block: 'In block',
+  irreversible: 'Irreversible',
+  failed: 'Failed',
+  expired: 'Expired',
+};
+
+/**
+ * Whether the transaction is still waiting for irreversibility
+ */
+const isFinalityPending = (finality?: TransactionFinality): boolean =>
+  !!finality &&
+  finality.status !== 'irreversible' &&
+  finality.status !== 'failed' &&
+  finality.status !== 'expired';
+
 export interface StatusMessageProps {
   message: Message | null | undefined;
   network?: NetworkType;
@@ -44,6 +73,11 @@ const StatusMessage: React.FC<StatusMessageProps> = ({
     if (message) {
       setIsVisible(true);
 
+      // Keep the message up until the transaction settles
+      if (isFinalityPending(message.finality)) {
+        return;
+      }
+
       // Auto-dismiss after 5 seconds for success messages, 8 seconds for others
       const timeout = setTimeout(
         () => {
@@ -143,6 +177,65 @@ const StatusMessage: React.FC<StatusMessageProps> = ({
 
   const config = getMessageConfig(message.type);
 
+  /**
+   * Render finality progress for the reported transaction
+   * @param finality - Finality snapshot
+   * @returns Step indicator with block details
+   */
+  const renderFinality = (
+    finality: TransactionFinality
+  ): React.ReactElement => {
+    const settledFailure =
+      finality.status === 'failed' || finality.status === 'expired';
+    const currentStep = FINALITY_STEPS.indexOf(finality.status);
+    const blocksToGo =
+      finality.status === 'in_block' &&
+      finality.blockNum &&
+      finality.lastIrreversibleBlock
+        ? Math.max(0, finality.blockNum - finality.lastIrreversibleBlock)
+        : null;
+
+    return (
+      <div className='mt-2 space-y-1' aria-live='polite'>
+        {settledFailure ? (
+          <p className='text-xs font-semibold text-red-700'>
+            {FINALITY_LABELS[finality.status]}
+            {finality.error ? `: ${finality.error}` : ''}
+          </p>
+        ) : (
+          <ol className='flex items-center gap-2 text-xs'>
+            {FINALITY_STEPS.map((step, index) => (
+              <li
+                key={step}
+                className={`flex items-center gap-1 ${
+                  index <= currentStep
+                    ? `font-semibold ${config.textColor}`
+                    : 'text-gray-400'
+                }`}
+              >
+                <span aria-hidden='true'>
+                  {index < currentStep || finality.status === 'irreversible'
+                    ? '●'
+                    : index === currentStep
+                      ? '◐'
+                      : '○'}
+                </span>
+                {FINALITY_LABELS[step]}
+              </li>
+            ))}
+          </ol>
+        )}
+        {finality.blockNum && !settledFailure && (
+          <p className='text-xs text-gray-600'>
+            Block #{finality.blockNum}
+            {blocksToGo !== null &&
+              ` · ${blocksToGo} block${blocksToGo !== 1 ? 's' : ''} until irreversible`}
+          </p>
+        )}
+      </div>
+    );
+  };
+
   /**
    * Render message text with transaction ID links
    * @param text - Message text
@@ -222,6 +315,7 @@ const StatusMessage: React.FC<StatusMessageProps> = ({
             <p className={`text-sm font-medium ${config.textColor}`}>
               {renderMessageText(message.text)}
             </p>
+            {message.finality && renderFinality(message.finality)}
           </div>
           <div className='ml-4 flex-shrink-0'>
             <button
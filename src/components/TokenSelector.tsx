@@ -3,6 +3,7 @@
  *
  * Interactive dropdown selector for choosing available tokens
  * from user's wallet with search functionality.
+ * Shows token logo and name from the token registry when available.
  *
  * @fileoverview Token selection component with search capabilities
  */
@@ -56,6 +57,7 @@ const TokenSelector: React.FC<TokenSelectorProps> = ({
       token =>
         token.symbol.toLowerCase().includes(term) ||
         token.contract.toLowerCase().includes(term) ||
+        (token.name || '').toLowerCase().includes(term) ||
         token.formatted.toLowerCase().includes(term)
     );
   }, [tokens, searchTerm]);
@@ -193,12 +195,20 @@ const TokenSelector: React.FC<TokenSelectorProps> = ({
                   `}
                 >
                   <div className='flex items-center justify-between'>
+                    {token.logo && (
+                      <img
+                        src={token.logo}
+                        alt=''
+                        className='w-6 h-6 mr-3 rounded-full flex-shrink-0'
+                      />
+                    )}
                     <div className='flex-1 min-w-0'>
                       <div className='font-medium text-sm'>
                         {token.formatted}
                       </div>
                       <div className='text-xs text-gray-500 truncate'>
-                        Contract: {token.contract}
+                        {token.name ? `${token.name} · ` : ''}Contract:{' '}
+                        {token.contract}
                       </div>
                     </div>
 
@@ -0,0 +1,166 @@
+/**
+ * TransactionReview Component
+ *
+ * Modal shown before the wallet prompt with every action decoded from its
+ * contract ABI. Risky actions are highlighted, and transactions with
+ * dangerous actions need an explicit acknowledgement before signing.
+ *
+ * Features:
+ * - Field-by-field action data with ABI types
+ * - Authorization chips (owner highlighted)
+ * - Warnings for owner authority, permission changes and large transfers
+ * - Notice for sign-only transactions that are not broadcast
+ *
+ * @component
+ * @param review - Transaction to review
+ * @param onApprove - Callback to continue to the wallet
+ * @param onReject - Callback to cancel the transaction
+ * @returns Transaction review modal
+ */
+import React, { useState } from 'react';
+
+import type { TransactionReviewProps } from '../types';
+
+const RISK_STYLES = {
+  danger: 'bg-red-50 border-red-200 text-red-800',
+  warning: 'bg-yellow-50 border-yellow-200 text-yellow-800',
+};
+
+const TransactionReview: React.FC<TransactionReviewProps> = ({
+  review,
+  onApprove,
+  onReject,
+}) => {
+  const [acknowledged, setAcknowledged] = useState(false);
+  const hasDanger = review.actions.some(action =>
+    action.risks.some(risk => risk.severity === 'danger')
+  );
+
+  return (
+    <div
+      className='fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4'
+      role='dialog'
+      aria-modal='true'
+      aria-labelledby='transaction-review-title'
+    >
+      <div className='bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col'>
+        <div className='px-6 py-4 border-b border-gray-200'>
+          <h2
+            id='transaction-review-title'
+            className='text-lg font-semibold text-gray-900'
+          >
+            Review Transaction
+          </h2>
+          <p className='text-sm text-gray-600'>
+            {review.actions.length}{' '}
+            {review.actions.length === 1 ? 'action' : 'actions'} on{' '}
+            {review.network}
+            {review.broadcast
+              ? ''
+              : ' · signature only, the transaction is not broadcast'}
+          </p>
+        </div>
+
+        <div className='px-6 py-4 space-y-4 overflow-y-auto'>
+          {review.actions.map((action, index) => (
+            <div
+              key={`${action.account}-${action.name}-${index}`}
+              className='border border-gray-200 rounded-lg p-4'
+            >
+              <div className='flex flex-wrap items-center justify-between gap-2 mb-3'>
+                <span className='font-mono font-medium text-gray-900'>
+                  {action.account}::{action.name}
+                </span>
+                <div className='flex flex-wrap gap-1'>
+                  {action.authorization.map(auth => (
+                    <span
+                      key={auth}
+                      className={`px-2 py-0.5 rounded text-xs font-mono ${
+                        auth.endsWith('@owner')
+                          ? 'bg-red-100 text-red-800'
+                          : 'bg-gray-100 text-gray-700'
+                      }`}
+                    >
+                      {auth}
+                    </span>
+                  ))}
+                </div>
+              </div>
+
+              {action.risks.map(risk => (
+                <div
+                  key={risk.message}
+                  className={`mb-2 px-3 py-2 border rounded text-sm ${
+                    RISK_STYLES[risk.severity]
+                  }`}
+                  role='alert'
+                >
+                  {risk.message}
+                </div>
+              ))}
+
+              {action.abiMissing && (
+                <p className='mb-2 text-xs text-gray-500'>
+                  Contract ABI unavailable; showing raw action data.
+                </p>
+              )}
+
+              {action.fields.length > 0 ? (
+                <table className='w-full text-sm'>
+                  <tbody>
+                    {action.fields.map(field => (
+                      <tr
+                        key={field.name}
+                        className='border-t border-gray-100 align-top'
+                      >
+                        <td className='py-1 pr-3 text-gray-600 whitespace-nowrap'>
+                          {field.name}
+                        </td>
+                        <td className='py-1 pr-3 text-gray-900 break-all'>
+                          {field.value}
+                        </td>
+                        <td className='py-1 text-xs text-gray-400 font-mono whitespace-nowrap'>
+                          {field.type}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <p className='text-sm text-gray-500'>No action data</p>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className='px-6 py-4 border-t border-gray-200 space-y-3'>
+          {hasDanger && (
+            <label className='flex items-start gap-2 text-sm text-gray-700'>
+              <input
+                type='checkbox'
+                checked={acknowledged}
+                onChange={e => setAcknowledged(e.target.checked)}
+                className='mt-0.5'
+              />
+              I understand the highlighted risks of this transaction
+            </label>
+          )}
+          <div className='flex justify-end gap-2'>
+            <button onClick={onReject} className='btn-secondary'>
+              Reject
+            </button>
+            <button
+              onClick={onApprove}
+              disabled={hasDanger && !acknowledged}
+              className='btn-primary disabled:opacity-50'
+            >
+              Approve &amp; Sign
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TransactionReview;
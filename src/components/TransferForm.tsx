@@ -4,7 +4,10 @@
  * TransferForm Component - XPR Delegation Demo
  *
  * Form component for executing token transfers with validation
- * and user-friendly interface.
+ * and user-friendly interface. Exchange deposit memo rules are checked
+ * inline; warnings must be acknowledged before sending. Expired payment
+ * requests are shown but not pre-filled, and signed requests show whether
+ * their signature checks out.
  *
  * @fileoverview Comprehensive token transfer form with validation
  */
@@ -15,7 +18,29 @@ import type {
   TokenBalance,
   AccountInfo,
   RequestPaymentData,
+  AddressBookContact,
+  AddressBookContactInput,
+  NetworkType,
+  PaymentRequestVerification,
+  RecipientAccountInfo,
+  RecipientIssue,
 } from '../types';
+import { getRecipientSuggestions } from '../utils/addressBookUtils';
+import {
+  createUnusedTokenIssue,
+  evaluateRecipientRules,
+  getBlockingIssues,
+  getRecipientAccountIssues,
+} from '../utils/recipientRules';
+import { validateAccountName } from '../utils/security';
+import {
+  getPaymentRequestMemo,
+  isPaymentRequestExpired,
+  memoMatchesPaymentRequest,
+} from '../utils/urlUtils';
+
+// Wait for typing to pause before looking up the recipient
+const RECIPIENT_LOOKUP_DEBOUNCE_MS = 500;
 
 interface TransferFormProps {
   /** Selected token */
@@ -34,6 +59,20 @@ interface TransferFormProps {
   pendingTransferData?: RequestPaymentData | null;
   /** Clear pending transfer data handler */
   onClearPendingData?: () => void;
+  /** Signature check result for the pending request */
+  requestVerification?: PaymentRequestVerification | null;
+  /** Saved contacts on the current network */
+  contacts?: AddressBookContact[];
+  /** Recently used recipients, newest first */
+  recentRecipients?: string[];
+  /** Save a recipient to the address book */
+  onSaveContact?: (contact: AddressBookContactInput) => void;
+  /** Network for exchange memo rules */
+  network?: NetworkType;
+  /** Look up whether the recipient exists, has a contract or is new */
+  onCheckRecipient?: (account: string) => Promise<RecipientAccountInfo>;
+  /** Whether the recipient has ever received the selected token */
+  onCheckTokenHistory?: (account: string) => Promise<boolean>;
 }
 
 /**
@@ -48,6 +87,13 @@ const TransferForm: React.FC<TransferFormProps> = ({
   success = null,
   pendingTransferData,
   onClearPendingData,
+  requestVerification,
+  contacts = [],
+  recentRecipients = [],
+  onSaveContact,
+  network,
+  onCheckRecipient,
+  onCheckTokenHistory,
 }) => {
   // Form state
   const [formData, setFormData] = useState({
@@ -62,11 +108,15 @@ const TransferForm: React.FC<TransferFormProps> = ({
     memo?: string;
   }>({});
 
+  const requestExpired =
+    !!pendingTransferData && isPaymentRequestExpired(pendingTransferData);
+
   /**
    * Auto-fill form when pending transfer data is available
+   * Expired requests are not pre-filled so they cannot be paid by accident.
    */
   useEffect(() => {
-    if (pendingTransferData) {
+    if (pendingTransferData && !isPaymentRequestExpired(pendingTransferData)) {
       console.log(
         'TransferForm: Auto-filling form with pendingTransferData:',
         pendingTransferData
@@ -78,12 +128,79 @@ const TransferForm: React.FC<TransferFormProps> = ({
       setFormData({
         to: pendingTransferData.recipient || '',
         amount: amount,
-        memo: pendingTransferData.memo || '',
+        memo: getPaymentRequestMemo(pendingTransferData),
       });
     }
   }, [pendingTransferData]);
 
   const [localLoading, setLocalLoading] = useState(false);
+  const [lookupIssues, setLookupIssues] = useState<RecipientIssue[]>([]);
+  const [checkingRecipient, setCheckingRecipient] = useState(false);
+  const [warningsAcknowledged, setWarningsAcknowledged] = useState(false);
+
+  // Pre-flight recipient checks: existence, contract, age and token history
+  const recipientAccount = formData.to.trim();
+  useEffect(() => {
+    setLookupIssues([]);
+    if (
+      !token ||
+      (!onCheckRecipient && !onCheckTokenHistory) ||
+      !validateAccountName(recipientAccount)
+    ) {
+      return;
+    }
+
+    let cancelled = false;
+    const lookup = async () => {
+      const issues: RecipientIssue[] = [];
+
+      if (onCheckRecipient) {
+        const info = await onCheckRecipient(recipientAccount);
+        issues.push(...getRecipientAccountIssues(info, token.symbol));
+        if (!info.exists) return issues;
+      }
+
+      if (
+        onCheckTokenHistory &&
+        !(await onCheckTokenHistory(recipientAccount))
+      ) {
+        issues.push(createUnusedTokenIssue(recipientAccount, token.symbol));
+      }
+
+      return issues;
+    };
+
+    const timer = setTimeout(() => {
+      setCheckingRecipient(true);
+      lookup()
+        .then(issues => {
+          if (!cancelled) setLookupIssues(issues);
+        })
+        .catch(() => {
+          // Lookups are advisory; the chain still rejects bad recipients
+        })
+        .finally(() => {
+          if (!cancelled) setCheckingRecipient(false);
+        });
+    }, RECIPIENT_LOOKUP_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      setCheckingRecipient(false);
+    };
+  }, [recipientAccount, token, onCheckRecipient, onCheckTokenHistory]);
+
+  const recipientIssues = [
+    ...(network ? evaluateRecipientRules(formData, network) : []),
+    ...lookupIssues,
+  ];
+  const blockingIssues = getBlockingIssues(recipientIssues);
+  const recipientWarnings = recipientIssues.filter(
+    issue => issue.severity === 'warning'
+  );
+  const needsAcknowledgement =
+    recipientWarnings.length > 0 && !warningsAcknowledged;
 
   // Reset form when token changes (but preserve pending data)
   useEffect(() => {
@@ -93,6 +210,12 @@ const TransferForm: React.FC<TransferFormProps> = ({
     }
   }, [token, pendingTransferData]);
 
+  // Get transferable (liquid) balance display
+  const getLiquidDisplay = () => {
+    if (!token) return '0';
+    return `${token.liquid} ${token.symbol}`;
+  };
+
   // Validate form data
   const validateForm = (): boolean => {
     const errors: any = {};
@@ -117,9 +240,10 @@ const TransferForm: React.FC<TransferFormProps> = ({
       if (isNaN(amount) || amount <= 0) {
         errors.amount = 'Amount must be a positive number';
       } else if (token) {
-        const tokenAmount = parseFloat(token.amount);
-        if (amount > tokenAmount) {
-          errors.amount = `Insufficient balance. Available: ${token.formatted}`;
+        // Only liquid tokens can be transferred (not staked or refunding)
+        const liquidAmount = parseFloat(token.liquid);
+        if (amount > liquidAmount) {
+          errors.amount = `Insufficient liquid balance. Available: ${getLiquidDisplay()}`;
         }
       }
     }
@@ -129,13 +253,50 @@ const TransferForm: React.FC<TransferFormProps> = ({
       errors.memo = 'Memo cannot exceed 256 characters';
     }
 
+    // Request may have expired since the form was pre-filled
+    if (
+      pendingTransferData?.requestId &&
+      isPaymentRequestExpired(pendingTransferData) &&
+      memoMatchesPaymentRequest(formData.memo, pendingTransferData.requestId)
+    ) {
+      errors.memo = 'This payment request has expired';
+    }
+
+    // Exchange deposit rules
+    blockingIssues.forEach(issue => {
+      if (!errors[issue.field]) {
+        errors[issue.field] = issue.message;
+      }
+    });
+
     setValidationErrors(errors);
     return Object.keys(errors).length === 0;
   };
 
+  const recipient = formData.to.trim();
+  const savedContact = contacts.find(contact => contact.account === recipient);
+  const suggestions = getRecipientSuggestions(contacts, recentRecipients);
+
   // Handle input changes
   const handleInputChange = (field: string, value: string) => {
-    setFormData(prev => ({ ...prev, [field]: value }));
+    // Picking a contact fills its default memo (exchanges require one)
+    const contact =
+      field === 'to'
+        ? contacts.find(item => item.account === value.trim())
+        : undefined;
+
+    setFormData(prev => ({
+      ...prev,
+      [field]: value,
+      ...(contact?.defaultMemo && !prev.memo.trim()
+        ? { memo: contact.defaultMemo }
+        : {}),
+    }));
+
+    // Warnings must be acknowledged again for a new recipient or memo
+    if (field === 'to' || field === 'memo') {
+      setWarningsAcknowledged(false);
+    }
 
     // Clear validation error for this field
     if (validationErrors[field as keyof typeof validationErrors]) {
@@ -147,7 +308,13 @@ const TransferForm: React.FC<TransferFormProps> = ({
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!validateForm() || !token || !account || loading) {
+    if (
+      !validateForm() ||
+      !token ||
+      !account ||
+      loading ||
+      needsAcknowledgement
+    ) {
       return;
     }
 
@@ -165,7 +332,6 @@ const TransferForm: React.FC<TransferFormProps> = ({
         quantity: `${amount} ${token.symbol}`,
         memo: formData.memo.trim(),
         contract: token.contract,
-        permission: 'owner',
       };
 
       // Execute transfer
@@ -173,6 +339,7 @@ const TransferForm: React.FC<TransferFormProps> = ({
 
       // Reset form on success
       setFormData({ to: '', amount: '', memo: '' });
+      setWarningsAcknowledged(false);
     } catch {
       // Error handled by onTransfer callback
     } finally {
@@ -180,10 +347,10 @@ const TransferForm: React.FC<TransferFormProps> = ({
     }
   };
 
-  // Format max amount for display
+  // Format max amount for display (liquid balance only)
   const getMaxAmount = () => {
     if (!token) return '0';
-    return parseFloat(token.amount).toString();
+    return parseFloat(token.liquid).toString();
   };
 
   // Set max amount
@@ -221,7 +388,13 @@ const TransferForm: React.FC<TransferFormProps> = ({
             </div>
             <div className='text-right'>
               <p className='text-sm font-medium text-blue-900'>Available</p>
-              <p className='text-sm text-blue-700'>{token.formatted}</p>
+              <p className='text-sm text-blue-700'>{getLiquidDisplay()}</p>
+              {(parseFloat(token.staked) > 0 ||
+                parseFloat(token.refunding) > 0) && (
+                <p className='text-xs text-blue-600'>
+                  Staked {token.staked} · Refunding {token.refunding}
+                </p>
+              )}
             </div>
           </div>
         </div>
@@ -229,13 +402,37 @@ const TransferForm: React.FC<TransferFormProps> = ({
 
       {/* Pending Transfer Data Info */}
       {pendingTransferData && (
-        <div className='mb-6 bg-green-50 border border-green-200 rounded-lg p-4'>
+        <div
+          className={`mb-6 border rounded-lg p-4 ${
+            requestExpired
+              ? 'bg-red-50 border-red-200'
+              : 'bg-green-50 border-green-200'
+          }`}
+        >
           <div className='flex items-start justify-between'>
             <div className='flex-1'>
-              <h4 className='text-sm font-medium text-green-900 mb-2'>
-                Payment Request Received
+              <h4
+                className={`text-sm font-medium mb-2 ${
+                  requestExpired ? 'text-red-900' : 'text-green-900'
+                }`}
+              >
+                {requestExpired
+                  ? 'Payment Request Expired'
+                  : 'Payment Request Received'}
+                {requestVerification?.status === 'verified' && (
+                  <span
+                    className='ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800'
+                    title={`Signed by ${requestVerification.signer}`}
+                  >
+                    ✓ Verified
+                  </span>
+                )}
               </h4>
-              <div className='text-sm text-green-800 space-y-1'>
+              <div
+                className={`text-sm space-y-1 ${
+                  requestExpired ? 'text-red-800' : 'text-green-800'
+                }`}
+              >
                 <p>
                   <strong>From:</strong> {pendingTransferData.recipient}
                 </p>
@@ -247,7 +444,30 @@ const TransferForm: React.FC<TransferFormProps> = ({
                     <strong>Memo:</strong> {pendingTransferData.memo}
                   </p>
                 )}
+                {pendingTransferData.expirationDate && (
+                  <p>
+                    <strong>{requestExpired ? 'Expired' : 'Expires'}:</strong>{' '}
+                    {new Date(
+                      pendingTransferData.expirationDate
+                    ).toLocaleString()}
+                  </p>
+                )}
+                {requestVerification?.status === 'verified' && (
+                  <p>
+                    <strong>Signed by:</strong> {requestVerification.signer}
+                  </p>
+                )}
               </div>
+              {requestVerification?.status === 'invalid' && (
+                <div
+                  className='mt-3 bg-red-100 border border-red-300 rounded-md p-3 text-sm text-red-800'
+                  role='alert'
+                >
+                  <strong>Possible tampering:</strong>{' '}
+                  {requestVerification.reason}. Confirm the amount and recipient
+                  with the requester before sending.
+                </div>
+              )}
             </div>
             {onClearPendingData && (
               <button
@@ -277,6 +497,8 @@ const TransferForm: React.FC<TransferFormProps> = ({
             value={formData.to}
             onChange={e => handleInputChange('to', e.target.value)}
             placeholder='Enter destination account name'
+            list='transfer-recipients'
+            autoComplete='off'
             disabled={isLoading}
             className={`
               w-full px-4 py-3 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent
@@ -288,8 +510,49 @@ const TransferForm: React.FC<TransferFormProps> = ({
               ${isLoading ? 'bg-gray-100 cursor-not-allowed' : 'bg-white'}
             `}
           />
-          {validationErrors.to && (
+          <datalist id='transfer-recipients'>
+            {suggestions.map(suggestion => (
+              <option key={suggestion.account} value={suggestion.account}>
+                {suggestion.label}
+              </option>
+            ))}
+          </datalist>
+          {validationErrors.to ? (
             <p className='mt-1 text-sm text-red-600'>{validationErrors.to}</p>
+          ) : (
+            blockingIssues
+              .filter(issue => issue.field === 'to')
+              .map(issue => (
+                <p key={issue.message} className='mt-1 text-sm text-red-600'>
+                  {issue.message}
+                </p>
+              ))
+          )}
+          {checkingRecipient && (
+            <p className='mt-1 text-xs text-gray-500'>Checking recipient...</p>
+          )}
+          {savedContact ? (
+            <p className='mt-1 text-xs text-gray-500'>
+              Contact: {savedContact.label}
+            </p>
+          ) : (
+            onSaveContact &&
+            /^[a-z1-5.]{1,12}$/.test(recipient) && (
+              <button
+                type='button'
+                onClick={() =>
+                  onSaveContact({
+                    account: recipient,
+                    label: recipient,
+                    defaultMemo: formData.memo.trim(),
+                  })
+                }
+                disabled={isLoading}
+                className='mt-1 text-xs text-blue-600 hover:text-blue-800 disabled:opacity-50'
+              >
+                Save to address book
+              </button>
+            )
           )}
         </div>
 
@@ -344,7 +607,9 @@ const TransferForm: React.FC<TransferFormProps> = ({
           )}
           {token && (
             <p className='mt-1 text-xs text-gray-500'>
-              Available: {token.formatted}
+              Available: {getLiquidDisplay()}
+              {token.liquid !== token.amount &&
+                ` (of ${token.formatted} total)`}
             </p>
           )}
         </div>
@@ -376,8 +641,16 @@ const TransferForm: React.FC<TransferFormProps> = ({
             `}
           />
           <div className='flex justify-between mt-1'>
-            {validationErrors.memo && (
+            {validationErrors.memo ? (
               <p className='text-sm text-red-600'>{validationErrors.memo}</p>
+            ) : (
+              blockingIssues
+                .filter(issue => issue.field === 'memo')
+                .map(issue => (
+                  <p key={issue.message} className='text-sm text-red-600'>
+                    {issue.message}
+                  </p>
+                ))
             )}
             <p className='text-xs text-gray-500 ml-auto'>
               {formData.memo.length}/256 characters
@@ -385,14 +658,34 @@ const TransferForm: React.FC<TransferFormProps> = ({
           </div>
         </div>
 
+        {/* Recipient Warnings */}
+        {recipientWarnings.length > 0 && (
+          <div className='p-3 bg-yellow-50 border border-yellow-200 rounded-lg space-y-2'>
+            {recipientWarnings.map(issue => (
+              <p key={issue.message} className='text-sm text-yellow-800'>
+                {issue.message}
+              </p>
+            ))}
+            <label className='flex items-center gap-2 text-sm text-yellow-900'>
+              <input
+                type='checkbox'
+                checked={warningsAcknowledged}
+                onChange={e => setWarningsAcknowledged(e.target.checked)}
+                disabled={isLoading}
+              />
+              I have checked the recipient and memo
+            </label>
+          </div>
+        )}
+
         {/* Submit Button */}
         <button
           type='submit'
-          disabled={!token || isLoading || !account}
+          disabled={!token || isLoading || !account || needsAcknowledgement}
           className={`
             w-full py-3 px-4 rounded-lg font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2
             ${
-              !token || isLoading || !account
+              !token || isLoading || !account || needsAcknowledgement
                 ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
                 : 'bg-blue-600 text-white hover:bg-blue-700'
             }
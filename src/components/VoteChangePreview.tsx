@@ -0,0 +1,148 @@
+/**
+ * VoteChangePreview Component
+ *
+ * Confirmation step shown before delegating votes. Diffs the account's
+ * current producer votes against the new selection so users can see
+ * exactly what changes before signing.
+ *
+ * Features:
+ * - Added / removed / kept producer breakdown
+ * - Current and recomputed vote weight per producer
+ * - Proxy replacement notice when currently voting via proxy
+ * - Confirm and cancel actions
+ *
+ * @component
+ * @param {Object} voteInfo - Current vote information (voters table row)
+ * @param {Array} selectedBPs - Newly selected Block Producer names
+ * @param {Function} onConfirm - Callback to sign the vote change
+ * @param {Function} onCancel - Callback to return to editing the selection
+ * @param {boolean} loading - Loading state for delegation
+ * @returns {JSX.Element} Vote change preview component
+ */
+import React, { useMemo } from 'react';
+
+import type { VoteChangePreviewProps } from '../types';
+import {
+  calculateVoteWeight,
+  diffVoteSelection,
+  formatVoteWeight,
+} from '../utils/helpers';
+
+const CHANGE_STYLES = {
+  added: { label: 'Added', className: 'text-green-700 bg-green-50' },
+  removed: { label: 'Removed', className: 'text-red-700 bg-red-50' },
+  kept: { label: 'Kept', className: 'text-gray-700 bg-gray-50' },
+} as const;
+
+const VoteChangePreview: React.FC<VoteChangePreviewProps> = ({
+  voteInfo,
+  selectedBPs,
+  onConfirm,
+  onCancel,
+  loading,
+}) => {
+  const diff = useMemo(
+    () => diffVoteSelection(voteInfo?.producers || [], selectedBPs),
+    [voteInfo?.producers, selectedBPs]
+  );
+
+  // Each voted producer receives the voter's full weight
+  const currentWeight = Number(voteInfo?.last_vote_weight || 0);
+  const newWeight = calculateVoteWeight(Number(voteInfo?.staked || 0));
+
+  const rows = [
+    ...diff.added.map(name => ({
+      name,
+      change: 'added' as const,
+      from: 0,
+      to: newWeight,
+    })),
+    ...diff.kept.map(name => ({
+      name,
+      change: 'kept' as const,
+      from: currentWeight,
+      to: newWeight,
+    })),
+    ...diff.removed.map(name => ({
+      name,
+      change: 'removed' as const,
+      from: currentWeight,
+      to: 0,
+    })),
+  ];
+
+  const hasChanges =
+    diff.added.length > 0 || diff.removed.length > 0 || !!voteInfo?.proxy;
+
+  return (
+    <div className='bg-white border border-blue-200 rounded-lg p-4 space-y-4'>
+      <div>
+        <h3 className='font-semibold text-gray-900'>Review Vote Change</h3>
+        <p className='text-sm text-gray-600'>
+          {diff.added.length} added · {diff.removed.length} removed ·{' '}
+          {diff.kept.length} kept
+        </p>
+      </div>
+
+      {voteInfo?.proxy && (
+        <div className='bg-yellow-50 border border-yellow-200 rounded-md p-3 text-sm text-yellow-800'>
+          You currently vote through proxy <strong>{voteInfo.proxy}</strong>.
+          Voting directly will replace the proxy.
+        </div>
+      )}
+
+      <table className='w-full text-sm'>
+        <thead>
+          <tr className='text-left text-gray-500'>
+            <th className='py-1 font-medium'>Producer</th>
+            <th className='py-1 font-medium'>Change</th>
+            <th className='py-1 font-medium text-right'>Vote Weight</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <tr key={row.name} className='border-t border-gray-100'>
+              <td className='py-2 font-medium text-gray-900'>{row.name}</td>
+              <td className='py-2'>
+                <span
+                  className={`px-2 py-0.5 rounded text-xs ${CHANGE_STYLES[row.change].className}`}
+                >
+                  {CHANGE_STYLES[row.change].label}
+                </span>
+              </td>
+              <td className='py-2 text-right font-mono text-gray-700'>
+                {formatVoteWeight(row.from)} → {formatVoteWeight(row.to)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {!hasChanges && (
+        <p className='text-sm text-gray-600'>
+          Your selection matches your current votes. Signing will refresh your
+          vote weight only.
+        </p>
+      )}
+
+      <div className='flex gap-3'>
+        <button
+          onClick={onCancel}
+          disabled={loading}
+          className='btn-secondary flex-1'
+        >
+          Back
+        </button>
+        <button
+          onClick={onConfirm}
+          disabled={loading}
+          className={`btn-primary flex-1 ${loading ? 'opacity-50 cursor-not-allowed' : ''}`}
+        >
+          {loading ? 'Delegating...' : 'Confirm & Sign'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default VoteChangePreview;
@@ -5,7 +5,7 @@
  * Shows account stake details, voting resources, and current vote status.
  *
  * Features:
- * - Account stake information (CPU/NET/Total)
+ * - Account stake information (liquid/staked/refunding/total)
  * - Voting resources availability
  * - Current vote status and voted producers
  * - Real-time data updates
@@ -24,6 +24,7 @@ const VoteInfo: React.FC<VoteInfoProps> = ({ account }) => {
   // Extract voting data from account object
   const voteInfo = account?.vote_info;
   const votingResources = account?.voting_resources;
+  const coreBalance = account?.core_balance;
 
   return (
     <CardLayout className='bg-white border-gray-200'>
@@ -47,6 +48,28 @@ const VoteInfo: React.FC<VoteInfoProps> = ({ account }) => {
                 {account?.core_liquid_balance || '0.0000 XPR'}
               </div>
             </div>
+            {coreBalance && (
+              <>
+                <div>
+                  <span className='text-gray-600'>Staked:</span>
+                  <div className='font-medium text-gray-900'>
+                    {coreBalance.staked} XPR
+                  </div>
+                </div>
+                <div>
+                  <span className='text-gray-600'>Refunding:</span>
+                  <div className='font-medium text-gray-900'>
+                    {coreBalance.refunding} XPR
+                  </div>
+                </div>
+                <div>
+                  <span className='text-gray-600'>Total XPR:</span>
+                  <div className='font-medium text-gray-900'>
+                    {coreBalance.formatted}
+                  </div>
+                </div>
+              </>
+            )}
             <div>
               <span className='text-gray-600'>All Balances:</span>
               <div className='font-medium text-gray-900'>
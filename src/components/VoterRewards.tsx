@@ -0,0 +1,78 @@
+/**
+ * VoterRewards Component
+ *
+ * Dashboard card for XPR staking rewards earned by voting.
+ * Shows accrued rewards, the last claim and a claim action.
+ *
+ * Features:
+ * - Accrued (unclaimed) reward display
+ * - Last claim timestamp
+ * - Reward qualification status
+ * - Claim button when rewards are available
+ *
+ * @component
+ * @param {Object} rewards - Voter rewards from the votersxpr table
+ * @param {Function} onClaimRewards - Callback to claim accrued rewards
+ * @param {boolean} loading - Loading state for operations
+ * @returns {JSX.Element} Voter rewards component
+ */
+import React from 'react';
+
+import { CardLayout } from '../layout';
+import type { VoterRewardsProps } from '../types';
+
+const VoterRewards: React.FC<VoterRewardsProps> = ({
+  rewards,
+  onClaimRewards,
+  loading,
+}) => {
+  const canClaim = !!rewards && rewards.accrued > 0;
+
+  return (
+    <CardLayout title='🎁 Voting Rewards'>
+      {rewards ? (
+        <div className='space-y-4'>
+          <div className='grid grid-cols-2 gap-4 text-sm bg-gray-50 border border-gray-200 rounded-lg p-4'>
+            <div>
+              <span className='text-gray-600'>Accrued:</span>
+              <div className='font-medium text-gray-900'>
+                {rewards.accrued.toFixed(4)} XPR
+              </div>
+            </div>
+            <div>
+              <span className='text-gray-600'>Last Claimed:</span>
+              <div className='font-medium text-gray-900'>
+                {rewards.last_claim_time
+                  ? new Date(rewards.last_claim_time).toLocaleString()
+                  : 'Never'}
+              </div>
+            </div>
+            <div>
+              <span className='text-gray-600'>Qualified:</span>
+              <div
+                className={`font-medium ${rewards.qualified ? 'text-green-600' : 'text-red-600'}`}
+              >
+                {rewards.qualified ? 'Yes' : 'No - vote for 4 producers'}
+              </div>
+            </div>
+          </div>
+
+          <button
+            onClick={onClaimRewards}
+            disabled={loading || !canClaim}
+            className='btn-primary w-full disabled:opacity-50 disabled:cursor-not-allowed'
+            aria-label='Claim voter rewards'
+          >
+            {canClaim ? 'Claim Rewards' : 'No Rewards to Claim'}
+          </button>
+        </div>
+      ) : (
+        <p className='text-sm text-gray-600'>
+          No rewards yet. Stake XPR and vote for 4 producers to start earning.
+        </p>
+      )}
+    </CardLayout>
+  );
+};
+
+export default VoterRewards;
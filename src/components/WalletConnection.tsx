@@ -6,6 +6,7 @@
  *
  * Features:
  * - Connect/Disconnect wallet functionality
+ * - Account switcher for multiple connected sessions
  * - Loading states with spinner animation
  * - Visual connection status indicators
  * - Responsive button design
@@ -16,6 +17,9 @@
  * @param loading - Loading state for connection process
  * @param onConnect - Callback to initiate wallet connection
  * @param onDisconnect - Callback to disconnect wallet
+ * @param sessions - All connected wallet sessions on the current network
+ * @param onSwitchAccount - Callback to make another session active
+ * @param onDisconnectAccount - Callback to disconnect a single session
  * @returns Wallet connection component
  */
 import React from 'react';
@@ -27,6 +31,9 @@ const WalletConnection: React.FC<WalletConnectionProps> = ({
   loading,
   onConnect,
   onDisconnect,
+  sessions = [],
+  onSwitchAccount,
+  onDisconnectAccount,
 }) => {
   /**
    * Handle wallet connection click
@@ -38,6 +45,14 @@ const WalletConnection: React.FC<WalletConnectionProps> = ({
     }
   };
 
+  /**
+   * Session label in actor@permission form
+   */
+  const getSessionLabel = (session: NonNullable<typeof wallet>) =>
+    `${session.session.auth.actor}@${session.session.auth.permission}`;
+
+  const activePrefix = wallet?.storagePrefix;
+
   return (
     <div className='text-center mb-6'>
       {!wallet ? (
@@ -106,12 +121,86 @@ const WalletConnection: React.FC<WalletConnectionProps> = ({
           <button
             onClick={onDisconnect}
             className='btn-danger'
-            aria-label='Disconnect wallet'
+            aria-label={
+              sessions.length > 1
+                ? 'Disconnect all accounts'
+                : 'Disconnect wallet'
+            }
           >
-            Disconnect
+            {sessions.length > 1 ? 'Disconnect All' : 'Disconnect'}
           </button>
         </div>
       )}
+
+      {wallet && (
+        <div className='mt-4 max-w-md mx-auto text-left'>
+          {sessions.length > 1 && (
+            <ul className='space-y-2 mb-3' aria-label='Connected accounts'>
+              {sessions.map(session => {
+                const label = getSessionLabel(session);
+                const isActive = session.storagePrefix === activePrefix;
+                return (
+                  <li
+                    key={session.storagePrefix || label}
+                    className={`flex items-center justify-between gap-2 px-3 py-2 rounded-lg border ${
+                      isActive
+                        ? 'border-green-300 bg-green-50'
+                        : 'border-gray-200 bg-white'
+                    }`}
+                  >
+                    <span className='font-mono text-sm text-gray-800 truncate'>
+                      {label}
+                      {isActive && (
+                        <span className='ml-2 text-xs font-sans text-green-700'>
+                          Active
+                        </span>
+                      )}
+                    </span>
+                    <span className='flex gap-2 shrink-0'>
+                      {!isActive &&
+                        onSwitchAccount &&
+                        session.storagePrefix && (
+                          <button
+                            onClick={() =>
+                              onSwitchAccount(session.storagePrefix as string)
+                            }
+                            className='text-sm text-blue-600 hover:text-blue-800'
+                            aria-label={`Switch to ${label}`}
+                          >
+                            Switch
+                          </button>
+                        )}
+                      {onDisconnectAccount && session.storagePrefix && (
+                        <button
+                          onClick={() =>
+                            onDisconnectAccount(session.storagePrefix as string)
+                          }
+                          className='text-sm text-red-600 hover:text-red-800'
+                          aria-label={`Disconnect ${label}`}
+                        >
+                          Disconnect
+                        </button>
+                      )}
+                    </span>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+          <div className='text-center'>
+            <button
+              onClick={handleConnectClick}
+              disabled={loading}
+              className={`text-sm text-blue-600 hover:text-blue-800 ${
+                loading ? 'opacity-50 cursor-not-allowed' : ''
+              }`}
+              aria-label='Connect another account'
+            >
+              {loading ? 'Connecting...' : '+ Connect another account'}
+            </button>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -10,9 +10,16 @@
 export { default as NetworkSelector } from './NetworkSelector';
 export { default as NetworkInfo } from './NetworkInfo';
 export { default as WalletConnection } from './WalletConnection';
+export { default as PermissionSelector } from './PermissionSelector';
 export { default as BlockProducerSelector } from './BlockProducerSelector';
+export { default as ProducerDetail } from './ProducerDetail';
+export { default as ProxySelector } from './ProxySelector';
 export { default as StakeResources } from './StakeResources';
 export { default as VoteInfo } from './VoteInfo';
+export { default as AccountActionList } from './AccountActionList';
+export { default as VoteChangePreview } from './VoteChangePreview';
+export { default as TransactionReview } from './TransactionReview';
+export { default as VoterRewards } from './VoterRewards';
 export { default as StatusMessage } from './StatusMessage';
 export { default as RequestForm } from './RequestForm';
 export { default as ShareableLink } from './ShareableLink';
@@ -0,0 +1,28 @@
+import {
+  EXCHANGE_RULES,
+  findExchangeRule,
+  getExchangeRules,
+} from '../exchanges';
+
+describe('exchange rules', () => {
+  test('should have unique deposit accounts and valid memo patterns', () => {
+    Object.values(EXCHANGE_RULES).forEach(rules => {
+      const accounts = rules.map(rule => rule.account);
+      expect(new Set(accounts).size).toBe(accounts.length);
+      rules.forEach(rule => {
+        expect(() => new RegExp(rule.memoPattern || '')).not.toThrow();
+      });
+    });
+  });
+
+  test('should find rules by account', () => {
+    expect(findExchangeRule('testnet', 'testexchange')).toMatchObject({
+      enforcement: 'block',
+    });
+    expect(findExchangeRule('testnet', 'alice')).toBeUndefined();
+  });
+
+  test('should return no rules for custom networks', () => {
+    expect(getExchangeRules('custom-devnet')).toEqual([]);
+  });
+});
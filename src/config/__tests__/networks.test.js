@@ -4,6 +4,8 @@ import {
   getNetworkConfig,
   isValidNetwork,
   getAvailableNetworks,
+  registerCustomNetworks,
+  createNetworkId,
 } from '../networks';
 
 describe('network configuration', () => {
@@ -13,10 +15,15 @@ describe('network configuration', () => {
         name: 'Testnet',
         chainId:
           '71ee83bcf52142d61019d95f9cc5427ba6a0d7ff8accd9e2088ae2abeaf3d3dd',
-        endpoints: ['https://testnet-api.chaininfra.net'],
+        endpoints: [
+          'https://testnet-api.chaininfra.net',
+          'https://testnet.protonchain.com',
+        ],
         appName: 'XPR Delegation Demo',
         webauth: 'testnet.webauth.com',
         color: '#27ae60',
+        lightApi: 'https://lightapi.eosamsterdam.net/api/balances/protontest',
+        historyApi: 'https://proton-testnet.eosusa.io',
       });
     });
 
@@ -25,10 +32,12 @@ describe('network configuration', () => {
         name: 'Mainnet',
         chainId:
           '384da888112027f0321850a169f737c33e53b388aad48b5adace4bab97f437e0',
-        endpoints: ['https://api.protonnz.com'],
+        endpoints: ['https://api.protonnz.com', 'https://proton.greymass.com'],
         appName: 'XPR Delegation Demo',
         webauth: 'webauth.com',
         color: '#f39c12',
+        lightApi: 'https://lightapi.eosamsterdam.net/api/balances/proton',
+        historyApi: 'https://proton.eosusa.io',
       });
     });
 
@@ -41,6 +50,15 @@ describe('network configuration', () => {
       expect(NETWORKS.testnet.endpoints[0]).toMatch(/^https:\/\//);
       expect(NETWORKS.mainnet.endpoints[0]).toMatch(/^https:\/\//);
     });
+
+    test('should have fallback endpoints for the RPC pool', () => {
+      Object.values(NETWORKS).forEach(config => {
+        expect(config.endpoints.length).toBeGreaterThan(1);
+        config.endpoints.forEach(endpoint => {
+          expect(endpoint).toMatch(/^https:\/\//);
+        });
+      });
+    });
   });
 
   describe('SAMPLE_BLOCK_PRODUCERS', () => {
@@ -112,4 +130,44 @@ describe('network configuration', () => {
       expect(networks.length).toBe(2);
     });
   });
+
+  describe('custom networks', () => {
+    const devnet = {
+      id: 'local-devnet',
+      name: 'Local Devnet',
+      chainId: 'a'.repeat(64),
+      endpoints: ['http://127.0.0.1:8888'],
+      appName: 'XPR Delegation Demo',
+      webauth: '',
+      color: '#3b82f6',
+    };
+
+    afterEach(() => {
+      registerCustomNetworks([]);
+    });
+
+    test('should derive network IDs from names', () => {
+      expect(createNetworkId('Local Devnet')).toBe('local-devnet');
+      expect(createNetworkId('  Staging #2 ')).toBe('staging-2');
+    });
+
+    test('should resolve registered custom networks', () => {
+      registerCustomNetworks([devnet]);
+
+      expect(isValidNetwork('local-devnet')).toBe(true);
+      expect(getAvailableNetworks()).toContain('local-devnet');
+      expect(getNetworkConfig('local-devnet')).toMatchObject({
+        name: 'Local Devnet',
+        endpoints: ['http://127.0.0.1:8888'],
+        custom: true,
+      });
+    });
+
+    test('should not let custom networks override built-ins', () => {
+      registerCustomNetworks([{ ...devnet, id: 'mainnet' }]);
+
+      expect(getNetworkConfig('mainnet')).toEqual(NETWORKS.mainnet);
+      expect(getAvailableNetworks().length).toBe(2);
+    });
+  });
 });
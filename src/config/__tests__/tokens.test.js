@@ -0,0 +1,45 @@
+import { TOKEN_REGISTRY, getTokenRegistry, findTokenMetadata } from '../tokens';
+
+describe('token registry', () => {
+  describe('TOKEN_REGISTRY', () => {
+    test('should include the core token on every network', () => {
+      Object.values(TOKEN_REGISTRY).forEach(tokens => {
+        expect(tokens).toContainEqual(
+          expect.objectContaining({
+            contract: 'eosio.token',
+            symbol: 'XPR',
+            precision: 4,
+          })
+        );
+      });
+    });
+
+    test('should have unique contract/symbol pairs', () => {
+      Object.values(TOKEN_REGISTRY).forEach(tokens => {
+        const keys = tokens.map(token => `${token.contract}:${token.symbol}`);
+        expect(new Set(keys).size).toBe(keys.length);
+      });
+    });
+  });
+
+  describe('getTokenRegistry', () => {
+    test('should return bundled tokens for built-in networks', () => {
+      expect(getTokenRegistry('mainnet').length).toBeGreaterThan(1);
+    });
+
+    test('should fall back to the core token for custom networks', () => {
+      const tokens = getTokenRegistry('local-devnet');
+      expect(tokens).toHaveLength(1);
+      expect(tokens[0].symbol).toBe('XPR');
+    });
+  });
+
+  describe('findTokenMetadata', () => {
+    test('should find metadata by contract and symbol', () => {
+      expect(findTokenMetadata('mainnet', 'xtokens', 'XUSDC')).toMatchObject({
+        precision: 6,
+      });
+      expect(findTokenMetadata('mainnet', 'xtokens', 'NOPE')).toBeUndefined();
+    });
+  });
+});
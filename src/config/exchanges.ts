@@ -0,0 +1,82 @@
+/**
+ * XPR Network Exchange Deposit Accounts
+ *
+ * Known exchange deposit accounts per network and the memo each expects.
+ * Exchanges credit deposits by memo, so a transfer without the right memo
+ * is not credited to anyone. Add or update entries here when an exchange
+ * publishes a new deposit account.
+ *
+ * Features:
+ * - Deposit account, exchange name and memo format per entry
+ * - Per-rule enforcement (block or warn) for malformed memos
+ * - Lookup helper keyed by account
+ *
+ * @fileoverview Exchange deposit rules for XPR Delegation Demo
+ */
+
+import type { ExchangeRecipientRule, NetworkType } from '../types';
+
+// Numeric deposit memo (user ID) used by most exchanges
+const NUMERIC_MEMO = '^\\d{4,20}$';
+
+// Deposit accounts per network
+export const EXCHANGE_RULES: Partial<
+  Record<NetworkType, ExchangeRecipientRule[]>
+> = {
+  testnet: [
+    {
+      account: 'testexchange',
+      name: 'Test Exchange',
+      memoPattern: NUMERIC_MEMO,
+      memoHint: 'numeric deposit ID',
+      enforcement: 'block',
+    },
+  ],
+  mainnet: [
+    {
+      account: 'bitfinexdep1',
+      name: 'Bitfinex',
+      memoPattern: NUMERIC_MEMO,
+      memoHint: 'numeric deposit ID',
+      enforcement: 'block',
+    },
+    {
+      account: 'kucoinrise11',
+      name: 'KuCoin',
+      memoPattern: NUMERIC_MEMO,
+      memoHint: 'numeric deposit ID',
+      enforcement: 'warn',
+    },
+    {
+      account: 'mexcdeposit',
+      name: 'MEXC',
+      memoPattern: NUMERIC_MEMO,
+      memoHint: 'numeric deposit ID',
+      enforcement: 'warn',
+    },
+  ],
+};
+
+/**
+ * Get the exchange rules for a network
+ * @param network - Network name
+ * @returns Exchange rules (empty for custom networks)
+ */
+export const getExchangeRules = (
+  network: NetworkType
+): ExchangeRecipientRule[] => {
+  return EXCHANGE_RULES[network] || [];
+};
+
+/**
+ * Find the exchange rule for a deposit account
+ * @param network - Network name
+ * @param account - Recipient account
+ * @returns Exchange rule if the account is a known deposit account
+ */
+export const findExchangeRule = (
+  network: NetworkType,
+  account: string
+): ExchangeRecipientRule | undefined => {
+  return getExchangeRules(network).find(rule => rule.account === account);
+};
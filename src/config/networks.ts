@@ -6,7 +6,8 @@
  *
  * Features:
  * - Testnet and mainnet configurations
- * - Correct chain IDs and endpoints
+ * - Runtime registry for custom networks (devnets, private chains)
+ * - Correct chain IDs and endpoints (multiple per network for RPC pool failover)
  * - WebAuth integration settings
  * - Sample Block Producer data
  * - Network validation utilities
@@ -14,30 +15,45 @@
  * @fileoverview Network configuration for XPR Delegation Demo
  */
 
-import type { NetworkConfig, NetworkType, BlockProducer } from '../types';
+import type {
+  BuiltInNetworkType,
+  CustomNetworkConfig,
+  NetworkConfig,
+  NetworkType,
+  BlockProducer,
+} from '../types';
 
 // Network configurations with correct endpoints and chain IDs
-export const NETWORKS: Record<NetworkType, NetworkConfig> = {
+export const NETWORKS: Record<BuiltInNetworkType, NetworkConfig> = {
   testnet: {
     name: 'Testnet',
     chainId: '71ee83bcf52142d61019d95f9cc5427ba6a0d7ff8accd9e2088ae2abeaf3d3dd',
-    endpoints: ['https://testnet-api.chaininfra.net'],
+    endpoints: [
+      'https://testnet-api.chaininfra.net',
+      'https://testnet.protonchain.com',
+    ],
     appName: 'XPR Delegation Demo',
     webauth: 'testnet.webauth.com',
     color: '#27ae60',
+    lightApi: 'https://lightapi.eosamsterdam.net/api/balances/protontest',
+    historyApi: 'https://proton-testnet.eosusa.io',
   },
   mainnet: {
     name: 'Mainnet',
     chainId: '384da888112027f0321850a169f737c33e53b388aad48b5adace4bab97f437e0',
-    endpoints: ['https://api.protonnz.com'],
+    endpoints: ['https://api.protonnz.com', 'https://proton.greymass.com'],
     appName: 'XPR Delegation Demo',
     webauth: 'webauth.com',
     color: '#f39c12',
+    lightApi: 'https://lightapi.eosamsterdam.net/api/balances/proton',
+    historyApi: 'https://proton.eosusa.io',
   },
 };
 
 // Sample Block Producers data
-export const SAMPLE_BLOCK_PRODUCERS: Record<NetworkType, BlockProducer[]> = {
+export const SAMPLE_BLOCK_PRODUCERS: Partial<
+  Record<NetworkType, BlockProducer[]>
+> = {
   testnet: [
     { name: 'proton', url: 'https://protonchain.com' },
     { name: 'protondev', url: 'https://protondev.com' },
@@ -57,16 +73,60 @@ export const SAMPLE_BLOCK_PRODUCERS: Record<NetworkType, BlockProducer[]> = {
   ],
 };
 
+// Custom networks registered at runtime (persisted by the store)
+const customNetworks = new Map<string, NetworkConfig>();
+
+/**
+ * Check whether a network ID belongs to a built-in network
+ * @param network - Network ID to check
+ * @returns True for testnet/mainnet
+ */
+export const isBuiltInNetwork = (
+  network: string
+): network is BuiltInNetworkType => {
+  return Object.prototype.hasOwnProperty.call(NETWORKS, network);
+};
+
+/**
+ * Replace the set of registered custom networks
+ * @param networks - Custom network definitions
+ */
+export const registerCustomNetworks = (
+  networks: CustomNetworkConfig[]
+): void => {
+  customNetworks.clear();
+  networks.forEach(({ id, ...config }) => {
+    if (!isBuiltInNetwork(id)) {
+      customNetworks.set(id, { ...config, custom: true });
+    }
+  });
+};
+
+/**
+ * Derive a network ID from a custom network name
+ * @param name - Network display name
+ * @returns Lowercase slug usable as NetworkType
+ */
+export const createNetworkId = (name: string): string => {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+};
+
 /**
  * Get network configuration by name
- * @param network - Network name (testnet/mainnet)
+ * @param network - Network name (testnet/mainnet or custom network ID)
  * @returns Network configuration object
  * @throws Error if network is not supported
  */
 export const getNetworkConfig = (
   network: NetworkType = 'testnet'
 ): NetworkConfig => {
-  const config = NETWORKS[network];
+  const config = isBuiltInNetwork(network)
+    ? NETWORKS[network]
+    : customNetworks.get(network);
   if (!config) {
     throw new Error(`Unsupported network: ${network}`);
   }
@@ -79,7 +139,7 @@ export const getNetworkConfig = (
  * @returns True if valid network name
  */
 export const isValidNetwork = (network: string): network is NetworkType => {
-  return Object.keys(NETWORKS).includes(network);
+  return isBuiltInNetwork(network) || customNetworks.has(network);
 };
 
 /**
@@ -87,5 +147,5 @@ export const isValidNetwork = (network: string): network is NetworkType => {
  * @returns Array of available network names
  */
 export const getAvailableNetworks = (): NetworkType[] => {
-  return Object.keys(NETWORKS) as NetworkType[];
+  return [...Object.keys(NETWORKS), ...customNetworks.keys()];
 };
@@ -0,0 +1,69 @@
+/**
+ * XPR Network Token Registry
+ *
+ * Bundled list of well-known token contracts per network.
+ * The token service merges this list with contracts discovered on-chain
+ * through the network's lightweight API endpoint, so balances are fetched
+ * from every known contract rather than only `eosio.token`.
+ *
+ * Features:
+ * - Contract, symbol, precision and display metadata per token
+ * - Per-network registries (custom networks fall back to core token only)
+ * - Lookup helpers keyed by contract and symbol
+ *
+ * @fileoverview Token registry for XPR Delegation Demo
+ */
+
+import type { NetworkType, TokenMetadata } from '../types';
+
+// Core token shared by every network
+const CORE_TOKEN: TokenMetadata = {
+  contract: 'eosio.token',
+  symbol: 'XPR',
+  precision: 4,
+  name: 'XPR Network',
+  logo: '/logo/logo.svg',
+};
+
+// Bundled token lists per network
+export const TOKEN_REGISTRY: Partial<Record<NetworkType, TokenMetadata[]>> = {
+  testnet: [
+    CORE_TOKEN,
+    { contract: 'xtokens', symbol: 'XUSDC', precision: 6, name: 'USD Coin' },
+    { contract: 'xtokens', symbol: 'XBTC', precision: 8, name: 'Bitcoin' },
+  ],
+  mainnet: [
+    CORE_TOKEN,
+    { contract: 'xtokens', symbol: 'XUSDC', precision: 6, name: 'USD Coin' },
+    { contract: 'xtokens', symbol: 'XUSDT', precision: 6, name: 'Tether' },
+    { contract: 'xtokens', symbol: 'XBTC', precision: 8, name: 'Bitcoin' },
+    { contract: 'xtokens', symbol: 'XETH', precision: 8, name: 'Ethereum' },
+    { contract: 'loan.token', symbol: 'LOAN', precision: 4, name: 'Loan' },
+  ],
+};
+
+/**
+ * Get the bundled token list for a network
+ * @param network - Network name
+ * @returns Known tokens (core token only for custom networks)
+ */
+export const getTokenRegistry = (network: NetworkType): TokenMetadata[] => {
+  return TOKEN_REGISTRY[network] || [CORE_TOKEN];
+};
+
+/**
+ * Find bundled metadata for a token
+ * @param network - Network name
+ * @param contract - Token contract account
+ * @param symbol - Token symbol
+ * @returns Token metadata if the token is in the registry
+ */
+export const findTokenMetadata = (
+  network: NetworkType,
+  contract: string,
+  symbol: string
+): TokenMetadata | undefined => {
+  return getTokenRegistry(network).find(
+    token => token.contract === contract && token.symbol === symbol
+  );
+};
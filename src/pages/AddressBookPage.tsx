@@ -0,0 +1,296 @@
+/**
+ * AddressBookPage Component - XPR Delegation Demo
+ *
+ * Saved transfer recipients for the current network with labels and
+ * default memos. Contacts are stored in the browser and suggested in the
+ * transfer and request recipient fields.
+ *
+ * @fileoverview Address book page component
+ */
+
+import React, { useState } from 'react';
+import type { AddressBookContact, AddressBookPageProps } from '../types';
+import {
+  exportContactsToJson,
+  parseContactsJson,
+} from '../utils/addressBookUtils';
+import { downloadFile } from '../utils/helpers';
+import { sanitizeInput, validateAccountName } from '../utils/security';
+
+const EMPTY_FORM = { account: '', label: '', defaultMemo: '' };
+
+/**
+ * AddressBookPage - Manage saved contacts
+ */
+const AddressBookPage: React.FC<AddressBookPageProps> = ({
+  network,
+  contacts,
+  onSaveContact,
+  onRemoveContact,
+  onImportContacts,
+}) => {
+  // Local state
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const sortedContacts = [...contacts].sort((a, b) =>
+    a.label.localeCompare(b.label)
+  );
+
+  /**
+   * Save the entered contact (add or update)
+   */
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setNotice(null);
+
+    const account = formData.account.trim();
+    if (!validateAccountName(account)) {
+      setError('Invalid account name format');
+      return;
+    }
+    if (formData.defaultMemo.length > 256) {
+      setError('Memo cannot exceed 256 characters');
+      return;
+    }
+
+    onSaveContact({
+      account,
+      label: sanitizeInput(formData.label) || account,
+      defaultMemo: formData.defaultMemo.trim(),
+      network,
+      updatedAt: Date.now(),
+    });
+    setFormData(EMPTY_FORM);
+    setEditing(null);
+    setError(null);
+  };
+
+  /**
+   * Load a contact into the form for editing
+   */
+  const handleEdit = (contact: AddressBookContact) => {
+    setFormData({
+      account: contact.account,
+      label: contact.label,
+      defaultMemo: contact.defaultMemo,
+    });
+    setEditing(contact.account);
+    setError(null);
+  };
+
+  /**
+   * Remove a contact after confirmation
+   */
+  const handleRemove = (contact: AddressBookContact) => {
+    if (!window.confirm(`Remove ${contact.label} from your address book?`)) {
+      return;
+    }
+    onRemoveContact(contact.account, network);
+    if (editing === contact.account) {
+      setFormData(EMPTY_FORM);
+      setEditing(null);
+    }
+  };
+
+  /**
+   * Import contacts from an exported JSON document
+   */
+  const handleImport = (json: string) => {
+    try {
+      const imported = parseContactsJson(json, network);
+      onImportContacts(imported);
+      setError(null);
+      setNotice(
+        `Imported ${imported.length} contact${imported.length !== 1 ? 's' : ''}`
+      );
+    } catch (err: unknown) {
+      setNotice(null);
+      setError(
+        `Import failed: ${err instanceof Error ? err.message : 'Unknown error'}`
+      );
+    }
+  };
+
+  return (
+    <div className='min-h-screen bg-gray-50 py-8'>
+      <div className='max-w-4xl mx-auto px-4 sm:px-6 lg:px-8'>
+        {/* Page Header */}
+        <div className='text-center mb-8'>
+          <h1 className='text-3xl font-bold text-gray-900 mb-2'>
+            Address Book
+          </h1>
+          <p className='text-gray-600'>
+            Saved recipients on <span className='capitalize'>{network}</span>,
+            stored in this browser
+          </p>
+        </div>
+
+        {/* Contact Form */}
+        <form
+          onSubmit={handleSubmit}
+          className='bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-6 space-y-4'
+        >
+          <h3 className='text-lg font-semibold text-gray-900'>
+            {editing ? `Edit ${editing}` : 'Add Contact'}
+          </h3>
+          <div className='grid grid-cols-1 md:grid-cols-3 gap-4'>
+            <input
+              type='text'
+              value={formData.account}
+              onChange={e =>
+                setFormData(prev => ({ ...prev, account: e.target.value }))
+              }
+              placeholder='Account name'
+              disabled={!!editing}
+              aria-label='Account name'
+              className='px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100'
+            />
+            <input
+              type='text'
+              value={formData.label}
+              onChange={e =>
+                setFormData(prev => ({ ...prev, label: e.target.value }))
+              }
+              placeholder='Label (e.g. Exchange deposit)'
+              maxLength={64}
+              aria-label='Label'
+              className='px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500'
+            />
+            <input
+              type='text'
+              value={formData.defaultMemo}
+              onChange={e =>
+                setFormData(prev => ({ ...prev, defaultMemo: e.target.value }))
+              }
+              placeholder='Default memo (optional)'
+              maxLength={256}
+              aria-label='Default memo'
+              className='px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500'
+            />
+          </div>
+          <div className='flex gap-2'>
+            <button
+              type='submit'
+              disabled={!formData.account.trim()}
+              className='btn-primary disabled:opacity-50'
+            >
+              {editing ? 'Update Contact' : 'Save Contact'}
+            </button>
+            {editing && (
+              <button
+                type='button'
+                onClick={() => {
+                  setFormData(EMPTY_FORM);
+                  setEditing(null);
+                }}
+                className='btn-secondary'
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+        </form>
+
+        {/* Contact List */}
+        <div className='bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4'>
+          <div className='flex items-center justify-between'>
+            <p className='text-sm text-gray-600'>
+              {contacts.length} contact{contacts.length !== 1 ? 's' : ''}
+            </p>
+            <div className='flex gap-2'>
+              <label className='btn-secondary cursor-pointer'>
+                Import JSON
+                <input
+                  type='file'
+                  accept='.json,application/json'
+                  onChange={async e => {
+                    const file = e.target.files?.[0];
+                    e.target.value = '';
+                    if (file) handleImport(await file.text());
+                  }}
+                  className='hidden'
+                />
+              </label>
+              <button
+                onClick={() =>
+                  downloadFile(
+                    exportContactsToJson(contacts),
+                    `xpr-contacts-${network}.json`,
+                    'application/json'
+                  )
+                }
+                disabled={contacts.length === 0}
+                className='btn-secondary disabled:opacity-50'
+              >
+                Export JSON
+              </button>
+            </div>
+          </div>
+
+          {error && (
+            <p className='text-sm text-red-600' role='alert'>
+              {error}
+            </p>
+          )}
+          {notice && <p className='text-sm text-green-700'>{notice}</p>}
+
+          {sortedContacts.length === 0 ? (
+            <p className='text-sm text-gray-500 text-center py-8'>
+              No contacts saved yet
+            </p>
+          ) : (
+            <div className='overflow-x-auto'>
+              <table className='w-full text-sm'>
+                <thead>
+                  <tr className='text-left text-gray-500 border-b border-gray-200'>
+                    <th className='py-2 font-medium'>Label</th>
+                    <th className='py-2 font-medium'>Account</th>
+                    <th className='py-2 font-medium'>Default Memo</th>
+                    <th className='py-2 font-medium text-right'>Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {sortedContacts.map(contact => (
+                    <tr
+                      key={contact.account}
+                      className='border-b border-gray-100'
+                    >
+                      <td className='py-2 font-medium text-gray-900'>
+                        {contact.label}
+                      </td>
+                      <td className='py-2 font-mono text-gray-700'>
+                        {contact.account}
+                      </td>
+                      <td className='py-2 text-gray-600 break-all'>
+                        {contact.defaultMemo || '—'}
+                      </td>
+                      <td className='py-2 text-right space-x-3'>
+                        <button
+                          onClick={() => handleEdit(contact)}
+                          className='text-blue-600 hover:text-blue-800'
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => handleRemove(contact)}
+                          className='text-red-600 hover:text-red-800'
+                        >
+                          Remove
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AddressBookPage;
@@ -0,0 +1,329 @@
+/**
+ * HistoryPage Component - XPR Delegation Demo
+ *
+ * Local transaction history for the connected account with
+ * CSV/JSON export for bookkeeping, plus paginated on-chain activity
+ * from the network's history API.
+ *
+ * @fileoverview Transaction history page component
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import type {
+  AccountActionsPage,
+  HistoryPageProps,
+  TransactionHistoryEntry,
+  TransactionHistoryType,
+} from '../types';
+import {
+  transactionHistory,
+  exportHistoryToCsv,
+  exportHistoryToJson,
+} from '../services/history';
+import { getAccountActions } from '../services';
+import AccountActionList from '../components/AccountActionList';
+import { downloadFile, formatTransactionId } from '../utils/helpers';
+import { getExplorerUrl } from '../utils/transactionUtils';
+
+const TYPE_LABELS: Record<TransactionHistoryType, string> = {
+  transfer: 'Transfer',
+  vote: 'Vote',
+  proxy_vote: 'Proxy Vote',
+  register_proxy: 'Proxy Registration',
+  stake: 'Stake',
+  unstake: 'Unstake',
+  claim_refund: 'Claim Refund',
+  claim_rewards: 'Claim Rewards',
+  permissions: 'Permissions',
+};
+
+/**
+ * Summarize action data for the table
+ */
+const describeEntry = (entry: TransactionHistoryEntry): string => {
+  const { data } = entry;
+  switch (entry.type) {
+    case 'transfer':
+      return `${data.quantity} → ${data.to}`;
+    case 'vote':
+      return (data.producers as string[] | undefined)?.join(', ') || '';
+    case 'proxy_vote':
+      return `via ${data.proxy}`;
+    case 'register_proxy':
+      return data.isProxy ? 'Registered' : 'Unregistered';
+    case 'permissions':
+      return (data.changes as string[] | undefined)?.join(', ') || '';
+    default:
+      return String(data.quantity || '');
+  }
+};
+
+/**
+ * HistoryPage - Transaction history and export
+ */
+const HistoryPage: React.FC<HistoryPageProps> = ({ account, network }) => {
+  // Local state
+  const [entries, setEntries] = useState<TransactionHistoryEntry[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState<'local' | 'onchain'>('local');
+  const [actionsPage, setActionsPage] = useState<AccountActionsPage | null>(
+    null
+  );
+  const [actionsLoading, setActionsLoading] = useState(false);
+  const [actionsError, setActionsError] = useState<string | null>(null);
+
+  const accountName = account?.account_name;
+
+  /**
+   * Load history for the connected account
+   */
+  const loadHistory = useCallback(async () => {
+    if (!accountName) {
+      setEntries([]);
+      return;
+    }
+
+    try {
+      setHistoryLoading(true);
+      setError(null);
+      setEntries(await transactionHistory.getHistory(accountName, network));
+    } catch (err: unknown) {
+      setError(
+        `Failed to load history: ${
+          err instanceof Error ? err.message : 'Unknown error'
+        }`
+      );
+    } finally {
+      setHistoryLoading(false);
+    }
+  }, [accountName, network]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  /**
+   * Load a page of on-chain activity from the history API
+   */
+  const loadActions = useCallback(
+    async (page: number) => {
+      if (!accountName) {
+        setActionsPage(null);
+        return;
+      }
+
+      try {
+        setActionsLoading(true);
+        setActionsError(null);
+        setActionsPage(await getAccountActions(accountName, network, { page }));
+      } catch (err: unknown) {
+        setActionsError(
+          `Failed to load on-chain activity: ${
+            err instanceof Error ? err.message : 'Unknown error'
+          }`
+        );
+      } finally {
+        setActionsLoading(false);
+      }
+    },
+    [accountName, network]
+  );
+
+  // Start from the newest page when the tab opens or the account changes
+  useEffect(() => {
+    if (activeTab === 'onchain') {
+      loadActions(0);
+    }
+  }, [activeTab, loadActions]);
+
+  /**
+   * Export the loaded history in the requested format
+   */
+  const handleExport = (format: 'csv' | 'json') => {
+    const filename = `xpr-history-${accountName}-${network}.${format}`;
+    if (format === 'csv') {
+      downloadFile(exportHistoryToCsv(entries), filename, 'text/csv');
+    } else {
+      downloadFile(exportHistoryToJson(entries), filename, 'application/json');
+    }
+  };
+
+  /**
+   * Clear history after confirmation
+   */
+  const handleClear = async () => {
+    if (!accountName || !window.confirm('Delete all local history?')) return;
+
+    try {
+      await transactionHistory.clearHistory(accountName, network);
+      setEntries([]);
+    } catch (err: unknown) {
+      setError(
+        `Failed to clear history: ${
+          err instanceof Error ? err.message : 'Unknown error'
+        }`
+      );
+    }
+  };
+
+  return (
+    <div className='min-h-screen bg-gray-50 py-8'>
+      <div className='max-w-4xl mx-auto px-4 sm:px-6 lg:px-8'>
+        {/* Page Header */}
+        <div className='text-center mb-8'>
+          <h1 className='text-3xl font-bold text-gray-900 mb-2'>
+            Transaction History
+          </h1>
+          <p className='text-gray-600'>
+            {activeTab === 'local'
+              ? 'Transactions signed from this browser, stored locally'
+              : 'On-chain activity reported by the network history API'}
+          </p>
+        </div>
+
+        {/* Tabs */}
+        {accountName && (
+          <div className='flex justify-center gap-2 mb-6'>
+            {(
+              [
+                ['local', 'This Browser'],
+                ['onchain', 'On-Chain Activity'],
+              ] as const
+            ).map(([tab, label]) => (
+              <button
+                key={tab}
+                onClick={() => setActiveTab(tab)}
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                  activeTab === tab
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-white text-gray-700 border border-gray-200 hover:bg-gray-100'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {!accountName ? (
+          <div className='bg-white rounded-lg shadow-sm border border-gray-200 p-8 text-center text-gray-600'>
+            Please connect your XPR wallet to view transaction history
+          </div>
+        ) : activeTab === 'onchain' ? (
+          <div className='bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4'>
+            {actionsError && (
+              <p className='text-sm text-red-600' role='alert'>
+                {actionsError}
+              </p>
+            )}
+            <AccountActionList
+              accountName={accountName}
+              actionsPage={actionsPage}
+              network={network}
+              loading={actionsLoading}
+              onPageChange={loadActions}
+            />
+          </div>
+        ) : (
+          <div className='bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4'>
+            <div className='flex items-center justify-between'>
+              <p className='text-sm text-gray-600'>
+                {entries.length} transaction{entries.length !== 1 ? 's' : ''}{' '}
+                for <span className='font-medium'>{accountName}</span> on{' '}
+                <span className='capitalize'>{network}</span>
+              </p>
+              <div className='flex gap-2'>
+                <button
+                  onClick={() => handleExport('csv')}
+                  disabled={entries.length === 0}
+                  className='btn-secondary disabled:opacity-50'
+                >
+                  Export CSV
+                </button>
+                <button
+                  onClick={() => handleExport('json')}
+                  disabled={entries.length === 0}
+                  className='btn-secondary disabled:opacity-50'
+                >
+                  Export JSON
+                </button>
+                <button
+                  onClick={handleClear}
+                  disabled={entries.length === 0}
+                  className='btn-danger disabled:opacity-50'
+                >
+                  Clear
+                </button>
+              </div>
+            </div>
+
+            {error && (
+              <p className='text-sm text-red-600' role='alert'>
+                {error}
+              </p>
+            )}
+
+            {historyLoading ? (
+              <p className='text-sm text-gray-500'>Loading history...</p>
+            ) : entries.length === 0 ? (
+              <p className='text-sm text-gray-500 text-center py-8'>
+                No transactions recorded yet
+              </p>
+            ) : (
+              <div className='overflow-x-auto'>
+                <table className='w-full text-sm'>
+                  <thead>
+                    <tr className='text-left text-gray-500 border-b border-gray-200'>
+                      <th className='py-2 font-medium'>Date</th>
+                      <th className='py-2 font-medium'>Type</th>
+                      <th className='py-2 font-medium'>Details</th>
+                      <th className='py-2 font-medium'>Transaction</th>
+                      <th className='py-2 font-medium text-right'>Block</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {entries.map(entry => (
+                      <tr
+                        key={entry.id ?? entry.transactionId}
+                        className='border-b border-gray-100'
+                      >
+                        <td className='py-2 text-gray-600'>
+                          {new Date(entry.timestamp).toLocaleString()}
+                        </td>
+                        <td className='py-2 font-medium text-gray-900'>
+                          {TYPE_LABELS[entry.type] || entry.type}
+                        </td>
+                        <td className='py-2 text-gray-700'>
+                          {describeEntry(entry)}
+                        </td>
+                        <td className='py-2 font-mono'>
+                          <a
+                            href={getExplorerUrl(
+                              entry.transactionId,
+                              entry.network
+                            )}
+                            target='_blank'
+                            rel='noopener noreferrer'
+                            className='text-blue-600 hover:text-blue-800'
+                          >
+                            {formatTransactionId(entry.transactionId)}
+                          </a>
+                        </td>
+                        <td className='py-2 text-right text-gray-600'>
+                          {entry.blockNum || '—'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPage;
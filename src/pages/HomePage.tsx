@@ -4,9 +4,12 @@ import {
   NetworkSelector,
   NetworkInfo,
   WalletConnection,
+  PermissionSelector,
   VoteInfo,
   StakeResources,
   BlockProducerSelector,
+  ProxySelector,
+  VoterRewards,
   StatusMessage,
 } from '../components';
 
@@ -16,17 +19,32 @@ const HomePage: React.FC<HomePageProps> = ({
   wallet,
   account,
   blockProducers,
+  proxies,
+  voterRewards,
   selectedBPs,
   loading,
   message,
   network,
   handleConnectWallet,
   handleDisconnectWallet,
+  sessions,
+  handleSwitchAccount,
+  handleDisconnectAccount,
+  signingPermission = '',
+  handleSigningPermissionChange,
   handleDelegateVotes,
   handleNetworkChange,
+  customNetworks,
+  handleAddNetwork,
+  handleRemoveNetwork,
   handleStakeResources,
+  handleClaimRefund,
+  handleClaimVoterRewards,
   handleSelectBP,
+  handleDelegateToProxy,
+  handleRegisterProxy,
   navigateToTransfer,
+  navigateToProducer,
 }) => {
   return (
     <div className='min-h-screen bg-gray-50 py-8'>
@@ -56,6 +74,9 @@ const HomePage: React.FC<HomePageProps> = ({
           <NetworkSelector
             network={network}
             onNetworkChange={handleNetworkChange}
+            customNetworks={customNetworks}
+            onAddNetwork={handleAddNetwork}
+            onRemoveNetwork={handleRemoveNetwork}
           />
 
           <NetworkInfo network={network} />
@@ -65,8 +86,24 @@ const HomePage: React.FC<HomePageProps> = ({
             loading={loading}
             onConnect={handleConnectWallet}
             onDisconnect={handleDisconnectWallet}
+            sessions={sessions}
+            onSwitchAccount={handleSwitchAccount}
+            onDisconnectAccount={handleDisconnectAccount}
           />
 
+          {wallet &&
+            account?.permissions &&
+            account.permissions.length > 0 &&
+            handleSigningPermissionChange && (
+              <PermissionSelector
+                actor={wallet.session.auth.actor}
+                sessionPermission={wallet.session.auth.permission}
+                permissions={account.permissions}
+                value={signingPermission}
+                onChange={handleSigningPermissionChange}
+              />
+            )}
+
           {/* Transfer Tokens Section */}
           {wallet && account && (
             <div className='bg-white rounded-lg shadow-sm border border-gray-200 p-6'>
@@ -95,17 +132,38 @@ const HomePage: React.FC<HomePageProps> = ({
             <StakeResources
               account={account}
               onStakeResources={handleStakeResources}
+              onClaimRefund={handleClaimRefund}
               loading={loading}
               network={network}
             />
           )}
 
+          {wallet && account && (
+            <VoterRewards
+              rewards={voterRewards}
+              onClaimRewards={handleClaimVoterRewards}
+              loading={loading}
+            />
+          )}
+
           {wallet && account && (
             <BlockProducerSelector
               blockProducers={blockProducers}
               selectedBPs={selectedBPs}
               onSelectBP={handleSelectBP}
               onDelegateVotes={handleDelegateVotes}
+              onViewProducer={navigateToProducer}
+              voteInfo={account.vote_info}
+              loading={loading}
+            />
+          )}
+
+          {wallet && account && (
+            <ProxySelector
+              proxies={proxies}
+              account={account}
+              onDelegateToProxy={handleDelegateToProxy}
+              onRegisterProxy={handleRegisterProxy}
               loading={loading}
             />
           )}
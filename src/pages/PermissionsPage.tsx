@@ -0,0 +1,730 @@
+/**
+ * PermissionsPage Component - XPR Delegation Demo
+ *
+ * Shows the connected account's permission hierarchy (thresholds, keys,
+ * account authorities, waits and linked actions) and queues changes to it.
+ * Queued `updateauth`, `deleteauth`, `linkauth` and `unlinkauth` actions
+ * are previewed as the exact transaction before they are signed.
+ *
+ * @fileoverview Account permission management page component
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import type {
+  AccountPermission,
+  AuthorizedAction,
+  PermissionChange,
+  PermissionsPageProps,
+} from '../types';
+import { getAccountPermissions, previewPermissionChanges } from '../services';
+import {
+  SYSTEM_PERMISSIONS,
+  getPermissionTree,
+  parseAuthorityInput,
+} from '../utils/permissionUtils';
+
+// Contract and action a dedicated voting permission is linked to
+const VOTING_LINK = 'eosio::voteproducer';
+
+/**
+ * Permission editor form state
+ */
+interface PermissionEditorState {
+  isNew: boolean;
+  permission: string;
+  parent: string;
+  threshold: string;
+  keys: string;
+  accounts: string;
+  waits: string;
+  link: string;
+}
+
+/**
+ * Editor state prefilled from an existing authority
+ */
+const createEditorState = (
+  permission: string,
+  parent: string,
+  source: AccountPermission | undefined,
+  isNew: boolean,
+  link = ''
+): PermissionEditorState => ({
+  isNew,
+  permission,
+  parent,
+  threshold: String(source?.required_auth.threshold ?? 1),
+  keys: (source?.required_auth.keys || [])
+    .map(({ key, weight }) => `${key} ${weight}`)
+    .join('\n'),
+  accounts: (source?.required_auth.accounts || [])
+    .map(
+      ({ permission: level, weight }) =>
+        `${level.actor}@${level.permission} ${weight}`
+    )
+    .join('\n'),
+  waits: (source?.required_auth.waits || [])
+    .map(({ wait_sec, weight }) => `${wait_sec} ${weight}`)
+    .join('\n'),
+  link,
+});
+
+/**
+ * Split a `contract::action` link (action optional)
+ */
+const parseLink = (link: string): { contract: string; action: string } => {
+  const [contract, action = ''] = link.trim().split('::');
+  return { contract, action };
+};
+
+/**
+ * Summarize a queued change
+ */
+const describeChange = (change: PermissionChange): string => {
+  switch (change.type) {
+    case 'updateauth':
+      return `Set ${change.permission} (parent ${change.parent || 'none'}, threshold ${change.auth.threshold})`;
+    case 'deleteauth':
+      return `Delete ${change.permission}`;
+    case 'linkauth':
+      return `Link ${change.contract}::${change.action || '*'} to ${change.permission}`;
+    case 'unlinkauth':
+      return `Unlink ${change.contract}::${change.action || '*'}`;
+  }
+};
+
+/**
+ * PermissionsPage - Permission hierarchy and key management
+ */
+const PermissionsPage: React.FC<PermissionsPageProps> = ({
+  wallet,
+  account,
+  network,
+  loading,
+  signingPermission = '',
+  onUpdatePermissions,
+}) => {
+  // Local state
+  const [permissions, setPermissions] = useState<AccountPermission[]>([]);
+  const [permissionsLoading, setPermissionsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [changes, setChanges] = useState<PermissionChange[]>([]);
+  const [editor, setEditor] = useState<PermissionEditorState | null>(null);
+  const [editorError, setEditorError] = useState<string | null>(null);
+  const [linkForm, setLinkForm] = useState({ permission: '', link: '' });
+  const [preview, setPreview] = useState<AuthorizedAction[] | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+
+  const accountName = account?.account_name;
+  const session = wallet?.session;
+
+  /**
+   * Load the permission tree for the connected account
+   */
+  const loadPermissions = useCallback(async () => {
+    if (!accountName) {
+      setPermissions([]);
+      return;
+    }
+
+    try {
+      setPermissionsLoading(true);
+      setError(null);
+      setPermissions(
+        await getAccountPermissions(accountName, network, session)
+      );
+    } catch (err: unknown) {
+      setError(
+        `Failed to load permissions: ${
+          err instanceof Error ? err.message : 'Unknown error'
+        }`
+      );
+    } finally {
+      setPermissionsLoading(false);
+    }
+  }, [accountName, network, session]);
+
+  useEffect(() => {
+    loadPermissions();
+  }, [loadPermissions]);
+
+  // Queued changes belong to the account they were made for
+  useEffect(() => {
+    setChanges([]);
+    setEditor(null);
+    setPreview(null);
+  }, [accountName, network]);
+
+  /**
+   * Queue changes; any preview is outdated afterwards
+   */
+  const queueChanges = (next: PermissionChange[]) => {
+    setChanges(prev => [...prev, ...next]);
+    setPreview(null);
+    setPreviewError(null);
+  };
+
+  /**
+   * Remove a queued change
+   */
+  const removeChange = (index: number) => {
+    setChanges(prev => prev.filter((_, i) => i !== index));
+    setPreview(null);
+    setPreviewError(null);
+  };
+
+  /**
+   * Validate the editor and queue updateauth (plus linkauth when set)
+   */
+  const handleSaveEditor = () => {
+    if (!editor) return;
+
+    try {
+      const auth = parseAuthorityInput(
+        editor.threshold,
+        editor.keys,
+        editor.accounts,
+        editor.waits
+      );
+      const next: PermissionChange[] = [
+        {
+          type: 'updateauth',
+          permission: editor.permission.trim(),
+          parent: editor.parent,
+          auth,
+        },
+      ];
+      if (editor.link.trim()) {
+        next.push({
+          type: 'linkauth',
+          permission: editor.permission.trim(),
+          ...parseLink(editor.link),
+        });
+      }
+
+      queueChanges(next);
+      setEditor(null);
+      setEditorError(null);
+    } catch (err: unknown) {
+      setEditorError(err instanceof Error ? err.message : 'Invalid authority');
+    }
+  };
+
+  /**
+   * Queue a linkauth from the link form
+   */
+  const handleQueueLink = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!linkForm.permission || !linkForm.link.trim()) return;
+
+    queueChanges([
+      {
+        type: 'linkauth',
+        permission: linkForm.permission,
+        ...parseLink(linkForm.link),
+      },
+    ]);
+    setLinkForm({ permission: '', link: '' });
+  };
+
+  /**
+   * Open the editor for a dedicated voting permission under active
+   */
+  const handleSetUpVoting = () => {
+    const active = permissions.find(
+      permission => permission.perm_name === 'active'
+    );
+    setEditor(createEditorState('voting', 'active', active, true, VOTING_LINK));
+    setEditorError(null);
+  };
+
+  /**
+   * Build the exact transaction for the queued changes
+   */
+  const handlePreview = async () => {
+    try {
+      setPreviewError(null);
+      setPreview(
+        await previewPermissionChanges(
+          changes,
+          network,
+          session,
+          signingPermission || undefined
+        )
+      );
+    } catch (err: unknown) {
+      setPreview(null);
+      setPreviewError(err instanceof Error ? err.message : 'Unknown error');
+    }
+  };
+
+  /**
+   * Sign the previewed transaction
+   */
+  const handleSign = async () => {
+    if (await onUpdatePermissions(changes)) {
+      setChanges([]);
+      setPreview(null);
+      await loadPermissions();
+    }
+  };
+
+  const tree = getPermissionTree(permissions);
+  const linkablePermissions = permissions.filter(
+    permission => !SYSTEM_PERMISSIONS.includes(permission.perm_name)
+  );
+
+  return (
+    <div className='min-h-screen bg-gray-50 py-8'>
+      <div className='max-w-4xl mx-auto px-4 sm:px-6 lg:px-8'>
+        {/* Page Header */}
+        <div className='text-center mb-8'>
+          <h1 className='text-3xl font-bold text-gray-900 mb-2'>
+            Permissions &amp; Keys
+          </h1>
+          <p className='text-gray-600'>
+            Manage who can sign for your account and which actions each
+            permission may authorize
+          </p>
+        </div>
+
+        {!accountName ? (
+          <div className='bg-white rounded-lg shadow-sm border border-gray-200 p-8 text-center text-gray-600'>
+            Please connect your XPR wallet to manage permissions
+          </div>
+        ) : (
+          <div className='space-y-6'>
+            {/* Permission Hierarchy */}
+            <div className='bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4'>
+              <div className='flex items-center justify-between'>
+                <h2 className='text-lg font-semibold text-gray-900'>
+                  {accountName} on <span className='capitalize'>{network}</span>
+                </h2>
+                <div className='flex gap-2'>
+                  <button
+                    onClick={handleSetUpVoting}
+                    disabled={permissionsLoading || permissions.length === 0}
+                    className='btn-secondary disabled:opacity-50'
+                  >
+                    Set Up Voting Permission
+                  </button>
+                  <button
+                    onClick={loadPermissions}
+                    disabled={permissionsLoading}
+                    className='btn-secondary disabled:opacity-50'
+                  >
+                    Refresh
+                  </button>
+                </div>
+              </div>
+
+              {error && (
+                <p className='text-sm text-red-600' role='alert'>
+                  {error}
+                </p>
+              )}
+
+              {permissionsLoading ? (
+                <p className='text-sm text-gray-500'>Loading permissions...</p>
+              ) : (
+                <ul className='space-y-3'>
+                  {tree.map(({ permission, depth }) => {
+                    const { required_auth: auth } = permission;
+                    const isSystem = SYSTEM_PERMISSIONS.includes(
+                      permission.perm_name
+                    );
+                    return (
+                      <li
+                        key={permission.perm_name}
+                        className='border border-gray-200 rounded-lg p-4'
+                        style={{ marginLeft: `${depth * 1.5}rem` }}
+                      >
+                        <div className='flex items-center justify-between mb-2'>
+                          <div>
+                            <span className='font-mono font-semibold text-gray-900'>
+                              {permission.perm_name}
+                            </span>
+                            <span className='ml-2 text-xs text-gray-500'>
+                              threshold {auth.threshold}
+                              {permission.parent &&
+                                ` · parent ${permission.parent}`}
+                            </span>
+                          </div>
+                          <div className='flex gap-3 text-sm'>
+                            <button
+                              onClick={() =>
+                                setEditor(
+                                  createEditorState(
+                                    permission.perm_name,
+                                    permission.parent,
+                                    permission,
+                                    false
+                                  )
+                                )
+                              }
+                              className='text-blue-600 hover:text-blue-800'
+                            >
+                              Edit
+                            </button>
+                            <button
+                              onClick={() =>
+                                setEditor(
+                                  createEditorState(
+                                    '',
+                                    permission.perm_name,
+                                    undefined,
+                                    true
+                                  )
+                                )
+                              }
+                              className='text-blue-600 hover:text-blue-800'
+                            >
+                              Add Child
+                            </button>
+                            {!isSystem && (
+                              <button
+                                onClick={() =>
+                                  queueChanges([
+                                    {
+                                      type: 'deleteauth',
+                                      permission: permission.perm_name,
+                                    },
+                                  ])
+                                }
+                                className='text-red-600 hover:text-red-800'
+                              >
+                                Delete
+                              </button>
+                            )}
+                          </div>
+                        </div>
+
+                        <dl className='text-sm space-y-1'>
+                          {auth.keys.map(({ key, weight }) => (
+                            <div key={key} className='flex gap-2'>
+                              <dt className='text-gray-500 w-16'>Key</dt>
+                              <dd className='font-mono text-xs break-all text-gray-800'>
+                                {key}{' '}
+                                <span className='text-gray-500'>
+                                  (weight {weight})
+                                </span>
+                              </dd>
+                            </div>
+                          ))}
+                          {auth.accounts.map(
+                            ({ permission: level, weight }) => (
+                              <div
+                                key={`${level.actor}@${level.permission}`}
+                                className='flex gap-2'
+                              >
+                                <dt className='text-gray-500 w-16'>Account</dt>
+                                <dd className='font-mono text-xs text-gray-800'>
+                                  {level.actor}@{level.permission}{' '}
+                                  <span className='text-gray-500'>
+                                    (weight {weight})
+                                  </span>
+                                </dd>
+                              </div>
+                            )
+                          )}
+                          {(auth.waits || []).map(({ wait_sec, weight }) => (
+                            <div key={wait_sec} className='flex gap-2'>
+                              <dt className='text-gray-500 w-16'>Wait</dt>
+                              <dd className='text-xs text-gray-800'>
+                                {wait_sec}s{' '}
+                                <span className='text-gray-500'>
+                                  (weight {weight})
+                                </span>
+                              </dd>
+                            </div>
+                          ))}
+                          {(permission.linked_actions || []).map(link => (
+                            <div
+                              key={`${link.account}::${link.action || ''}`}
+                              className='flex gap-2 items-center'
+                            >
+                              <dt className='text-gray-500 w-16'>Linked</dt>
+                              <dd className='font-mono text-xs text-gray-800'>
+                                {link.account}::{link.action || '*'}
+                                <button
+                                  onClick={() =>
+                                    queueChanges([
+                                      {
+                                        type: 'unlinkauth',
+                                        contract: link.account,
+                                        action: link.action || '',
+                                      },
+                                    ])
+                                  }
+                                  className='ml-3 font-sans text-red-600 hover:text-red-800'
+                                >
+                                  Unlink
+                                </button>
+                              </dd>
+                            </div>
+                          ))}
+                        </dl>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </div>
+
+            {/* Permission Editor */}
+            {editor && (
+              <div className='bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4'>
+                <h2 className='text-lg font-semibold text-gray-900'>
+                  {editor.isNew
+                    ? 'New Permission'
+                    : `Edit ${editor.permission}`}
+                </h2>
+                {!editor.isNew &&
+                  SYSTEM_PERMISSIONS.includes(editor.permission) && (
+                    <p className='text-sm text-yellow-700 bg-yellow-50 border border-yellow-200 rounded-lg p-3'>
+                      Changing the {editor.permission} authority can lock you
+                      out of this account. Make sure you control the new keys.
+                    </p>
+                  )}
+                <div className='grid grid-cols-1 sm:grid-cols-3 gap-4'>
+                  <label className='text-sm text-gray-700'>
+                    Name
+                    <input
+                      value={editor.permission}
+                      onChange={e =>
+                        setEditor({ ...editor, permission: e.target.value })
+                      }
+                      disabled={!editor.isNew}
+                      className='mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg font-mono disabled:bg-gray-100'
+                    />
+                  </label>
+                  <label className='text-sm text-gray-700'>
+                    Parent
+                    <select
+                      value={editor.parent}
+                      onChange={e =>
+                        setEditor({ ...editor, parent: e.target.value })
+                      }
+                      disabled={editor.permission === 'owner'}
+                      className='mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg disabled:bg-gray-100'
+                    >
+                      {editor.permission === 'owner' && (
+                        <option value=''>(none)</option>
+                      )}
+                      {permissions
+                        .filter(
+                          permission =>
+                            permission.perm_name !== editor.permission
+                        )
+                        .map(permission => (
+                          <option
+                            key={permission.perm_name}
+                            value={permission.perm_name}
+                          >
+                            {permission.perm_name}
+                          </option>
+                        ))}
+                    </select>
+                  </label>
+                  <label className='text-sm text-gray-700'>
+                    Threshold
+                    <input
+                      type='number'
+                      min='1'
+                      value={editor.threshold}
+                      onChange={e =>
+                        setEditor({ ...editor, threshold: e.target.value })
+                      }
+                      className='mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg'
+                    />
+                  </label>
+                </div>
+                <label className='block text-sm text-gray-700'>
+                  Keys (one per line: public key and optional weight)
+                  <textarea
+                    value={editor.keys}
+                    onChange={e =>
+                      setEditor({ ...editor, keys: e.target.value })
+                    }
+                    rows={3}
+                    className='mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-xs'
+                  />
+                </label>
+                <label className='block text-sm text-gray-700'>
+                  Accounts (one per line: actor@permission and optional weight)
+                  <textarea
+                    value={editor.accounts}
+                    onChange={e =>
+                      setEditor({ ...editor, accounts: e.target.value })
+                    }
+                    rows={2}
+                    className='mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-xs'
+                  />
+                </label>
+                <label className='block text-sm text-gray-700'>
+                  Waits (one per line: seconds and optional weight)
+                  <textarea
+                    value={editor.waits}
+                    onChange={e =>
+                      setEditor({ ...editor, waits: e.target.value })
+                    }
+                    rows={1}
+                    className='mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-xs'
+                  />
+                </label>
+                {editor.isNew && (
+                  <label className='block text-sm text-gray-700'>
+                    Link to action (optional, contract::action)
+                    <input
+                      value={editor.link}
+                      onChange={e =>
+                        setEditor({ ...editor, link: e.target.value })
+                      }
+                      placeholder={VOTING_LINK}
+                      className='mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg font-mono'
+                    />
+                  </label>
+                )}
+                {editorError && (
+                  <p className='text-sm text-red-600' role='alert'>
+                    {editorError}
+                  </p>
+                )}
+                <div className='flex justify-end gap-2'>
+                  <button
+                    onClick={() => {
+                      setEditor(null);
+                      setEditorError(null);
+                    }}
+                    className='btn-secondary'
+                  >
+                    Cancel
+                  </button>
+                  <button onClick={handleSaveEditor} className='btn-primary'>
+                    Add to Transaction
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {/* Link Actions */}
+            {linkablePermissions.length > 0 && (
+              <form
+                onSubmit={handleQueueLink}
+                className='bg-white rounded-lg shadow-sm border border-gray-200 p-6 flex flex-col sm:flex-row gap-3 sm:items-end'
+              >
+                <label className='text-sm text-gray-700 flex-1'>
+                  Link action
+                  <input
+                    value={linkForm.link}
+                    onChange={e =>
+                      setLinkForm({ ...linkForm, link: e.target.value })
+                    }
+                    placeholder='contract::action (blank action = all)'
+                    className='mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg font-mono'
+                  />
+                </label>
+                <label className='text-sm text-gray-700'>
+                  to permission
+                  <select
+                    value={linkForm.permission}
+                    onChange={e =>
+                      setLinkForm({ ...linkForm, permission: e.target.value })
+                    }
+                    className='mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg'
+                  >
+                    <option value=''>Select...</option>
+                    {linkablePermissions.map(permission => (
+                      <option
+                        key={permission.perm_name}
+                        value={permission.perm_name}
+                      >
+                        {permission.perm_name}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <button
+                  type='submit'
+                  disabled={!linkForm.permission || !linkForm.link.trim()}
+                  className='btn-secondary disabled:opacity-50'
+                >
+                  Add Link
+                </button>
+              </form>
+            )}
+
+            {/* Pending Changes & Transaction Preview */}
+            {changes.length > 0 && (
+              <div className='bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4'>
+                <h2 className='text-lg font-semibold text-gray-900'>
+                  Pending Changes
+                </h2>
+                <ol className='list-decimal list-inside text-sm text-gray-800 space-y-1'>
+                  {changes.map((change, index) => (
+                    <li key={index}>
+                      {describeChange(change)}
+                      <button
+                        onClick={() => removeChange(index)}
+                        className='ml-3 text-red-600 hover:text-red-800'
+                        aria-label={`Remove ${describeChange(change)}`}
+                      >
+                        Remove
+                      </button>
+                    </li>
+                  ))}
+                </ol>
+
+                {previewError && (
+                  <p className='text-sm text-red-600' role='alert'>
+                    {previewError}
+                  </p>
+                )}
+
+                {preview && (
+                  <div>
+                    <p className='text-sm text-gray-600 mb-2'>
+                      Transaction to sign ({preview.length} action
+                      {preview.length !== 1 ? 's' : ''}):
+                    </p>
+                    <pre className='bg-gray-900 text-green-200 text-xs rounded-lg p-4 overflow-x-auto'>
+                      {JSON.stringify(preview, null, 2)}
+                    </pre>
+                  </div>
+                )}
+
+                <div className='flex justify-end gap-2'>
+                  <button
+                    onClick={() => {
+                      setChanges([]);
+                      setPreview(null);
+                      setPreviewError(null);
+                    }}
+                    className='btn-secondary'
+                  >
+                    Discard
+                  </button>
+                  {preview ? (
+                    <button
+                      onClick={handleSign}
+                      disabled={loading}
+                      className='btn-primary disabled:opacity-50'
+                    >
+                      {loading ? 'Signing...' : 'Sign & Broadcast'}
+                    </button>
+                  ) : (
+                    <button onClick={handlePreview} className='btn-primary'>
+                      Review Transaction
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PermissionsPage;
@@ -0,0 +1,86 @@
+/**
+ * ProducerPage Component - XPR Delegation Demo
+ *
+ * Block Producer detail page. Loads the producer's bp.json metadata
+ * and renders it through the ProducerDetail component.
+ *
+ * @fileoverview Producer detail page component
+ */
+
+import React, { useState, useEffect } from 'react';
+import type { ProducerMetadata, ProducerPageProps } from '../types';
+import ProducerDetail from '../components/ProducerDetail';
+import { getProducerMetadata } from '../services';
+
+/**
+ * ProducerPage - Block Producer detail view
+ */
+const ProducerPage: React.FC<ProducerPageProps> = ({
+  producer,
+  network,
+  onBack,
+}) => {
+  // Local state
+  const [metadata, setMetadata] = useState<ProducerMetadata | null>(null);
+  const [metadataLoading, setMetadataLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load bp.json whenever the selected producer changes
+  useEffect(() => {
+    if (!producer) return;
+
+    let cancelled = false;
+    setMetadata(null);
+    setError(null);
+    setMetadataLoading(true);
+
+    getProducerMetadata(producer, network)
+      .then(result => {
+        if (!cancelled) setMetadata(result);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) {
+          setError(
+            `Failed to load producer metadata: ${
+              err instanceof Error ? err.message : 'Unknown error'
+            }`
+          );
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setMetadataLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [producer, network]);
+
+  return (
+    <div className='min-h-screen bg-gray-50 py-8'>
+      <div className='max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 space-y-6'>
+        <button
+          onClick={onBack}
+          className='text-sm text-blue-600 hover:text-blue-800'
+        >
+          ← Back to Block Producers
+        </button>
+
+        {producer ? (
+          <ProducerDetail
+            producer={producer}
+            metadata={metadata}
+            loading={metadataLoading}
+            error={error}
+          />
+        ) : (
+          <div className='bg-white rounded-lg shadow-sm border border-gray-200 p-8 text-center text-gray-600'>
+            Block Producer not found
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProducerPage;
@@ -2,17 +2,33 @@
  * RequestPage Component - XPR Delegation Demo
  *
  * Complete payment request page with wallet integration and request creation.
- * Allows users to create payment requests with recipient, amount, and memo.
+ * Allows users to create payment requests with recipient, amount, and memo,
+ * then watches the recipient's incoming transfers until the request is paid
+ * or expires. Requests can be shared as app links or `esr:` wallet requests.
  *
  * @fileoverview Main request page component
  */
 
-import React, { useState, useEffect } from 'react';
-import type { RequestPageProps, RequestPaymentData } from '../types';
+import React, { useState, useEffect, useMemo } from 'react';
+import type {
+  PaymentLinkFormat,
+  PaymentRequestPayment,
+  PaymentRequestStatus,
+  RequestPageProps,
+  RequestPaymentData,
+} from '../types';
 import RequestForm from '../components/RequestForm';
 import ShareableLink from '../components/ShareableLink';
 import QRCode from '../components/QRCode';
 import StatusMessage from '../components/StatusMessage';
+import { findPaymentForRequest } from '../services';
+import { createEsrPaymentRequest } from '../utils/esrUtils';
+import { formatTransactionId } from '../utils/helpers';
+import { getExplorerUrl } from '../utils/transactionUtils';
+import { isPaymentRequestExpired } from '../utils/urlUtils';
+
+// How often to look for an incoming payment
+const PAYMENT_POLL_INTERVAL = 15 * 1000;
 
 /**
  * RequestPage - Main payment request interface
@@ -26,18 +42,38 @@ const RequestPage: React.FC<RequestPageProps> = ({
   message,
   urlRequestData,
   onClearUrlData,
+  contacts,
+  recentRecipients,
 }) => {
   // Local state
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
   const [createdRequest, setCreatedRequest] =
     useState<RequestPaymentData | null>(null);
+  const [requestStatus, setRequestStatus] =
+    useState<PaymentRequestStatus>('pending');
+  const [payment, setPayment] = useState<PaymentRequestPayment | null>(null);
+  const [linkFormat, setLinkFormat] = useState<PaymentLinkFormat>('link');
+
+  // Wallet signing request for the created request (null for unknown tokens)
+  const esrUri = useMemo(() => {
+    if (!createdRequest) return null;
+    try {
+      return createEsrPaymentRequest(createdRequest, network);
+    } catch {
+      return null;
+    }
+  }, [createdRequest, network]);
 
   /**
    * Update createdRequest when urlRequestData changes (after successful request)
    */
   useEffect(() => {
-    if (urlRequestData && urlRequestData.shareableUrl && !createdRequest) {
+    if (
+      urlRequestData &&
+      urlRequestData.shareableUrl &&
+      urlRequestData.requestId !== createdRequest?.requestId
+    ) {
       console.log(
         'Setting createdRequest from urlRequestData:',
         urlRequestData
@@ -46,15 +82,58 @@ const RequestPage: React.FC<RequestPageProps> = ({
     }
   }, [urlRequestData, createdRequest]);
 
+  /**
+   * Watch for a transfer that pays the created request
+   */
+  useEffect(() => {
+    setRequestStatus('pending');
+    setPayment(null);
+    if (!createdRequest?.requestId) return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const check = async () => {
+      try {
+        const found = await findPaymentForRequest(createdRequest, network);
+        if (cancelled) return;
+        if (found) {
+          setPayment(found);
+          setRequestStatus('paid');
+          return;
+        }
+      } catch {
+        // History API hiccups are retried on the next poll
+      }
+
+      if (cancelled) return;
+      if (isPaymentRequestExpired(createdRequest)) {
+        setRequestStatus('expired');
+        return;
+      }
+      timer = setTimeout(check, PAYMENT_POLL_INTERVAL);
+    };
+
+    check();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [createdRequest, network]);
+
   /**
    * Handle request submission
    */
-  const handleRequestSubmit = async (requestData: RequestPaymentData) => {
+  const handleRequestSubmit = async (
+    requestData: RequestPaymentData,
+    sign?: boolean
+  ) => {
     try {
       setError(null);
       setSuccess(null);
 
-      await handleRequest(requestData);
+      await handleRequest(requestData, sign);
 
       setSuccess(
         `Payment request created successfully! Share the link below with ${requestData.recipient}`
@@ -180,8 +259,56 @@ const RequestPage: React.FC<RequestPageProps> = ({
                 error={error}
                 urlRequestData={urlRequestData}
                 onClearUrlData={onClearUrlData}
+                contacts={contacts}
+                recentRecipients={recentRecipients}
               />
 
+              {/* Request Status */}
+              {createdRequest?.requestId && (
+                <div
+                  className={`mt-6 rounded-lg border p-4 text-sm ${
+                    requestStatus === 'paid'
+                      ? 'bg-green-50 border-green-200 text-green-800'
+                      : requestStatus === 'expired'
+                        ? 'bg-red-50 border-red-200 text-red-800'
+                        : 'bg-blue-50 border-blue-200 text-blue-800'
+                  }`}
+                >
+                  <p className='font-medium'>
+                    {requestStatus === 'paid'
+                      ? 'Paid'
+                      : requestStatus === 'expired'
+                        ? 'Expired without payment'
+                        : 'Waiting for payment...'}
+                  </p>
+                  <p className='mt-1'>
+                    Request ID{' '}
+                    <span className='font-mono'>
+                      {createdRequest.requestId}
+                    </span>
+                    {createdRequest.expirationDate &&
+                      requestStatus === 'pending' &&
+                      ` · expires ${new Date(
+                        createdRequest.expirationDate
+                      ).toLocaleString()}`}
+                  </p>
+                  {payment && (
+                    <p className='mt-1'>
+                      {payment.quantity} from{' '}
+                      <span className='font-medium'>{payment.from}</span> ·{' '}
+                      <a
+                        href={getExplorerUrl(payment.transactionId, network)}
+                        target='_blank'
+                        rel='noopener noreferrer'
+                        className='font-mono underline'
+                      >
+                        {formatTransactionId(payment.transactionId)}
+                      </a>
+                    </p>
+                  )}
+                </div>
+              )}
+
               {/* Shareable Link */}
               {createdRequest && (
                 <>
@@ -192,6 +319,9 @@ const RequestPage: React.FC<RequestPageProps> = ({
                     onCopied={() => {
                       setSuccess('Link copied to clipboard!');
                     }}
+                    esrUri={esrUri}
+                    format={linkFormat}
+                    onFormatChange={setLinkFormat}
                   />
                 </>
               )}
@@ -202,6 +332,7 @@ const RequestPage: React.FC<RequestPageProps> = ({
                   requestData={createdRequest}
                   show={true}
                   size={200}
+                  esrUri={linkFormat === 'esr' ? esrUri : null}
                   onGenerated={qrDataUrl => {
                     console.log('QR Code generated:', qrDataUrl);
                   }}
@@ -224,6 +355,9 @@ const RequestPage: React.FC<RequestPageProps> = ({
               <li>• Amounts are specified in XPR tokens</li>
               <li>• Memo field is optional but recommended for clarity</li>
               <li>• Requests do not automatically transfer funds</li>
+              <li>
+                • Payments are matched by amount and the request ID in the memo
+              </li>
             </ul>
           </div>
 
@@ -4,17 +4,29 @@
  * TransferPage Component - XPR Delegation Demo
  *
  * Complete token transfer page with wallet integration,
- * token selection, and transfer execution.
+ * token selection, and single or CSV batch transfer execution.
+ * Signed payment request links are verified against the requester's keys.
  *
  * @fileoverview Main transfer page component
  */
 
 import React, { useState, useEffect, useCallback } from 'react';
-import type { TransferPageProps, TokenBalance, TransferData } from '../types';
+import type {
+  TransferPageProps,
+  TokenBalance,
+  TransferData,
+  PaymentRequestVerification,
+} from '../types';
 import TokenSelector from '../components/TokenSelector';
 import TransferForm from '../components/TransferForm';
+import BatchTransferForm from '../components/BatchTransferForm';
 import StatusMessage from '../components/StatusMessage';
 import { tokenService } from '../services/token';
+import {
+  checkAccountsExist,
+  getRecipientInfo,
+  verifyPaymentRequestSignature,
+} from '../services';
 
 /**
  * TransferPage - Main token transfer interface
@@ -25,15 +37,70 @@ const TransferPage: React.FC<TransferPageProps> = ({
   loading: globalLoading,
   network,
   handleTransfer,
+  handleBatchTransfer,
   message,
   pendingTransferData,
   onClearPendingData,
+  contacts,
+  recentRecipients,
+  onSaveContact,
 }) => {
   // Local state
   const [tokens, setTokens] = useState<TokenBalance[]>([]);
   const [selectedToken, setSelectedToken] = useState<TokenBalance | null>(null);
   const [tokensLoading, setTokensLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [mode, setMode] = useState<'single' | 'batch'>('single');
+  const [requestVerification, setRequestVerification] =
+    useState<PaymentRequestVerification | null>(null);
+
+  // Verify the signature of a pending payment request
+  useEffect(() => {
+    setRequestVerification(null);
+    if (!pendingTransferData) return;
+
+    let cancelled = false;
+    verifyPaymentRequestSignature(pendingTransferData, network, wallet?.session)
+      .then(result => {
+        if (!cancelled) setRequestVerification(result);
+      })
+      .catch((err: any) => {
+        if (!cancelled) {
+          setError(`Could not verify payment request: ${err.message}`);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pendingTransferData, network, wallet?.session]);
+
+  /**
+   * Pre-flight lookup of a transfer recipient
+   */
+  const checkRecipient = useCallback(
+    (recipient: string) =>
+      getRecipientInfo(recipient, network, wallet?.session),
+    [network, wallet?.session]
+  );
+
+  /**
+   * Whether a recipient has ever held the selected token
+   */
+  const checkTokenHistory = useCallback(
+    async (recipient: string) => {
+      if (!selectedToken) return true;
+
+      return tokenService.hasReceivedToken(
+        recipient,
+        selectedToken.contract,
+        selectedToken.symbol,
+        network,
+        wallet?.session
+      );
+    },
+    [selectedToken, network, wallet?.session]
+  );
 
   /**
    * Load available tokens for account
@@ -51,7 +118,7 @@ const TransferPage: React.FC<TransferPageProps> = ({
       const accountTokens = await tokenService.getTokenBalances(
         account.account_name,
         network,
-        wallet.session as any
+        wallet.session
       );
 
       setTokens(accountTokens);
@@ -112,6 +179,17 @@ const TransferPage: React.FC<TransferPageProps> = ({
     }
   };
 
+  /**
+   * Handle batch transfer execution
+   */
+  const handleBatchSubmit = async (batches: TransferData[][]) => {
+    const results = await handleBatchTransfer(batches);
+
+    // Refresh balances after any batch went through
+    await loadTokens();
+    return results;
+  };
+
   // Determine loading state
   const isLoading = globalLoading || tokensLoading;
 
@@ -276,8 +354,46 @@ const TransferPage: React.FC<TransferPageProps> = ({
                 </div>
               )}
 
+              {/* Transfer Mode */}
+              {selectedToken && !pendingTransferData && (
+                <div className='flex gap-2 mb-4'>
+                  {(
+                    [
+                      ['single', 'Single Transfer'],
+                      ['batch', 'Batch (CSV)'],
+                    ] as const
+                  ).map(([value, label]) => (
+                    <button
+                      key={value}
+                      onClick={() => setMode(value)}
+                      className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                        mode === value
+                          ? 'bg-blue-600 text-white'
+                          : 'bg-white text-gray-700 border border-gray-200 hover:bg-gray-100'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {/* Batch Transfer Form */}
+              {selectedToken && mode === 'batch' && !pendingTransferData && (
+                <BatchTransferForm
+                  token={selectedToken}
+                  account={account}
+                  network={network}
+                  loading={isLoading}
+                  onCheckAccounts={accounts =>
+                    checkAccountsExist(accounts, network, wallet?.session)
+                  }
+                  onSubmit={handleBatchSubmit}
+                />
+              )}
+
               {/* Transfer Form */}
-              {selectedToken && (
+              {selectedToken && (mode === 'single' || pendingTransferData) && (
                 <TransferForm
                   token={selectedToken}
                   account={account}
@@ -286,6 +402,13 @@ const TransferPage: React.FC<TransferPageProps> = ({
                   error={error}
                   pendingTransferData={pendingTransferData}
                   onClearPendingData={onClearPendingData}
+                  requestVerification={requestVerification}
+                  contacts={contacts}
+                  recentRecipients={recentRecipients}
+                  onSaveContact={onSaveContact}
+                  network={network}
+                  onCheckRecipient={checkRecipient}
+                  onCheckTokenHistory={checkTokenHistory}
                 />
               )}
             </>
@@ -2,6 +2,10 @@
 export { default as HomePage } from './HomePage';
 export { default as TransferPage } from './TransferPage';
 export { default as RequestPage } from './RequestPage';
+export { default as ProducerPage } from './ProducerPage';
+export { default as HistoryPage } from './HistoryPage';
+export { default as AddressBookPage } from './AddressBookPage';
+export { default as PermissionsPage } from './PermissionsPage';
 
 // Add more pages here as needed
 // export { default as AboutPage } from './AboutPage.jsx'
@@ -0,0 +1,358 @@
+/**
+ * @jest-environment node
+ */
+import http from 'http';
+import type { AddressInfo } from 'net';
+
+import {
+  findPaymentForRequest,
+  getAccountActions,
+  normalizeAccountAction,
+} from '../accountHistory';
+import { RpcError, ValidationError, clearCache } from '../blockchain';
+import { getNetworkConfig } from '../../config/networks';
+import { smartCache } from '../../utils/SmartCache';
+
+jest.mock('../../config/networks', () => ({
+  ...jest.requireActual('../../config/networks'),
+  getNetworkConfig: jest.fn(),
+}));
+
+const ACTIONS = [
+  {
+    '@timestamp': '2024-01-02T00:00:00.000',
+    block_num: 300,
+    trx_id: 'trx-transfer-in',
+    act: {
+      account: 'eosio.token',
+      name: 'transfer',
+      data: {
+        from: 'alice',
+        to: 'testaccount',
+        amount: 1.5,
+        symbol: 'XPR',
+        quantity: '1.5000 XPR',
+        memo: 'thanks',
+      },
+    },
+  },
+  {
+    '@timestamp': '2024-01-01T12:00:00.000',
+    block_num: 200,
+    trx_id: 'trx-vote',
+    act: {
+      account: 'eosio',
+      name: 'voteproducer',
+      data: { voter: 'testaccount', proxy: '', producers: ['bp1', 'bp2'] },
+    },
+  },
+  {
+    '@timestamp': '2024-01-01T00:00:00.000',
+    block_num: 100,
+    trx_id: 'trx-stake',
+    act: {
+      account: 'eosio',
+      name: 'stakexpr',
+      data: {
+        from: 'testaccount',
+        receiver: 'testaccount',
+        stake: '10.0000 XPR',
+      },
+    },
+  },
+];
+
+describe('account history service', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: URL[];
+  let respond: (res: http.ServerResponse, url: URL) => void;
+
+  beforeAll(done => {
+    server = http.createServer((req, res) => {
+      const url = new URL(req.url || '/', 'http://localhost');
+      requests.push(url);
+      respond(res, url);
+    });
+    server.listen(0, '127.0.0.1', () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  afterAll(done => {
+    server.close(() => done());
+  });
+
+  beforeEach(() => {
+    clearCache();
+    smartCache.clear();
+    requests = [];
+    respond = (res, url) => {
+      const skip = Number(url.searchParams.get('skip'));
+      const limit = Number(url.searchParams.get('limit'));
+      res.setHeader('Content-Type', 'application/json');
+      res.end(
+        JSON.stringify({
+          total: { value: ACTIONS.length, relation: 'eq' },
+          actions: ACTIONS.slice(skip, skip + limit),
+        })
+      );
+    };
+    (getNetworkConfig as jest.Mock).mockReturnValue({
+      endpoints: ['https://testnet-api.chaininfra.net'],
+      chainId: 'test-chain-id',
+      historyApi: baseUrl,
+    });
+  });
+
+  test('should query get_actions and normalize each action type', async () => {
+    const result = await getAccountActions('testaccount', 'testnet');
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].pathname).toBe('/v2/history/get_actions');
+    expect(requests[0].searchParams.get('account')).toBe('testaccount');
+    expect(requests[0].searchParams.get('filter')).toBe(
+      '*:transfer,eosio:voteproducer,eosio:stakexpr,eosio:unstakexpr'
+    );
+    expect(requests[0].searchParams.get('sort')).toBe('desc');
+
+    expect(result.total).toBe(3);
+    expect(result.hasMore).toBe(false);
+    expect(result.actions).toEqual([
+      {
+        type: 'transfer',
+        trx_id: 'trx-transfer-in',
+        block_num: 300,
+        timestamp: '2024-01-02T00:00:00.000Z',
+        contract: 'eosio.token',
+        from: 'alice',
+        to: 'testaccount',
+        quantity: '1.5000 XPR',
+        memo: 'thanks',
+        direction: 'in',
+      },
+      {
+        type: 'voteproducer',
+        trx_id: 'trx-vote',
+        block_num: 200,
+        timestamp: '2024-01-01T12:00:00.000Z',
+        contract: 'eosio',
+        voter: 'testaccount',
+        proxy: '',
+        producers: ['bp1', 'bp2'],
+      },
+      {
+        type: 'stakexpr',
+        trx_id: 'trx-stake',
+        block_num: 100,
+        timestamp: '2024-01-01T00:00:00.000Z',
+        contract: 'eosio',
+        from: 'testaccount',
+        receiver: 'testaccount',
+        quantity: '10.0000 XPR',
+      },
+    ]);
+  });
+
+  test('should paginate with skip and limit', async () => {
+    const first = await getAccountActions('testaccount', 'testnet', {
+      page: 0,
+      pageSize: 2,
+    });
+    const second = await getAccountActions('testaccount', 'testnet', {
+      page: 1,
+      pageSize: 2,
+    });
+
+    expect(requests.map(url => url.searchParams.get('skip'))).toEqual([
+      '0',
+      '2',
+    ]);
+    expect(first.actions).toHaveLength(2);
+    expect(first.hasMore).toBe(true);
+    expect(second.actions.map(action => action.trx_id)).toEqual(['trx-stake']);
+    expect(second.hasMore).toBe(false);
+
+    // The same page at another page size is a separate request
+    await getAccountActions('testaccount', 'testnet', { page: 0 });
+    expect(requests).toHaveLength(3);
+  });
+
+  test('should throw RpcError when the history API fails', async () => {
+    respond = res => {
+      res.statusCode = 500;
+      res.end();
+    };
+
+    await expect(getAccountActions('testaccount', 'testnet')).rejects.toThrow(
+      RpcError
+    );
+  });
+
+  test('should throw ValidationError when no history API is configured', async () => {
+    (getNetworkConfig as jest.Mock).mockReturnValue({
+      endpoints: ['https://testnet-api.chaininfra.net'],
+      chainId: 'test-chain-id',
+    });
+
+    await expect(getAccountActions('testaccount', 'testnet')).rejects.toThrow(
+      ValidationError
+    );
+    expect(requests).toHaveLength(0);
+  });
+
+  test('should find the transfer that pays a payment request', async () => {
+    const paymentAction = (quantity: string, memo: string, trxId: string) => ({
+      ...ACTIONS[0],
+      trx_id: trxId,
+      act: {
+        ...ACTIONS[0].act,
+        data: { ...ACTIONS[0].act.data, quantity, memo },
+      },
+    });
+    respond = (res, url) => {
+      res.setHeader('Content-Type', 'application/json');
+      res.end(
+        JSON.stringify({
+          total: { value: 3, relation: 'eq' },
+          actions: [
+            paymentAction('2.0000 XPR', 'Invoice 7 req:abc123', 'trx-wrong'),
+            paymentAction('1.5000 XPR', 'Invoice 7 req:abc123', 'trx-paid'),
+            ...ACTIONS.slice(1),
+          ].slice(0, Number(url.searchParams.get('limit'))),
+        })
+      );
+    };
+    const request = {
+      recipient: 'testaccount',
+      amount: '1.5 XPR',
+      memo: 'Invoice 7',
+      symbol: 'XPR',
+      requestId: 'abc123',
+    };
+
+    const payment = await findPaymentForRequest(request, 'testnet');
+
+    expect(payment).toMatchObject({
+      from: 'alice',
+      quantity: '1.5000 XPR',
+      transactionId: 'trx-paid',
+    });
+    smartCache.clear();
+    await expect(
+      findPaymentForRequest({ ...request, requestId: 'other1' }, 'testnet')
+    ).resolves.toBeNull();
+    await expect(
+      findPaymentForRequest({ ...request, requestId: undefined }, 'testnet')
+    ).rejects.toThrow(ValidationError);
+  });
+
+  test('should ignore transfers of tokens from other contracts', async () => {
+    respond = (res, url) => {
+      res.setHeader('Content-Type', 'application/json');
+      res.end(
+        JSON.stringify({
+          total: { value: 1, relation: 'eq' },
+          actions: [
+            {
+              ...ACTIONS[0],
+              act: {
+                ...ACTIONS[0].act,
+                account: 'fake.token',
+                data: { ...ACTIONS[0].act.data, memo: 'req:abc123' },
+              },
+            },
+          ].slice(0, Number(url.searchParams.get('limit'))),
+        })
+      );
+    };
+
+    await expect(
+      findPaymentForRequest(
+        {
+          recipient: 'testaccount',
+          amount: '1.5 XPR',
+          memo: '',
+          symbol: 'XPR',
+          requestId: 'abc123',
+        },
+        'testnet'
+      )
+    ).resolves.toBeNull();
+  });
+
+  test('should page back to the request creation time', async () => {
+    // 150 outgoing transfers, newest first, then the payment
+    const history = [
+      ...Array.from({ length: 150 }, (_, index) => ({
+        ...ACTIONS[0],
+        '@timestamp': new Date(
+          Date.UTC(2024, 1, 1) - index * 60 * 1000
+        ).toISOString(),
+        trx_id: `trx-out-${index}`,
+        act: {
+          ...ACTIONS[0].act,
+          data: { ...ACTIONS[0].act.data, from: 'testaccount', to: 'bobby' },
+        },
+      })),
+      {
+        ...ACTIONS[0],
+        trx_id: 'trx-paid',
+        act: {
+          ...ACTIONS[0].act,
+          data: { ...ACTIONS[0].act.data, memo: 'req:abc123' },
+        },
+      },
+    ];
+    respond = (res, url) => {
+      const skip = Number(url.searchParams.get('skip'));
+      const limit = Number(url.searchParams.get('limit'));
+      res.setHeader('Content-Type', 'application/json');
+      res.end(
+        JSON.stringify({
+          total: { value: history.length, relation: 'eq' },
+          actions: history.slice(skip, skip + limit),
+        })
+      );
+    };
+    const request = {
+      recipient: 'testaccount',
+      amount: '1.5 XPR',
+      memo: '',
+      symbol: 'XPR',
+      requestId: 'abc123',
+    };
+
+    await expect(
+      findPaymentForRequest(
+        { ...request, createdAt: '2024-01-01T00:00:00.000Z' },
+        'testnet'
+      )
+    ).resolves.toMatchObject({ transactionId: 'trx-paid' });
+    expect(requests.map(url => url.searchParams.get('skip'))).toEqual([
+      '0',
+      '100',
+    ]);
+
+    // Requests created after the first page's oldest action stop there
+    smartCache.clear();
+    requests = [];
+    await expect(
+      findPaymentForRequest(
+        { ...request, createdAt: '2024-02-01T00:00:00.000Z' },
+        'testnet'
+      )
+    ).resolves.toBeNull();
+    expect(requests).toHaveLength(1);
+  });
+
+  test('should ignore unsupported actions', () => {
+    expect(
+      normalizeAccountAction('testaccount', {
+        trx_id: 'trx',
+        act: { account: 'eosio', name: 'newaccount', data: {} },
+      })
+    ).toBeNull();
+  });
+});
@@ -16,6 +16,7 @@ import {
 
 // Mock dependencies
 jest.mock('../../config/networks', () => ({
+  ...jest.requireActual('../../config/networks'),
   getNetworkConfig: jest.fn(() => ({
     endpoints: ['https://testnet-api.chaininfra.net'],
     chainId: 'test-chain-id',
@@ -42,7 +43,7 @@ global.fetch = jest.fn();
 
 describe('blockchain service', () => {
   beforeEach(() => {
-    fetch.mockClear();
+    fetch.mockReset();
     clearCache();
   });
 
@@ -398,6 +399,7 @@ describe('blockchain service', () => {
     test('should stake resources successfully', async () => {
       const mockTransactionResult = {
         transaction_id: 'test-tx-id',
+        processed: { block_num: 42 },
       };
 
       mockSession.transact.mockResolvedValue(mockTransactionResult);
@@ -411,6 +413,7 @@ describe('blockchain service', () => {
 
       expect(result).toEqual({
         transactionId: 'test-tx-id',
+        blockNum: 42,
         actions: 1,
         totalStaked: 20,
       });
@@ -448,6 +451,7 @@ describe('blockchain service', () => {
     test('should unstake resources successfully', async () => {
       const mockTransactionResult = {
         transaction_id: 'test-tx-id',
+        processed: { block_num: 42 },
       };
 
       mockSession.transact.mockResolvedValue(mockTransactionResult);
@@ -461,6 +465,7 @@ describe('blockchain service', () => {
 
       expect(result).toEqual({
         transactionId: 'test-tx-id',
+        blockNum: 42,
         actions: 1,
         totalUnstaked: 20,
       });
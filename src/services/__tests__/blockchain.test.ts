@@ -1,21 +1,33 @@
 import {
   getAccountInfo,
+  checkAccountsExist,
+  getRecipientInfo,
   getBlockProducers,
+  getProducerMetadata,
   delegateVotes,
+  registerProxy,
+  getProxies,
   getVoteInfo,
+  getVoterRewards,
+  claimVoterRewards,
   checkVotingResources,
   getCurrencyBalance,
   stakeResources,
   unstakeResources,
+  claimRefund,
   getCoreSymbol,
+  verifyCustomNetwork,
   clearCache,
   BlockchainError,
   RpcError,
   ValidationError,
 } from '../blockchain';
+import { rpcPool } from '../rpcPool';
+import { smartCache } from '../../utils/SmartCache';
 
 // Mock dependencies
 jest.mock('../../config/networks', () => ({
+  ...jest.requireActual('../../config/networks'),
   getNetworkConfig: jest.fn(() => ({
     endpoints: ['https://testnet-api.chaininfra.net'],
     chainId: 'test-chain-id',
@@ -35,6 +47,9 @@ jest.mock('../../utils/helpers', () => ({
     cpu_limit: { used: 0, max: 0 },
     net_limit: { used: 0, max: 0 },
   })),
+  parseChainTimestamp: jest.fn((timestamp: string) =>
+    new Date(`${timestamp}Z`).getTime()
+  ),
 }));
 
 // Mock fetch globally
@@ -42,8 +57,11 @@ global.fetch = jest.fn();
 
 describe('blockchain service', () => {
   beforeEach(() => {
-    (fetch as jest.Mock).mockClear();
+    (fetch as jest.Mock).mockReset();
     clearCache();
+    smartCache.clear();
+    // Fresh endpoint health for every test
+    rpcPool.reset();
   });
 
   describe('error classes', () => {
@@ -139,6 +157,174 @@ describe('blockchain service', () => {
     });
   });
 
+  describe('checkAccountsExist', () => {
+    const mockSession = {
+      rpc: { get_account: jest.fn() },
+    };
+
+    beforeEach(() => {
+      mockSession.rpc.get_account.mockReset();
+    });
+
+    test('should report existing and unknown accounts', async () => {
+      mockSession.rpc.get_account.mockImplementation((name: string) =>
+        name === 'alice'
+          ? Promise.resolve({ account_name: 'alice' })
+          : Promise.reject(new Error('HTTP 500: unknown key (name): bobby'))
+      );
+
+      const result = await checkAccountsExist(
+        ['alice', 'bobby', 'alice', 'NOT VALID'],
+        'testnet',
+        mockSession
+      );
+
+      expect(result).toEqual({ alice: true, bobby: false, 'NOT VALID': false });
+      expect(mockSession.rpc.get_account).toHaveBeenCalledTimes(2);
+    });
+
+    test('should throw RpcError when a lookup fails for another reason', async () => {
+      mockSession.rpc.get_account.mockRejectedValue(
+        new Error('Network timeout after 10000ms')
+      );
+
+      await expect(
+        checkAccountsExist(['alice'], 'testnet', mockSession)
+      ).rejects.toThrow(RpcError);
+    });
+
+    test('should report several unknown accounts through the RPC pool', async () => {
+      (fetch as jest.Mock).mockImplementation((_url: string, init) => {
+        const { account_name: name } = JSON.parse(init.body);
+        return Promise.resolve(
+          name === 'alice'
+            ? { ok: true, json: () => Promise.resolve({ account_name: name }) }
+            : {
+                ok: false,
+                status: 500,
+                text: () =>
+                  Promise.resolve(
+                    JSON.stringify({
+                      code: 500,
+                      message: 'Internal Service Error',
+                      error: { code: 3060002, name: 'account_query_exception' },
+                    })
+                  ),
+              }
+        );
+      });
+
+      const result = await checkAccountsExist(
+        ['alice', 'missing1', 'missing2', 'missing3', 'missing4'],
+        'testnet'
+      );
+
+      expect(result).toEqual({
+        alice: true,
+        missing1: false,
+        missing2: false,
+        missing3: false,
+        missing4: false,
+      });
+    });
+  });
+
+  describe('getRecipientInfo', () => {
+    const mockSession = {
+      rpc: { get_account: jest.fn() },
+    };
+
+    const mockCodeHash = (codeHash: string) =>
+      (fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: () =>
+          Promise.resolve({ account_name: 'alice', code_hash: codeHash }),
+      });
+
+    beforeEach(() => {
+      mockSession.rpc.get_account.mockReset();
+    });
+
+    test('should report unknown accounts without a contract lookup', async () => {
+      mockSession.rpc.get_account.mockRejectedValue(
+        new Error('HTTP 500: unknown key (name): bobby')
+      );
+
+      const info = await getRecipientInfo('bobby', 'testnet', mockSession);
+
+      expect(info).toEqual({
+        account: 'bobby',
+        exists: false,
+        isNew: false,
+        hasContract: false,
+      });
+      expect(fetch).not.toHaveBeenCalled();
+    });
+
+    test('should report consecutive unknown accounts through the RPC pool', async () => {
+      (fetch as jest.Mock).mockResolvedValue({
+        ok: false,
+        status: 500,
+        text: () =>
+          Promise.resolve(
+            JSON.stringify({
+              code: 500,
+              message: 'Internal Service Error',
+              error: {
+                code: 3060002,
+                name: 'account_query_exception',
+                what: 'Account Query Exception',
+              },
+            })
+          ),
+      });
+
+      for (const name of ['missing1', 'missing2', 'missing3']) {
+        await expect(getRecipientInfo(name, 'testnet')).resolves.toEqual({
+          account: name,
+          exists: false,
+          isNew: false,
+          hasContract: false,
+        });
+      }
+    });
+
+    test('should detect contracts and newly created accounts', async () => {
+      mockSession.rpc.get_account.mockResolvedValue({
+        account_name: 'alice',
+        created: new Date(Date.now() - 60 * 60 * 1000)
+          .toISOString()
+          .replace('Z', ''),
+      });
+      mockCodeHash('ab'.repeat(32));
+
+      const info = await getRecipientInfo('alice', 'testnet', mockSession);
+
+      expect(info.exists).toBe(true);
+      expect(info.hasContract).toBe(true);
+      expect(info.isNew).toBe(true);
+    });
+
+    test('should treat an all-zero code hash as no contract', async () => {
+      mockSession.rpc.get_account.mockResolvedValue({
+        account_name: 'alice',
+        created: '2020-01-01T00:00:00.000',
+      });
+      mockCodeHash('0'.repeat(64));
+
+      const info = await getRecipientInfo('alice', 'testnet', mockSession);
+
+      expect(info.hasContract).toBe(false);
+      expect(info.isNew).toBe(false);
+    });
+
+    test('should validate account name', async () => {
+      await expect(getRecipientInfo('Not Valid', 'testnet')).rejects.toThrow(
+        ValidationError
+      );
+    });
+  });
+
   describe('getBlockProducers', () => {
     test('should validate network', async () => {
       await expect(getBlockProducers('testnet')).rejects.toThrow(
@@ -155,6 +341,7 @@ describe('blockchain service', () => {
             total_votes: '1000000',
           },
         ],
+        total_producer_vote_weight: '4000000',
       };
 
       (fetch as jest.Mock).mockResolvedValueOnce({
@@ -169,10 +356,57 @@ describe('blockchain service', () => {
           name: 'proton',
           url: 'https://protonchain.com',
           total_votes: '1000000',
+          vote_share: 25,
+          rank: 1,
+          status: 'active',
         },
       ]);
     });
 
+    test('should page through producers and mark status', async () => {
+      const producerRow = (owner: string, votes: number, isActive = 1) => ({
+        owner,
+        url: `https://${owner}.com`,
+        total_votes: String(votes),
+        is_active: isActive,
+      });
+      const mockSession = {
+        rpc: {
+          get_producers: jest
+            .fn()
+            .mockResolvedValueOnce({
+              rows: Array.from({ length: 21 }, (_, i) =>
+                producerRow(`producer${i}`, 1000 - i)
+              ),
+              total_producer_vote_weight: '100000',
+              more: 'standbybp',
+            })
+            .mockResolvedValueOnce({
+              rows: [
+                producerRow('standbybp', 500),
+                producerRow('retired', 400, 0),
+              ],
+              total_producer_vote_weight: '100000',
+              more: '',
+            }),
+        },
+      };
+
+      const result = await getBlockProducers('mainnet', mockSession);
+
+      expect(mockSession.rpc.get_producers).toHaveBeenCalledTimes(2);
+      expect(mockSession.rpc.get_producers).toHaveBeenLastCalledWith(
+        expect.objectContaining({ lower_bound: 'standbybp' })
+      );
+      expect(result).toHaveLength(23);
+      expect(result[20]).toMatchObject({ rank: 21, status: 'active' });
+      expect(result[21]).toMatchObject({
+        name: 'standbybp',
+        status: 'standby',
+      });
+      expect(result[22]).toMatchObject({ name: 'retired', status: 'inactive' });
+    });
+
     test('should fallback to sample data on error', async () => {
       (fetch as jest.Mock).mockRejectedValue(new Error('Network error'));
 
@@ -184,6 +418,98 @@ describe('blockchain service', () => {
     });
   });
 
+  describe('getProducerMetadata', () => {
+    const producer = { name: 'protonbp', url: 'https://bp.example.com/' };
+
+    test('should parse bp.json from the chains.json path', async () => {
+      (fetch as jest.Mock).mockImplementation((url: string) => {
+        if (url.endsWith('/chains.json')) {
+          return Promise.resolve({
+            ok: true,
+            json: () =>
+              Promise.resolve({ chains: { 'test-chain-id': 'bp-test.json' } }),
+          });
+        }
+        return Promise.resolve({
+          ok: true,
+          json: () =>
+            Promise.resolve({
+              producer_account_name: 'protonbp',
+              org: {
+                candidate_name: 'Proton BP',
+                branding: { logo_256: 'http://insecure.example.com/logo.png' },
+                location: { name: 'Singapore', country: 'SG' },
+                social: { twitter: 'protonbp', github: '' },
+              },
+              nodes: [
+                {
+                  node_type: ['query', 'seed'],
+                  ssl_endpoint: 'https://api.example.com',
+                },
+              ],
+            }),
+        });
+      });
+
+      const metadata = await getProducerMetadata(producer, 'testnet');
+
+      expect((fetch as jest.Mock).mock.calls.map(call => call[0])).toEqual([
+        'https://bp.example.com/chains.json',
+        'https://bp.example.com/bp-test.json',
+      ]);
+      expect(metadata).toMatchObject({
+        producer_account_name: 'protonbp',
+        candidate_name: 'Proton BP',
+        logo: undefined,
+        location: 'Singapore',
+        country: 'SG',
+        social: { twitter: 'protonbp' },
+        nodes: [
+          { node_type: 'query, seed', ssl_endpoint: 'https://api.example.com' },
+        ],
+      });
+    });
+
+    test('should drop unsafe website and social links', async () => {
+      (fetch as jest.Mock).mockImplementation((url: string) =>
+        Promise.resolve(
+          url.endsWith('/chains.json')
+            ? { ok: false, status: 404 }
+            : {
+                ok: true,
+                json: () =>
+                  Promise.resolve({
+                    org: {
+                      website: 'javascript:alert(1)',
+                      social: {
+                        twitter: '@protonbp',
+                        github: 'javascript:alert(1)',
+                        telegram: '../../evil',
+                      },
+                    },
+                  }),
+              }
+        )
+      );
+
+      const metadata = await getProducerMetadata(
+        { ...producer, name: 'unsafebp' },
+        'testnet'
+      );
+
+      expect(metadata?.website).toBe('https://bp.example.com');
+      expect(metadata?.social).toEqual({ twitter: 'protonbp' });
+    });
+
+    test('should return null when bp.json is missing', async () => {
+      (fetch as jest.Mock).mockResolvedValue({ ok: false, status: 404 });
+
+      await expect(
+        getProducerMetadata({ ...producer, name: 'nobpjson' }, 'testnet')
+      ).resolves.toBeNull();
+    });
+  });
+
   describe('delegateVotes', () => {
     const mockSession = {
       auth: { actor: 'testaccount', permission: 'owner' },
@@ -244,6 +570,55 @@ describe('blockchain service', () => {
       });
       expect(mockSession.transact).toHaveBeenCalled();
     });
+
+    test('should validate proxy target', async () => {
+      await expect(
+        delegateVotes('testaccount', { proxy: '' }, 'testnet', mockSession)
+      ).rejects.toThrow(ValidationError);
+      await expect(
+        delegateVotes(
+          'testaccount',
+          { proxy: 'testaccount' },
+          'testnet',
+          mockSession
+        )
+      ).rejects.toThrow('An account cannot proxy its vote to itself');
+    });
+  });
+
+  describe('registerProxy', () => {
+    test('should validate inputs', async () => {
+      await expect(registerProxy('', true, 'testnet', {})).rejects.toThrow(
+        ValidationError
+      );
+      await expect(
+        registerProxy('testaccount', true, 'testnet', null)
+      ).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('getProxies', () => {
+    test('should not refetch the last row when paging without next_key', async () => {
+      const voter = (owner: string, weight: number) => ({
+        owner,
+        is_proxy: 1,
+        producers: [],
+        proxied_vote_weight: weight,
+      });
+      const get_table_rows = jest
+        .fn()
+        .mockResolvedValueOnce({
+          rows: [voter('alice', 1), voter('bob', 2)],
+          more: true,
+        })
+        .mockResolvedValueOnce({ rows: [voter('bob', 2)], more: true });
+
+      const proxies = await getProxies('testnet', { rpc: { get_table_rows } });
+
+      expect(proxies.map(proxy => proxy.owner)).toEqual(['bob', 'alice']);
+      expect(get_table_rows).toHaveBeenCalledTimes(2);
+      expect(get_table_rows.mock.calls[1][0].lower_bound).toBe('bob');
+    });
   });
 
   describe('getVoteInfo', () => {
@@ -296,6 +671,78 @@ describe('blockchain service', () => {
     });
   });
 
+  describe('voter rewards', () => {
+    const mockSession = {
+      auth: { actor: 'testaccount', permission: 'active' },
+      rpc: { get_table_rows: jest.fn() },
+      transact: jest.fn(),
+    };
+
+    beforeEach(() => {
+      mockSession.rpc.get_table_rows.mockReset();
+      mockSession.transact.mockReset();
+    });
+
+    test('should read accrued rewards from votersxpr', async () => {
+      mockSession.rpc.get_table_rows.mockResolvedValue({
+        rows: [
+          {
+            acc: 'testaccount',
+            isqualified: 1,
+            claimamount: 123456,
+            lastclaim: 1704067200,
+          },
+        ],
+      });
+
+      const rewards = await getVoterRewards(
+        'testaccount',
+        'testnet',
+        mockSession
+      );
+
+      expect(rewards).toEqual({
+        owner: 'testaccount',
+        accrued: 12.3456,
+        last_claim_time: '2024-01-01T00:00:00.000Z',
+        qualified: true,
+      });
+    });
+
+    test('should reject claims with nothing accrued', async () => {
+      mockSession.rpc.get_table_rows.mockResolvedValue({ rows: [] });
+
+      await expect(
+        claimVoterRewards('testaccount', 'testnet', mockSession)
+      ).rejects.toThrow(ValidationError);
+      expect(mockSession.transact).not.toHaveBeenCalled();
+    });
+
+    test('should claim accrued rewards', async () => {
+      mockSession.rpc.get_table_rows.mockResolvedValue({
+        rows: [{ acc: 'testaccount', isqualified: 1, claimamount: 50000 }],
+      });
+      mockSession.transact.mockResolvedValue({ transaction_id: 'test-tx-id' });
+
+      const result = await claimVoterRewards(
+        'testaccount',
+        'testnet',
+        mockSession
+      );
+
+      expect(result).toEqual({
+        transactionId: 'test-tx-id',
+        blockNum: 0,
+        claimed: 5,
+      });
+      expect(mockSession.transact.mock.calls[0][0].actions[0]).toMatchObject({
+        account: 'eosio',
+        name: 'voterclaim',
+        data: { owner: 'testaccount' },
+      });
+    });
+  });
+
   describe('checkVotingResources', () => {
     test('should validate inputs', async () => {
       await expect(checkVotingResources('', 'testnet')).rejects.toThrow(
@@ -398,6 +845,7 @@ describe('blockchain service', () => {
     test('should stake resources successfully', async () => {
       const mockTransactionResult = {
         transaction_id: 'test-tx-id',
+        processed: { block_num: 42 },
       };
 
       mockSession.transact.mockResolvedValue(mockTransactionResult);
@@ -411,6 +859,7 @@ describe('blockchain service', () => {
 
       expect(result).toEqual({
         transactionId: 'test-tx-id',
+        blockNum: 42,
         actions: 1,
         totalStaked: 20,
       });
@@ -448,6 +897,7 @@ describe('blockchain service', () => {
     test('should unstake resources successfully', async () => {
       const mockTransactionResult = {
         transaction_id: 'test-tx-id',
+        processed: { block_num: 42 },
       };
 
       mockSession.transact.mockResolvedValue(mockTransactionResult);
@@ -461,6 +911,7 @@ describe('blockchain service', () => {
 
       expect(result).toEqual({
         transactionId: 'test-tx-id',
+        blockNum: 42,
         actions: 1,
         totalUnstaked: 20,
       });
@@ -468,6 +919,69 @@ describe('blockchain service', () => {
     });
   });
 
+  describe('claimRefund', () => {
+    const mockSession = {
+      auth: { actor: 'testaccount', permission: 'active' },
+      rpc: { get_table_rows: jest.fn() },
+      transact: jest.fn(),
+    };
+
+    const refundRow = (requestTime: string) => ({
+      rows: [
+        {
+          owner: 'testaccount',
+          quantity: '25.0000 XPR',
+          request_time: requestTime,
+        },
+      ],
+    });
+
+    beforeEach(() => {
+      mockSession.rpc.get_table_rows.mockReset();
+      mockSession.transact.mockReset();
+    });
+
+    test('should validate inputs', async () => {
+      await expect(claimRefund('', 'testnet', mockSession)).rejects.toThrow(
+        ValidationError
+      );
+      await expect(claimRefund('testaccount', 'testnet', null)).rejects.toThrow(
+        ValidationError
+      );
+    });
+
+    test('should reject when nothing is claimable yet', async () => {
+      mockSession.rpc.get_table_rows.mockResolvedValue(
+        refundRow(new Date().toISOString().slice(0, 19))
+      );
+
+      await expect(
+        claimRefund('testaccount', 'testnet', mockSession)
+      ).rejects.toThrow('Refund is not claimable until');
+      expect(mockSession.transact).not.toHaveBeenCalled();
+    });
+
+    test('should claim an unlocked refund', async () => {
+      mockSession.rpc.get_table_rows.mockResolvedValue(
+        refundRow('2024-01-01T00:00:00')
+      );
+      mockSession.transact.mockResolvedValue({ transaction_id: 'test-tx-id' });
+
+      const result = await claimRefund('testaccount', 'testnet', mockSession);
+
+      expect(result).toEqual({
+        transactionId: 'test-tx-id',
+        blockNum: 0,
+        claimed: 25,
+      });
+      expect(mockSession.transact.mock.calls[0][0].actions[0]).toMatchObject({
+        account: 'eosio',
+        name: 'refundxpr',
+        data: { owner: 'testaccount' },
+      });
+    });
+  });
+
   describe('getCoreSymbol', () => {
     test('should validate network', async () => {
       await expect(getCoreSymbol('testnet')).rejects.toThrow(ValidationError);
@@ -495,6 +1009,51 @@ describe('blockchain service', () => {
     });
   });
 
+  describe('verifyCustomNetwork', () => {
+    const input = {
+      name: 'Local Devnet',
+      chainId: 'a'.repeat(64),
+      endpoints: ['http://127.0.0.1:8888/'],
+      webauth: '',
+      color: '#3b82f6',
+    };
+
+    test('should validate inputs', async () => {
+      await expect(
+        verifyCustomNetwork({ ...input, name: 'Testnet' })
+      ).rejects.toThrow(ValidationError);
+      await expect(
+        verifyCustomNetwork({ ...input, chainId: 'not-a-chain-id' })
+      ).rejects.toThrow(ValidationError);
+      await expect(
+        verifyCustomNetwork({ ...input, endpoints: [] })
+      ).rejects.toThrow(ValidationError);
+    });
+
+    test('should reject endpoints serving a different chain', async () => {
+      (fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ chain_id: 'b'.repeat(64) }),
+      });
+
+      await expect(verifyCustomNetwork(input)).rejects.toThrow(
+        'Chain ID mismatch'
+      );
+    });
+
+    test('should return verified network config', async () => {
+      (fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ chain_id: 'a'.repeat(64) }),
+      });
+
+      const result = await verifyCustomNetwork(input);
+      expect(result.id).toBe('local-devnet');
+      expect(result.endpoints).toEqual(['http://127.0.0.1:8888']);
+      expect(result.custom).toBe(true);
+    });
+  });
+
   describe('clearCache', () => {
     test('should clear specific cache key', () => {
       // This test verifies the function exists and can be called
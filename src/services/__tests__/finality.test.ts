@@ -0,0 +1,126 @@
+import {
+  checkTransactionFinality,
+  createFinality,
+  trackTransactionFinality,
+} from '../finality';
+import { getRpcClient } from '../rpcPool';
+
+jest.mock('../rpcPool', () => ({
+  getRpcClient: jest.fn(),
+}));
+
+jest.mock('../../config/networks', () => ({
+  getNetworkConfig: jest.fn(() => ({
+    endpoints: ['https://testnet-api.chaininfra.net'],
+    chainId: 'test-chain-id',
+  })),
+}));
+
+const TRX_ID = 'a'.repeat(64);
+
+const mockChain = (
+  info: Record<string, unknown>,
+  blocks: Record<number, unknown[]> = {}
+) => {
+  const rpc = {
+    get_info: jest.fn().mockResolvedValue(info),
+    request: jest.fn((_path: string, body: { block_num_or_id: number }) =>
+      Promise.resolve({ transactions: blocks[body.block_num_or_id] || [] })
+    ),
+  };
+  (getRpcClient as jest.Mock).mockReturnValue(rpc);
+  return rpc;
+};
+
+describe('transaction finality', () => {
+  test('should start in block when the push result reports a block', () => {
+    expect(createFinality(TRX_ID, 'testnet', 100).status).toBe('in_block');
+    expect(createFinality(TRX_ID, 'testnet').status).toBe('submitted');
+  });
+
+  test('should stay in block until the last irreversible block passes it', async () => {
+    mockChain(
+      { head_block_num: 120, last_irreversible_block_num: 90 },
+      { 100: [{ status: 'executed', trx: { id: TRX_ID } }] }
+    );
+
+    const result = await checkTransactionFinality(
+      createFinality(TRX_ID, 'testnet', 100)
+    );
+
+    expect(result.status).toBe('in_block');
+    expect(result.lastIrreversibleBlock).toBe(90);
+  });
+
+  test('should become irreversible once the block is irreversible', async () => {
+    mockChain(
+      { head_block_num: 500, last_irreversible_block_num: 150 },
+      { 100: [{ status: 'executed', trx: { id: TRX_ID } }] }
+    );
+
+    const result = await checkTransactionFinality(
+      createFinality(TRX_ID, 'testnet', 100)
+    );
+
+    expect(result.status).toBe('irreversible');
+    expect(result.blockNum).toBe(100);
+  });
+
+  test('should fail when the receipt is not executed', async () => {
+    mockChain(
+      { head_block_num: 500, last_irreversible_block_num: 150 },
+      { 100: [{ status: 'hard_fail', trx: { id: TRX_ID } }] }
+    );
+
+    const result = await checkTransactionFinality(
+      createFinality(TRX_ID, 'testnet', 100)
+    );
+
+    expect(result.status).toBe('failed');
+    expect(result.error).toBe('Transaction hard fail');
+  });
+
+  test('should expire when the irreversible chain passes the expiration', async () => {
+    const finality = createFinality(TRX_ID, 'testnet', 100);
+    mockChain({
+      head_block_num: 500,
+      last_irreversible_block_num: 150,
+      last_irreversible_block_time: new Date(finality.expiresAt + 1000)
+        .toISOString()
+        .replace('Z', ''),
+    });
+
+    const result = await checkTransactionFinality(finality);
+
+    expect(result.status).toBe('expired');
+    expect(result.blockNum).toBeUndefined();
+  });
+
+  test('should poll until final and report every update', async () => {
+    const rpc = mockChain(
+      { head_block_num: 120, last_irreversible_block_num: 90 },
+      { 100: [{ status: 'executed', trx: TRX_ID }] }
+    );
+    rpc.get_info
+      .mockResolvedValueOnce({
+        head_block_num: 120,
+        last_irreversible_block_num: 90,
+      })
+      .mockResolvedValue({
+        head_block_num: 200,
+        last_irreversible_block_num: 110,
+      });
+    const onUpdate = jest.fn();
+
+    const result = await trackTransactionFinality(
+      createFinality(TRX_ID, 'testnet', 100),
+      { pollInterval: 0, onUpdate }
+    );
+
+    expect(result.status).toBe('irreversible');
+    expect(onUpdate.mock.calls.map(call => call[0].status)).toEqual([
+      'in_block',
+      'irreversible',
+    ]);
+  });
+});
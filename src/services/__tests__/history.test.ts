@@ -0,0 +1,106 @@
+/**
+ * @jest-environment node
+ */
+import { IDBFactory } from 'fake-indexeddb';
+
+import {
+  TransactionHistoryService,
+  exportHistoryToCsv,
+  exportHistoryToJson,
+} from '../history';
+import type { TransactionHistoryEntry } from '../../types';
+
+const entries: TransactionHistoryEntry[] = [
+  {
+    id: 1,
+    type: 'transfer',
+    account: 'testaccount',
+    data: { to: 'recipient', quantity: '1.0000 XPR', memo: 'rent, "june"' },
+    transactionId: 'abc123',
+    blockNum: 42,
+    network: 'testnet',
+    timestamp: Date.UTC(2024, 0, 1),
+  },
+];
+
+describe('transaction history export', () => {
+  test('should export CSV with a header row and escaped cells', () => {
+    const csv = exportHistoryToCsv(entries).split('\n');
+
+    expect(csv[0]).toBe(
+      'timestamp,type,account,network,transactionId,blockNum,data'
+    );
+    expect(csv[1]).toBe(
+      '2024-01-01T00:00:00.000Z,transfer,testaccount,testnet,abc123,42,' +
+        '"{""to"":""recipient"",""quantity"":""1.0000 XPR"",""memo"":""rent, \\""june\\""""}"'
+    );
+  });
+
+  test('should export JSON that round-trips', () => {
+    expect(JSON.parse(exportHistoryToJson(entries))).toEqual(entries);
+  });
+});
+
+describe('transaction history store', () => {
+  let history: TransactionHistoryService;
+
+  beforeEach(() => {
+    history = new TransactionHistoryService(new IDBFactory());
+  });
+
+  test('should record entries and read them back by account and network', async () => {
+    const nowSpy = jest.spyOn(Date, 'now');
+    nowSpy.mockReturnValue(1000);
+    const first = await history.record(
+      'transfer',
+      'testaccount',
+      'testnet',
+      { transactionId: 'trx-1', blockNum: 10 },
+      { to: 'recipient' }
+    );
+    nowSpy.mockReturnValue(2000);
+    await history.record('vote', 'testaccount', 'testnet', {
+      transactionId: 'trx-2',
+    });
+    await history.record('stake', 'testaccount', 'mainnet', {
+      transactionId: 'trx-3',
+    });
+    await history.record('stake', 'otheraccount', 'testnet', {
+      transactionId: 'trx-4',
+    });
+    nowSpy.mockRestore();
+
+    expect(first).toMatchObject({
+      id: expect.any(Number),
+      type: 'transfer',
+      blockNum: 10,
+      timestamp: 1000,
+      data: { to: 'recipient' },
+    });
+
+    const entries = await history.getHistory('testaccount', 'testnet');
+    expect(entries.map(entry => entry.transactionId)).toEqual([
+      'trx-2',
+      'trx-1',
+    ]);
+    expect(entries[0].blockNum).toBe(0);
+  });
+
+  test('should clear history for one account and network only', async () => {
+    await history.record('transfer', 'testaccount', 'testnet', {
+      transactionId: 'trx-1',
+    });
+    await history.record('transfer', 'testaccount', 'mainnet', {
+      transactionId: 'trx-2',
+    });
+
+    await history.clearHistory('testaccount', 'testnet');
+
+    await expect(history.getHistory('testaccount', 'testnet')).resolves.toEqual(
+      []
+    );
+    await expect(
+      history.getHistory('testaccount', 'mainnet')
+    ).resolves.toHaveLength(1);
+  });
+});
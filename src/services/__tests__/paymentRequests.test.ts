@@ -0,0 +1,137 @@
+import { PrivateKey, Transaction } from '@wharfkit/antelope';
+
+import {
+  signPaymentRequest,
+  verifyPaymentRequestSignature,
+} from '../paymentRequests';
+import { RpcError, ValidationError } from '../blockchain';
+
+const CHAIN_ID =
+  '71ee83bcf52142d61019d95f9cc5427ba6a0d7ff8accd9e2088ae2abeaf3d3dd';
+
+jest.mock('../../config/networks', () => ({
+  ...jest.requireActual('../../config/networks'),
+  getNetworkConfig: jest.fn(() => ({
+    endpoints: ['https://testnet-api.chaininfra.net'],
+    chainId: '71ee83bcf52142d61019d95f9cc5427ba6a0d7ff8accd9e2088ae2abeaf3d3dd',
+  })),
+}));
+
+describe('paymentRequests', () => {
+  const key = PrivateKey.generate('K1');
+  const otherKey = PrivateKey.generate('K1');
+
+  const request = {
+    recipient: 'alice',
+    amount: '10.5000 XPR',
+    memo: 'Dinner',
+    symbol: 'XPR',
+    requestId: 'abc123',
+    expirationDate: '2030-01-01T00:00:00.000Z',
+  };
+
+  // Wallet stand-in that signs without broadcasting
+  const createSession = (signingKey: PrivateKey) => ({
+    auth: { actor: 'alice', permission: 'active' },
+    transact: jest.fn(async ({ actions }: any, options: any) => {
+      expect(options.broadcast).toBe(false);
+      const transaction = Transaction.from({
+        expiration: '2030-01-01T00:00:00',
+        ref_block_num: 1,
+        ref_block_prefix: 2,
+        actions,
+      });
+      return {
+        transaction,
+        signatures: [
+          signingKey.signDigest(transaction.signingDigest(CHAIN_ID)),
+        ],
+      };
+    }),
+    rpc: {
+      get_account: jest.fn(async () => ({
+        account_name: 'alice',
+        permissions: [
+          {
+            perm_name: 'active',
+            required_auth: {
+              threshold: 1,
+              keys: [{ key: key.toPublic().toLegacyString(), weight: 1 }],
+            },
+          },
+        ],
+      })),
+    },
+  });
+
+  test('should report links without a signature as unsigned', async () => {
+    await expect(verifyPaymentRequestSignature(request)).resolves.toEqual({
+      status: 'unsigned',
+    });
+  });
+
+  test('should verify a request signed by the recipient', async () => {
+    const session = createSession(key);
+    const signed = await signPaymentRequest(request, session);
+
+    expect(signed.signature?.signature).toMatch(/^SIG_K1_/);
+    await expect(
+      verifyPaymentRequestSignature(signed, 'testnet', session)
+    ).resolves.toEqual({ status: 'verified', signer: 'alice@active' });
+  });
+
+  test('should flag edited request fields', async () => {
+    const session = createSession(key);
+    const signed = await signPaymentRequest(request, session);
+
+    const result = await verifyPaymentRequestSignature(
+      { ...signed, amount: '1000.0000 XPR' },
+      'testnet',
+      session
+    );
+
+    expect(result.status).toBe('invalid');
+    expect(session.rpc.get_account).not.toHaveBeenCalled();
+  });
+
+  test('should flag signatures from keys the account does not hold', async () => {
+    const session = createSession(otherKey);
+    const signed = await signPaymentRequest(request, session);
+
+    const result = await verifyPaymentRequestSignature(
+      signed,
+      'testnet',
+      session
+    );
+
+    expect(result).toEqual({
+      status: 'invalid',
+      reason: 'Signature was not made by a key of alice@active',
+    });
+  });
+
+  test('should flag malformed signature data', async () => {
+    const result = await verifyPaymentRequestSignature({
+      ...request,
+      signature: { signature: 'SIG_K1_bad', transaction: 'zz' },
+    });
+
+    expect(result.status).toBe('invalid');
+  });
+
+  test('should only let the recipient sign', async () => {
+    await expect(
+      signPaymentRequest({ ...request, recipient: 'bob' }, createSession(key))
+    ).rejects.toThrow(ValidationError);
+  });
+
+  test('should surface account lookup failures', async () => {
+    const session = createSession(key);
+    const signed = await signPaymentRequest(request, session);
+    session.rpc.get_account.mockRejectedValueOnce(new Error('timeout'));
+
+    await expect(
+      verifyPaymentRequestSignature(signed, 'testnet', session)
+    ).rejects.toThrow(RpcError);
+  });
+});
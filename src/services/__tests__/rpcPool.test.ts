@@ -0,0 +1,181 @@
+import { ChainApiError } from '../errors';
+import { RpcPool } from '../rpcPool';
+
+// Mock dependencies
+jest.mock('../../config/networks', () => ({
+  getNetworkConfig: jest.fn(() => ({
+    endpoints: ['https://primary.example.com', 'https://backup.example.com'],
+    chainId: 'test-chain-id',
+  })),
+}));
+
+jest.mock('../../utils/security-hardening', () => ({
+  globalRateLimiter: { isAllowed: jest.fn(() => Promise.resolve(true)) },
+}));
+
+// Mock fetch globally
+global.fetch = jest.fn();
+
+const okResponse = (body: unknown) => ({
+  ok: true,
+  json: () => Promise.resolve(body),
+});
+
+const errorResponse = (status: number, body: unknown) => ({
+  ok: false,
+  status,
+  text: () =>
+    Promise.resolve(typeof body === 'string' ? body : JSON.stringify(body)),
+});
+
+const unknownAccountBody = {
+  code: 500,
+  message: 'Internal Service Error',
+  error: {
+    code: 3060002,
+    name: 'account_query_exception',
+    what: 'Account Query Exception',
+    details: [{ message: 'unknown key (eosio::chain::name): missing' }],
+  },
+};
+
+describe('rpc pool', () => {
+  let pool: RpcPool;
+
+  beforeEach(() => {
+    (fetch as jest.Mock).mockReset();
+    pool = new RpcPool();
+  });
+
+  test('should route requests to the first endpoint by default', async () => {
+    (fetch as jest.Mock).mockResolvedValue(okResponse({ rows: [] }));
+
+    await pool.getClient('testnet').get_table_rows({
+      code: 'eosio',
+      table: 'voters',
+    });
+
+    const urls = (fetch as jest.Mock).mock.calls.map(call => call[0]);
+    expect(urls).toContain(
+      'https://primary.example.com/v1/chain/get_table_rows'
+    );
+  });
+
+  test('should fail over to the next endpoint when a request fails', async () => {
+    (fetch as jest.Mock).mockImplementation((url: string) => {
+      if (url.includes('get_info')) {
+        return Promise.resolve(okResponse({ head_block_num: 100 }));
+      }
+      if (url.startsWith('https://primary.example.com')) {
+        return Promise.reject(new Error('Connection refused'));
+      }
+      return Promise.resolve(okResponse({ account_name: 'testaccount' }));
+    });
+
+    const result = await pool.getClient('testnet').get_account('testaccount');
+
+    expect(result.account_name).toBe('testaccount');
+    expect(fetch).toHaveBeenCalledWith(
+      'https://backup.example.com/v1/chain/get_account',
+      expect.any(Object)
+    );
+  });
+
+  test('should rank lagging endpoints below healthy ones', async () => {
+    (fetch as jest.Mock).mockImplementation((url: string) =>
+      Promise.resolve(
+        okResponse({
+          head_block_num: url.startsWith('https://primary') ? 100 : 200,
+        })
+      )
+    );
+
+    await pool.probe('testnet');
+
+    const health = pool.getHealth('testnet');
+    expect(health[0].endpoint).toBe('https://backup.example.com');
+    expect(health[1].headBlockLag).toBe(100);
+    expect(pool.getPreferredEndpoint('testnet')).toBe(
+      'https://backup.example.com'
+    );
+  });
+
+  test('should only probe endpoints while probing is started', async () => {
+    (fetch as jest.Mock).mockResolvedValue(
+      okResponse({ head_block_num: 100, rows: [] })
+    );
+    const probes = () =>
+      (fetch as jest.Mock).mock.calls.filter(call =>
+        call[0].endsWith('/get_info')
+      ).length;
+
+    await pool.getClient('testnet').get_table_rows({
+      code: 'eosio',
+      table: 'voters',
+    });
+    expect(probes()).toBe(0);
+
+    jest.useFakeTimers();
+    try {
+      const stop = pool.startProbing('testnet');
+      expect(probes()).toBe(2);
+
+      stop();
+      jest.advanceTimersByTime(5 * 60 * 1000);
+      expect(probes()).toBe(2);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  test('should throw when every endpoint fails', async () => {
+    (fetch as jest.Mock).mockRejectedValue(new Error('Connection refused'));
+
+    await expect(pool.request('testnet', '/v1/chain/get_info')).rejects.toThrow(
+      'All RPC endpoints for testnet failed'
+    );
+  });
+
+  test('should return chain errors without failover or breaker failures', async () => {
+    (fetch as jest.Mock).mockImplementation((url: string) =>
+      Promise.resolve(
+        url.includes('get_info')
+          ? okResponse({ head_block_num: 100 })
+          : errorResponse(500, unknownAccountBody)
+      )
+    );
+
+    const client = pool.getClient('testnet');
+    for (const name of ['missing1', 'missing2', 'missing3', 'missing4']) {
+      const error = await client.get_account(name).catch(e => e);
+      expect(error).toBeInstanceOf(ChainApiError);
+      expect(error.code).toBe(3060002);
+    }
+
+    // One request per lookup: no failover and no retry
+    const lookups = (fetch as jest.Mock).mock.calls.filter(call =>
+      call[0].includes('get_account')
+    );
+    expect(lookups).toHaveLength(4);
+    expect(
+      pool.getHealth('testnet').map(endpoint => endpoint.circuitState)
+    ).toEqual(['CLOSED', 'CLOSED']);
+  });
+
+  test('should fail over on gateway errors', async () => {
+    (fetch as jest.Mock).mockImplementation((url: string) => {
+      if (url.includes('get_info')) {
+        return Promise.resolve(okResponse({ head_block_num: 100 }));
+      }
+      if (url.startsWith('https://primary.example.com')) {
+        return Promise.resolve(errorResponse(502, 'Bad Gateway'));
+      }
+      return Promise.resolve(okResponse({ account_name: 'testaccount' }));
+    });
+
+    const result = await pool.getClient('testnet').get_account('testaccount');
+
+    expect(result.account_name).toBe('testaccount');
+    expect(pool.getHealth('testnet')[1].errorRate).toBeGreaterThan(0);
+  });
+});
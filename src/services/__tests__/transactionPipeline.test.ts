@@ -0,0 +1,102 @@
+import { BlockchainError, ValidationError } from '../errors';
+import { TransactionPipeline } from '../transactionPipeline';
+import type { TransactionRequest } from '../../types';
+
+jest.mock('../history', () => ({
+  transactionHistory: {
+    record: jest.fn().mockResolvedValue({}),
+  },
+}));
+
+const createRequest = (
+  overrides: Partial<TransactionRequest> = {}
+): TransactionRequest => ({
+  description: 'claim refund',
+  account: 'alice',
+  network: 'testnet',
+  session: {
+    auth: { actor: 'alice', permission: 'active' },
+    transact: jest.fn().mockResolvedValue({
+      transaction_id: 'test-tx-id',
+      processed: { block_num: 42 },
+    }),
+  },
+  actions: [{ account: 'eosio', name: 'refundxpr', data: { owner: 'alice' } }],
+  authorize: jest
+    .fn()
+    .mockResolvedValue({ actor: 'alice', permission: 'active' }),
+  ...overrides,
+});
+
+describe('TransactionPipeline', () => {
+  test('should build, sign and return a uniform result', async () => {
+    const request = createRequest();
+    const result = await new TransactionPipeline().submit(request);
+
+    expect(result).toMatchObject({
+      transactionId: 'test-tx-id',
+      blockNum: 42,
+      status: 'success',
+      actions: 1,
+    });
+    expect(request.session.transact).toHaveBeenCalledWith(
+      {
+        actions: [
+          {
+            account: 'eosio',
+            name: 'refundxpr',
+            authorization: [{ actor: 'alice', permission: 'active' }],
+            data: { owner: 'alice' },
+          },
+        ],
+      },
+      { blocksBehind: 3, expireSeconds: 30 }
+    );
+  });
+
+  test('should stop before signing when a check fails', async () => {
+    const pipeline = new TransactionPipeline();
+    const request = createRequest({
+      preflight: [
+        () => {
+          throw new ValidationError('Nothing to claim');
+        },
+      ],
+    });
+
+    await expect(pipeline.submit(request)).rejects.toThrow('Nothing to claim');
+    expect(request.session.transact).not.toHaveBeenCalled();
+
+    pipeline.setResourceEstimator(() =>
+      Promise.resolve({ cpuAvailable: 0, netAvailable: 0, sufficient: false })
+    );
+    await expect(pipeline.submit(createRequest())).rejects.toThrow(
+      'Insufficient resources to claim refund. Please stake more CPU/NET.'
+    );
+  });
+
+  test('should wrap signing errors with the description', async () => {
+    const request = createRequest();
+    request.session.transact.mockRejectedValue(new Error('User rejected'));
+
+    await expect(new TransactionPipeline().submit(request)).rejects.toThrow(
+      new BlockchainError('Failed to claim refund: User rejected')
+    );
+  });
+
+  test('should run post-processors and ignore their failures', async () => {
+    const pipeline = new TransactionPipeline();
+    const processor = jest.fn();
+    const remove = pipeline.addPostProcessor(processor);
+    pipeline.addPostProcessor(() => {
+      throw new Error('History unavailable');
+    });
+
+    const result = await pipeline.submit(createRequest());
+    expect(processor).toHaveBeenCalledWith(result, expect.anything());
+
+    remove();
+    await pipeline.submit(createRequest());
+    expect(processor).toHaveBeenCalledTimes(1);
+  });
+});
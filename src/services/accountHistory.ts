@@ -0,0 +1,312 @@
+/**
+ * Account History Service
+ *
+ * Reads on-chain account activity from a Hyperion-compatible history API
+ * (`/v2/history/get_actions`) configured per network, so users can see
+ * actions that were not signed from this browser.
+ *
+ * Features:
+ * - Server-side filtering to transfers, votes and XPR staking
+ * - Normalization into a typed AccountAction union
+ * - Skip/limit pagination with total count
+ * - Short-lived caching per account, network and page
+ * - Payment request fulfilment lookup
+ *
+ * @fileoverview On-chain account history service for XPR Delegation Demo
+ */
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { getNetworkConfig } from '../config/networks';
+import { findTokenMetadata } from '../config/tokens';
+import { parseChainTimestamp } from '../utils/helpers';
+import { validateAccountName, validateNetwork } from '../utils/security';
+import { memoMatchesPaymentRequest } from '../utils/urlUtils';
+import type {
+  AccountAction,
+  AccountActionsPage,
+  NetworkType,
+  PaymentRequestPayment,
+  RequestPaymentData,
+} from '../types';
+import { smartCache, CacheKeys, CacheDependencies } from '../utils/SmartCache';
+import { BlockchainError, RpcError, ValidationError } from './blockchain';
+
+export const DEFAULT_ACTIONS_PAGE_SIZE = 20;
+
+// Hyperion rejects larger pages
+const MAX_ACTIONS_PAGE_SIZE = 100;
+
+// Pages scanned for a payment when the request has no creation time
+const MAX_PAYMENT_SCAN_PAGES = 10;
+
+// Actions requested from the history API (`*` matches any token contract)
+const ACTION_FILTER = [
+  '*:transfer',
+  'eosio:voteproducer',
+  'eosio:stakexpr',
+  'eosio:unstakexpr',
+].join(',');
+
+/**
+ * Normalize a raw Hyperion action into an AccountAction
+ * @param account - Account the history was queried for
+ * @param raw - Action from the get_actions response
+ * @returns Normalized action, or null for unsupported actions
+ */
+export const normalizeAccountAction = (
+  account: string,
+  raw: any
+): AccountAction | null => {
+  const act = raw?.act;
+  const data = act?.data;
+  if (!act || !data || typeof data !== 'object') return null;
+
+  const rawTimestamp = raw['@timestamp'] || raw.timestamp;
+  const time = rawTimestamp ? parseChainTimestamp(String(rawTimestamp)) : NaN;
+
+  const base = {
+    trx_id: String(raw.trx_id || ''),
+    block_num: Number(raw.block_num || 0),
+    timestamp: Number.isNaN(time) ? '' : new Date(time).toISOString(),
+    contract: String(act.account || ''),
+  };
+
+  switch (act.name) {
+    case 'transfer': {
+      const quantity =
+        data.quantity ||
+        (data.amount !== undefined && data.symbol
+          ? `${data.amount} ${data.symbol}`
+          : '');
+
+      return {
+        ...base,
+        type: 'transfer',
+        from: String(data.from || ''),
+        to: String(data.to || ''),
+        quantity: String(quantity),
+        memo: String(data.memo || ''),
+        direction: data.to === account ? 'in' : 'out',
+      };
+    }
+    case 'voteproducer':
+      if (base.contract !== 'eosio') return null;
+      return {
+        ...base,
+        type: 'voteproducer',
+        voter: String(data.voter || ''),
+        proxy: String(data.proxy || ''),
+        producers: Array.isArray(data.producers) ? data.producers : [],
+      };
+    case 'stakexpr':
+    case 'unstakexpr':
+      if (base.contract !== 'eosio') return null;
+      return {
+        ...base,
+        type: act.name,
+        from: String(data.from || ''),
+        receiver: String(data.receiver || ''),
+        quantity: String(data.stake || data.unstake || data.quantity || ''),
+      };
+    default:
+      return null;
+  }
+};
+
+/**
+ * Get a page of on-chain actions for an account, newest first
+ * @param accountName - Account name
+ * @param network - Network name (testnet/mainnet)
+ * @param options - Zero-based page index and page size
+ * @returns Normalized actions with pagination info
+ * @throws {ValidationError|RpcError|BlockchainError} If input is invalid, no history API is configured or the request fails
+ */
+export const getAccountActions = async (
+  accountName: string,
+  network: NetworkType = 'testnet',
+  { page = 0, pageSize = DEFAULT_ACTIONS_PAGE_SIZE } = {}
+): Promise<AccountActionsPage> => {
+  if (!validateAccountName(accountName)) {
+    throw new ValidationError('Invalid account name format');
+  }
+  if (!validateNetwork(network)) {
+    throw new ValidationError(`Invalid network: ${network}`);
+  }
+  if (!Number.isInteger(page) || page < 0) {
+    throw new ValidationError('Page must be a non-negative integer');
+  }
+
+  const historyApi = getNetworkConfig(network).historyApi;
+  if (!historyApi) {
+    throw new ValidationError(
+      `No history API configured for network: ${network}`
+    );
+  }
+
+  const limit = Math.min(Math.max(1, pageSize), MAX_ACTIONS_PAGE_SIZE);
+
+  return smartCache.getWithRefresh(
+    CacheKeys.accountActions(accountName, network, page, limit),
+    async () => {
+      const url = new URL('/v2/history/get_actions', historyApi);
+      url.searchParams.set('account', accountName);
+      url.searchParams.set('filter', ACTION_FILTER);
+      url.searchParams.set('skip', String(page * limit));
+      url.searchParams.set('limit', String(limit));
+      url.searchParams.set('sort', 'desc');
+
+      const response = await fetch(url.toString()).catch((error: unknown) => {
+        throw new RpcError(
+          `History API unreachable: ${
+            error instanceof Error ? error.message : 'Unknown error'
+          }`,
+          historyApi
+        );
+      });
+
+      if (!response.ok) {
+        throw new RpcError(
+          `History API request failed: ${response.status}`,
+          historyApi
+        );
+      }
+
+      try {
+        const body = await response.json();
+        const actions = (Array.isArray(body?.actions) ? body.actions : [])
+          .map((raw: any) => normalizeAccountAction(accountName, raw))
+          .filter(
+            (action: AccountAction | null): action is AccountAction => !!action
+          );
+        // Hyperion reports total as { value, relation } (older versions: number)
+        const total = Number(body?.total?.value ?? body?.total ?? 0);
+
+        return {
+          actions,
+          page,
+          pageSize: limit,
+          total,
+          hasMore: (page + 1) * limit < total,
+        };
+      } catch (error: unknown) {
+        throw new BlockchainError(
+          `Failed to parse account history: ${
+            error instanceof Error ? error.message : 'Unknown error'
+          }`
+        );
+      }
+    },
+    {
+      ttl: 30 * 1000, // 30 seconds (new actions arrive every block)
+      priority: 'low',
+      dependencies: [CacheDependencies.accountActions],
+    }
+  );
+};
+
+/**
+ * Split a quantity such as "10.5 XPR" into amount and symbol
+ */
+const parseQuantity = (quantity: string) => {
+  const [amount = '', symbol = ''] = quantity.trim().split(/\s+/);
+  return { amount, symbol };
+};
+
+/**
+ * Format an amount as an asset string with the token precision,
+ * e.g. "1.5" with precision 4 becomes "1.5000 XPR"
+ * @returns Asset string, or null if the amount has too many decimals
+ */
+const toAssetString = (
+  amount: string,
+  precision: number,
+  symbol: string
+): string | null => {
+  const match = /^(\d+)(?:\.(\d*))?$/.exec(amount);
+  if (!match) return null;
+
+  const whole = match[1].replace(/^0+(?=\d)/, '');
+  const fraction = match[2] || '';
+  if (fraction.length > precision) return null;
+
+  return precision > 0
+    ? `${whole}.${fraction.padEnd(precision, '0')} ${symbol}`
+    : `${whole} ${symbol}`;
+};
+
+/**
+ * Look for an incoming transfer that pays a payment request
+ * Matches incoming transfers of the registry token contract on the exact
+ * asset amount and a memo containing the request ID. History is paged back
+ * to the request's creation time.
+ * @param requestData - Payment request (requestId required)
+ * @param network - Network name (testnet/mainnet)
+ * @returns Matching payment, or null if the request is still unpaid
+ * @throws {ValidationError|RpcError|BlockchainError} If the request has no ID or the history lookup fails
+ */
+export const findPaymentForRequest = async (
+  requestData: RequestPaymentData,
+  network: NetworkType = 'testnet'
+): Promise<PaymentRequestPayment | null> => {
+  const { requestId } = requestData;
+  if (!requestId) {
+    throw new ValidationError('Payment request has no request ID');
+  }
+
+  const requested = parseQuantity(requestData.amount);
+  const symbol = requestData.symbol || requested.symbol;
+  const createdTime = requestData.createdAt
+    ? new Date(requestData.createdAt).getTime()
+    : NaN;
+
+  const isPayment = (action: AccountAction): boolean => {
+    if (action.type !== 'transfer' || action.direction !== 'in') return false;
+    if (requestData.contract && action.contract !== requestData.contract) {
+      return false;
+    }
+    // Any contract can issue a token named XPR - only trust the registry
+    const token = findTokenMetadata(network, action.contract, symbol);
+    return (
+      !!token &&
+      action.quantity ===
+        toAssetString(requested.amount, token.precision, symbol) &&
+      memoMatchesPaymentRequest(action.memo, requestId)
+    );
+  };
+
+  for (let page = 0; page < MAX_PAYMENT_SCAN_PAGES; page++) {
+    const { actions, hasMore } = await getAccountActions(
+      requestData.recipient,
+      network,
+      { page, pageSize: MAX_ACTIONS_PAGE_SIZE }
+    );
+
+    const payment = actions.find(isPayment);
+    if (payment && payment.type === 'transfer') {
+      return {
+        from: payment.from,
+        quantity: payment.quantity,
+        memo: payment.memo,
+        transactionId: payment.trx_id,
+        timestamp: payment.timestamp,
+      };
+    }
+
+    // Actions are newest first - stop once past the request's creation
+    const oldest = actions[actions.length - 1];
+    if (
+      !hasMore ||
+      !oldest ||
+      new Date(oldest.timestamp).getTime() < createdTime
+    ) {
+      break;
+    }
+  }
+
+  return null;
+};
+
+export default {
+  getAccountActions,
+  normalizeAccountAction,
+  findPaymentForRequest,
+};
@@ -6,69 +6,89 @@
  *
  * Features:
  * - Account information retrieval
- * - Block producer management
- * - Vote delegation operations
+ * - Block producer management and bp.json metadata
+ * - Vote delegation operations (producers or proxy)
+ * - Proxy registration and discovery
  * - Resource staking/unstaking
- * - RPC client with failover support
+ * - Signing permission resolution from linked auths
+ * - Pending refund tracking and claiming
+ * - Voter reward tracking and claiming
+ * - Signing through the shared transaction pipeline
+ * - Custom network verification via get_info chain ID
+ * - Shared RPC pool with health-based failover
  * - Caching for performance optimization
  * - Comprehensive error handling
  *
  * @fileoverview Blockchain service for XPR Delegation Demo
  */
 /* eslint-disable @typescript-eslint/no-explicit-any, no-console */
-import { getNetworkConfig, SAMPLE_BLOCK_PRODUCERS } from '../config/networks';
-import { createDefaultAccountInfo } from '../utils/helpers';
+import {
+  SAMPLE_BLOCK_PRODUCERS,
+  createNetworkId,
+  getAvailableNetworks,
+  getNetworkConfig,
+} from '../config/networks';
+import {
+  createCoreTokenBalance,
+  createDefaultAccountInfo,
+  parseChainTimestamp,
+} from '../utils/helpers';
 import {
   validateAccountName,
   validateNetwork,
   validateAmount,
+  validateUrl,
 } from '../utils/security';
-import {
-  globalRateLimiter,
-  transactionVerifier,
-} from '../utils/security-hardening';
+import { selectSigningPermission } from '../utils/permissionUtils';
 import type {
   AccountInfo,
+  AccountPermission,
   BlockProducer,
+  ContractAction,
+  CustomNetworkConfig,
+  CustomNetworkInput,
   NetworkType,
+  PendingRefund,
+  PermissionLevel,
+  ProducerMetadata,
+  ProducerNode,
+  ProxyInfo,
+  RecipientAccountInfo,
+  ResourceEstimator,
+  StakeBreakdown,
   VoteInfo,
+  VoteTarget,
+  VoterRewards,
   VotingResources,
 } from '../types';
 import { smartCache, CacheKeys, CacheDependencies } from '../utils/SmartCache';
-import { extractTransactionId } from '../utils/transactionUtils';
-import {
-  retryWithBackoff,
-  createRateLimitedFetch,
-  CircuitBreaker,
-} from '../utils/retryUtils';
+import { BlockchainError, RpcError, ValidationError } from './errors';
+import { getRpcClient } from './rpcPool';
+import { submitTransaction } from './transactionPipeline';
 
-/**
- * Custom error classes for better error handling and debugging
- */
-export class BlockchainError extends Error {
-  public type: string;
+export { BlockchainError, RpcError, ValidationError };
 
-  constructor(message: string, type = 'BLOCKCHAIN_ERROR') {
-    super(message);
-    this.type = type;
-    this.name = 'BlockchainError';
-  }
-}
+// Number of top-ranked producers that make up the producing schedule
+export const ACTIVE_PRODUCER_COUNT = 21;
 
-export class RpcError extends BlockchainError {
-  public endpoint?: string;
+// Unstaked XPR becomes claimable 24 hours after the unstake request
+export const REFUND_DELAY_MS = 24 * 60 * 60 * 1000;
 
-  constructor(message: string, endpoint?: string) {
-    super(message, 'RPC_ERROR');
-    this.endpoint = endpoint;
-  }
-}
+// Parallel get_account lookups when checking many recipients
+const ACCOUNT_LOOKUP_CONCURRENCY = 5;
 
-export class ValidationError extends BlockchainError {
-  constructor(message: string) {
-    super(message, 'VALIDATION_ERROR');
-  }
-}
+// Recipients created more recently than this are flagged as new
+export const NEW_ACCOUNT_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+// get_code_hash reports an all-zero hash for accounts without a contract
+const EMPTY_CODE_HASH = /^0+$/;
+
+/**
+ * Whether an RPC error means the account does not exist
+ * Nodes answer unknown accounts with an "unknown key" error.
+ */
+const isUnknownAccountError = (errorMessage: string): boolean =>
+  /unknown key|does not exist|3060002/i.test(errorMessage);
 
 // Cache for frequently accessed data to improve performance
 const cache = new Map<string, { data: unknown; timestamp: number }>();
@@ -84,144 +104,10 @@ const validateAccountNameInput = (accountName: string): void => {
 
 const validateNetworkInput = (network: string): void => {
   if (!validateNetwork(network)) {
-    throw new ValidationError(`Network must be one of: testnet, mainnet`);
-  }
-};
-
-// Global circuit breaker for API calls
-const apiCircuitBreaker = new CircuitBreaker(5, 30000);
-
-// Rate-limited fetch function
-const rateLimitedFetch = createRateLimitedFetch(150); // 150ms delay between requests
-
-// RPC client creation with failover support and security validation
-const createRpcClient = async (endpoint: string) => {
-  return {
-    get_account: async (accountName: string) => {
-      // Rate limiting check
-      const rateLimitKey = `get_account_${accountName}`;
-      const isAllowed = await globalRateLimiter.isAllowed(rateLimitKey);
-      if (!isAllowed) {
-        throw new RpcError(
-          `Rate limit exceeded for get_account: ${accountName}`,
-          endpoint
-        );
-      }
-
-      return apiCircuitBreaker.execute(async () => {
-        return retryWithBackoff(async () => {
-          const response = await rateLimitedFetch(
-            `${endpoint}/v1/chain/get_account`,
-            {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({ account_name: accountName }),
-            }
-          );
-          return response.json();
-        });
-      });
-    },
-
-    get_producers: async (options: Record<string, unknown> = {}) => {
-      // Rate limiting check
-      const rateLimitKey = 'get_producers';
-      const isAllowed = await globalRateLimiter.isAllowed(rateLimitKey);
-      if (!isAllowed) {
-        throw new RpcError('Rate limit exceeded for get_producers', endpoint);
-      }
-
-      return apiCircuitBreaker.execute(async () => {
-        return retryWithBackoff(async () => {
-          const response = await rateLimitedFetch(
-            `${endpoint}/v1/chain/get_producers`,
-            {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({ limit: 30, json: true, ...options }),
-            }
-          );
-          return response.json();
-        });
-      });
-    },
-
-    get_table_rows: async (options: any) => {
-      return apiCircuitBreaker.execute(async () => {
-        return retryWithBackoff(async () => {
-          const response = await rateLimitedFetch(
-            `${endpoint}/v1/chain/get_table_rows`,
-            {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify(options),
-            }
-          );
-          return response.json();
-        });
-      });
-    },
-
-    get_currency_balance: async (
-      contract: string,
-      account: string,
-      symbol: string | null = null
-    ) => {
-      // Validate inputs
-      if (!contract || typeof contract !== 'string') {
-        throw new ValidationError('Contract name must be a non-empty string.');
-      }
-      if (!account || typeof account !== 'string') {
-        throw new ValidationError('Account name must be a non-empty string.');
-      }
-
-      const requestBody: any = {
-        code: contract,
-        account: account,
-        symbol: symbol,
-      };
-
-      return apiCircuitBreaker.execute(async () => {
-        return retryWithBackoff(async () => {
-          const response = await rateLimitedFetch(
-            `${endpoint}/v1/chain/get_currency_balance`,
-            {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify(requestBody),
-            }
-          );
-          return response.json();
-        });
-      });
-    },
-  };
-};
-
-/**
- * Get an RPC client instance, with failover to multiple endpoints
- * @param network - Network name (testnet/mainnet)
- * @returns RPC client with blockchain interaction methods
- * @throws {RpcError} If all RPC endpoints fail
- */
-const getRpcClient = async (network: NetworkType) => {
-  const config = getNetworkConfig(network);
-  for (const endpoint of config.endpoints) {
-    try {
-      // Test endpoint connectivity
-      await fetch(`${endpoint}/v1/chain/get_info`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-      });
-      return await createRpcClient(endpoint);
-    } catch {
-      // Endpoint failed - try next one
-    }
+    throw new ValidationError(
+      `Network must be one of: ${getAvailableNetworks().join(', ')}`
+    );
   }
-  throw new RpcError(
-    `All RPC endpoints for ${network} failed.`,
-    config.endpoints.join(', ')
-  );
 };
 
 /**
@@ -281,10 +167,22 @@ export const getAccountInfo = async (
           allBalances.find((balance: string) => balance.includes('XPR')) ||
           '0.0000 XPR';
 
+        // Staked/refunding XPR for the balance breakdown (non-critical)
+        const stake = await getStakeBreakdown(
+          accountName,
+          network,
+          session
+        ).catch((): StakeBreakdown => ({ staked: 0, refunding: 0 }));
+
         const fullAccountInfo: AccountInfo = {
           ...createDefaultAccountInfo(accountName),
           ...accountData,
           core_liquid_balance: coreLiquidBalance,
+          core_balance: createCoreTokenBalance(
+            parseFloat(coreLiquidBalance) || 0,
+            stake
+          ),
+          refund: stake.refund,
           all_balances: allBalances,
           cpu_limit: accountData.cpu_limit || { used: 0, max: 0 },
           net_limit: accountData.net_limit || { used: 0, max: 0 },
@@ -301,192 +199,943 @@ export const getAccountInfo = async (
       priority: 'high',
       dependencies: [CacheDependencies.account],
     }
-  );
+  );
+};
+
+/**
+ * Check which accounts exist on chain
+ * Invalid names are reported as missing without a lookup.
+ * @param accountNames - Account names to check
+ * @param network - Network name (testnet/mainnet)
+ * @param session - Optional session from connected wallet
+ * @returns Existence by account name
+ * @throws {ValidationError|RpcError} If the network is invalid or a lookup fails for another reason
+ */
+export const checkAccountsExist = async (
+  accountNames: string[],
+  network: NetworkType = 'testnet',
+  session: any = null
+): Promise<Record<string, boolean>> => {
+  validateNetworkInput(network);
+
+  const rpc = session && session.rpc ? session.rpc : getRpcClient(network);
+  const existence: Record<string, boolean> = {};
+  const names = Array.from(new Set(accountNames)).filter(name => {
+    if (validateAccountName(name)) return true;
+    existence[name] = false;
+    return false;
+  });
+
+  for (let i = 0; i < names.length; i += ACCOUNT_LOOKUP_CONCURRENCY) {
+    await Promise.all(
+      names.slice(i, i + ACCOUNT_LOOKUP_CONCURRENCY).map(async name => {
+        try {
+          await rpc.get_account(name);
+          existence[name] = true;
+        } catch (error: unknown) {
+          const errorMessage =
+            error instanceof Error ? error.message : 'Unknown error';
+          if (isUnknownAccountError(errorMessage)) {
+            existence[name] = false;
+          } else {
+            throw new RpcError(
+              `Failed to look up account ${name}: ${errorMessage}`
+            );
+          }
+        }
+      })
+    );
+  }
+
+  return existence;
+};
+
+/**
+ * Pre-flight check of a transfer recipient
+ * Confirms the account exists, whether it has a contract deployed and
+ * whether it was created recently.
+ * @param accountName - Recipient account name
+ * @param network - Network name (testnet/mainnet)
+ * @param session - Optional session from connected wallet
+ * @returns Recipient facts (exists false for unknown accounts)
+ * @throws {ValidationError|RpcError} If the input is invalid or a lookup fails for another reason
+ */
+export const getRecipientInfo = async (
+  accountName: string,
+  network: NetworkType = 'testnet',
+  session: any = null
+): Promise<RecipientAccountInfo> => {
+  if (!validateAccountName(accountName)) {
+    throw new ValidationError('Invalid account name format');
+  }
+  validateNetworkInput(network);
+
+  return smartCache.getWithRefresh(
+    CacheKeys.recipientInfo(accountName, network),
+    async () => {
+      const rpc = session && session.rpc ? session.rpc : getRpcClient(network);
+
+      let accountData: any;
+      try {
+        accountData = await rpc.get_account(accountName);
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : 'Unknown error';
+        if (isUnknownAccountError(errorMessage)) {
+          return {
+            account: accountName,
+            exists: false,
+            isNew: false,
+            hasContract: false,
+          };
+        }
+        throw new RpcError(
+          `Failed to look up account ${accountName}: ${errorMessage}`
+        );
+      }
+
+      // Session RPC clients do not expose raw requests; use the pool
+      let hasContract = false;
+      try {
+        const { code_hash: codeHash } = await getRpcClient(network).request(
+          '/v1/chain/get_code_hash',
+          { account_name: accountName }
+        );
+        hasContract = !!codeHash && !EMPTY_CODE_HASH.test(codeHash);
+      } catch (error: unknown) {
+        throw new RpcError(
+          `Failed to look up contract for ${accountName}: ${
+            error instanceof Error ? error.message : 'Unknown error'
+          }`
+        );
+      }
+
+      const createdTime = accountData?.created
+        ? parseChainTimestamp(String(accountData.created))
+        : NaN;
+      const created = Number.isNaN(createdTime)
+        ? undefined
+        : new Date(createdTime).toISOString();
+
+      return {
+        account: accountName,
+        exists: true,
+        created,
+        isNew:
+          !Number.isNaN(createdTime) &&
+          Date.now() - createdTime < NEW_ACCOUNT_AGE_MS,
+        hasContract,
+      };
+    },
+    {
+      ttl: 60 * 1000, // 1 minute
+      priority: 'low',
+      dependencies: [CacheDependencies.recipientInfo],
+    }
+  );
+};
+
+/**
+ * Get an account's permission tree with linked actions
+ * @param accountName - Account name
+ * @param network - Network name (testnet/mainnet)
+ * @param session - Optional session from connected wallet
+ * @returns Permissions from get_account
+ * @throws {ValidationError|RpcError} If the input is invalid or the lookup fails
+ */
+export const getAccountPermissions = async (
+  accountName: string,
+  network: NetworkType = 'testnet',
+  session: any = null
+): Promise<AccountPermission[]> => {
+  validateAccountNameInput(accountName);
+  validateNetworkInput(network);
+
+  return smartCache.getWithRefresh(
+    CacheKeys.permissions(accountName, network),
+    async () => {
+      const rpc = session && session.rpc ? session.rpc : getRpcClient(network);
+
+      try {
+        const accountData = await rpc.get_account(accountName);
+        return (accountData?.permissions || []) as AccountPermission[];
+      } catch (error: unknown) {
+        throw new RpcError(
+          `Failed to look up permissions for ${accountName}: ${
+            error instanceof Error ? error.message : 'Unknown error'
+          }`
+        );
+      }
+    },
+    {
+      ttl: 60 * 1000, // 1 minute
+      priority: 'medium',
+      dependencies: [CacheDependencies.permissions],
+    }
+  );
+};
+
+/**
+ * Resolve the authorization for actions signed by the session account
+ * Picks the least-privileged permission satisfying every action's linked
+ * auth, or checks an explicitly chosen permission. If the permission tree
+ * cannot be loaded, the chosen or session permission is used as-is.
+ * @param actions - Contract actions in the transaction
+ * @param network - Network name (testnet/mainnet)
+ * @param session - Session object from ConnectWallet
+ * @param permission - Explicitly chosen permission (optional)
+ * @returns Authorization to put on the actions
+ * @throws {ValidationError} If the session key cannot satisfy the actions
+ */
+export const resolveAuthorization = async (
+  actions: ContractAction[],
+  network: NetworkType = 'testnet',
+  session: any = null,
+  permission?: string
+): Promise<PermissionLevel> => {
+  if (!session?.auth) {
+    throw new ValidationError(
+      'Session is required for signing. Please connect your wallet first.'
+    );
+  }
+
+  const actor = String(session.auth.actor);
+  const sessionPermission = String(session.auth.permission);
+
+  let permissions: AccountPermission[];
+  try {
+    permissions = await getAccountPermissions(actor, network, session);
+  } catch {
+    return { actor, permission: permission || sessionPermission };
+  }
+  if (permissions.length === 0) {
+    return { actor, permission: permission || sessionPermission };
+  }
+
+  try {
+    return {
+      actor,
+      permission: selectSigningPermission(
+        permissions,
+        actions,
+        { actor, permission: sessionPermission },
+        permission
+      ),
+    };
+  } catch (error: unknown) {
+    throw new ValidationError(
+      error instanceof Error ? error.message : 'Unknown permission error'
+    );
+  }
+};
+
+/**
+ * Get all Block Producers using smart caching
+ * Pages through the whole producers table and ranks producers by votes
+ * Only refreshes when data is stale or missing
+ * @param network - Network name (testnet/mainnet)
+ * @param session - Optional session from connected wallet
+ * @returns Array of Block Producers with rank and active/standby/inactive status
+ * @throws {BlockchainError} If fetching block producers fails
+ */
+export const getBlockProducers = async (
+  network: NetworkType = 'testnet',
+  session: any = null
+): Promise<BlockProducer[]> => {
+  validateNetworkInput(network);
+
+  const cacheKey = CacheKeys.blockProducers(network);
+
+  return smartCache.getWithRefresh(
+    cacheKey,
+    async () => {
+      let rpc;
+      if (session && session.rpc) {
+        rpc = session.rpc;
+      } else {
+        rpc = await getRpcClient(network);
+      }
+
+      const rows: any[] = [];
+      const pageSize = 100;
+      const maxPages = 20; // Hard cap to keep scans bounded
+      let lowerBound = '';
+      let totalWeight = 0;
+
+      try {
+        // get_producers returns `more` as the next lower bound
+        for (let page = 0; page < maxPages; page++) {
+          const producersResponse = await rpc.get_producers({
+            limit: pageSize,
+            json: true,
+            lower_bound: lowerBound,
+          });
+
+          rows.push(...(producersResponse.rows || []));
+          totalWeight = Number(
+            producersResponse.total_producer_vote_weight || totalWeight
+          );
+
+          lowerBound =
+            typeof producersResponse.more === 'string'
+              ? producersResponse.more
+              : '';
+          if (!lowerBound) break;
+        }
+
+        rows.sort((a, b) => Number(b.total_votes) - Number(a.total_votes));
+
+        // Active producers are the top registered producers by votes
+        let registeredRank = 0;
+        const producers: BlockProducer[] = rows.map((p: any, index) => {
+          const isRegistered = p.is_active === undefined || !!p.is_active;
+          if (isRegistered) registeredRank++;
+
+          return {
+            name: p.owner,
+            url: p.url,
+            total_votes: p.total_votes,
+            vote_share:
+              totalWeight > 0
+                ? (Number(p.total_votes || 0) / totalWeight) * 100
+                : 0,
+            rank: index + 1,
+            status: !isRegistered
+              ? 'inactive'
+              : registeredRank <= ACTIVE_PRODUCER_COUNT
+                ? 'active'
+                : 'standby',
+          };
+        });
+
+        return producers;
+      } catch {
+        // Fallback to sample data on error
+        return SAMPLE_BLOCK_PRODUCERS[network] || [];
+      }
+    },
+    {
+      ttl: 10 * 60 * 1000, // 10 minutes (producers change less frequently)
+      priority: 'medium',
+      dependencies: [CacheDependencies.blockProducers],
+    }
+  );
+};
+
+/**
+ * Normalize a producer URL from the producers table to an HTTPS base URL
+ */
+const toProducerBaseUrl = (url: string): string | null => {
+  const trimmed = (url || '').trim().replace(/\/+$/, '');
+  if (!trimmed) return null;
+
+  const withScheme = /^https?:\/\//i.test(trimmed)
+    ? trimmed.replace(/^http:/i, 'https:')
+    : `https://${trimmed}`;
+
+  return validateUrl(withScheme) ? withScheme : null;
+};
+
+// Social handles are account names, never URLs or paths
+const SOCIAL_HANDLE = /^[\w.-]{1,64}$/;
+
+/**
+ * Parse a raw bp.json document into producer metadata
+ * Only HTTPS website and logo URLs are kept to avoid mixed content and
+ * script URLs; the website falls back to the producer's on-chain URL.
+ */
+const parseProducerJson = (
+  producerName: string,
+  bpJson: any,
+  baseUrl: string | null = null
+): ProducerMetadata => {
+  const org = bpJson?.org || {};
+  const branding = org.branding || {};
+  const logo = [branding.logo_256, branding.logo_1024, branding.logo_svg].find(
+    (candidate: unknown) =>
+      typeof candidate === 'string' && validateUrl(candidate)
+  );
+
+  const social: Record<string, string> = {};
+  for (const [platform, handle] of Object.entries(org.social || {})) {
+    const trimmed = typeof handle === 'string' ? handle.trim() : '';
+    const account = trimmed.replace(/^@/, '');
+    if (SOCIAL_HANDLE.test(account)) {
+      social[platform] = account;
+    }
+  }
+
+  const nodes: ProducerNode[] = (
+    Array.isArray(bpJson?.nodes) ? bpJson.nodes : []
+  ).map((node: any) => ({
+    node_type: Array.isArray(node.node_type)
+      ? node.node_type.join(', ')
+      : String(node.node_type || 'unknown'),
+    location: node.location?.name,
+    api_endpoint: node.api_endpoint,
+    ssl_endpoint: node.ssl_endpoint,
+    p2p_endpoint: node.p2p_endpoint,
+  }));
+
+  return {
+    producer_account_name: bpJson?.producer_account_name || producerName,
+    candidate_name: org.candidate_name,
+    website:
+      (typeof org.website === 'string' && toProducerBaseUrl(org.website)) ||
+      baseUrl ||
+      undefined,
+    email: org.email,
+    logo,
+    location: org.location?.name,
+    country: org.location?.country,
+    social,
+    nodes,
+  };
+};
+
+/**
+ * Get a producer's bp.json metadata using smart caching
+ * Resolves the per-chain path via chains.json when published, else /bp.json
+ * @param producer - Block Producer from the producers table
+ * @param network - Network name (testnet/mainnet)
+ * @returns Producer metadata, or null if the producer publishes none
+ */
+export const getProducerMetadata = async (
+  producer: BlockProducer,
+  network: NetworkType = 'testnet'
+): Promise<ProducerMetadata | null> => {
+  validateAccountNameInput(producer.name);
+  validateNetworkInput(network);
+
+  return smartCache.getWithRefresh(
+    CacheKeys.producerMetadata(producer.name, network),
+    async () => {
+      const baseUrl = toProducerBaseUrl(producer.url);
+      if (!baseUrl) return null;
+
+      try {
+        // chains.json maps chain IDs to per-chain bp.json paths
+        let bpJsonPath = '/bp.json';
+        try {
+          const chainsResponse = await fetch(`${baseUrl}/chains.json`);
+          if (chainsResponse.ok) {
+            const chains = (await chainsResponse.json())?.chains || {};
+            const chainPath = chains[getNetworkConfig(network).chainId];
+            if (typeof chainPath === 'string') {
+              bpJsonPath = chainPath.startsWith('/')
+                ? chainPath
+                : `/${chainPath}`;
+            }
+          }
+        } catch {
+          // No chains.json - fall back to /bp.json
+        }
+
+        const response = await fetch(`${baseUrl}${bpJsonPath}`);
+        if (!response.ok) {
+          throw new Error(`bp.json request failed: ${response.status}`);
+        }
+
+        return parseProducerJson(producer.name, await response.json(), baseUrl);
+      } catch (error: unknown) {
+        // Metadata is optional - many producers don't publish bp.json
+        console.warn(
+          `[Blockchain] No bp.json for ${producer.name}:`,
+          error instanceof Error ? error.message : error
+        );
+        return null;
+      }
+    },
+    {
+      ttl: 60 * 60 * 1000, // 1 hour (bp.json rarely changes)
+      priority: 'low',
+      dependencies: [CacheDependencies.producerMetadata],
+    }
+  );
+};
+
+/**
+ * Delegate votes to Block Producers or to a voting proxy
+ * @param accountName - Account name delegating votes
+ * @param target - Producer name(s) to vote for, or `{ proxy }` to delegate vote weight to a proxy
+ * @param network - Network name (testnet/mainnet)
+ * @param session - Session object from ConnectWallet
+ * @param permission - Permission to sign with (resolved from linked auths when omitted)
+ * @returns Transaction result
+ * @throws {ValidationError|BlockchainError} If validation fails or transaction fails
+ */
+export const delegateVotes = async (
+  accountName: string,
+  target: VoteTarget, // Producer name, producer list, or proxy account
+  network: NetworkType = 'testnet',
+  session: any = null,
+  permission?: string
+): Promise<{ transactionId: string; blockNum: number; status: string }> => {
+  validateAccountNameInput(accountName);
+  validateNetworkInput(network);
+
+  // Proxy mode and producer lists are mutually exclusive on voteproducer
+  const isProxyVote =
+    typeof target === 'object' && target !== null && !Array.isArray(target);
+  const proxy = isProxyVote ? target.proxy : '';
+
+  // Convert to array if single producer
+  const producers = isProxyVote
+    ? []
+    : Array.isArray(target)
+      ? target
+      : [target];
+
+  if (isProxyVote) {
+    validateAccountNameInput(proxy);
+
+    if (proxy === accountName) {
+      throw new ValidationError('An account cannot proxy its vote to itself');
+    }
+  } else {
+    // Validate producers array
+    if (producers.length === 0) {
+      throw new ValidationError('At least one producer must be specified');
+    }
+
+    if (producers.length > 4) {
+      throw new ValidationError('Maximum 4 producers can be selected');
+    }
+
+    // Validate each producer name
+    producers.forEach(producer => {
+      validateAccountNameInput(producer);
+    });
+  }
+
+  if (!session) {
+    throw new ValidationError(
+      'Session is required for voting. Please connect your wallet first.'
+    );
+  }
+
+  const { transactionId, blockNum, status } = await submitTransaction({
+    description: 'delegate votes',
+    account: accountName,
+    network,
+    session,
+    actions: [
+      {
+        account: 'eosio',
+        name: 'voteproducer',
+        data: {
+          voter: accountName,
+          proxy, // Empty proxy means direct voting
+          producers: [...producers].sort(), // Must be empty when voting through a proxy
+        },
+      },
+    ],
+    authorize: actions =>
+      resolveAuthorization(actions, network, session, permission),
+    estimateResources: estimateVotingResources,
+    invalidate: [
+      CacheKeys.blockProducers(network), // Refresh vote counts
+      CacheKeys.account(accountName, network), // Refresh vote info
+      CacheKeys.proxies(network), // Proxied weight changes on proxy votes
+    ],
+    history: [
+      isProxyVote
+        ? { type: 'proxy_vote', data: { proxy } }
+        : { type: 'vote', data: { producers } },
+    ],
+  });
+
+  return { transactionId, blockNum, status };
+};
+
+/**
+ * Register or unregister an account as a voting proxy
+ * @param accountName - Account name to (un)register as proxy
+ * @param isProxy - True to register, false to unregister
+ * @param network - Network name (testnet/mainnet)
+ * @param session - Session object from ConnectWallet
+ * @param permission - Permission to sign with (resolved from linked auths when omitted)
+ * @returns Transaction result
+ * @throws {ValidationError|BlockchainError} If validation fails or transaction fails
+ */
+export const registerProxy = async (
+  accountName: string,
+  isProxy: boolean = true,
+  network: NetworkType = 'testnet',
+  session: any = null,
+  permission?: string
+): Promise<{ transactionId: string; blockNum: number; isProxy: boolean }> => {
+  validateAccountNameInput(accountName);
+  validateNetworkInput(network);
+
+  if (!session) {
+    throw new ValidationError(
+      'Session is required for proxy registration. Please connect your wallet first.'
+    );
+  }
+
+  const { transactionId, blockNum } = await submitTransaction({
+    description: `${isProxy ? 'register' : 'unregister'} proxy`,
+    account: accountName,
+    network,
+    session,
+    actions: [
+      {
+        account: 'eosio',
+        name: 'regproxy',
+        data: {
+          proxy: accountName,
+          isproxy: isProxy,
+        },
+      },
+    ],
+    authorize: actions =>
+      resolveAuthorization(actions, network, session, permission),
+    invalidate: [
+      CacheKeys.proxies(network),
+      CacheKeys.voteInfo(accountName, network),
+    ],
+    history: [{ type: 'register_proxy', data: { isProxy } }],
+  });
+
+  return { transactionId, blockNum, isProxy };
+};
+
+/**
+ * Unregister an account as a voting proxy
+ * @param accountName - Account name to unregister
+ * @param network - Network name (testnet/mainnet)
+ * @param session - Session object from ConnectWallet
+ * @returns Transaction result
+ */
+export const unregisterProxy = (
+  accountName: string,
+  network: NetworkType = 'testnet',
+  session: any = null
+) => registerProxy(accountName, false, network, session);
+
+/**
+ * Get registered voting proxies using smart caching
+ * The voters table has no is_proxy index, so rows are paged and filtered
+ * @param network - Network name (testnet/mainnet)
+ * @param session - Optional session from connected wallet
+ * @returns Array of proxies sorted by proxied vote weight
+ * @throws {BlockchainError} If fetching proxies fails
+ */
+export const getProxies = async (
+  network: NetworkType = 'testnet',
+  session: any = null
+): Promise<ProxyInfo[]> => {
+  validateNetworkInput(network);
+
+  return smartCache.getWithRefresh(
+    CacheKeys.proxies(network),
+    async () => {
+      let rpc;
+      if (session && session.rpc) {
+        rpc = session.rpc;
+      } else {
+        rpc = await getRpcClient(network);
+      }
+
+      const proxies: ProxyInfo[] = [];
+      const pageSize = 500;
+      const maxPages = 20; // Hard cap to keep mainnet scans bounded
+      let lowerBound = '';
+      let seenOwner = ''; // Row repeated when paging from the last owner
+
+      try {
+        for (let page = 0; page < maxPages; page++) {
+          const response = await rpc.get_table_rows({
+            code: 'eosio',
+            scope: 'eosio',
+            table: 'voters',
+            lower_bound: lowerBound,
+            limit: pageSize,
+            json: true,
+          });
+
+          const rows = (response.rows || []).filter(
+            (voter: any) => !seenOwner || voter.owner !== seenOwner
+          );
+
+          for (const voter of rows) {
+            if (voter.is_proxy) {
+              proxies.push({
+                owner: voter.owner,
+                producers: voter.producers || [],
+                proxied_vote_weight: Number(voter.proxied_vote_weight) || 0,
+                last_vote_weight: Number(voter.last_vote_weight) || 0,
+                staked: Number(voter.staked) || 0,
+              });
+            }
+          }
+
+          if (!response.more) break;
+          if (typeof response.next_key === 'string' && response.next_key) {
+            lowerBound = response.next_key;
+            seenOwner = '';
+          } else {
+            // lower_bound is inclusive, so skip the last row next page
+            seenOwner = rows[rows.length - 1]?.owner;
+            if (!seenOwner) break;
+            lowerBound = seenOwner;
+          }
+        }
+      } catch (error: unknown) {
+        throw new BlockchainError(
+          `Failed to get proxies: ${
+            error instanceof Error ? error.message : 'Unknown error'
+          }`
+        );
+      }
+
+      return proxies.sort(
+        (a, b) => b.proxied_vote_weight - a.proxied_vote_weight
+      );
+    },
+    {
+      ttl: 10 * 60 * 1000, // 10 minutes (proxy registry changes rarely)
+      priority: 'low',
+      dependencies: [CacheDependencies.proxies],
+    }
+  );
+};
+
+/**
+ * Get current vote information for an account using RPC client
+ * @param accountName - Account name
+ * @param network - Network name (testnet/mainnet)
+ * @param session - Optional session from connected wallet
+ * @returns Vote information
+ * @throws {BlockchainError} If fetching vote info fails
+ */
+export const getVoteInfo = async (
+  accountName: string,
+  network: NetworkType = 'testnet',
+  session: any = null
+): Promise<VoteInfo | null> => {
+  validateAccountNameInput(accountName);
+  validateNetworkInput(network);
+
+  let rpc;
+
+  // Use session RPC if available, otherwise use fallback RPC client
+  if (session && session.rpc) {
+    try {
+      rpc = session.rpc;
+    } catch {
+      // Session RPC error, using fallback
+      rpc = await getRpcClient(network);
+    }
+  } else {
+    rpc = await getRpcClient(network);
+  }
+
+  try {
+    // Get voter information from the blockchain
+    const voterInfo = await rpc.get_table_rows({
+      code: 'eosio',
+      scope: 'eosio',
+      table: 'voters',
+      lower_bound: accountName,
+      upper_bound: accountName,
+      limit: 1,
+      json: true,
+    });
+
+    if (voterInfo.rows && voterInfo.rows.length > 0) {
+      const voter = voterInfo.rows[0];
+      return {
+        owner: voter.owner,
+        proxy: voter.proxy,
+        producers: voter.producers,
+        last_vote_weight: voter.last_vote_weight,
+        last_vote_time: voter.last_vote_time,
+        staked: voter.staked,
+        is_proxy: voter.is_proxy,
+      };
+    }
+
+    return null;
+  } catch (error: unknown) {
+    // Error getting vote info
+    throw new BlockchainError(
+      `Failed to get vote info: ${
+        error instanceof Error ? error.message : 'Unknown error'
+      }`
+    );
+  }
 };
 
 /**
- * Get list of Block Producers using smart caching
- * Only refreshes when data is stale or missing
+ * Get accrued voter rewards for an account using smart caching
+ * Reads the votersxpr table, which tracks XPR staking rewards per voter
+ * @param accountName - Account name
  * @param network - Network name (testnet/mainnet)
  * @param session - Optional session from connected wallet
- * @returns Array of Block Producers
- * @throws {BlockchainError} If fetching block producers fails
+ * @returns Voter rewards, or null if the account has never staked
+ * @throws {BlockchainError} If fetching rewards fails
  */
-export const getBlockProducers = async (
+export const getVoterRewards = async (
+  accountName: string,
   network: NetworkType = 'testnet',
   session: any = null
-): Promise<BlockProducer[]> => {
+): Promise<VoterRewards | null> => {
+  validateAccountNameInput(accountName);
   validateNetworkInput(network);
 
-  const cacheKey = CacheKeys.blockProducers(network);
-
   return smartCache.getWithRefresh(
-    cacheKey,
+    CacheKeys.voterRewards(accountName, network),
     async () => {
-      let rpc;
-      if (session && session.rpc) {
-        rpc = session.rpc;
-      } else {
-        rpc = await getRpcClient(network);
-      }
+      const rpc = session && session.rpc ? session.rpc : getRpcClient(network);
 
       try {
-        const producersResponse = await rpc.get_producers({
-          limit: 30,
+        const rewardsInfo = await rpc.get_table_rows({
+          code: 'eosio',
+          scope: 'eosio',
+          table: 'votersxpr',
+          lower_bound: accountName,
+          upper_bound: accountName,
+          limit: 1,
           json: true,
-          reverse: true,
-          index_position: 2,
         });
 
-        const producers: BlockProducer[] = producersResponse.rows.map(
-          (p: any) => ({
-            name: p.owner,
-            url: p.url,
-            total_votes: p.total_votes,
-          })
+        const row = rewardsInfo.rows?.[0];
+        if (!row) return null;
+
+        // lastclaim is stored as seconds since epoch (0 = never claimed)
+        const lastClaim = Number(row.lastclaim || 0);
+
+        return {
+          owner: row.acc,
+          // claimamount is stored in the smallest unit (4 decimals)
+          accrued: Number(row.claimamount || 0) / 10000,
+          last_claim_time:
+            lastClaim > 0
+              ? new Date(lastClaim * 1000).toISOString()
+              : undefined,
+          qualified: Boolean(row.isqualified),
+        };
+      } catch (error: unknown) {
+        throw new BlockchainError(
+          `Failed to get voter rewards: ${
+            error instanceof Error ? error.message : 'Unknown error'
+          }`
         );
-
-        return producers;
-      } catch {
-        // Fallback to sample data on error
-        return SAMPLE_BLOCK_PRODUCERS[network] || [];
       }
     },
     {
-      ttl: 10 * 60 * 1000, // 10 minutes (producers change less frequently)
+      ttl: 2 * 60 * 1000, // 2 minutes (rewards accrue continuously)
       priority: 'medium',
-      dependencies: [CacheDependencies.blockProducers],
+      dependencies: [CacheDependencies.voterRewards],
     }
   );
 };
 
 /**
- * Delegate votes to a Block Producer
- * @param accountName - Account name delegating votes
- * @param producerName - Name of the Block Producer to vote for
+ * Claim accrued voter rewards
+ * @param accountName - Account name claiming rewards
  * @param network - Network name (testnet/mainnet)
  * @param session - Session object from ConnectWallet
- * @returns Transaction result
- * @throws {ValidationError|BlockchainError} If validation fails or transaction fails
+ * @param permission - Permission to sign with (resolved from linked auths when omitted)
+ * @returns Transaction result with the claimed amount
+ * @throws {ValidationError|BlockchainError} If nothing is claimable or the transaction fails
  */
-export const delegateVotes = async (
+export const claimVoterRewards = async (
   accountName: string,
-  producerNames: string | string[], // Support both single producer and multiple producers
   network: NetworkType = 'testnet',
-  session: any = null
-): Promise<{ transactionId: string; blockNum: number; status: string }> => {
+  session: any = null,
+  permission?: string
+): Promise<{ transactionId: string; blockNum: number; claimed: number }> => {
   validateAccountNameInput(accountName);
   validateNetworkInput(network);
 
-  // Convert to array if single producer
-  const producers = Array.isArray(producerNames)
-    ? producerNames
-    : [producerNames];
-
-  // Validate producers array
-  if (producers.length === 0) {
-    throw new ValidationError('At least one producer must be specified');
-  }
-
-  if (producers.length > 4) {
-    throw new ValidationError('Maximum 4 producers can be selected');
-  }
-
-  // Validate each producer name
-  producers.forEach(producer => {
-    validateAccountNameInput(producer);
-  });
-
   if (!session) {
     throw new ValidationError(
-      'Session is required for voting. Please connect your wallet first.'
+      'Session is required for claiming rewards. Please connect your wallet first.'
     );
   }
 
-  // Pre-flight check for voting resources
-  await getAccountInfo(accountName, network, session);
-  const votingResources = await checkVotingResources(
-    accountName,
-    network,
-    session
-  );
-
-  if (!votingResources.canVote) {
-    throw new BlockchainError(
-      'Insufficient resources to vote. Please stake more CPU/NET.'
-    );
+  smartCache.invalidate(CacheKeys.voterRewards(accountName, network));
+  const rewards = await getVoterRewards(accountName, network, session);
+  if (!rewards || rewards.accrued <= 0) {
+    throw new ValidationError('No voter rewards to claim');
   }
 
-  try {
-    const actions = [
+  const { transactionId, blockNum } = await submitTransaction({
+    description: 'claim voter rewards',
+    account: accountName,
+    network,
+    session,
+    actions: [
       {
         account: 'eosio',
-        name: 'voteproducer',
-        authorization: [
-          {
-            actor: session.auth.actor,
-            permission: session.auth.permission, // Use the actual session permission
-          },
-        ],
+        name: 'voterclaim',
         data: {
-          voter: accountName,
-          proxy: '', // Empty proxy means direct voting
-          producers: producers.sort(), // Use the producers array
+          owner: accountName,
         },
       },
-    ];
-
-    // Verify transaction data integrity
-    if (!transactionVerifier.verifyTransactionData({ actions })) {
-      throw new ValidationError('Invalid transaction data');
-    }
-
-    const result = await session.transact(
+    ],
+    authorize: actions =>
+      resolveAuthorization(actions, network, session, permission),
+    invalidate: [
+      CacheKeys.voterRewards(accountName, network),
+      CacheKeys.account(accountName, network),
+    ],
+    history: [
       {
-        actions,
+        type: 'claim_rewards',
+        data: { quantity: `${rewards.accrued.toFixed(4)} XPR` },
       },
-      {
-        blocksBehind: 3,
-        expireSeconds: 30,
-      }
-    );
+    ],
+  });
 
-    // Debug: Log the full result structure to understand ProtonSDK response
-    console.log('[Blockchain] Full transaction result:', result);
-    console.log('[Blockchain] Transaction result structure:', {
-      transaction_id: result.transaction_id,
-      id: result.id,
-      processed: result.processed,
-      keys: Object.keys(result),
-      type: typeof result,
-    });
+  return { transactionId, blockNum, claimed: rewards.accrued };
+};
 
-    // Verify transaction signature after execution
-    if (
-      result.transaction &&
-      !(await transactionVerifier.verifySignature(
-        result.transaction,
-        session.auth.actor
-      ))
-    ) {
-      throw new BlockchainError('Transaction signature verification failed');
-    }
+/**
+ * Get the pending XPR refund for an account
+ * Reads the refundsxpr table scoped by the account
+ * @param accountName - Account name
+ * @param network - Network name (testnet/mainnet)
+ * @param session - Optional session from connected wallet
+ * @returns Pending refund, or null if nothing is refunding
+ * @throws {BlockchainError} If fetching refund data fails
+ */
+export const getPendingRefund = async (
+  accountName: string,
+  network: NetworkType = 'testnet',
+  session: any = null
+): Promise<PendingRefund | null> => {
+  validateAccountNameInput(accountName);
+  validateNetworkInput(network);
+
+  const rpc = session && session.rpc ? session.rpc : getRpcClient(network);
+
+  try {
+    const refundInfo = await rpc.get_table_rows({
+      code: 'eosio',
+      scope: accountName,
+      table: 'refundsxpr',
+      limit: 1,
+      json: true,
+    });
 
-    clearCache(`producers-${network}`); // Clear producers cache to refresh vote counts
-    clearCache(`account-${accountName}-${network}`); // Clear account cache to refresh vote info
+    const refund = refundInfo.rows?.[0];
+    if (!refund) return null;
 
-    // Extract transaction ID with comprehensive fallbacks
-    const transactionId = extractTransactionId(result);
+    const requestTime = String(refund.request_time || '');
 
     return {
-      transactionId,
-      blockNum: result.processed?.block_num || 0,
-      status: result.processed?.receipt?.status || 'success',
+      owner: refund.owner || accountName,
+      amount: parseFloat(String(refund.quantity || '0')),
+      request_time: requestTime,
+      claimable_at: parseChainTimestamp(requestTime) + REFUND_DELAY_MS,
     };
   } catch (error: unknown) {
-    // Error delegating votes
     throw new BlockchainError(
-      `Failed to delegate votes: ${
+      `Failed to get pending refund: ${
         error instanceof Error ? error.message : 'Unknown error'
       }`
     );
@@ -494,64 +1143,49 @@ export const delegateVotes = async (
 };
 
 /**
- * Get current vote information for an account using RPC client
+ * Get staked and refunding XPR for an account
+ * Reads the voters table (staked) and refundsxpr table (pending refunds)
  * @param accountName - Account name
  * @param network - Network name (testnet/mainnet)
  * @param session - Optional session from connected wallet
- * @returns Vote information
- * @throws {BlockchainError} If fetching vote info fails
+ * @returns Staked and refunding amounts in XPR
+ * @throws {BlockchainError} If fetching stake data fails
  */
-export const getVoteInfo = async (
+export const getStakeBreakdown = async (
   accountName: string,
   network: NetworkType = 'testnet',
   session: any = null
-): Promise<VoteInfo | null> => {
+): Promise<StakeBreakdown> => {
   validateAccountNameInput(accountName);
   validateNetworkInput(network);
 
-  let rpc;
-
-  // Use session RPC if available, otherwise use fallback RPC client
-  if (session && session.rpc) {
-    try {
-      rpc = session.rpc;
-    } catch {
-      // Session RPC error, using fallback
-      rpc = await getRpcClient(network);
-    }
-  } else {
-    rpc = await getRpcClient(network);
-  }
+  const rpc = session && session.rpc ? session.rpc : getRpcClient(network);
 
   try {
-    // Get voter information from the blockchain
-    const voterInfo = await rpc.get_table_rows({
-      code: 'eosio',
-      scope: 'eosio',
-      table: 'voters',
-      lower_bound: accountName,
-      upper_bound: accountName,
-      limit: 1,
-      json: true,
-    });
-
-    if (voterInfo.rows && voterInfo.rows.length > 0) {
-      const voter = voterInfo.rows[0];
-      return {
-        owner: voter.owner,
-        proxy: voter.proxy,
-        producers: voter.producers,
-        last_vote_weight: voter.last_vote_weight,
-        last_vote_time: voter.last_vote_time,
-        staked: voter.staked,
-      };
-    }
+    const [voterInfo, refund] = await Promise.all([
+      rpc.get_table_rows({
+        code: 'eosio',
+        scope: 'eosio',
+        table: 'voters',
+        lower_bound: accountName,
+        upper_bound: accountName,
+        limit: 1,
+        json: true,
+      }),
+      getPendingRefund(accountName, network, { rpc }),
+    ]);
+
+    const voter = voterInfo.rows?.[0];
 
-    return null;
+    return {
+      // voters.staked is stored in the smallest unit (4 decimals)
+      staked: voter ? Number(voter.staked || 0) / 10000 : 0,
+      refunding: refund ? refund.amount : 0,
+      refund: refund || undefined,
+    };
   } catch (error: unknown) {
-    // Error getting vote info
     throw new BlockchainError(
-      `Failed to get vote info: ${
+      `Failed to get stake breakdown: ${
         error instanceof Error ? error.message : 'Unknown error'
       }`
     );
@@ -604,6 +1238,23 @@ export const checkVotingResources = async (
   }
 };
 
+/**
+ * Resource estimate for voting from the account's available CPU/NET
+ */
+const estimateVotingResources: ResourceEstimator = async ({
+  account,
+  network,
+  session,
+}) => {
+  const resources = await checkVotingResources(account, network, session);
+
+  return {
+    cpuAvailable: resources.cpuAvailable,
+    netAvailable: resources.netAvailable,
+    sufficient: resources.canVote,
+  };
+};
+
 /**
  * Get currency balance for a specific token
  * @param accountName - Account name
@@ -656,6 +1307,7 @@ export const getCurrencyBalance = async (
  * @param stakeData - {cpu: number, net: number} in XPR (cpu = total amount, net = 0 for compatibility)
  * @param network - Network name (testnet/mainnet)
  * @param session - Session object from ConnectWallet
+ * @param permission - Permission to sign with (resolved from linked auths when omitted)
  * @returns Transaction result
  * @throws {ValidationError|BlockchainError} If validation fails or transaction fails
  */
@@ -663,8 +1315,14 @@ export const stakeResources = async (
   accountName: string,
   stakeData: { cpu: number; net: number },
   network: NetworkType = 'testnet',
-  session: any = null
-): Promise<{ transactionId: string; actions: number; totalStaked: number }> => {
+  session: any = null,
+  permission?: string
+): Promise<{
+  transactionId: string;
+  blockNum: number;
+  actions: number;
+  totalStaked: number;
+}> => {
   validateAccountNameInput(accountName);
   validateNetworkInput(network);
 
@@ -681,60 +1339,33 @@ export const stakeResources = async (
     throw new ValidationError('Invalid stake amount');
   }
 
-  const actions = [];
-  const authToUse = {
-    actor: session.auth.actor,
-    permission: 'owner', // Use 'owner' permission for staking/unstaking
-  };
-
-  // Use 'stakexpr' action for staking XPR tokens
-  actions.push({
-    account: 'eosio',
-    name: 'stakexpr',
-    authorization: [authToUse],
-    data: {
-      from: accountName,
-      receiver: accountName,
-      stake_xpr_quantity: `${totalAmount.toFixed(4)} XPR`,
-    },
-  });
-
-  // Execute transaction using existing session
-  const transaction = { actions };
-
-  // Verify transaction data integrity
-  if (!transactionVerifier.verifyTransactionData(transaction)) {
-    throw new ValidationError('Invalid transaction data for staking');
-  }
-
-  const result = await session.transact(transaction, {
-    blocksBehind: 3,
-    expireSeconds: 30,
+  const quantity = `${totalAmount.toFixed(4)} XPR`;
+  const { transactionId, blockNum, actions } = await submitTransaction({
+    description: 'stake resources',
+    account: accountName,
+    network,
+    session,
+    actions: [
+      {
+        account: 'eosio',
+        name: 'stakexpr',
+        data: {
+          from: accountName,
+          receiver: accountName,
+          stake_xpr_quantity: quantity,
+        },
+      },
+    ],
+    authorize: stakeActions =>
+      resolveAuthorization(stakeActions, network, session, permission),
+    invalidate: [CacheKeys.account(accountName, network)],
+    history: [{ type: 'stake', data: { quantity } }],
   });
 
-  // Debug: Log the full result structure for staking
-  console.log('[Blockchain] Stake transaction result:', result);
-  console.log('[Blockchain] Stake result keys:', Object.keys(result));
-
-  // Verify transaction signature after execution
-  if (
-    result.transaction &&
-    !(await transactionVerifier.verifySignature(
-      result.transaction,
-      session.auth.actor
-    ))
-  ) {
-    throw new BlockchainError(
-      'Stake transaction signature verification failed'
-    );
-  }
-
-  // Extract transaction ID with comprehensive fallbacks
-  const transactionId = extractTransactionId(result);
-
   return {
     transactionId,
-    actions: actions.length,
+    blockNum,
+    actions,
     totalStaked: totalAmount,
   };
 };
@@ -745,6 +1376,7 @@ export const stakeResources = async (
  * @param unstakeData - {cpu: number, net: number} in XPR (cpu = total amount, net = 0 for compatibility)
  * @param network - Network name (testnet/mainnet)
  * @param session - Session object from ConnectWallet
+ * @param permission - Permission to sign with (resolved from linked auths when omitted)
  * @returns Transaction result
  * @throws {ValidationError|BlockchainError} If validation fails or transaction fails
  */
@@ -752,9 +1384,11 @@ export const unstakeResources = async (
   accountName: string,
   unstakeData: { cpu: number; net: number },
   network: NetworkType = 'testnet',
-  session: any = null
+  session: any = null,
+  permission?: string
 ): Promise<{
   transactionId: string;
+  blockNum: number;
   actions: number;
   totalUnstaked: number;
 }> => {
@@ -774,62 +1408,97 @@ export const unstakeResources = async (
     throw new ValidationError('Invalid unstake amount');
   }
 
-  const actions = [];
-  const authToUse = {
-    actor: session.auth.actor,
-    permission: 'owner', // Use 'owner' permission for staking/unstaking
-  };
-
-  // Use 'unstakexpr' action for unstaking XPR tokens
-  actions.push({
-    account: 'eosio',
-    name: 'unstakexpr',
-    authorization: [authToUse],
-    data: {
-      from: accountName,
-      receiver: accountName,
-      unstake_xpr_quantity: `${totalAmount.toFixed(4)} XPR`,
-    },
+  const quantity = `${totalAmount.toFixed(4)} XPR`;
+  const { transactionId, blockNum, actions } = await submitTransaction({
+    description: 'unstake resources',
+    account: accountName,
+    network,
+    session,
+    actions: [
+      {
+        account: 'eosio',
+        name: 'unstakexpr',
+        data: {
+          from: accountName,
+          receiver: accountName,
+          unstake_xpr_quantity: quantity,
+        },
+      },
+    ],
+    authorize: unstakeActions =>
+      resolveAuthorization(unstakeActions, network, session, permission),
+    invalidate: [CacheKeys.account(accountName, network)],
+    history: [{ type: 'unstake', data: { quantity } }],
   });
 
-  // Execute transaction using existing session
-  const transaction = { actions };
+  return {
+    transactionId,
+    blockNum,
+    actions,
+    totalUnstaked: totalAmount,
+  };
+};
+
+/**
+ * Claim unstaked XPR once the refund delay has elapsed
+ * @param accountName - Account name that owns the refund
+ * @param network - Network name (testnet/mainnet)
+ * @param session - Session object from ConnectWallet
+ * @param permission - Permission to sign with (resolved from linked auths when omitted)
+ * @returns Transaction result with the claimed amount
+ * @throws {ValidationError|BlockchainError} If nothing is claimable or the transaction fails
+ */
+export const claimRefund = async (
+  accountName: string,
+  network: NetworkType = 'testnet',
+  session: any = null,
+  permission?: string
+): Promise<{ transactionId: string; blockNum: number; claimed: number }> => {
+  validateAccountNameInput(accountName);
+  validateNetworkInput(network);
 
-  // Verify transaction data integrity
-  if (!transactionVerifier.verifyTransactionData(transaction)) {
-    throw new ValidationError('Invalid transaction data for unstaking');
+  if (!session) {
+    throw new ValidationError(
+      'Session is required for claiming refunds. Please connect your wallet first.'
+    );
   }
 
-  const result = await session.transact(transaction, {
-    blocksBehind: 3,
-    expireSeconds: 30,
-  });
-
-  // Debug: Log the full result structure for unstaking
-  console.log('[Blockchain] Unstake transaction result:', result);
-  console.log('[Blockchain] Unstake result keys:', Object.keys(result));
-
-  // Verify transaction signature after execution
-  if (
-    result.transaction &&
-    !(await transactionVerifier.verifySignature(
-      result.transaction,
-      session.auth.actor
-    ))
-  ) {
-    throw new BlockchainError(
-      'Unstake transaction signature verification failed'
+  const refund = await getPendingRefund(accountName, network, session);
+  if (!refund) {
+    throw new ValidationError('No pending refund to claim');
+  }
+  if (refund.claimable_at > Date.now()) {
+    throw new ValidationError(
+      `Refund is not claimable until ${new Date(refund.claimable_at).toLocaleString()}`
     );
   }
 
-  // Extract transaction ID with comprehensive fallbacks
-  const transactionId = extractTransactionId(result);
+  const { transactionId, blockNum } = await submitTransaction({
+    description: 'claim refund',
+    account: accountName,
+    network,
+    session,
+    actions: [
+      {
+        account: 'eosio',
+        name: 'refundxpr',
+        data: {
+          owner: accountName,
+        },
+      },
+    ],
+    authorize: actions =>
+      resolveAuthorization(actions, network, session, permission),
+    invalidate: [CacheKeys.account(accountName, network)],
+    history: [
+      {
+        type: 'claim_refund',
+        data: { quantity: `${refund.amount.toFixed(4)} XPR` },
+      },
+    ],
+  });
 
-  return {
-    transactionId,
-    actions: actions.length,
-    totalUnstaked: totalAmount,
-  };
+  return { transactionId, blockNum, claimed: refund.amount };
 };
 
 /**
@@ -869,16 +1538,131 @@ export const getCoreSymbol = async (
   }
 };
 
+/**
+ * Verify a custom network definition before it can be selected.
+ * Every endpoint must answer get_info with the expected chain ID.
+ * @param input - Custom network definition entered by the user
+ * @returns Verified network configuration ready to persist
+ * @throws {ValidationError} If the definition is malformed or a chain ID does not match
+ * @throws {RpcError} If an endpoint cannot be reached
+ */
+export const verifyCustomNetwork = async (
+  input: CustomNetworkInput
+): Promise<CustomNetworkConfig> => {
+  const name = input.name.trim();
+  const id = createNetworkId(name);
+  const chainId = input.chainId.trim().toLowerCase();
+  const endpoints = input.endpoints
+    .map(endpoint => endpoint.trim().replace(/\/+$/, ''))
+    .filter(Boolean);
+  const color = input.color.trim() || '#6b7280';
+
+  if (!id) {
+    throw new ValidationError('Network name is required');
+  }
+  if (getAvailableNetworks().includes(id)) {
+    throw new ValidationError(`A network named "${name}" already exists`);
+  }
+  if (!/^[a-f0-9]{64}$/.test(chainId)) {
+    throw new ValidationError('Chain ID must be a 64-character hex string');
+  }
+  if (endpoints.length === 0) {
+    throw new ValidationError('At least one RPC endpoint is required');
+  }
+  endpoints.forEach(endpoint => {
+    if (!/^https?:\/\/[^\s/]+/.test(endpoint)) {
+      throw new ValidationError(`Invalid RPC endpoint: ${endpoint}`);
+    }
+  });
+  if (!/^#[0-9a-fA-F]{6}$/.test(color)) {
+    throw new ValidationError('Color must be a hex value like #3b82f6');
+  }
+
+  await Promise.all(
+    endpoints.map(async endpoint => {
+      let info: any;
+      try {
+        const response = await fetch(`${endpoint}/v1/chain/get_info`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+        });
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+        info = await response.json();
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        throw new RpcError(
+          `Could not reach ${endpoint}: ${errorMessage}`,
+          endpoint
+        );
+      }
+
+      if (info?.chain_id !== chainId) {
+        throw new ValidationError(
+          `Chain ID mismatch on ${endpoint}: expected ${chainId.substring(0, 16)}..., got ${String(info?.chain_id || 'none').substring(0, 16)}...`
+        );
+      }
+    })
+  );
+
+  return {
+    id,
+    name,
+    chainId,
+    endpoints,
+    appName: 'XPR Delegation Demo',
+    webauth: input.webauth.trim(),
+    color,
+    custom: true,
+  };
+};
+
+/**
+ * Confirm a registered network still serves the expected chain
+ * @param network - Network name (built-in or custom network ID)
+ * @throws {ValidationError} If the RPC pool reports a different chain ID
+ */
+export const verifyNetworkChainId = async (
+  network: NetworkType
+): Promise<void> => {
+  validateNetworkInput(network);
+  const { chainId, name } = getNetworkConfig(network);
+  const info = await getRpcClient(network).get_info();
+
+  if (info?.chain_id !== chainId) {
+    throw new ValidationError(
+      `${name} endpoints report a different chain ID than configured`
+    );
+  }
+};
+
 export default {
   getAccountInfo,
+  checkAccountsExist,
+  getRecipientInfo,
+  getAccountPermissions,
+  resolveAuthorization,
   getBlockProducers,
+  getProducerMetadata,
   delegateVotes,
+  registerProxy,
+  unregisterProxy,
+  getProxies,
   getVoteInfo,
+  getVoterRewards,
+  claimVoterRewards,
+  getStakeBreakdown,
+  getPendingRefund,
   checkVotingResources,
   getCurrencyBalance,
   stakeResources,
   unstakeResources,
+  claimRefund,
   getCoreSymbol,
+  verifyCustomNetwork,
+  verifyNetworkChainId,
   clearCache,
   BlockchainError,
   RpcError,
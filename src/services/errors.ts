@@ -0,0 +1,56 @@
+/**
+ * Service Error Classes
+ *
+ * Error types shared by the service layer. Re-exported from the blockchain
+ * service, where they were first defined.
+ *
+ * @fileoverview Service error classes for XPR Delegation Demo
+ */
+
+/**
+ * Custom error classes for better error handling and debugging
+ */
+export class BlockchainError extends Error {
+  public type: string;
+
+  constructor(message: string, type = 'BLOCKCHAIN_ERROR') {
+    super(message);
+    this.type = type;
+    this.name = 'BlockchainError';
+  }
+}
+
+export class RpcError extends BlockchainError {
+  public endpoint?: string;
+
+  constructor(message: string, endpoint?: string) {
+    super(message, 'RPC_ERROR');
+    this.endpoint = endpoint;
+  }
+}
+
+export class ValidationError extends BlockchainError {
+  constructor(message: string) {
+    super(message, 'VALIDATION_ERROR');
+  }
+}
+
+/**
+ * Error answered by a node for a request it processed (e.g. an unknown
+ * account). The endpoint itself is healthy, so these are not failed over.
+ */
+export class ChainApiError extends RpcError {
+  public status: number;
+  public code?: number;
+
+  constructor(
+    message: string,
+    status: number,
+    code?: number,
+    endpoint?: string
+  ) {
+    super(message, endpoint);
+    this.status = status;
+    this.code = code;
+  }
+}
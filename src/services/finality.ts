@@ -0,0 +1,242 @@
+/**
+ * Transaction Finality Service
+ *
+ * Follows a signed transaction until it becomes irreversible. A resolved
+ * `session.transact` only means a producer accepted the transaction; it
+ * can still be dropped by a fork or expire before inclusion.
+ *
+ * Features:
+ * - Block lookup against the reported block number
+ * - History API fallback when the transaction moved to another block
+ * - Irreversibility from get_info last irreversible block
+ * - Expiry detection once the irreversible chain passes the expiration
+ *
+ * @fileoverview Transaction finality tracking for XPR Delegation Demo
+ */
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { getNetworkConfig } from '../config/networks';
+import { parseChainTimestamp } from '../utils/helpers';
+import type {
+  NetworkType,
+  TransactionFinality,
+  TransactionFinalityStatus,
+} from '../types';
+import type { PooledRpcClient } from '../types/enhanced';
+import { getRpcClient } from './rpcPool';
+
+// Matches the expireSeconds passed to session.transact
+export const DEFAULT_EXPIRE_SECONDS = 30;
+
+const DEFAULT_POLL_INTERVAL = 3000;
+
+// LIB trails head by a few minutes on XPR; give up well after that
+const DEFAULT_MAX_WAIT = 10 * 60 * 1000;
+
+const TERMINAL_STATUSES: TransactionFinalityStatus[] = [
+  'irreversible',
+  'failed',
+  'expired',
+];
+
+/**
+ * Whether a finality status will no longer change
+ * @param status - Finality status
+ * @returns True for irreversible, failed and expired
+ */
+export const isFinalStatus = (status: TransactionFinalityStatus): boolean =>
+  TERMINAL_STATUSES.includes(status);
+
+/**
+ * Create the initial finality snapshot right after signing
+ * @param transactionId - Transaction ID
+ * @param network - Network the transaction was sent to
+ * @param blockNum - Block reported by the push result (0 if unknown)
+ * @param expireSeconds - Transaction expiration used when signing
+ * @returns Submitted (or in-block) finality snapshot
+ */
+export const createFinality = (
+  transactionId: string,
+  network: NetworkType,
+  blockNum = 0,
+  expireSeconds = DEFAULT_EXPIRE_SECONDS
+): TransactionFinality => {
+  const now = Date.now();
+
+  return {
+    transactionId,
+    network,
+    status: blockNum > 0 ? 'in_block' : 'submitted',
+    blockNum: blockNum > 0 ? blockNum : undefined,
+    expiresAt: now + expireSeconds * 1000,
+    updatedAt: now,
+  };
+};
+
+/**
+ * Find a transaction receipt in a block
+ * @returns Receipt status, or null if the block does not contain it
+ */
+const findReceiptInBlock = async (
+  rpc: PooledRpcClient,
+  blockNum: number,
+  transactionId: string
+): Promise<string | null> => {
+  const block = await rpc.request('/v1/chain/get_block', {
+    block_num_or_id: blockNum,
+  });
+
+  const receipt = (block?.transactions || []).find((item: any) => {
+    const id = typeof item?.trx === 'string' ? item.trx : item?.trx?.id;
+    return id === transactionId;
+  });
+
+  return receipt ? String(receipt.status || 'executed') : null;
+};
+
+/**
+ * Ask the network's history API which block holds a transaction
+ * @returns Block number, or null if unknown or no history API is configured
+ */
+const lookupTransactionBlock = async (
+  transactionId: string,
+  network: NetworkType
+): Promise<number | null> => {
+  const historyApi = getNetworkConfig(network).historyApi;
+  if (!historyApi) return null;
+
+  try {
+    const url = new URL('/v2/history/get_transaction', historyApi);
+    url.searchParams.set('id', transactionId);
+
+    const response = await fetch(url.toString());
+    if (!response.ok) return null;
+
+    const body = await response.json();
+    const blockNum = Number(body?.actions?.[0]?.block_num || 0);
+    return blockNum > 0 ? blockNum : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Check a transaction once and return its updated finality
+ * @param finality - Previous finality snapshot
+ * @returns Updated finality snapshot
+ * @throws {Error} If the chain cannot be reached
+ */
+export const checkTransactionFinality = async (
+  finality: TransactionFinality
+): Promise<TransactionFinality> => {
+  const { transactionId, network } = finality;
+  const rpc = getRpcClient(network);
+  const info = await rpc.get_info();
+
+  const headBlock = Number(info.head_block_num || 0);
+  const lastIrreversibleBlock = Number(info.last_irreversible_block_num || 0);
+  const next = { ...finality, lastIrreversibleBlock, updatedAt: Date.now() };
+
+  // Endpoint is behind the block that included the transaction
+  if (finality.blockNum && finality.blockNum > headBlock) {
+    return next;
+  }
+
+  let blockNum = finality.blockNum;
+  let receiptStatus = blockNum
+    ? await findReceiptInBlock(rpc, blockNum, transactionId)
+    : null;
+
+  // Not in the reported block (forked out and re-included, or unknown)
+  if (!receiptStatus) {
+    const movedTo = await lookupTransactionBlock(transactionId, network);
+    if (movedTo && movedTo !== blockNum && movedTo <= headBlock) {
+      blockNum = movedTo;
+      receiptStatus = await findReceiptInBlock(rpc, movedTo, transactionId);
+    }
+  }
+
+  if (receiptStatus && blockNum) {
+    if (receiptStatus !== 'executed') {
+      return {
+        ...next,
+        blockNum,
+        status: 'failed',
+        error: `Transaction ${receiptStatus.replace('_', ' ')}`,
+      };
+    }
+
+    return {
+      ...next,
+      blockNum,
+      status: blockNum <= lastIrreversibleBlock ? 'irreversible' : 'in_block',
+    };
+  }
+
+  // Irreversible chain has passed the expiration without including it
+  const libTime = info.last_irreversible_block_time
+    ? parseChainTimestamp(String(info.last_irreversible_block_time))
+    : Date.now();
+  if (libTime > finality.expiresAt) {
+    return {
+      ...next,
+      blockNum: undefined,
+      status: 'expired',
+      error: 'Transaction expired before it became irreversible',
+    };
+  }
+
+  return { ...next, status: 'submitted' };
+};
+
+/**
+ * Poll a transaction until it is irreversible, failed or expired
+ * @param finality - Initial finality snapshot (see createFinality)
+ * @param options - Poll interval, maximum wait and update callback
+ * @returns Final finality snapshot
+ */
+export const trackTransactionFinality = async (
+  finality: TransactionFinality,
+  {
+    pollInterval = DEFAULT_POLL_INTERVAL,
+    maxWait = DEFAULT_MAX_WAIT,
+    onUpdate,
+  }: {
+    pollInterval?: number;
+    maxWait?: number;
+    onUpdate?: (finality: TransactionFinality) => void;
+  } = {}
+): Promise<TransactionFinality> => {
+  const deadline = Date.now() + maxWait;
+  let current = finality;
+
+  while (!isFinalStatus(current.status)) {
+    if (Date.now() >= deadline) {
+      current = {
+        ...current,
+        status: 'failed',
+        error: 'Timed out waiting for the transaction to become irreversible',
+        updatedAt: Date.now(),
+      };
+      onUpdate?.(current);
+      break;
+    }
+
+    await new Promise(resolve => setTimeout(resolve, pollInterval));
+
+    try {
+      current = await checkTransactionFinality(current);
+      onUpdate?.(current);
+    } catch {
+      // Transient RPC failure - keep polling until the deadline
+    }
+  }
+
+  return current;
+};
+
+export default {
+  createFinality,
+  checkTransactionFinality,
+  trackTransactionFinality,
+  isFinalStatus,
+};
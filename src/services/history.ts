@@ -0,0 +1,216 @@
+/**
+ * Transaction History Service
+ *
+ * Persists every signed action in IndexedDB so users keep a record of
+ * transfers, votes and staking operations across sessions.
+ *
+ * Features:
+ * - IndexedDB storage keyed by auto-increment ID
+ * - Account/network indexed queries, newest first
+ * - CSV and JSON export for accounting
+ * - Graceful no-op when IndexedDB is unavailable
+ *
+ * @fileoverview Transaction history service for XPR Delegation Demo
+ */
+/* eslint-disable no-undef */
+
+import type {
+  NetworkType,
+  TransactionHistoryEntry,
+  TransactionHistoryType,
+} from '../types';
+
+const DB_NAME = 'xpr-delegation-demo';
+const DB_VERSION = 1;
+const STORE_NAME = 'transactions';
+const ACCOUNT_NETWORK_INDEX = 'account_network';
+
+// Column order for CSV export
+const CSV_COLUMNS: (keyof TransactionHistoryEntry)[] = [
+  'timestamp',
+  'type',
+  'account',
+  'network',
+  'transactionId',
+  'blockNum',
+  'data',
+];
+
+/**
+ * Wrap an IndexedDB request in a promise
+ */
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Escape a value for a CSV cell
+ */
+const toCsvCell = (value: unknown): string => {
+  const text =
+    value === undefined || value === null
+      ? ''
+      : typeof value === 'object'
+        ? JSON.stringify(value)
+        : String(value);
+
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Transaction history store backed by IndexedDB
+ */
+export class TransactionHistoryService {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  /**
+   * @param factory - IndexedDB implementation (defaults to the browser's)
+   */
+  constructor(private factory?: IDBFactory) {}
+
+  /**
+   * Open (and upgrade) the history database once
+   */
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const factory =
+          this.factory ||
+          (typeof window !== 'undefined' ? window.indexedDB : undefined);
+        if (!factory) {
+          reject(new Error('IndexedDB is not available'));
+          return;
+        }
+
+        const request = factory.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const store = request.result.createObjectStore(STORE_NAME, {
+            keyPath: 'id',
+            autoIncrement: true,
+          });
+          store.createIndex(ACCOUNT_NETWORK_INDEX, ['account', 'network']);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+
+      // Allow a retry on the next call if opening failed
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+
+    return this.dbPromise;
+  }
+
+  /**
+   * Record a signed transaction
+   * @param type - Action kind
+   * @param account - Signing account
+   * @param network - Network the transaction was sent to
+   * @param result - Transaction ID and block number
+   * @param data - Action parameters
+   * @returns Stored entry including its ID
+   */
+  async record(
+    type: TransactionHistoryType,
+    account: string,
+    network: NetworkType,
+    result: { transactionId: string; blockNum?: number },
+    data: Record<string, unknown> = {}
+  ): Promise<TransactionHistoryEntry> {
+    const entry: TransactionHistoryEntry = {
+      type,
+      account,
+      data,
+      transactionId: result.transactionId,
+      blockNum: result.blockNum || 0,
+      network,
+      timestamp: Date.now(),
+    };
+
+    const db = await this.openDatabase();
+    const store = db
+      .transaction(STORE_NAME, 'readwrite')
+      .objectStore(STORE_NAME);
+    const id = await promisifyRequest(store.add(entry));
+
+    return { ...entry, id: Number(id) };
+  }
+
+  /**
+   * Get history for an account on a network, newest first
+   * @param account - Account name
+   * @param network - Network name
+   * @returns Recorded transactions
+   */
+  async getHistory(
+    account: string,
+    network: NetworkType
+  ): Promise<TransactionHistoryEntry[]> {
+    const db = await this.openDatabase();
+    const index = db
+      .transaction(STORE_NAME, 'readonly')
+      .objectStore(STORE_NAME)
+      .index(ACCOUNT_NETWORK_INDEX);
+    const entries: TransactionHistoryEntry[] = await promisifyRequest(
+      index.getAll([account, network])
+    );
+
+    return entries.sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  /**
+   * Delete all history for an account on a network
+   * @param account - Account name
+   * @param network - Network name
+   */
+  async clearHistory(account: string, network: NetworkType): Promise<void> {
+    const db = await this.openDatabase();
+    const store = db
+      .transaction(STORE_NAME, 'readwrite')
+      .objectStore(STORE_NAME);
+    const keys = await promisifyRequest(
+      store.index(ACCOUNT_NETWORK_INDEX).getAllKeys([account, network])
+    );
+
+    await Promise.all(keys.map(key => promisifyRequest(store.delete(key))));
+  }
+}
+
+/**
+ * Export history entries as CSV (timestamps in ISO 8601)
+ * @param entries - History entries
+ * @returns CSV document with a header row
+ */
+export const exportHistoryToCsv = (
+  entries: TransactionHistoryEntry[]
+): string => {
+  const rows = entries.map(entry =>
+    CSV_COLUMNS.map(column =>
+      toCsvCell(
+        column === 'timestamp'
+          ? new Date(entry.timestamp).toISOString()
+          : entry[column]
+      )
+    ).join(',')
+  );
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\n');
+};
+
+/**
+ * Export history entries as pretty-printed JSON
+ * @param entries - History entries
+ * @returns JSON document
+ */
+export const exportHistoryToJson = (
+  entries: TransactionHistoryEntry[]
+): string => JSON.stringify(entries, null, 2);
+
+// Global transaction history instance
+export const transactionHistory = new TransactionHistoryService();
+
+export default transactionHistory;
@@ -12,27 +12,93 @@ export {
   connectWallet,
   checkExistingSession,
   disconnectWallet,
+  getWalletSessionRefs,
+  setActiveWalletSession,
 } from './wallet';
 export { initializeSDK, getSDKInstance } from './sdk';
 
 // Blockchain services
 export {
   getAccountInfo,
+  checkAccountsExist,
+  getRecipientInfo,
+  getAccountPermissions,
+  resolveAuthorization,
   getBlockProducers,
+  getProducerMetadata,
   delegateVotes,
+  registerProxy,
+  unregisterProxy,
+  getProxies,
   getVoteInfo,
+  getVoterRewards,
+  claimVoterRewards,
+  getStakeBreakdown,
+  getPendingRefund,
   checkVotingResources,
   getCurrencyBalance,
   stakeResources,
   unstakeResources,
+  claimRefund,
   getCoreSymbol,
+  verifyCustomNetwork,
+  verifyNetworkChainId,
   clearCache,
   BlockchainError,
   RpcError,
   ValidationError,
 } from './blockchain';
 
+// On-chain account history
+export {
+  getAccountActions,
+  findPaymentForRequest,
+  DEFAULT_ACTIONS_PAGE_SIZE,
+} from './accountHistory';
+
+// Signed payment requests
+export {
+  signPaymentRequest,
+  verifyPaymentRequestSignature,
+  PAYMENT_REQUEST_ACTION,
+} from './paymentRequests';
+
+// Account permissions
+export { previewPermissionChanges, updatePermissions } from './permissions';
+
+// Transaction review
+export {
+  setTransactionReviewer,
+  getContractAbi,
+  buildTransactionReview,
+  reviewTransaction,
+} from './transactionReview';
+
+// Transaction pipeline
+export {
+  TransactionPipeline,
+  transactionPipeline,
+  submitTransaction,
+} from './transactionPipeline';
+
+// Transaction finality
+export {
+  createFinality,
+  checkTransactionFinality,
+  trackTransactionFinality,
+  isFinalStatus,
+} from './finality';
+
+// RPC pool
+export { rpcPool, getRpcClient } from './rpcPool';
+
 // Default exports
 export { default as walletService } from './wallet';
 export { default as sdkService } from './sdk';
 export { default as blockchainService } from './blockchain';
+export { default as accountHistoryService } from './accountHistory';
+export { default as permissionService } from './permissions';
+export { default as finalityService } from './finality';
+export { default as transactionReviewService } from './transactionReview';
+export { default as transactionPipelineService } from './transactionPipeline';
+export { default as paymentRequestService } from './paymentRequests';
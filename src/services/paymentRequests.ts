@@ -0,0 +1,230 @@
+/**
+ * Payment Request Signing Service
+ *
+ * Signs payment request links with the requester's wallet and verifies
+ * them when a link is opened, so edits to the amount, recipient or memo in
+ * the URL are detected.
+ *
+ * The wallet signs (without broadcasting) a transaction holding a single
+ * `payrequest` action on the recipient account whose data is the canonical
+ * request payload. Verification rebuilds the signing digest for the
+ * network's chain ID, recovers the public key and checks it against the
+ * recipient's permission keys from `get_account`.
+ *
+ * Features:
+ * - Wallet signing without broadcast
+ * - Payload match check against the URL fields
+ * - Key recovery and permission key lookup
+ *
+ * @fileoverview Payment request signing service for XPR Delegation Demo
+ */
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import {
+  PublicKey,
+  Serializer,
+  Signature,
+  Transaction,
+} from '@wharfkit/antelope';
+import { getNetworkConfig } from '../config/networks';
+import { validateAccountName, validateNetwork } from '../utils/security';
+import { getPaymentRequestPayload } from '../utils/urlUtils';
+import type {
+  NetworkType,
+  PaymentRequestVerification,
+  RequestPaymentData,
+} from '../types';
+import { getRpcClient } from './rpcPool';
+import { BlockchainError, RpcError, ValidationError } from './blockchain';
+import { reviewTransaction } from './transactionReview';
+
+// Action name carrying the signed payload (never broadcast)
+export const PAYMENT_REQUEST_ACTION = 'payrequest';
+
+/**
+ * Encode the request payload as action data
+ * @param requestData - Payment request data
+ * @returns ABI-encoded payload string
+ */
+const encodePayload = (requestData: RequestPaymentData) =>
+  Serializer.encode({
+    object: getPaymentRequestPayload(requestData),
+    type: 'string',
+  });
+
+/**
+ * Sign a payment request with the connected wallet
+ * @param requestData - Payment request data (recipient must be the signer)
+ * @param session - Connected wallet session
+ * @param network - Network name (testnet/mainnet), used for the review
+ * @returns Request data with its signature attached
+ * @throws {ValidationError|BlockchainError} If the signer is not the recipient or signing fails
+ */
+export const signPaymentRequest = async (
+  requestData: RequestPaymentData,
+  session: any,
+  network: NetworkType = 'testnet'
+): Promise<RequestPaymentData> => {
+  if (!session?.auth) {
+    throw new ValidationError('Wallet session is required to sign a request');
+  }
+
+  const actor = String(session.auth.actor);
+  const permission = String(session.auth.permission);
+  if (actor !== requestData.recipient) {
+    throw new ValidationError(
+      `Only ${requestData.recipient} can sign this payment request`
+    );
+  }
+
+  const transaction = {
+    actions: [
+      {
+        account: actor,
+        name: PAYMENT_REQUEST_ACTION,
+        authorization: [{ actor, permission }],
+        // Pre-encoded data skips the ABI lookup for this action
+        data: encodePayload(requestData),
+      },
+    ],
+  };
+
+  try {
+    // Show the action for approval; the signature is never broadcast
+    await reviewTransaction(transaction, network, session, {
+      broadcast: false,
+    });
+
+    const result = await session.transact(transaction, {
+      broadcast: false,
+      blocksBehind: 3,
+      expireSeconds: 30,
+    });
+
+    const [signature] = result.signatures || [];
+    if (!signature || !result.transaction) {
+      throw new Error('Wallet did not return a signature');
+    }
+
+    return {
+      ...requestData,
+      signature: {
+        signature: String(signature),
+        transaction: Serializer.encode({
+          object: Transaction.from(result.transaction),
+        }).hexString,
+      },
+    };
+  } catch (error: unknown) {
+    throw new BlockchainError(
+      `Failed to sign payment request: ${
+        error instanceof Error ? error.message : 'Unknown error'
+      }`
+    );
+  }
+};
+
+/**
+ * Verify a payment request signature against the recipient's keys
+ * @param requestData - Payment request data parsed from the URL
+ * @param network - Network the request was created on
+ * @param session - Optional session from connected wallet
+ * @returns Verification result ('unsigned' when the link has no signature)
+ * @throws {ValidationError|RpcError} If the input is invalid or the account lookup fails
+ */
+export const verifyPaymentRequestSignature = async (
+  requestData: RequestPaymentData,
+  network: NetworkType = 'testnet',
+  session: any = null
+): Promise<PaymentRequestVerification> => {
+  if (!requestData.signature) {
+    return { status: 'unsigned' };
+  }
+  if (!validateAccountName(requestData.recipient)) {
+    throw new ValidationError('Invalid account name format');
+  }
+  if (!validateNetwork(network)) {
+    throw new ValidationError(`Invalid network: ${network}`);
+  }
+
+  let transaction: Transaction;
+  let signature: Signature;
+  try {
+    transaction = Serializer.decode({
+      data: requestData.signature.transaction,
+      type: Transaction,
+    });
+    signature = Signature.from(requestData.signature.signature);
+  } catch {
+    return { status: 'invalid', reason: 'Signature data is malformed' };
+  }
+
+  const action = transaction.actions.find(
+    item =>
+      item.account.equals(requestData.recipient) &&
+      item.name.equals(PAYMENT_REQUEST_ACTION)
+  );
+  const authorization = action?.authorization.find(auth =>
+    auth.actor.equals(requestData.recipient)
+  );
+  if (
+    !action ||
+    !authorization ||
+    !action.data.equals(encodePayload(requestData))
+  ) {
+    return {
+      status: 'invalid',
+      reason: 'Request details do not match what the requester signed',
+    };
+  }
+
+  let signingKey: PublicKey;
+  try {
+    signingKey = signature.recoverDigest(
+      transaction.signingDigest(getNetworkConfig(network).chainId)
+    );
+  } catch {
+    return { status: 'invalid', reason: 'Signature could not be recovered' };
+  }
+
+  const rpc = session && session.rpc ? session.rpc : getRpcClient(network);
+  let accountData: any;
+  try {
+    accountData = await rpc.get_account(requestData.recipient);
+  } catch (error: unknown) {
+    throw new RpcError(
+      `Failed to look up account ${requestData.recipient}: ${
+        error instanceof Error ? error.message : 'Unknown error'
+      }`
+    );
+  }
+
+  const permissionName = String(authorization.permission);
+  const permission = (accountData?.permissions || []).find(
+    (perm: any) => perm.perm_name === permissionName
+  );
+  const keys: any[] = permission?.required_auth?.keys || [];
+  const matches = keys.some(({ key }) => {
+    try {
+      return PublicKey.from(key).equals(signingKey);
+    } catch {
+      return false;
+    }
+  });
+
+  if (!matches) {
+    return {
+      status: 'invalid',
+      reason: `Signature was not made by a key of ${requestData.recipient}@${permissionName}`,
+    };
+  }
+
+  return {
+    status: 'verified',
+    signer: `${requestData.recipient}@${permissionName}`,
+  };
+};
+
+export default {
+  signPaymentRequest,
+  verifyPaymentRequestSignature,
+};
@@ -0,0 +1,136 @@
+/**
+ * Account Permission Service
+ *
+ * Builds, previews and signs changes to an account's permission tree:
+ * `updateauth`, `deleteauth`, `linkauth` and `unlinkauth`. Every change is
+ * authorized with the least-privileged permission the session key can
+ * satisfy (see resolveAuthorization), so adding a child of `active` does not
+ * require `owner`.
+ *
+ * Features:
+ * - Transaction preview with resolved authorization
+ * - Multiple changes in one transaction (e.g. create + link)
+ * - Permission cache invalidation after signing
+ *
+ * @fileoverview Account permission management service for XPR Delegation Demo
+ */
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { createPermissionAction } from '../utils/permissionUtils';
+import { smartCache, CacheKeys } from '../utils/SmartCache';
+import type {
+  AuthorizedAction,
+  ContractAction,
+  NetworkType,
+  PermissionChange,
+} from '../types';
+import { ValidationError, resolveAuthorization } from './blockchain';
+import { submitTransaction } from './transactionPipeline';
+
+/**
+ * Build the unauthorized actions for permission changes
+ * @throws {ValidationError} If the session is missing or a change is invalid
+ */
+const createPermissionActions = (
+  changes: PermissionChange[],
+  session: any
+): ContractAction[] => {
+  if (!session?.auth) {
+    throw new ValidationError(
+      'Session is required for permission changes. Please connect your wallet first.'
+    );
+  }
+  if (changes.length === 0) {
+    throw new ValidationError('No permission changes to sign');
+  }
+
+  const account = String(session.auth.actor);
+  try {
+    return changes.map(change => createPermissionAction(account, change));
+  } catch (error: unknown) {
+    throw new ValidationError(
+      error instanceof Error ? error.message : 'Invalid permission change'
+    );
+  }
+};
+
+/**
+ * Build the authorized actions for permission changes
+ * @param changes - Permission changes, applied in order
+ * @param network - Network name (testnet/mainnet)
+ * @param session - Session object from ConnectWallet
+ * @param permission - Permission to sign with (resolved from linked auths when omitted)
+ * @returns Actions exactly as they will be sent to the wallet
+ * @throws {ValidationError} If a change is invalid or the session key cannot authorize it
+ */
+export const previewPermissionChanges = async (
+  changes: PermissionChange[],
+  network: NetworkType = 'testnet',
+  session: any = null,
+  permission?: string
+): Promise<AuthorizedAction[]> => {
+  const actions = createPermissionActions(changes, session);
+  const authorization = await resolveAuthorization(
+    actions,
+    network,
+    session,
+    permission
+  );
+
+  return actions.map(action => ({
+    ...action,
+    authorization: [authorization],
+    data: action.data || {},
+  }));
+};
+
+/**
+ * Sign and broadcast permission changes
+ * @param changes - Permission changes, applied in order
+ * @param network - Network name (testnet/mainnet)
+ * @param session - Session object from ConnectWallet
+ * @param permission - Permission to sign with (resolved from linked auths when omitted)
+ * @returns Transaction result
+ * @throws {ValidationError|BlockchainError} If validation fails or the transaction fails
+ */
+export const updatePermissions = async (
+  changes: PermissionChange[],
+  network: NetworkType = 'testnet',
+  session: any = null,
+  permission?: string
+): Promise<{ transactionId: string; blockNum: number; actions: number }> => {
+  const actions = createPermissionActions(changes, session);
+  const accountName = String(session.auth.actor);
+
+  try {
+    const result = await submitTransaction({
+      description: 'update permissions',
+      account: accountName,
+      network,
+      session,
+      actions,
+      authorize: permissionActions =>
+        resolveAuthorization(permissionActions, network, session, permission),
+      history: [
+        {
+          type: 'permissions',
+          data: { changes: changes.map(change => change.type) },
+        },
+      ],
+    });
+
+    return {
+      transactionId: result.transactionId,
+      blockNum: result.blockNum,
+      actions: result.actions,
+    };
+  } finally {
+    // Links and authorities may have changed even if confirmation failed
+    smartCache.invalidate(CacheKeys.permissions(accountName, network));
+    smartCache.invalidate(CacheKeys.account(accountName, network));
+  }
+};
+
+export default {
+  previewPermissionChanges,
+  updatePermissions,
+};
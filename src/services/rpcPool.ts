@@ -0,0 +1,450 @@
+/* eslint-disable @typescript-eslint/no-explicit-any, no-console, no-undef */
+/**
+ * RPC Pool Service - Shared Multi-Endpoint RPC Access
+ *
+ * Single RPC layer shared by every service. Each network gets a pool built
+ * from `NetworkConfig.endpoints`, and every request is routed to the
+ * healthiest endpoint with automatic failover to the next one.
+ *
+ * Features:
+ * - Per-endpoint latency tracking (exponential moving average)
+ * - Per-endpoint error rate over a sliding window of recent requests
+ * - Head-block lag measured from periodic get_info probes
+ * - Per-endpoint CircuitBreaker - open endpoints are skipped until reset
+ * - Chain errors (e.g. unknown account) returned as is, without failover
+ * - Health score ranking with stable fallback to configured order
+ *
+ * @fileoverview Multi-endpoint RPC pool for XPR Delegation Demo
+ */
+
+import type { NetworkType } from '../types';
+import type {
+  PooledRpcClient,
+  EndpointHealth,
+  TableRowsOptions,
+} from '../types/enhanced';
+import { getNetworkConfig } from '../config/networks';
+import {
+  CircuitBreaker,
+  isRetryableError,
+  retryWithBackoff,
+} from '../utils/retryUtils';
+import { globalRateLimiter } from '../utils/security-hardening';
+import { ChainApiError } from './errors';
+
+// Statuses sent by gateways and proxies in front of a node rather than
+// by the node itself
+const GATEWAY_STATUSES = [429, 502, 503, 504];
+
+/**
+ * Internal per-endpoint state
+ */
+interface EndpointState {
+  endpoint: string;
+  breaker: CircuitBreaker;
+  latency: number; // EWMA in ms, 0 until first sample
+  outcomes: boolean[]; // Recent request outcomes (true = success)
+  headBlock: number;
+  lastChecked: number;
+}
+
+/**
+ * Error body returned by nodeos
+ */
+interface ChainErrorBody {
+  code?: number;
+  message?: string;
+  error?: { code?: number; name?: string; what?: string };
+}
+
+/**
+ * Parse a non-2xx reply into a chain error when the node itself answered.
+ * Returns null for gateway errors and bodies that are not nodeos errors.
+ */
+const parseChainError = (
+  status: number,
+  errorText: string,
+  endpoint: string
+): ChainApiError | null => {
+  if (GATEWAY_STATUSES.includes(status)) return null;
+
+  let body: ChainErrorBody;
+  try {
+    body = JSON.parse(errorText);
+  } catch {
+    return null;
+  }
+  if (!body || typeof body !== 'object' || !body.error) return null;
+
+  return new ChainApiError(
+    `HTTP ${status}: ${errorText}`,
+    status,
+    body.error.code,
+    endpoint
+  );
+};
+
+/**
+ * RPC Pool Class
+ * Routes chain API requests across all configured endpoints of a network
+ */
+export class RpcPool {
+  private pools = new Map<NetworkType, EndpointState[]>();
+  private clients = new Map<NetworkType, PooledRpcClient>();
+  private probing = new Map<NetworkType, Promise<void>>();
+
+  private readonly requestTimeout = 10000; // Abort slow requests after 10s
+  private readonly probeInterval = 60000; // Re-probe health every minute while probing
+  private readonly outcomeWindow = 20; // Requests kept for error rate
+  private readonly latencyWeight = 0.3; // EWMA smoothing factor
+
+  /**
+   * Get (or lazily create) endpoint state for a network.
+   * Rebuilt when the configured endpoint list changes.
+   */
+  private getPool(network: NetworkType): EndpointState[] {
+    const endpoints = getNetworkConfig(network).endpoints.map(endpoint =>
+      endpoint.replace(/\/+$/, '')
+    );
+    const existing = this.pools.get(network);
+
+    if (
+      existing &&
+      existing.length === endpoints.length &&
+      existing.every((state, i) => state.endpoint === endpoints[i])
+    ) {
+      return existing;
+    }
+
+    const pool = endpoints.map(endpoint => ({
+      endpoint,
+      breaker: new CircuitBreaker(3, 30000),
+      latency: 0,
+      outcomes: [],
+      headBlock: 0,
+      lastChecked: 0,
+    }));
+    this.pools.set(network, pool);
+    return pool;
+  }
+
+  /**
+   * Calculate error rate from recent outcomes (0-1)
+   */
+  private getErrorRate(state: EndpointState): number {
+    if (state.outcomes.length === 0) return 0;
+    const failures = state.outcomes.filter(ok => !ok).length;
+    return failures / state.outcomes.length;
+  }
+
+  /**
+   * Health score for an endpoint - lower is better.
+   * Latency in ms, plus penalties for errors and for lagging behind the
+   * best known head block (blocks are produced every 500ms).
+   */
+  private getScore(state: EndpointState, maxHeadBlock: number): number {
+    const lag = state.headBlock > 0 ? maxHeadBlock - state.headBlock : 0;
+    const penalty = state.breaker.getState() === 'OPEN' ? 100000 : 0;
+    return (
+      state.latency + this.getErrorRate(state) * 5000 + lag * 500 + penalty
+    );
+  }
+
+  /**
+   * Order endpoints from healthiest to least healthy
+   */
+  private rankEndpoints(pool: EndpointState[]): EndpointState[] {
+    const maxHeadBlock = Math.max(0, ...pool.map(state => state.headBlock));
+    return pool
+      .map((state, index) => ({
+        state,
+        index,
+        score: this.getScore(state, maxHeadBlock),
+      }))
+      .sort((a, b) => a.score - b.score || a.index - b.index)
+      .map(entry => entry.state);
+  }
+
+  /**
+   * Record the outcome of a request against an endpoint
+   */
+  private recordOutcome(
+    state: EndpointState,
+    success: boolean,
+    elapsed?: number
+  ): void {
+    state.outcomes.push(success);
+    if (state.outcomes.length > this.outcomeWindow) {
+      state.outcomes.shift();
+    }
+
+    if (success && elapsed !== undefined) {
+      state.latency =
+        state.latency === 0
+          ? elapsed
+          : state.latency * (1 - this.latencyWeight) +
+            elapsed * this.latencyWeight;
+    }
+  }
+
+  /**
+   * POST to a single endpoint with timeout and latency measurement.
+   * Chain errors are returned rather than thrown: the endpoint answered, so
+   * they must not count against its health or trip its circuit breaker.
+   */
+  private async postToEndpoint<T>(
+    state: EndpointState,
+    path: string,
+    body: Record<string, unknown> | undefined
+  ): Promise<T | ChainApiError> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.requestTimeout);
+    const started = Date.now();
+
+    try {
+      const response = await fetch(`${state.endpoint}${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined,
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        const chainError = parseChainError(
+          response.status,
+          errorText,
+          state.endpoint
+        );
+        if (chainError) {
+          this.recordOutcome(state, true, Date.now() - started);
+          return chainError;
+        }
+        throw new Error(`HTTP ${response.status}: ${errorText}`);
+      }
+
+      const result = (await response.json()) as T;
+      this.recordOutcome(state, true, Date.now() - started);
+      return result;
+    } catch (error) {
+      this.recordOutcome(state, false);
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new Error(`Network timeout after ${this.requestTimeout}ms`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Probe every endpoint with get_info to refresh head block and latency.
+   * Concurrent callers share the same in-flight probe.
+   */
+  async probe(network: NetworkType): Promise<void> {
+    const inFlight = this.probing.get(network);
+    if (inFlight) return inFlight;
+
+    const pool = this.getPool(network);
+    const probePromise = Promise.allSettled(
+      pool.map(async state => {
+        try {
+          const info = await state.breaker.execute(() =>
+            this.postToEndpoint<any>(state, '/v1/chain/get_info', undefined)
+          );
+          state.headBlock = Number(info?.head_block_num) || state.headBlock;
+        } catch {
+          // Failure already recorded against the endpoint
+        } finally {
+          state.lastChecked = Date.now();
+        }
+      })
+    )
+      .then(() => undefined)
+      .finally(() => this.probing.delete(network));
+
+    this.probing.set(network, probePromise);
+    return probePromise;
+  }
+
+  /**
+   * Probe a network's endpoints now and then periodically.
+   * Requests never probe on their own; the app starts probing for the
+   * active network.
+   * @param network - Network name
+   * @returns Function stopping the probes
+   */
+  startProbing(network: NetworkType): () => void {
+    void this.probe(network);
+    const timer = setInterval(
+      () => void this.probe(network),
+      this.probeInterval
+    );
+    return () => clearInterval(timer);
+  }
+
+  /**
+   * Send a chain API request, routed to the healthiest endpoint.
+   * Fails over through the remaining endpoints when a request fails or an
+   * endpoint's circuit breaker is open. Chain errors are deterministic and
+   * thrown straight away, without failover or retry.
+   * @param network - Network name
+   * @param path - API path, e.g. `/v1/chain/get_account`
+   * @param body - JSON request body
+   * @throws {ChainApiError} If the node rejects the request
+   * @throws {Error} If every endpoint fails
+   */
+  async request<T = any>(
+    network: NetworkType,
+    path: string,
+    body?: Record<string, unknown>
+  ): Promise<T> {
+    const pool = this.getPool(network);
+
+    return retryWithBackoff(
+      async () => {
+        let lastError: unknown;
+
+        for (const state of this.rankEndpoints(pool)) {
+          let result: T | ChainApiError;
+          try {
+            result = await state.breaker.execute(() =>
+              this.postToEndpoint<T>(state, path, body)
+            );
+          } catch (error) {
+            lastError = error;
+            console.warn(
+              `[RpcPool] ${path} failed on ${state.endpoint}, failing over:`,
+              error instanceof Error ? error.message : error
+            );
+            continue;
+          }
+
+          if (result instanceof ChainApiError) throw result;
+          return result;
+        }
+
+        const reason =
+          lastError instanceof Error ? lastError.message : String(lastError);
+        throw new Error(
+          `All RPC endpoints for ${network} failed (${path}): ${reason}`
+        );
+      },
+      {
+        maxRetries: 1,
+        retryCondition: error =>
+          !(error instanceof ChainApiError) && isRetryableError(error),
+      }
+    );
+  }
+
+  /**
+   * Get the shared RPC client for a network.
+   * Exposes the same method surface as the Proton session RPC.
+   */
+  getClient(network: NetworkType): PooledRpcClient {
+    const cached = this.clients.get(network);
+    if (cached) return cached;
+
+    const client: PooledRpcClient = {
+      get_info: () => this.request(network, '/v1/chain/get_info'),
+
+      get_account: async (accountName: string) => {
+        const isAllowed = await globalRateLimiter.isAllowed(
+          `get_account_${accountName}`
+        );
+        if (!isAllowed) {
+          throw new Error(
+            `Rate limit exceeded for get_account: ${accountName}`
+          );
+        }
+        return this.request(network, '/v1/chain/get_account', {
+          account_name: accountName,
+        });
+      },
+
+      get_producers: async (options: Record<string, unknown> = {}) => {
+        const isAllowed = await globalRateLimiter.isAllowed('get_producers');
+        if (!isAllowed) {
+          throw new Error('Rate limit exceeded for get_producers');
+        }
+        return this.request(network, '/v1/chain/get_producers', {
+          limit: 30,
+          json: true,
+          ...options,
+        });
+      },
+
+      get_table_rows: (options: TableRowsOptions) =>
+        this.request(network, '/v1/chain/get_table_rows', { ...options }),
+
+      get_currency_balance: (
+        contract: string,
+        account: string,
+        symbol: string | null = null
+      ) =>
+        this.request(network, '/v1/chain/get_currency_balance', {
+          code: contract,
+          account,
+          symbol,
+        }),
+
+      request: (path: string, body?: Record<string, unknown>) =>
+        this.request(network, path, body),
+    };
+
+    this.clients.set(network, client);
+    return client;
+  }
+
+  /**
+   * Endpoint currently preferred for a network
+   */
+  getPreferredEndpoint(network: NetworkType): string {
+    return this.rankEndpoints(this.getPool(network))[0].endpoint;
+  }
+
+  /**
+   * Health snapshot of every endpoint, healthiest first
+   */
+  getHealth(network: NetworkType): EndpointHealth[] {
+    const pool = this.getPool(network);
+    const maxHeadBlock = Math.max(0, ...pool.map(state => state.headBlock));
+
+    return this.rankEndpoints(pool).map(state => ({
+      endpoint: state.endpoint,
+      latency: Math.round(state.latency),
+      errorRate: this.getErrorRate(state),
+      headBlockLag: state.headBlock > 0 ? maxHeadBlock - state.headBlock : 0,
+      circuitState: state.breaker.getState(),
+      score: Math.round(this.getScore(state, maxHeadBlock)),
+      lastChecked: state.lastChecked,
+    }));
+  }
+
+  /**
+   * Drop all health data (e.g. after network configuration changes)
+   */
+  reset(network?: NetworkType): void {
+    if (network) {
+      this.pools.delete(network);
+      this.clients.delete(network);
+    } else {
+      this.pools.clear();
+      this.clients.clear();
+    }
+  }
+}
+
+// Export singleton instance shared by all services
+export const rpcPool = new RpcPool();
+
+/**
+ * Get the shared pooled RPC client for a network
+ * @param network - Network name (testnet/mainnet)
+ * @returns RPC client routed through the endpoint pool
+ */
+export const getRpcClient = (network: NetworkType): PooledRpcClient =>
+  rpcPool.getClient(network);
+
+export default rpcPool;
@@ -3,24 +3,45 @@
  * Token Service - Advanced Token Management
  *
  * Provides comprehensive token operations for XPR network including:
- * - Balance discovery across multiple token contracts
+ * - Balance discovery across multiple token contracts (registry + light API)
  * - Transfer transactions với validation
+ * - Exchange memo rules enforced before signing
  * - Advanced caching với memory management
- * - RPC client management và optimization
+ * - RPC client management via the shared RPC pool
  * - Request deduplication để prevent duplicate API calls
  *
  * @fileoverview Professional token management service for XPR delegation demo
  */
 
-import type { TokenBalance, TransferData, NetworkType } from '../types';
+import type {
+  StakeBreakdown,
+  SubmittedTransaction,
+  TokenBalance,
+  TokenMetadata,
+  TransferData,
+  NetworkType,
+} from '../types';
 import type {
   SessionData as EnhancedSessionData,
   RpcClient as EnhancedRpcClient,
-  TransactionResult,
 } from '../types/enhanced';
 import { validateAccountName } from '../utils/security';
 import { MemoryManager } from '../utils/MemoryManager';
-import { NETWORKS as networks } from '../config/networks';
+import { getRpcClient } from './rpcPool';
+import {
+  getRecipientInfo,
+  getStakeBreakdown,
+  resolveAuthorization,
+} from './blockchain';
+import { submitTransaction } from './transactionPipeline';
+import { getNetworkConfig } from '../config/networks';
+import { getTokenRegistry } from '../config/tokens';
+import { batchApiCalls } from '../utils/retryUtils';
+import { createCoreTokenBalance } from '../utils/helpers';
+import {
+  evaluateRecipientRules,
+  getBlockingIssues,
+} from '../utils/recipientRules';
 
 /**
  * Token Service Class with Advanced Memory Management
@@ -122,29 +143,14 @@ export class TokenService {
    */
   async getCoreSymbol(_network: NetworkType = 'testnet'): Promise<string> {
     try {
-      const config = networks[_network];
-      const response = await fetch(
-        `${config.endpoints[0]}/v1/chain/get_table_rows`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            code: 'eosio.token',
-            table: 'stat',
-            scope: 'XPR',
-            limit: 1,
-            json: true,
-          }),
-        }
-      );
-
-      if (!response.ok) {
-        throw new Error(`API call failed: ${response.status}`);
-      }
+      const result = await getRpcClient(_network).get_table_rows({
+        code: 'eosio.token',
+        table: 'stat',
+        scope: 'XPR',
+        limit: 1,
+        json: true,
+      });
 
-      const result = await response.json();
       if (result.rows && result.rows.length > 0) {
         return result.rows[0].symbol || 'XPR';
       }
@@ -157,14 +163,19 @@ export class TokenService {
 
   /**
    * Parse token balance information from blockchain response
+   * Attaches registry metadata (precision, name, logo) when available
    */
   private parseTokenBalance(
     row: any,
-    _contract: string = 'eosio.token'
+    _contract: string = 'eosio.token',
+    metadata?: TokenMetadata
   ): TokenBalance {
     const balance = row.balance || '0.0000 XPR';
     const [amount, symbol] = balance.split(' ');
-    const precision = symbol === 'XPR' ? 4 : 2; // Standard XPR precision
+    // Precision from registry, else from the asset string itself
+    const precision =
+      metadata?.precision ?? (amount.split('.')[1] || '').length;
+    const zero = (0).toFixed(precision);
 
     return {
       contract: _contract,
@@ -172,9 +183,47 @@ export class TokenService {
       precision,
       amount,
       formatted: balance,
+      liquid: amount,
+      staked: zero,
+      refunding: zero,
+      name: metadata?.name,
+      logo: metadata?.logo,
     };
   }
 
+  /**
+   * Discover tokens held by an account via the network's lightweight API
+   * Returns an empty list if the network has no discovery endpoint
+   */
+  private async discoverTokens(
+    account: string,
+    _network: NetworkType
+  ): Promise<TokenMetadata[]> {
+    const { lightApi } = getNetworkConfig(_network);
+    if (!lightApi) {
+      return [];
+    }
+
+    try {
+      const response = await fetch(`${lightApi}/${account}`);
+      if (!response.ok) {
+        throw new Error(`API call failed: ${response.status}`);
+      }
+
+      const result = await response.json();
+      return (result.balances || []).map((balance: any) => ({
+        contract: balance.contract,
+        symbol: balance.currency,
+        precision: Number(balance.decimals),
+      }));
+    } catch (error: any) {
+      console.debug(
+        `[TokenService] Token discovery unavailable: ${error?.message || 'Unknown error'}`
+      );
+      return [];
+    }
+  }
+
   /**
    * Fetch TOTAL token balances for account with deduplication
    * Returns total wallet balances (liquid + staked) for accurate display
@@ -233,7 +282,7 @@ export class TokenService {
 
   /**
    * Internal token balance fetching logic
-   * Gets TOTAL wallet balances (liquid + staked) for accurate display
+   * Gets TOTAL wallet balances with liquid/staked/refunding breakdown
    */
   private async fetchTokenBalancesInternal(
     account: string,
@@ -247,83 +296,9 @@ export class TokenService {
       this.getCachedRpc(session) || session?.rpc;
 
     if (!rpc) {
-      // No session RPC - create a simple RPC client for token queries
-      const config = networks[_network];
-      rpc = {
-        get_table_rows: async (params: any) => {
-          const response = await fetch(
-            `${config.endpoints[0]}/v1/chain/get_table_rows`,
-            {
-              method: 'POST',
-              headers: {
-                'Content-Type': 'application/json',
-              },
-              body: JSON.stringify(params),
-            }
-          );
-
-          if (!response.ok) {
-            throw new Error(
-              `RPC call failed: ${response.status} ${response.statusText}`
-            );
-          }
-
-          return response.json();
-        },
-        get_account: async (accountName: string) => {
-          const response = await fetch(
-            `${config.endpoints[0]}/v1/chain/get_account`,
-            {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({ account_name: accountName }),
-            }
-          );
-          if (!response.ok) {
-            throw new Error(
-              `RPC call failed: ${response.status} ${response.statusText}`
-            );
-          }
-          return response.json();
-        },
-        get_producers: async (options: any = {}) => {
-          const response = await fetch(
-            `${config.endpoints[0]}/v1/chain/get_producers`,
-            {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({ limit: 30, json: true, ...options }),
-            }
-          );
-          if (!response.ok) {
-            throw new Error(
-              `RPC call failed: ${response.status} ${response.statusText}`
-            );
-          }
-          return response.json();
-        },
-        get_currency_balance: async (
-          contract: string,
-          account: string,
-          symbol?: string | null
-        ) => {
-          const response = await fetch(
-            `${config.endpoints[0]}/v1/chain/get_currency_balance`,
-            {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({ code: contract, account, symbol }),
-            }
-          );
-          if (!response.ok) {
-            throw new Error(
-              `RPC call failed: ${response.status} ${response.statusText}`
-            );
-          }
-          return response.json();
-        },
-      };
-      console.log(`[TokenService] Created simple RPC client for ${account}`);
+      // No session RPC - use the shared pooled RPC client
+      rpc = getRpcClient(_network);
+      console.log(`[TokenService] Using pooled RPC client for ${account}`);
     }
 
     // Cache the RPC client for reuse
@@ -331,109 +306,82 @@ export class TokenService {
       this.setCachedRpc(session, rpc);
     }
 
-    // Fetch liquid balances from eosio.token accounts table
-    const tokenContracts = [
-      'eosio.token', // Core XPR tokens - liquid balance
+    // Known tokens: bundled registry plus contracts discovered on-chain
+    const registry = getTokenRegistry(_network);
+    const discovered = await this.discoverTokens(account, _network);
+    const knownTokens = [
+      ...registry,
+      ...discovered.filter(
+        token =>
+          !registry.some(
+            known =>
+              known.contract === token.contract && known.symbol === token.symbol
+          )
+      ),
     ];
+    const tokenContracts = Array.from(
+      new Set(knownTokens.map(token => token.contract))
+    );
 
-    // Get staked balance from voters table
-    let stakedBalance = 0;
+    // Staked/refunding XPR - kept separate from the transferable balance
+    let stake: StakeBreakdown = { staked: 0, refunding: 0 };
     try {
-      const voterInfo = await rpc.get_table_rows({
-        code: 'eosio',
-        scope: 'eosio',
-        table: 'voters',
-        lower_bound: account,
-        upper_bound: account,
-        limit: 1,
-        json: true,
-      });
-
-      if (voterInfo.rows && voterInfo.rows.length > 0) {
-        stakedBalance = parseFloat(voterInfo.rows[0].staked || '0');
-        console.log(`[TokenService] Staked balance: ${stakedBalance} XPR`);
-      }
+      stake = await getStakeBreakdown(account, _network, { rpc });
+      console.log(
+        `[TokenService] Staked: ${stake.staked} XPR, refunding: ${stake.refunding} XPR`
+      );
     } catch (error: any) {
       console.debug(
-        `[TokenService] Could not get staked balance: ${error?.message || 'Unknown error'}`
+        `[TokenService] Could not get stake breakdown: ${error?.message || 'Unknown error'}`
       );
     }
 
-    // Process contracts sequentially with error handling and rate limiting
-    for (const contract of tokenContracts) {
-      try {
-        // Add small delay between requests to avoid rate limiting
-        if (contract !== 'eosio.token') {
-          await new Promise(resolve => setTimeout(resolve, 100));
-        }
+    // Fetch balances from every known contract in parallel, rate limited
+    const client = rpc;
+    const results = await batchApiCalls(
+      tokenContracts.map(
+        contract => () =>
+          client.get_table_rows({
+            code: contract,
+            table: 'accounts',
+            scope: account,
+            limit: 50,
+            json: true,
+          })
+      )
+    );
 
-        const result = await rpc.get_table_rows({
-          code: contract,
-          table: 'accounts',
-          scope: account,
-          limit: 50,
-          json: true,
-        });
-
-        if (result.rows && Array.isArray(result.rows)) {
-          for (const row of result.rows) {
-            if (row.balance && row.balance !== '0') {
-              const liquidBalance = this.parseTokenBalance(row, contract);
-              console.log(
-                `[TokenService] Liquid balance from ${contract} accounts table:`,
-                liquidBalance.formatted
-              );
-
-              // Calculate total balance (liquid + staked)
-              const liquidAmount = parseFloat(liquidBalance.amount);
-              const totalAmount = liquidAmount + stakedBalance / 10000;
-              const totalFormatted = `${totalAmount.toFixed(4)} ${liquidBalance.symbol}`;
-
-              console.log(
-                `[TokenService] Total balance (liquid + staked): ${totalFormatted}`
-              );
-
-              // Create token balance with total amount
-              const totalTokenBalance: TokenBalance = {
-                contract: liquidBalance.contract,
-                symbol: liquidBalance.symbol,
-                precision: liquidBalance.precision,
-                amount: totalAmount.toString(),
-                formatted: totalFormatted,
-              };
-
-              tokens.push(totalTokenBalance);
-            }
-          }
-        }
-      } catch (error: any) {
-        // Skip contracts that don't exist or have errors
-        console.debug(
-          `[TokenService] Skipping contract ${contract}: ${error?.message || 'Unknown error'}`
+    results.forEach((result, index) => {
+      const contract = tokenContracts[index];
+
+      // Skip contracts that don't exist or have errors
+      if (!result || !Array.isArray(result.rows)) {
+        console.debug(`[TokenService] Skipping contract ${contract}`);
+        return;
+      }
+
+      for (const row of result.rows) {
+        if (!row.balance || row.balance === '0') continue;
+
+        const symbol = row.balance.split(' ')[1];
+        const metadata = knownTokens.find(
+          token => token.contract === contract && token.symbol === symbol
         );
+        const liquidBalance = this.parseTokenBalance(row, contract, metadata);
 
-        // Log detailed error for debugging
-        if (
-          error?.message?.includes('400') ||
-          error?.message?.includes('500')
-        ) {
-          console.warn(`[TokenService] API error for contract ${contract}:`, {
-            contract,
-            account,
-            error: error.message,
-            requestParams: {
-              code: contract,
-              table: 'accounts',
-              scope: account,
-              limit: 50,
-              json: true,
-            },
-          });
+        if (contract !== 'eosio.token') {
+          tokens.push(liquidBalance);
+          continue;
         }
 
-        continue;
+        // XPR total includes staked and refunding, transferable is liquid only
+        const coreBalance = createCoreTokenBalance(
+          parseFloat(liquidBalance.amount),
+          stake
+        );
+        tokens.push({ ...liquidBalance, ...coreBalance });
       }
-    }
+    });
 
     // Cache results
     this.setCachedTokens(account, tokens);
@@ -441,14 +389,36 @@ export class TokenService {
     return tokens;
   }
 
+  /**
+   * Check whether an account has ever held a token
+   * A balance row is created on the first transfer in and normally kept
+   * at zero, so a missing row means the account never received the token.
+   */
+  async hasReceivedToken(
+    account: string,
+    contract: string,
+    symbol: string,
+    network: NetworkType = 'testnet',
+    session?: EnhancedSessionData
+  ): Promise<boolean> {
+    if (!validateAccountName(account)) {
+      throw new Error(`Invalid account name: ${account}`);
+    }
+
+    const rpc = session?.rpc || getRpcClient(network);
+    const balances = await rpc.get_currency_balance(contract, account, symbol);
+
+    return Array.isArray(balances) && balances.length > 0;
+  }
+
   /**
    * Execute token transfer
    */
   async transferTokens(
     transferData: TransferData,
     session: EnhancedSessionData,
-    _network: NetworkType = 'testnet'
-  ): Promise<TransactionResult> {
+    network: NetworkType = 'testnet'
+  ): Promise<SubmittedTransaction> {
     try {
       // Validate transfer data inline
       if (!validateAccountName(transferData.from)) {
@@ -459,60 +429,180 @@ export class TokenService {
       }
       if (
         !transferData.quantity ||
-        !transferData.quantity.match(/^\d+\.\d{4} [A-Z]+$/)
+        !transferData.quantity.match(/^\d+(\.\d+)? [A-Z]+$/)
       ) {
         throw new Error(`Invalid quantity format: ${transferData.quantity}`);
       }
 
+      // Refuse transfers that an exchange would not credit
+      const [blocking] = getBlockingIssues(
+        evaluateRecipientRules(transferData, network)
+      );
+      if (blocking) {
+        throw new Error(blocking.message);
+      }
+
+      // Catch typos that happen to be valid names; a failed lookup is
+      // not fatal since the chain rejects unknown recipients anyway
+      const recipient = await getRecipientInfo(
+        transferData.to,
+        network,
+        session
+      ).catch(() => null);
+      if (recipient && !recipient.exists) {
+        throw new Error(`Recipient account ${transferData.to} does not exist`);
+      }
+
       // Ensure we have a valid session
       if (!session || !session.transact) {
         throw new Error('No valid session available for transaction');
       }
 
-      // Create transfer action
-      const action = {
-        account: transferData.contract || 'eosio.token',
-        name: 'transfer',
-        authorization: [
-          {
-            actor: transferData.from,
-            permission: transferData.permission || 'owner',
-          },
-        ],
-        data: {
-          from: transferData.from,
-          to: transferData.to,
-          quantity: transferData.quantity,
-          memo: transferData.memo || '',
-        },
-      };
+      const contract = transferData.contract || 'eosio.token';
 
       console.log(`[TokenService] Executing transfer:`, {
         from: transferData.from,
         to: transferData.to,
         quantity: transferData.quantity,
-        contract: action.account,
+        contract,
       });
 
-      // Execute transaction
-      const result = await session.transact(
-        {
-          actions: [action],
-        },
-        {
-          blocksBehind: 3,
-          expireSeconds: 30,
+      const result = await submitTransaction({
+        description: 'transfer tokens',
+        account: transferData.from,
+        network,
+        session,
+        actions: [
+          {
+            account: contract,
+            name: 'transfer',
+            data: {
+              from: transferData.from,
+              to: transferData.to,
+              quantity: transferData.quantity,
+              memo: transferData.memo || '',
+            },
+          },
+        ],
+        authorize: actions =>
+          resolveAuthorization(
+            actions,
+            network,
+            session,
+            transferData.permission
+          ),
+        history: [
+          {
+            type: 'transfer',
+            data: {
+              to: transferData.to,
+              quantity: transferData.quantity,
+              memo: transferData.memo,
+              contract: transferData.contract,
+            },
+          },
+        ],
+      });
+
+      console.log(`[TokenService] Transfer successful:`, result.transactionId);
+
+      return result;
+    } catch (error) {
+      console.error(`[TokenService] Transfer failed:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Execute several transfers from one account in a single transaction
+   */
+  async transferBatch(
+    transfers: TransferData[],
+    session: EnhancedSessionData,
+    network: NetworkType = 'testnet'
+  ): Promise<SubmittedTransaction> {
+    try {
+      if (transfers.length === 0) {
+        throw new Error('No transfers to send');
+      }
+
+      const from = transfers[0].from;
+      if (!validateAccountName(from)) {
+        throw new Error(`Invalid from account: ${from}`);
+      }
+
+      transfers.forEach(transfer => {
+        if (transfer.from !== from) {
+          throw new Error('All batch transfers must be sent from one account');
+        }
+        if (!validateAccountName(transfer.to)) {
+          throw new Error(`Invalid to account: ${transfer.to}`);
         }
+        if (
+          !transfer.quantity ||
+          !transfer.quantity.match(/^\d+(\.\d+)? [A-Z]+$/)
+        ) {
+          throw new Error(`Invalid quantity format: ${transfer.quantity}`);
+        }
+
+        const [blocking] = getBlockingIssues(
+          evaluateRecipientRules(transfer, network)
+        );
+        if (blocking) {
+          throw new Error(`${transfer.to}: ${blocking.message}`);
+        }
+      });
+
+      // Ensure we have a valid session
+      if (!session || !session.transact) {
+        throw new Error('No valid session available for transaction');
+      }
+
+      console.log(
+        `[TokenService] Executing batch of ${transfers.length} transfers from ${from}`
       );
 
+      const result = await submitTransaction({
+        description: 'send transfers',
+        account: from,
+        network,
+        session,
+        actions: transfers.map(transfer => ({
+          account: transfer.contract || 'eosio.token',
+          name: 'transfer',
+          data: {
+            from: transfer.from,
+            to: transfer.to,
+            quantity: transfer.quantity,
+            memo: transfer.memo || '',
+          },
+        })),
+        authorize: actions =>
+          resolveAuthorization(
+            actions,
+            network,
+            session,
+            transfers[0].permission
+          ),
+        history: transfers.map(transfer => ({
+          type: 'transfer',
+          data: {
+            to: transfer.to,
+            quantity: transfer.quantity,
+            memo: transfer.memo,
+            contract: transfer.contract,
+          },
+        })),
+      });
+
       console.log(
-        `[TokenService] Transfer successful:`,
-        result.transaction_id || result.id || 'No transaction ID'
+        `[TokenService] Batch transfer successful:`,
+        result.transactionId
       );
 
       return result;
     } catch (error) {
-      console.error(`[TokenService] Transfer failed:`, error);
+      console.error(`[TokenService] Batch transfer failed:`, error);
       throw error;
     }
   }
@@ -611,6 +701,8 @@ export const clearTransferCache = (account: string): void => {
 export const {
   getTokenBalances,
   transferTokens,
+  transferBatch,
+  hasReceivedToken,
   getCoreSymbol,
   formatTokenAmount,
   parseTokenAmount,
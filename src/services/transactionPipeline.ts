@@ -0,0 +1,231 @@
+/**
+ * Transaction Pipeline
+ *
+ * Single path from contract actions to a signed transaction. Services
+ * describe what to sign and what to do afterwards; the pipeline runs the
+ * shared stages in order:
+ *
+ * 1. Pre-flight checks (pipeline-wide, then per request)
+ * 2. Resource estimation
+ * 3. Authorization and action building
+ * 4. Transaction data verification and user review
+ * 5. Signing and signature verification
+ * 6. Post-processing: cache invalidation, history recording, then
+ *    pipeline-wide and per-request post-processors
+ *
+ * Refresh triggers stay with the caller, which runs them once the
+ * transaction is irreversible (see the finality service).
+ *
+ * @fileoverview Transaction builder and submission pipeline for XPR Delegation Demo
+ */
+import { transactionVerifier } from '../utils/security-hardening';
+import { smartCache } from '../utils/SmartCache';
+import { extractTransactionId } from '../utils/transactionUtils';
+import type {
+  AuthorizedAction,
+  PostProcessor,
+  PreflightCheck,
+  ResourceEstimator,
+  TransactionRequest,
+  SubmittedTransaction,
+} from '../types';
+import { BlockchainError, ValidationError } from './errors';
+import { DEFAULT_EXPIRE_SECONDS } from './finality';
+import { transactionHistory } from './history';
+import { reviewTransaction } from './transactionReview';
+
+// Blocks behind head used for the TaPoS reference block
+const BLOCKS_BEHIND = 3;
+
+/**
+ * Remove an item from a stage list
+ */
+const removeFrom =
+  <T>(list: T[], item: T) =>
+  (): void => {
+    const index = list.indexOf(item);
+    if (index !== -1) list.splice(index, 1);
+  };
+
+/**
+ * Transaction pipeline with pluggable stages
+ */
+export class TransactionPipeline {
+  private preflightChecks: PreflightCheck[] = [];
+  private postProcessors: PostProcessor[] = [];
+  private resourceEstimator: ResourceEstimator | null = null;
+
+  /**
+   * Run a check before every transaction is built
+   * @returns Function removing the check
+   */
+  addPreflightCheck(check: PreflightCheck): () => void {
+    this.preflightChecks.push(check);
+    return removeFrom(this.preflightChecks, check);
+  }
+
+  /**
+   * Run a step after every transaction is signed
+   * @returns Function removing the step
+   */
+  addPostProcessor(processor: PostProcessor): () => void {
+    this.postProcessors.push(processor);
+    return removeFrom(this.postProcessors, processor);
+  }
+
+  /**
+   * Estimate resources for transactions that do not bring their own estimator
+   * @param estimator - Estimator, or null to skip estimation
+   */
+  setResourceEstimator(estimator: ResourceEstimator | null): void {
+    this.resourceEstimator = estimator;
+  }
+
+  /**
+   * Build, review, sign and post-process a transaction
+   * @param request - Actions and stage options
+   * @returns Uniform transaction result
+   * @throws {ValidationError} If the session is missing or a pre-flight check fails
+   * @throws {BlockchainError} If resources are insufficient or signing fails
+   */
+  async submit(request: TransactionRequest): Promise<SubmittedTransaction> {
+    const { description, session } = request;
+
+    if (!session) {
+      throw new ValidationError(
+        `Session is required to ${description}. Please connect your wallet first.`
+      );
+    }
+
+    for (const check of [
+      ...this.preflightChecks,
+      ...(request.preflight || []),
+    ]) {
+      await check(request);
+    }
+
+    const estimator = request.estimateResources || this.resourceEstimator;
+    if (estimator) {
+      const estimate = await estimator(request);
+      if (!estimate.sufficient) {
+        throw new BlockchainError(
+          `Insufficient resources to ${description}. Please stake more CPU/NET.`
+        );
+      }
+    }
+
+    const authorization = await request.authorize(request.actions);
+    const actions: AuthorizedAction[] = request.actions.map(action => ({
+      ...action,
+      authorization: [authorization],
+      data: action.data || {},
+    }));
+
+    let result: SubmittedTransaction;
+    try {
+      result = await this.sign(actions, request);
+    } catch (error: unknown) {
+      throw new BlockchainError(
+        `Failed to ${description}: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`
+      );
+    }
+
+    await this.postProcess(result, request);
+    return result;
+  }
+
+  /**
+   * Verify, review and sign the built actions
+   */
+  private async sign(
+    actions: AuthorizedAction[],
+    { network, session }: TransactionRequest
+  ): Promise<SubmittedTransaction> {
+    const transaction = { actions };
+
+    // Verify transaction data integrity
+    if (!transactionVerifier.verifyTransactionData(transaction)) {
+      throw new ValidationError('Invalid transaction data');
+    }
+
+    // Show the decoded actions for approval
+    await reviewTransaction(transaction, network, session);
+
+    const result = await session.transact(transaction, {
+      blocksBehind: BLOCKS_BEHIND,
+      expireSeconds: DEFAULT_EXPIRE_SECONDS,
+    });
+
+    // Verify transaction signature after execution
+    if (
+      result.transaction &&
+      !(await transactionVerifier.verifySignature(
+        result.transaction,
+        session.auth.actor
+      ))
+    ) {
+      throw new BlockchainError('Transaction signature verification failed');
+    }
+
+    return {
+      transactionId: extractTransactionId(result),
+      blockNum: result.processed?.block_num || 0,
+      status: result.processed?.receipt?.status || 'success',
+      actions: actions.length,
+      signedActions: actions,
+    };
+  }
+
+  /**
+   * Invalidate caches, record history and run post-processors
+   * The transaction is already signed, so failures here are ignored.
+   */
+  private async postProcess(
+    result: SubmittedTransaction,
+    request: TransactionRequest
+  ): Promise<void> {
+    (request.invalidate || []).forEach(key => smartCache.invalidate(key));
+
+    const steps: PostProcessor[] = [
+      ...(request.history || []).map(
+        entry => () =>
+          transactionHistory
+            .record(
+              entry.type,
+              request.account,
+              request.network,
+              result,
+              entry.data
+            )
+            .then(() => undefined)
+      ),
+      ...this.postProcessors,
+      ...(request.postProcess || []),
+    ];
+
+    await Promise.all(
+      steps.map(step =>
+        Promise.resolve()
+          .then(() => step(result, request))
+          .catch(() => {
+            // Post-processing is optional - never fail a signed transaction
+          })
+      )
+    );
+  }
+}
+
+export const transactionPipeline = new TransactionPipeline();
+
+/**
+ * Submit a transaction through the shared pipeline
+ * @param request - Actions and stage options
+ * @returns Uniform transaction result
+ */
+export const submitTransaction = (
+  request: TransactionRequest
+): Promise<SubmittedTransaction> => transactionPipeline.submit(request);
+
+export default transactionPipeline;
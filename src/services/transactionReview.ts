@@ -0,0 +1,202 @@
+/**
+ * Transaction Review Service
+ *
+ * Builds a human-readable review of a transaction before it reaches the
+ * wallet and hands it to the registered reviewer (the review modal in App).
+ * Action data is decoded field-by-field with each contract's ABI, and risky
+ * actions are flagged. Services call reviewTransaction right before
+ * session.transact; when no reviewer is registered the call is a no-op.
+ *
+ * Features:
+ * - ABI lookup via get_abi with caching
+ * - Best-effort balance lookup for large transfer warnings
+ * - Rejection surfaces as a cancelled transaction
+ *
+ * @fileoverview Pre-signing transaction review service for XPR Delegation Demo
+ */
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import {
+  decodeActionFields,
+  getActionRisks,
+  type ContractAbi,
+  type TransactableAction,
+} from '../utils/abiUtils';
+import { smartCache, CacheKeys, CacheDependencies } from '../utils/SmartCache';
+import type {
+  NetworkType,
+  TransactionReview,
+  TransactionReviewer,
+} from '../types';
+import { getRpcClient } from './rpcPool';
+
+let reviewer: TransactionReviewer | null = null;
+
+/**
+ * Register the UI that approves transactions
+ * @param next - Reviewer resolving true to sign, or null to disable review
+ */
+export const setTransactionReviewer = (
+  next: TransactionReviewer | null
+): void => {
+  reviewer = next;
+};
+
+/**
+ * Fetch a contract ABI
+ * @param contract - Contract account name
+ * @param network - Network name (testnet/mainnet)
+ * @returns ABI, or undefined if the account has no contract
+ */
+export const getContractAbi = async (
+  contract: string,
+  network: NetworkType = 'testnet'
+): Promise<ContractAbi | undefined> =>
+  smartCache.getWithRefresh(
+    CacheKeys.abi(contract, network),
+    async () => {
+      const { abi } = await getRpcClient(network).request('/v1/chain/get_abi', {
+        account_name: contract,
+      });
+      return (abi || undefined) as ContractAbi | undefined;
+    },
+    {
+      ttl: 10 * 60 * 1000, // 10 minutes
+      priority: 'low',
+      dependencies: [CacheDependencies.abi],
+    }
+  );
+
+/**
+ * Whether an action is a token transfer carrying a quantity
+ */
+const isTransfer = (
+  action: TransactableAction
+): action is TransactableAction & {
+  data: { from: string; quantity: string };
+} => {
+  const data = action.data as
+    | { from?: unknown; quantity?: unknown }
+    | undefined;
+  return (
+    action.name === 'transfer' &&
+    typeof data?.from === 'string' &&
+    typeof data.quantity === 'string'
+  );
+};
+
+/**
+ * Sender balances by `contract:SYMBOL` for the transfers in a transaction
+ */
+const getTransferBalances = async (
+  actions: TransactableAction[],
+  network: NetworkType,
+  session: any
+): Promise<Record<string, number>> => {
+  const rpc = session && session.rpc ? session.rpc : getRpcClient(network);
+  const balances: Record<string, number> = {};
+
+  const transfers = actions.filter(isTransfer);
+
+  await Promise.all(
+    transfers.map(async action => {
+      const { from, quantity } = action.data;
+      const symbol = quantity.split(' ')[1];
+      const key = `${action.account}:${symbol}`;
+      if (key in balances) return;
+      balances[key] = 0;
+
+      try {
+        const [balance] = await rpc.get_currency_balance(
+          action.account,
+          from,
+          symbol
+        );
+        balances[key] = balance ? parseFloat(String(balance)) : 0;
+      } catch {
+        // Balance is only used for warnings
+      }
+    })
+  );
+
+  return balances;
+};
+
+/**
+ * Build a human-readable review of a transaction
+ * @param transaction - Transaction as passed to session.transact
+ * @param network - Network name (testnet/mainnet)
+ * @param session - Session object from ConnectWallet
+ * @param options - Whether the wallet will broadcast the transaction
+ * @returns Decoded actions with risks
+ */
+export const buildTransactionReview = async (
+  transaction: { actions: TransactableAction[] },
+  network: NetworkType = 'testnet',
+  session: any = null,
+  { broadcast = true }: { broadcast?: boolean } = {}
+): Promise<TransactionReview> => {
+  const contracts = Array.from(
+    new Set(transaction.actions.map(action => String(action.account)))
+  );
+
+  const [abis, balances] = await Promise.all([
+    Promise.all(
+      contracts.map(contract =>
+        getContractAbi(contract, network).catch(() => undefined)
+      )
+    ),
+    getTransferBalances(transaction.actions, network, session),
+  ]);
+
+  return {
+    network,
+    broadcast,
+    actions: transaction.actions.map(action => {
+      const abi = abis[contracts.indexOf(String(action.account))];
+      return {
+        account: String(action.account),
+        name: String(action.name),
+        authorization: action.authorization.map(
+          auth => `${auth.actor}@${auth.permission}`
+        ),
+        fields: decodeActionFields(action, abi),
+        risks: getActionRisks(action, balances),
+        abiMissing: !abi,
+      };
+    }),
+  };
+};
+
+/**
+ * Ask the registered reviewer to approve a transaction
+ * @param transaction - Transaction as passed to session.transact
+ * @param network - Network name (testnet/mainnet)
+ * @param session - Session object from ConnectWallet
+ * @param options - Whether the wallet will broadcast the transaction
+ * @throws {Error} If the reviewer rejects the transaction
+ */
+export const reviewTransaction = async (
+  transaction: { actions: TransactableAction[] },
+  network: NetworkType = 'testnet',
+  session: any = null,
+  options: { broadcast?: boolean } = {}
+): Promise<void> => {
+  if (!reviewer) return;
+
+  const review = await buildTransactionReview(
+    transaction,
+    network,
+    session,
+    options
+  );
+  if (!(await reviewer(review))) {
+    throw new Error('Transaction cancelled');
+  }
+};
+
+export default {
+  setTransactionReviewer,
+  getContractAbi,
+  buildTransactionReview,
+  reviewTransaction,
+};
@@ -3,10 +3,14 @@
  *
  * Service layer for managing wallet connections and sessions.
  * Handles WebAuth and Anchor wallet integration with session management.
+ * Several sessions can be connected at once (one per account, permission
+ * and network); each is kept under its own Proton SDK storage prefix and
+ * listed in a session registry in localStorage.
  *
  * Features:
  * - Wallet connection and disconnection
- * - Session restoration and management
+ * - Multiple concurrent sessions with per-session disconnect
+ * - Restoration of all sessions for a network
  * - Account information retrieval
  * - Network-specific configuration
  * - Error handling and timeout protection
@@ -22,8 +26,152 @@ import {
   checkVotingResources,
 } from './blockchain';
 import { tokenService } from './token';
-import { smartCache, CacheKeys } from '../utils/SmartCache';
-import type { NetworkType, Wallet, AccountInfo } from '../types';
+import { getRpcClient } from './rpcPool';
+import { smartCache, CacheKeys, CacheDependencies } from '../utils/SmartCache';
+import { generateSecureRandomString } from '../utils/security';
+import type {
+  NetworkType,
+  Wallet,
+  AccountInfo,
+  WalletSessionRef,
+} from '../types';
+
+// localStorage key listing connected sessions
+const SESSION_REGISTRY_KEY = 'proton-wallet-sessions';
+
+// Prefix for per-session Proton SDK storage
+const SESSION_STORAGE_PREFIX = 'proton-session';
+
+// Storage prefix the SDK uses by default (single-session installs)
+const LEGACY_STORAGE_PREFIX = 'proton-storage';
+
+/**
+ * Read the session registry
+ * @param network - Only return sessions for this network (optional)
+ * @returns Registered sessions, most recently used first
+ */
+export const getWalletSessionRefs = (
+  network?: NetworkType
+): WalletSessionRef[] => {
+  let refs: WalletSessionRef[] = [];
+  try {
+    const parsed = JSON.parse(
+      localStorage.getItem(SESSION_REGISTRY_KEY) || '[]'
+    );
+    refs = Array.isArray(parsed) ? parsed : [];
+  } catch {
+    refs = [];
+  }
+
+  return refs
+    .filter(ref => !network || ref.network === network)
+    .sort((a, b) => b.lastUsed - a.lastUsed);
+};
+
+/**
+ * Write the session registry
+ * @param refs - Sessions to persist
+ */
+const saveWalletSessionRefs = (refs: WalletSessionRef[]): void => {
+  localStorage.setItem(SESSION_REGISTRY_KEY, JSON.stringify(refs));
+};
+
+/**
+ * Remove the Proton SDK storage kept under a prefix
+ * @param storagePrefix - Session storage prefix
+ */
+const clearSessionStorage = (storagePrefix: string): void => {
+  Object.keys(localStorage).forEach(key => {
+    if (key.startsWith(`${storagePrefix}-`)) {
+      localStorage.removeItem(key);
+    }
+  });
+};
+
+/**
+ * Add a session to the registry
+ * An existing session for the same account, permission and network is
+ * replaced and its storage cleared.
+ * @param ref - Session to register
+ */
+const registerWalletSession = (ref: WalletSessionRef): void => {
+  const refs = getWalletSessionRefs().filter(item => {
+    const replaced =
+      item.actor === ref.actor &&
+      item.permission === ref.permission &&
+      item.network === ref.network;
+    if (replaced && item.storagePrefix !== ref.storagePrefix) {
+      clearSessionStorage(item.storagePrefix);
+    }
+    return !replaced && item.storagePrefix !== ref.storagePrefix;
+  });
+
+  saveWalletSessionRefs([...refs, ref]);
+};
+
+/**
+ * Remove a session from the registry
+ * @param storagePrefix - Session storage prefix
+ */
+const unregisterWalletSession = (storagePrefix: string): void => {
+  saveWalletSessionRefs(
+    getWalletSessionRefs().filter(ref => ref.storagePrefix !== storagePrefix)
+  );
+};
+
+/**
+ * Mark a session as the active one so it is restored first
+ * @param storagePrefix - Session storage prefix
+ */
+export const setActiveWalletSession = (storagePrefix: string): void => {
+  saveWalletSessionRefs(
+    getWalletSessionRefs().map(ref =>
+      ref.storagePrefix === storagePrefix
+        ? { ...ref, lastUsed: Date.now() }
+        : ref
+    )
+  );
+};
+
+/**
+ * Load account, vote and voting resource info for a session's account
+ * Cached per session so switching between accounts is instant.
+ * @param session - Wallet session
+ * @param network - Network name
+ * @returns Full account info
+ */
+const loadSessionAccount = (
+  session: any,
+  network: NetworkType
+): Promise<AccountInfo> => {
+  const accountName = String(session.auth.actor);
+
+  return smartCache.getWithRefresh(
+    CacheKeys.walletSession(
+      accountName,
+      String(session.auth.permission),
+      network
+    ),
+    async () => {
+      const [detailedAccount, voteInfo, votingResources] = await Promise.all([
+        getAccountInfo(accountName, network, session),
+        getVoteInfo(accountName, network, session),
+        checkVotingResources(accountName, network),
+      ]);
+
+      return {
+        ...detailedAccount,
+        vote_info: voteInfo || undefined,
+        voting_resources: votingResources,
+      };
+    },
+    {
+      ttl: 60000,
+      priority: 'high',
+      dependencies: [CacheDependencies.walletSession],
+    }
+  );
+};
 
 /**
  * Connect wallet using ProtonSDK default export
@@ -38,6 +186,9 @@ export const connectWallet = async (
   const config = getNetworkConfig(network);
   let lastError: Error | null = null;
 
+  // Each connection gets its own storage so other sessions stay intact
+  const storagePrefix = `${SESSION_STORAGE_PREFIX}-${generateSecureRandomString(8)}`;
+
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
     try {
       console.log(
@@ -58,6 +209,7 @@ export const connectWallet = async (
             chainId: config.chainId,
             // Disable restoreSession to avoid conflicts
             restoreSession: false,
+            storagePrefix,
             // transport removed due to LinkTransport incompatibility
           },
           transportOptions: {
@@ -83,57 +235,9 @@ export const connectWallet = async (
 
       // Ensure session has RPC client - create if missing
       if (!(session as any).rpc) {
-        console.log('[Wallet] Creating RPC client for session');
-        const config = getNetworkConfig(network);
-        const endpoint = config.endpoints[0]; // Use first endpoint
-
-        // Create simple RPC client
-        (session as any).rpc = {
-          get_table_rows: async (params: any) => {
-            const response = await fetch(
-              `${endpoint}/v1/chain/get_table_rows`,
-              {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify(params),
-              }
-            );
-            if (!response.ok) {
-              throw new Error(
-                `RPC call failed: ${response.status} ${response.statusText}`
-              );
-            }
-            return response.json();
-          },
-          get_account: async (accountName: string) => {
-            const response = await fetch(`${endpoint}/v1/chain/get_account`, {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({ account_name: accountName }),
-            });
-            if (!response.ok) {
-              throw new Error(
-                `RPC call failed: ${response.status} ${response.statusText}`
-              );
-            }
-            return response.json();
-          },
-          get_producers: async (options: any = {}) => {
-            const response = await fetch(`${endpoint}/v1/chain/get_producers`, {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({ limit: 30, json: true, ...options }),
-            });
-            if (!response.ok) {
-              throw new Error(
-                `RPC call failed: ${response.status} ${response.statusText}`
-              );
-            }
-            return response.json();
-          },
-        };
-
-        console.log('[Wallet] RPC client created and attached to session');
+        // Attach the shared pooled RPC client
+        (session as any).rpc = getRpcClient(network);
+        console.log('[Wallet] Pooled RPC client attached to session');
       }
 
       // Cache the RPC client for reuse
@@ -211,93 +315,26 @@ export const connectWallet = async (
           `[Wallet] No RPC client found in session for actor: ${session?.auth?.actor}`
         );
 
-        // Create a simple RPC client for this session
-        const simpleRpc = {
-          get_table_rows: async (params: any) => {
-            const response = await fetch(
-              `${config.endpoints[0]}/v1/chain/get_table_rows`,
-              {
-                method: 'POST',
-                headers: {
-                  'Content-Type': 'application/json',
-                },
-                body: JSON.stringify(params),
-              }
-            );
-
-            if (!response.ok) {
-              throw new Error(
-                `RPC call failed: ${response.status} ${response.statusText}`
-              );
-            }
-
-            return response.json();
-          },
-          get_account: async (accountName: string) => {
-            const response = await fetch(
-              `${config.endpoints[0]}/v1/chain/get_account`,
-              {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ account_name: accountName }),
-              }
-            );
-            if (!response.ok) {
-              throw new Error(
-                `RPC call failed: ${response.status} ${response.statusText}`
-              );
-            }
-            return response.json();
-          },
-          get_producers: async (options: any = {}) => {
-            const response = await fetch(
-              `${config.endpoints[0]}/v1/chain/get_producers`,
-              {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ limit: 30, json: true, ...options }),
-              }
-            );
-            if (!response.ok) {
-              throw new Error(
-                `RPC call failed: ${response.status} ${response.statusText}`
-              );
-            }
-            return response.json();
-          },
-          get_currency_balance: async (
-            contract: string,
-            account: string,
-            symbol?: string | null
-          ) => {
-            const response = await fetch(
-              `${config.endpoints[0]}/v1/chain/get_currency_balance`,
-              {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ code: contract, account, symbol }),
-              }
-            );
-            if (!response.ok) {
-              throw new Error(
-                `RPC call failed: ${response.status} ${response.statusText}`
-              );
-            }
-            return response.json();
-          },
-        };
-
-        // Cache the simple RPC client
-        tokenService.setCachedRpc(session, simpleRpc);
+        // Fall back to the shared pooled RPC client for this session
+        tokenService.setCachedRpc(session, getRpcClient(network));
         console.log(
-          `[Wallet] Simple RPC client created and cached for session: ${session.auth?.actor}`
+          `[Wallet] Pooled RPC client cached for session: ${session.auth?.actor}`
         );
       }
 
+      registerWalletSession({
+        storagePrefix,
+        actor: accountName,
+        permission: String(session.auth.permission),
+        network,
+        lastUsed: Date.now(),
+      });
+
       return {
         link,
         session,
         account: fullAccountInfo,
+        storagePrefix,
       };
     } catch (error: any) {
       lastError = error;
@@ -332,163 +369,133 @@ export const connectWallet = async (
 };
 
 /**
- * Check if there's an existing session and restore it with full account info
- * @param network - Network name (testnet/mainnet)
- * @returns Existing session with full account info or null
- * @throws {Error} If session restoration fails
+ * Restore one stored session
+ * @param network - Network name
+ * @param storagePrefix - Session storage prefix
+ * @returns Restored wallet or null if the session is gone
  */
-export const checkExistingSession = async (
-  network: NetworkType = 'testnet'
+const restoreSession = async (
+  network: NetworkType,
+  storagePrefix: string
 ): Promise<Wallet | null> => {
   const config = getNetworkConfig(network);
 
-  try {
-    const { link, session } = await ProtonSDK({
-      linkOptions: {
-        endpoints: config.endpoints,
-        chainId: config.chainId,
-        restoreSession: true, // Enable session restoration
-      },
-      transportOptions: {
-        requestAccount: config.appName,
-      },
-      selectorOptions: {
-        appName: config.appName,
-      },
-    });
-
-    if (session && session.auth) {
-      // Ensure session has RPC client - create if missing
-      if (!(session as any).rpc) {
-        console.log('[Wallet] Creating RPC client for existing session');
-        const endpoint = config.endpoints[0]; // Use first endpoint
-
-        // Create simple RPC client
-        (session as any).rpc = {
-          get_table_rows: async (params: any) => {
-            const response = await fetch(
-              `${endpoint}/v1/chain/get_table_rows`,
-              {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify(params),
-              }
-            );
-            if (!response.ok) {
-              throw new Error(
-                `RPC call failed: ${response.status} ${response.statusText}`
-              );
-            }
-            return response.json();
-          },
-          get_account: async (accountName: string) => {
-            const response = await fetch(`${endpoint}/v1/chain/get_account`, {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({ account_name: accountName }),
-            });
-            if (!response.ok) {
-              throw new Error(
-                `RPC call failed: ${response.status} ${response.statusText}`
-              );
-            }
-            return response.json();
-          },
-          get_producers: async (options: any = {}) => {
-            const response = await fetch(`${endpoint}/v1/chain/get_producers`, {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({ limit: 30, json: true, ...options }),
-            });
-            if (!response.ok) {
-              throw new Error(
-                `RPC call failed: ${response.status} ${response.statusText}`
-              );
-            }
-            return response.json();
-          },
-        };
+  const { link, session } = await ProtonSDK({
+    linkOptions: {
+      endpoints: config.endpoints,
+      chainId: config.chainId,
+      restoreSession: true, // Enable session restoration
+      storagePrefix,
+    },
+    transportOptions: {
+      requestAccount: config.appName,
+    },
+    selectorOptions: {
+      appName: config.appName,
+    },
+  });
+
+  if (!session || !session.auth) {
+    return null;
+  }
 
-        console.log('[Wallet] RPC client created for existing session');
-      }
+  // Ensure session has RPC client - create if missing
+  if (!(session as any).rpc) {
+    (session as any).rpc = getRpcClient(network);
+    console.log('[Wallet] Pooled RPC client attached to existing session');
+  }
 
-      // Cache the RPC client for reuse
-      tokenService.setCachedRpc(session as any, (session as any).rpc);
+  // Cache the RPC client for reuse
+  tokenService.setCachedRpc(session as any, (session as any).rpc);
 
-      // Get comprehensive account information using smart caching
-      const accountName = session.auth.actor as unknown as string;
-
-      // Check cache first to avoid unnecessary API calls
-      const accountCacheKey = CacheKeys.account(accountName, network);
-      const voteCacheKey = CacheKeys.voteInfo(accountName, network);
-      const resourcesCacheKey = CacheKeys.votingResources(accountName, network);
+  return {
+    link: link as any,
+    session: session as any,
+    account: await loadSessionAccount(session, network),
+    storagePrefix,
+  };
+};
 
-      let detailedAccount: AccountInfo;
-      let voteInfo: any;
-      let votingResources: any;
+/**
+ * Restore every stored session for a network with full account info
+ * Sessions from before multi-session support are migrated into the registry.
+ * @param network - Network name (testnet/mainnet)
+ * @returns Restored wallets, most recently used first (empty if none)
+ */
+export const checkExistingSession = async (
+  network: NetworkType = 'testnet'
+): Promise<Wallet[]> => {
+  const refs = getWalletSessionRefs(network);
+  const prefixes = refs.map(ref => ref.storagePrefix);
+  if (
+    refs.length === 0 &&
+    localStorage.getItem(`${LEGACY_STORAGE_PREFIX}-user-auth`)
+  ) {
+    prefixes.push(LEGACY_STORAGE_PREFIX);
+  }
 
-      // Use cached data if available and fresh
-      if (
-        smartCache.get(accountCacheKey) &&
-        !smartCache.isStale(accountCacheKey)
-      ) {
-        console.log(
-          `[Wallet] Using cached account data for existing session ${accountName}`
-        );
-        detailedAccount = smartCache.get(accountCacheKey)!;
-      } else {
-        detailedAccount = await getAccountInfo(accountName, network, session);
-      }
+  const wallets: Wallet[] = [];
 
-      if (smartCache.get(voteCacheKey) && !smartCache.isStale(voteCacheKey)) {
-        console.log(
-          `[Wallet] Using cached vote info for existing session ${accountName}`
-        );
-        voteInfo = smartCache.get(voteCacheKey);
-      } else {
-        voteInfo = await getVoteInfo(accountName, network, session);
+  // Restore one at a time; the SDK shares a single wallet selector
+  for (const storagePrefix of prefixes) {
+    try {
+      const wallet = await restoreSession(network, storagePrefix);
+      if (!wallet) {
+        unregisterWalletSession(storagePrefix);
+        continue;
       }
 
-      if (
-        smartCache.get(resourcesCacheKey) &&
-        !smartCache.isStale(resourcesCacheKey)
-      ) {
-        console.log(
-          `[Wallet] Using cached voting resources for existing session ${accountName}`
-        );
-        votingResources = smartCache.get(resourcesCacheKey);
-      } else {
-        votingResources = await checkVotingResources(accountName, network);
+      if (storagePrefix === LEGACY_STORAGE_PREFIX) {
+        registerWalletSession({
+          storagePrefix,
+          actor: wallet.session.auth.actor,
+          permission: wallet.session.auth.permission,
+          network,
+          lastUsed: Date.now(),
+        });
       }
-
-      const fullAccountInfo: AccountInfo = {
-        ...detailedAccount,
-        vote_info: voteInfo || undefined,
-        voting_resources: votingResources,
-      };
-
-      return {
-        link: link as any,
-        session: session as any,
-        account: fullAccountInfo,
-      };
+      wallets.push(wallet);
+    } catch (error: any) {
+      console.error('Error checking existing session:', error);
     }
-    return null;
-  } catch (error: any) {
-    console.error('Error checking existing session:', error);
-    return null;
   }
+
+  return wallets;
 };
 
 /**
  * Disconnect wallet and clear session data
+ * @param network - Network name (testnet/mainnet)
+ * @param wallet - Session to disconnect (all sessions when omitted)
  * @returns Promise<void>
  * @throws {Error} If disconnection fails
  */
 export const disconnectWallet = async (
-  network: NetworkType = 'testnet'
+  network: NetworkType = 'testnet',
+  wallet?: Wallet
 ): Promise<void> => {
   try {
+    // Disconnect a single session, leaving the others connected
+    if (wallet) {
+      tokenService.clearCachedRpc(wallet.session as any);
+      await wallet.session.remove();
+      if (wallet.storagePrefix) {
+        clearSessionStorage(wallet.storagePrefix);
+        unregisterWalletSession(wallet.storagePrefix);
+      }
+      smartCache.invalidate(
+        CacheKeys.walletSession(
+          wallet.session.auth.actor,
+          wallet.session.auth.permission,
+          network
+        )
+      );
+      console.log(
+        `[Wallet] Session disconnected: ${wallet.session.auth.actor}@${wallet.session.auth.permission}`
+      );
+      return;
+    }
+
     const config = getNetworkConfig(network);
 
     // Clear Proton-related keys from localStorage
@@ -526,4 +533,6 @@ export default {
   connectWallet,
   checkExistingSession,
   disconnectWallet,
+  getWalletSessionRefs,
+  setActiveWalletSession,
 };
@@ -9,9 +9,11 @@
  * - Wallet connection state
  * - Account information management
  * - Block producer data
- * - Network configuration
+ * - Network configuration and persisted custom networks
  * - Loading states and error handling
  * - Optimistic updates with rollback
+ * - Finality of recently signed transactions
+ * - Persisted address book and recent recipients
  *
  * @fileoverview Simplified Zustand store for XPR Delegation Demo
  */
@@ -19,12 +21,17 @@
 import { create } from 'zustand';
 import { devtools, persist } from 'zustand/middleware';
 import type {
+  AddressBookContact,
   WalletInstance,
   AccountInfo,
   BlockProducer,
+  CustomNetworkConfig,
   NetworkType,
   StakeData,
+  RecentRecipient,
+  TransactionFinality,
 } from '../types';
+import { registerCustomNetworks } from '../config/networks';
 
 // =============================================================================
 // STORE STATE INTERFACE
@@ -47,6 +54,7 @@ interface AppStore {
   // Network configuration
   network: NetworkType;
   validators: BlockProducer[];
+  customNetworks: CustomNetworkConfig[];
 
   // UI states
   loading: boolean;
@@ -57,6 +65,13 @@ interface AppStore {
   // Optimistic updates
   optimisticUpdates: boolean;
 
+  // Signed transactions by ID, tracked until irreversible
+  transactionFinality: Record<string, TransactionFinality>;
+
+  // Address book
+  contacts: AddressBookContact[];
+  recentRecipients: RecentRecipient[];
+
   // Actions
   // Wallet operations
   setWallet: (wallet: WalletInstance | null) => void;
@@ -71,6 +86,8 @@ interface AppStore {
   // Network operations
   setNetwork: (network: NetworkType) => void;
   pendingNetworkChange: NetworkType | null;
+  addCustomNetwork: (network: CustomNetworkConfig) => void;
+  removeCustomNetwork: (networkId: string) => void;
 
   // UI state operations
   setLoading: (loading: boolean) => void;
@@ -89,8 +106,29 @@ interface AppStore {
   // Stake operations
   updateStakeState: (stakeData: StakeData) => void;
   clearStakeState: () => void;
+
+  // Transaction finality operations
+  setTransactionFinality: (finality: TransactionFinality) => void;
+  clearTransactionFinality: (transactionId: string) => void;
+
+  // Address book operations
+  saveContact: (contact: AddressBookContact) => void;
+  removeContact: (account: string, network: NetworkType) => void;
+  importContacts: (contacts: AddressBookContact[]) => void;
+  addRecentRecipient: (account: string, network: NetworkType) => void;
 }
 
+// Recent recipients kept per network
+const MAX_RECENT_RECIPIENTS = 10;
+
+/**
+ * Whether two address book entries refer to the same account
+ */
+const isSameRecipient = (
+  a: { account: string; network: NetworkType },
+  b: { account: string; network: NetworkType }
+): boolean => a.account === b.account && a.network === b.network;
+
 // =============================================================================
 // INITIAL STATE VALUES
 // =============================================================================
@@ -113,6 +151,7 @@ const initialState = {
   network: 'testnet' as NetworkType,
   validators: [],
   pendingNetworkChange: null,
+  customNetworks: [] as CustomNetworkConfig[],
 
   // UI states
   loading: false,
@@ -120,6 +159,13 @@ const initialState = {
   success: null,
   dataLoaded: false,
   optimisticUpdates: true,
+
+  // Transaction finality
+  transactionFinality: {} as Record<string, TransactionFinality>,
+
+  // Address book
+  contacts: [] as AddressBookContact[],
+  recentRecipients: [] as RecentRecipient[],
 };
 
 // =============================================================================
@@ -132,7 +178,7 @@ const initialState = {
 export const useAppStore = create<AppStore>()(
   devtools(
     persist(
-      set => ({
+      (set, get) => ({
         ...initialState,
 
         // Wallet operations
@@ -155,6 +201,27 @@ export const useAppStore = create<AppStore>()(
         // Network operations
         setNetwork: (network: NetworkType) => set({ network }),
 
+        addCustomNetwork: (network: CustomNetworkConfig) => {
+          const customNetworks = [
+            ...get().customNetworks.filter(item => item.id !== network.id),
+            network,
+          ];
+          registerCustomNetworks(customNetworks);
+          set({ customNetworks });
+        },
+
+        removeCustomNetwork: (networkId: string) => {
+          const customNetworks = get().customNetworks.filter(
+            item => item.id !== networkId
+          );
+          registerCustomNetworks(customNetworks);
+          set(state => ({
+            customNetworks,
+            // Fall back to testnet if the active network was removed
+            network: state.network === networkId ? 'testnet' : state.network,
+          }));
+        },
+
         // UI state operations
         setLoading: (loading: boolean) => set({ loading }),
 
@@ -169,7 +236,14 @@ export const useAppStore = create<AppStore>()(
 
         clearSuccess: () => set({ success: null }),
 
-        resetStore: () => set(initialState),
+        // Custom networks and the address book are configuration, not session state
+        resetStore: () =>
+          set(state => ({
+            ...initialState,
+            customNetworks: state.customNetworks,
+            contacts: state.contacts,
+            recentRecipients: state.recentRecipients,
+          })),
 
         // Optimistic updates
         setOptimisticUpdates: (optimisticUpdates: boolean) =>
@@ -185,6 +259,69 @@ export const useAppStore = create<AppStore>()(
           set(() => ({
             // Clear stake data if needed
           })),
+
+        // Transaction finality operations
+        setTransactionFinality: (finality: TransactionFinality) =>
+          set(state => ({
+            transactionFinality: {
+              ...state.transactionFinality,
+              [finality.transactionId]: finality,
+            },
+          })),
+
+        clearTransactionFinality: (transactionId: string) =>
+          set(state => {
+            const transactionFinality = { ...state.transactionFinality };
+            delete transactionFinality[transactionId];
+            return { transactionFinality };
+          }),
+
+        // Address book operations
+        saveContact: (contact: AddressBookContact) =>
+          set(state => ({
+            contacts: [
+              ...state.contacts.filter(item => !isSameRecipient(item, contact)),
+              contact,
+            ],
+          })),
+
+        removeContact: (account: string, network: NetworkType) =>
+          set(state => ({
+            contacts: state.contacts.filter(
+              item => !isSameRecipient(item, { account, network })
+            ),
+          })),
+
+        // Imported entries replace existing contacts for the same account
+        importContacts: (contacts: AddressBookContact[]) =>
+          set(state => ({
+            contacts: [
+              ...state.contacts.filter(
+                item =>
+                  !contacts.some(contact => isSameRecipient(item, contact))
+              ),
+              ...contacts,
+            ],
+          })),
+
+        addRecentRecipient: (account: string, network: NetworkType) =>
+          set(state => {
+            const sameNetwork = state.recentRecipients.filter(
+              item =>
+                item.network === network &&
+                !isSameRecipient(item, { account, network })
+            );
+
+            return {
+              recentRecipients: [
+                { account, network, lastUsed: Date.now() },
+                ...sameNetwork.slice(0, MAX_RECENT_RECIPIENTS - 1),
+                ...state.recentRecipients.filter(
+                  item => item.network !== network
+                ),
+              ],
+            };
+          }),
       }),
       {
         name: 'xpr-delegation-store',
@@ -193,7 +330,16 @@ export const useAppStore = create<AppStore>()(
           optimisticUpdates: state.optimisticUpdates,
           selectedBP: state.selectedBP,
           dataLoaded: state.dataLoaded,
+          customNetworks: state.customNetworks,
+          contacts: state.contacts,
+          recentRecipients: state.recentRecipients,
         }),
+        // Make persisted custom networks resolvable by getNetworkConfig
+        onRehydrateStorage: () => state => {
+          if (state) {
+            registerCustomNetworks(state.customNetworks);
+          }
+        },
       }
     ),
     {
@@ -218,6 +364,8 @@ export const useWalletKey = () => useAppStore(state => state.currentWalletKey);
 // Network selectors
 export const useNetwork = () => useAppStore(state => state.network);
 export const useValidators = () => useAppStore(state => state.validators);
+export const useCustomNetworks = () =>
+  useAppStore(state => state.customNetworks);
 
 // Block producer selectors
 export const useBlockProducers = () =>
@@ -232,6 +380,15 @@ export const useError = () => useAppStore(state => state.error);
 export const useSuccess = () => useAppStore(state => state.success);
 export const useDataLoaded = () => useAppStore(state => state.dataLoaded);
 
+// Transaction finality
+export const useTransactionFinality = (transactionId: string) =>
+  useAppStore(state => state.transactionFinality[transactionId]);
+
+// Address book (all networks; filter by network in the consumer)
+export const useContacts = () => useAppStore(state => state.contacts);
+export const useRecentRecipients = () =>
+  useAppStore(state => state.recentRecipients);
+
 // Optimistic updates
 export const useOptimisticUpdates = () =>
   useAppStore(state => state.optimisticUpdates);
@@ -319,3 +319,29 @@ export type Pick<T, K extends keyof T> = {
  * Utility type for omitting specific properties
  */
 export type Omit<T, K extends keyof T> = Pick<T, Exclude<keyof T, K>>;
+
+/**
+ * Pooled RPC Client Interface
+ * RPC client backed by the shared endpoint pool
+ */
+export interface PooledRpcClient extends RpcClient {
+  get_info: () => Promise<any>;
+  request: <T = any>(
+    path: string,
+    body?: Record<string, unknown>
+  ) => Promise<T>;
+}
+
+/**
+ * Endpoint Health Interface
+ * Health snapshot for a single RPC endpoint in the pool
+ */
+export interface EndpointHealth {
+  endpoint: string;
+  latency: number;
+  errorRate: number;
+  headBlockLag: number;
+  circuitState: string;
+  score: number;
+  lastChecked: number;
+}
@@ -42,10 +42,16 @@ export interface AccountInfo {
     net_weight: string;
     ram_bytes?: number;
   };
+  /** XPR balance with liquid/staked/refunding breakdown */
+  core_balance?: TokenBalance;
+  /** Pending XPR refund from unstaking */
+  refund?: PendingRefund;
   /** Additional voting information */
   vote_info?: VoteInfo;
   /** Voting resource requirements */
   voting_resources?: VotingResources;
+  /** Permission tree from get_account */
+  permissions?: AccountPermission[];
 }
 
 /**
@@ -58,6 +64,60 @@ export interface BlockProducer {
   url: string;
   /** Total votes received */
   total_votes?: number;
+  /** Share of all producer vote weight (percent) */
+  vote_share?: number;
+  /** Rank by total votes (1 = most votes) */
+  rank?: number;
+  /** Schedule status derived from rank and is_active */
+  status?: ProducerStatus;
+}
+
+/**
+ * Producer schedule status
+ * - active: registered and ranked within the producing set
+ * - standby: registered but ranked below the producing set
+ * - inactive: unregistered (is_active = 0)
+ */
+export type ProducerStatus = 'active' | 'standby' | 'inactive';
+
+/**
+ * Producer node entry from bp.json
+ */
+export interface ProducerNode {
+  /** Node role(s) such as producer, query or seed */
+  node_type: string;
+  /** Node location name */
+  location?: string;
+  /** HTTP API endpoint */
+  api_endpoint?: string;
+  /** HTTPS API endpoint */
+  ssl_endpoint?: string;
+  /** P2P endpoint */
+  p2p_endpoint?: string;
+}
+
+/**
+ * Block producer metadata published in bp.json
+ */
+export interface ProducerMetadata {
+  /** Producer account name */
+  producer_account_name: string;
+  /** Organization display name */
+  candidate_name?: string;
+  /** Organization website */
+  website?: string;
+  /** Contact email */
+  email?: string;
+  /** Logo image URL (HTTPS only) */
+  logo?: string;
+  /** Human-readable location */
+  location?: string;
+  /** ISO country code */
+  country?: string;
+  /** Social handles keyed by platform */
+  social: Record<string, string>;
+  /** Published nodes */
+  nodes: ProducerNode[];
 }
 
 /**
@@ -76,12 +136,47 @@ export interface NetworkConfig {
   webauth: string;
   /** Theme color */
   color: string;
+  /** Lightweight API balances endpoint used for token discovery */
+  lightApi?: string;
+  /** Hyperion-compatible history API base URL (serves /v2/history/get_actions) */
+  historyApi?: string;
+  /** True for networks added at runtime */
+  custom?: boolean;
 }
 
 /**
- * Network type definitions
+ * Built-in network identifiers
+ */
+export type BuiltInNetworkType = 'testnet' | 'mainnet';
+
+/**
+ * Network type definitions - built-in networks or a custom network ID
+ */
+export type NetworkType = BuiltInNetworkType | (string & {});
+
+/**
+ * Runtime-defined network, persisted in the store
  */
-export type NetworkType = 'testnet' | 'mainnet';
+export interface CustomNetworkConfig extends NetworkConfig {
+  /** Network identifier used as NetworkType */
+  id: string;
+}
+
+/**
+ * User input for defining a custom network
+ */
+export interface CustomNetworkInput {
+  /** Network display name */
+  name: string;
+  /** Expected blockchain chain ID */
+  chainId: string;
+  /** RPC endpoints */
+  endpoints: string[];
+  /** WebAuth host */
+  webauth: string;
+  /** Theme color */
+  color: string;
+}
 
 // =============================================================================
 // VOTING & STAKING TYPES
@@ -103,8 +198,83 @@ export interface VoteInfo {
   last_vote_time: string;
   /** Total staked amount */
   staked: number;
+  /** Whether this account is registered as a proxy */
+  is_proxy?: number;
+}
+
+/**
+ * Voter staking rewards (votersxpr table row)
+ */
+export interface VoterRewards {
+  /** Voter account name */
+  owner: string;
+  /** Accrued unclaimed rewards in XPR */
+  accrued: number;
+  /** Last claim time (ISO, UTC), undefined if never claimed */
+  last_claim_time?: string;
+  /** Whether the voter currently qualifies for rewards */
+  qualified: boolean;
+}
+
+/**
+ * Difference between current and proposed producer votes
+ */
+export interface VoteSelectionDiff {
+  /** Producers gaining this account's vote */
+  added: string[];
+  /** Producers losing this account's vote */
+  removed: string[];
+  /** Producers voted for before and after */
+  kept: string[];
+}
+
+/**
+ * Staked and refunding XPR for an account
+ */
+export interface StakeBreakdown {
+  /** Staked XPR (voters table) */
+  staked: number;
+  /** XPR unstaked and awaiting refund (refundsxpr table) */
+  refunding: number;
+  /** Pending refund details, if an unstake is in progress */
+  refund?: PendingRefund;
+}
+
+/**
+ * Pending XPR refund (refundsxpr table row)
+ */
+export interface PendingRefund {
+  /** Account that unstaked the XPR */
+  owner: string;
+  /** Amount awaiting refund in XPR */
+  amount: number;
+  /** When the unstake was requested (chain time, UTC) */
+  request_time: string;
+  /** When the refund becomes claimable (ms since epoch) */
+  claimable_at: number;
+}
+
+/**
+ * Registered voting proxy (voters table row with is_proxy set)
+ */
+export interface ProxyInfo {
+  /** Proxy account name */
+  owner: string;
+  /** Producers the proxy currently votes for */
+  producers: string[];
+  /** Vote weight delegated to this proxy by other accounts */
+  proxied_vote_weight: number;
+  /** Proxy's own last vote weight */
+  last_vote_weight: number;
+  /** Proxy's own staked amount */
+  staked: number;
 }
 
+/**
+ * Vote delegation target: a producer list or a single proxy account
+ */
+export type VoteTarget = string | string[] | { proxy: string };
+
 /**
  * Voting resource requirements
  */
@@ -149,7 +319,7 @@ export interface ProtonSession {
   /** RPC client instance */
   rpc?: RpcClient;
   /** Transaction execution method */
-  transact: (actions: any[], options?: any) => Promise<any>;
+  transact: (transaction: { actions: any[] }, options?: any) => Promise<any>;
   /** Session removal method */
   remove: () => Promise<void>;
 }
@@ -180,7 +350,7 @@ export interface RpcClient {
   get_currency_balance: (
     contract: string,
     account: string,
-    symbol?: string
+    symbol?: string | null
   ) => Promise<any>;
 }
 
@@ -200,6 +370,37 @@ export interface BlockProducerSelectorProps {
   selectedBPs: string[]; // Array of selected Block Producer names (max 4)
   onSelectBP: (bpName: string) => void; // Add/remove BP from selection
   onDelegateVotes: (producerNames: string[]) => void; // Delegate votes to multiple producers
+  onViewProducer?: (bpName: string) => void; // Open the producer detail view
+  voteInfo?: VoteInfo; // Current votes, used for the pre-signing diff
+  loading: boolean;
+}
+
+export interface VoteChangePreviewProps {
+  voteInfo?: VoteInfo;
+  selectedBPs: string[];
+  onConfirm: () => void;
+  onCancel: () => void;
+  loading: boolean;
+}
+
+export interface ProducerDetailProps {
+  producer: BlockProducer;
+  metadata: ProducerMetadata | null;
+  loading: boolean;
+  error?: string | null;
+}
+
+export interface ProxySelectorProps {
+  proxies: ProxyInfo[];
+  account: AccountInfo | null;
+  onDelegateToProxy: (proxyName: string) => void; // Delegate vote weight to a proxy
+  onRegisterProxy: (isProxy: boolean) => void; // Register/unregister own account as proxy
+  loading: boolean;
+}
+
+export interface VoterRewardsProps {
+  rewards: VoterRewards | null;
+  onClaimRewards: () => void; // Claim accrued voter rewards
   loading: boolean;
 }
 
@@ -208,11 +409,17 @@ export interface WalletConnectionProps {
   loading: boolean;
   onConnect: () => void;
   onDisconnect: () => void;
+  sessions?: WalletInstance[]; // All connected sessions on the current network
+  onSwitchAccount?: (storagePrefix: string) => void;
+  onDisconnectAccount?: (storagePrefix: string) => void;
 }
 
 export interface NetworkSelectorProps {
   network: NetworkType;
   onNetworkChange: (network: NetworkType) => void;
+  customNetworks?: CustomNetworkConfig[];
+  onAddNetwork?: (input: CustomNetworkInput) => Promise<void>; // Validate via get_info, then persist
+  onRemoveNetwork?: (networkId: string) => void;
 }
 
 export interface NetworkInfoProps {
@@ -222,6 +429,7 @@ export interface NetworkInfoProps {
 export interface StakeResourcesProps {
   account: AccountInfo | null;
   onStakeResources: (stakeData: StakeData) => void;
+  onClaimRefund?: () => void;
   loading: boolean;
   network: NetworkType;
 }
@@ -230,17 +438,32 @@ export interface HomePageProps {
   wallet: WalletInstance | null;
   account: AccountInfo | null;
   blockProducers: BlockProducer[];
+  proxies: ProxyInfo[];
+  voterRewards: VoterRewards | null;
   selectedBPs: string[]; // Array of selected Block Producer names (max 4)
   loading: boolean;
   message?: Message | null;
   network: NetworkType;
   handleConnectWallet: () => void;
   handleDisconnectWallet: () => void;
+  sessions?: WalletInstance[]; // All connected sessions on the current network
+  handleSwitchAccount?: (storagePrefix: string) => void;
+  handleDisconnectAccount?: (storagePrefix: string) => void;
+  signingPermission?: string; // Explicit signing permission ('' = automatic)
+  handleSigningPermissionChange?: (permission: string) => void;
   handleDelegateVotes: (producerNames?: string[]) => void;
   handleNetworkChange: (network: NetworkType) => void;
+  customNetworks: CustomNetworkConfig[];
+  handleAddNetwork: (input: CustomNetworkInput) => Promise<void>;
+  handleRemoveNetwork: (networkId: string) => void;
   handleStakeResources: (stakeData: StakeData) => void;
+  handleClaimRefund: () => void;
+  handleClaimVoterRewards: () => void;
   handleSelectBP: (bpName: string) => void; // Toggle BP selection
+  handleDelegateToProxy: (proxyName: string) => void;
+  handleRegisterProxy: (isProxy: boolean) => void;
   navigateToTransfer?: () => void;
+  navigateToProducer?: (producerName: string) => void;
 }
 
 /**
@@ -253,6 +476,25 @@ export interface WalletInstance {
   session: ProtonSession;
   /** Account information */
   account: AccountInfo;
+  /** Proton SDK storage prefix holding this session */
+  storagePrefix?: string;
+}
+
+/**
+ * Persisted reference to a connected wallet session
+ * One entry per account, permission and network.
+ */
+export interface WalletSessionRef {
+  /** Proton SDK storage prefix holding the session */
+  storagePrefix: string;
+  /** Account name */
+  actor: string;
+  /** Permission name */
+  permission: string;
+  /** Network the session was created on */
+  network: NetworkType;
+  /** Last time the session was active (ms since epoch) */
+  lastUsed: number;
 }
 
 /**
@@ -268,6 +510,8 @@ export interface Message {
   type: 'success' | 'error' | 'warning' | 'info';
   /** Message text */
   text: string;
+  /** Finality of the transaction the message reports on */
+  finality?: TransactionFinality;
 }
 
 /**
@@ -328,8 +572,83 @@ export interface TokenBalance {
   precision: number;
   /** Token amount */
   amount: string;
-  /** Formatted balance display */
+  /** Formatted balance display (liquid + staked + refunding) */
   formatted: string;
+  /** Transferable amount */
+  liquid: string;
+  /** Amount staked for voting/resources */
+  staked: string;
+  /** Amount unstaked and awaiting refund */
+  refunding: string;
+  /** Token display name */
+  name?: string;
+  /** Token logo URL */
+  logo?: string;
+}
+
+/**
+ * Token registry entry
+ */
+export interface TokenMetadata {
+  /** Token contract */
+  contract: string;
+  /** Token symbol */
+  symbol: string;
+  /** Token precision */
+  precision: number;
+  /** Token display name */
+  name?: string;
+  /** Token logo URL */
+  logo?: string;
+}
+
+/**
+ * How a recipient rule treats a malformed memo
+ */
+export type RecipientRuleEnforcement = 'block' | 'warn';
+
+/**
+ * Memo requirements of a known exchange deposit account
+ */
+export interface ExchangeRecipientRule {
+  /** Deposit account */
+  account: string;
+  /** Exchange display name */
+  name: string;
+  /** Expected memo format (regular expression source) */
+  memoPattern?: string;
+  /** Human readable memo format shown to the user */
+  memoHint: string;
+  /** Block or only warn when the memo does not match memoPattern */
+  enforcement: RecipientRuleEnforcement;
+}
+
+/**
+ * Pre-flight facts about a transfer recipient
+ */
+export interface RecipientAccountInfo {
+  /** Account name */
+  account: string;
+  /** Whether the account exists on chain */
+  exists: boolean;
+  /** Account creation time (ISO 8601), if the account exists */
+  created?: string;
+  /** Created within the last few days */
+  isNew: boolean;
+  /** Has a smart contract deployed */
+  hasContract: boolean;
+}
+
+/**
+ * Problem found when checking a transfer recipient
+ */
+export interface RecipientIssue {
+  /** Errors block the transfer, warnings need confirmation */
+  severity: 'error' | 'warning';
+  /** Form field the issue relates to */
+  field: 'to' | 'memo';
+  /** User facing message */
+  message: string;
 }
 
 /**
@@ -346,8 +665,8 @@ export interface TransferData {
   memo: string;
   /** Token contract */
   contract: string;
-  /** Permission used (default: "active") */
-  permission: string;
+  /** Permission to sign with (resolved from linked auths when omitted) */
+  permission?: string;
 }
 
 /**
@@ -384,12 +703,34 @@ export interface TransferPageProps {
   network: NetworkType;
   /** Transfer handler */
   handleTransfer: (transferData: TransferData) => Promise<void>;
+  /** Batch transfer handler (one transaction per batch) */
+  handleBatchTransfer: (
+    batches: TransferData[][]
+  ) => Promise<BatchTransferResult[]>;
   /** Status message */
   message?: Message | null;
   /** Pending transfer data from URL */
   pendingTransferData?: RequestPaymentData | null;
   /** Clear pending transfer data handler */
   onClearPendingData?: () => void;
+  /** Saved contacts for recipient autocomplete */
+  contacts?: AddressBookContact[];
+  /** Recently used recipients, newest first */
+  recentRecipients?: string[];
+  /** Save a recipient to the address book on the current network */
+  onSaveContact?: (contact: AddressBookContactInput) => void;
+}
+
+/**
+ * Producer detail page props
+ */
+export interface ProducerPageProps {
+  /** Producer to show */
+  producer: BlockProducer | null;
+  /** Network type */
+  network: NetworkType;
+  /** Return to the home page */
+  onBack: () => void;
 }
 
 export interface TokenSelectorProps {
@@ -436,12 +777,75 @@ export interface RequestPaymentData {
   memo: string;
   /** Token symbol (default: XPR) */
   symbol?: string;
+  /** Token contract account (default: the registry contract for the symbol) */
+  contract?: string;
   /** Request expiration date */
   expirationDate?: string;
+  /** Unique request ID, included in the payment memo */
+  requestId?: string;
+  /** When the request was created (ISO 8601), bounds the payment search */
+  createdAt?: string;
+  /** Requester's wallet signature over the request */
+  signature?: PaymentRequestSignature;
   /** Shareable URL for the request */
   shareableUrl?: string;
 }
 
+/**
+ * Wallet signature over a payment request
+ * The signed transaction is never broadcast; it only carries the request
+ * payload in a `payrequest` action authorized by the recipient.
+ */
+export interface PaymentRequestSignature {
+  /** Signature string (SIG_K1_...) */
+  signature: string;
+  /** Hex-encoded signed transaction */
+  transaction: string;
+}
+
+/**
+ * Result of checking a payment request signature
+ */
+export type PaymentRequestSignatureStatus = 'unsigned' | 'verified' | 'invalid';
+
+/**
+ * Payment request signature verification result
+ */
+export interface PaymentRequestVerification {
+  /** Verification status */
+  status: PaymentRequestSignatureStatus;
+  /** Signing authority (account@permission) when verified */
+  signer?: string;
+  /** Why verification failed */
+  reason?: string;
+}
+
+/**
+ * Shareable payment request format: app link or `esr:` wallet request
+ */
+export type PaymentLinkFormat = 'link' | 'esr';
+
+/**
+ * Payment request lifecycle status
+ */
+export type PaymentRequestStatus = 'pending' | 'paid' | 'expired';
+
+/**
+ * Incoming transfer that fulfilled a payment request
+ */
+export interface PaymentRequestPayment {
+  /** Paying account */
+  from: string;
+  /** Transferred quantity */
+  quantity: string;
+  /** Transfer memo */
+  memo: string;
+  /** Transaction ID */
+  transactionId: string;
+  /** Transfer time (ISO 8601) */
+  timestamp: string;
+}
+
 /**
  * Request payment form state
  */
@@ -474,14 +878,21 @@ export interface RequestPageProps {
   loading: boolean;
   /** Network type */
   network: NetworkType;
-  /** Request handler */
-  handleRequest: (requestData: RequestPaymentData) => Promise<void>;
+  /** Request handler; sign the link with the wallet when requested */
+  handleRequest: (
+    requestData: RequestPaymentData,
+    sign?: boolean
+  ) => Promise<void>;
   /** Status message */
   message?: Message | null;
   /** Request data from URL */
   urlRequestData?: RequestPaymentData | null;
   /** Clear URL data handler */
   onClearUrlData?: () => void;
+  /** Saved contacts for recipient autocomplete */
+  contacts?: AddressBookContact[];
+  /** Recently used recipients, newest first */
+  recentRecipients?: string[];
 }
 
 /**
@@ -490,8 +901,8 @@ export interface RequestPageProps {
 export interface RequestFormProps {
   /** Account information */
   account: AccountInfo | null;
-  /** Request handler */
-  onRequest: (requestData: RequestPaymentData) => Promise<void>;
+  /** Request handler; sign the link with the wallet when requested */
+  onRequest: (requestData: RequestPaymentData, sign?: boolean) => Promise<void>;
   /** Loading state */
   loading: boolean;
   /** Error message */
@@ -500,4 +911,593 @@ export interface RequestFormProps {
   urlRequestData?: RequestPaymentData | null;
   /** Clear URL data handler */
   onClearUrlData?: () => void;
+  /** Saved contacts for recipient autocomplete */
+  contacts?: AddressBookContact[];
+  /** Recently used recipients, newest first */
+  recentRecipients?: string[];
 }
+
+// =============================================================================
+// TRANSACTION HISTORY TYPES
+// =============================================================================
+
+/**
+ * Kind of signed action recorded in the transaction history
+ */
+export type TransactionHistoryType =
+  | 'transfer'
+  | 'vote'
+  | 'proxy_vote'
+  | 'register_proxy'
+  | 'stake'
+  | 'unstake'
+  | 'claim_refund'
+  | 'claim_rewards'
+  | 'permissions';
+
+/**
+ * Signed transaction stored in the local history
+ */
+export interface TransactionHistoryEntry {
+  /** Auto-incremented IndexedDB key */
+  id?: number;
+  /** Action kind */
+  type: TransactionHistoryType;
+  /** Account that signed the transaction */
+  account: string;
+  /** Action parameters (recipient, quantity, producers, ...) */
+  data: Record<string, unknown>;
+  /** Transaction ID */
+  transactionId: string;
+  /** Block number (0 if unknown) */
+  blockNum: number;
+  /** Network the transaction was sent to */
+  network: NetworkType;
+  /** When the transaction was signed (ms since epoch) */
+  timestamp: number;
+}
+
+/**
+ * History page props
+ */
+export interface HistoryPageProps {
+  /** Account information */
+  account: AccountInfo | null;
+  /** Network type */
+  network: NetworkType;
+}
+
+// =============================================================================
+// ON-CHAIN ACCOUNT HISTORY TYPES
+// =============================================================================
+
+/**
+ * Fields shared by every normalized on-chain action
+ */
+export interface AccountActionBase {
+  /** Transaction ID */
+  trx_id: string;
+  /** Block number */
+  block_num: number;
+  /** Block timestamp (ISO, UTC) */
+  timestamp: string;
+  /** Contract that executed the action */
+  contract: string;
+}
+
+/**
+ * Token transfer (any token contract)
+ */
+export interface TransferAction extends AccountActionBase {
+  type: 'transfer';
+  from: string;
+  to: string;
+  quantity: string;
+  memo: string;
+  /** Relative to the queried account */
+  direction: 'in' | 'out';
+}
+
+/**
+ * Producer or proxy vote
+ */
+export interface VoteProducerAction extends AccountActionBase {
+  type: 'voteproducer';
+  voter: string;
+  proxy: string;
+  producers: string[];
+}
+
+/**
+ * XPR stake or unstake
+ */
+export interface StakeXprAction extends AccountActionBase {
+  type: 'stakexpr' | 'unstakexpr';
+  from: string;
+  receiver: string;
+  quantity: string;
+}
+
+/**
+ * Normalized on-chain action for an account
+ */
+export type AccountAction =
+  | TransferAction
+  | VoteProducerAction
+  | StakeXprAction;
+
+/**
+ * One page of on-chain account actions
+ */
+export interface AccountActionsPage {
+  /** Actions on this page, newest first */
+  actions: AccountAction[];
+  /** Zero-based page index */
+  page: number;
+  /** Page size */
+  pageSize: number;
+  /** Total matching actions reported by the history API */
+  total: number;
+  /** Whether another page is available */
+  hasMore: boolean;
+}
+
+export interface AccountActionListProps {
+  /** Account the actions belong to */
+  accountName: string;
+  /** Current page of actions */
+  actionsPage: AccountActionsPage | null;
+  /** Network type (for explorer links) */
+  network: NetworkType;
+  /** Loading state */
+  loading: boolean;
+  /** Page change handler */
+  onPageChange: (page: number) => void;
+}
+
+// =============================================================================
+// TRANSACTION FINALITY TYPES
+// =============================================================================
+
+/**
+ * Lifecycle of a signed transaction until it can no longer be reverted
+ */
+export type TransactionFinalityStatus =
+  | 'submitted'
+  | 'in_block'
+  | 'irreversible'
+  | 'failed'
+  | 'expired';
+
+/**
+ * Finality snapshot for a signed transaction
+ */
+export interface TransactionFinality {
+  /** Transaction ID */
+  transactionId: string;
+  /** Network the transaction was sent to */
+  network: NetworkType;
+  /** Current lifecycle status */
+  status: TransactionFinalityStatus;
+  /** Block containing the transaction (once known) */
+  blockNum?: number;
+  /** Last irreversible block at the latest check */
+  lastIrreversibleBlock?: number;
+  /** When the transaction expires if not included (ms since epoch) */
+  expiresAt: number;
+  /** Failure reason for failed/expired transactions */
+  error?: string;
+  /** Time of the latest check (ms since epoch) */
+  updatedAt: number;
+}
+
+// =============================================================================
+// BATCH TRANSFER TYPES
+// =============================================================================
+
+/**
+ * Status of a batch transfer row
+ */
+export type BatchTransferRowStatus = 'invalid' | 'valid' | 'sent' | 'failed';
+
+/**
+ * Single row of a batch transfer CSV
+ */
+export interface BatchTransferRow {
+  /** Line number in the CSV (1-based) */
+  line: number;
+  /** Recipient account */
+  to: string;
+  /** Amount as entered (without symbol) */
+  amount: string;
+  /** Transfer memo */
+  memo: string;
+  /** Validation or send errors */
+  errors: string[];
+  /** Row status */
+  status: BatchTransferRowStatus;
+  /** Transaction that carried the transfer */
+  transactionId?: string;
+}
+
+/**
+ * Outcome of one batch transaction
+ */
+export interface BatchTransferResult {
+  /** Transfers packed into the transaction */
+  transfers: TransferData[];
+  /** Transaction ID when the transaction succeeded */
+  transactionId?: string;
+  /** Failure reason when it did not */
+  error?: string;
+}
+
+/**
+ * Batch transfer form props
+ */
+export interface BatchTransferFormProps {
+  /** Token to send */
+  token: TokenBalance | null;
+  /** Sending account */
+  account: AccountInfo | null;
+  /** Network for exchange memo rules */
+  network?: NetworkType;
+  /** Loading state */
+  loading?: boolean;
+  /** Look up which recipients exist on chain */
+  onCheckAccounts: (accounts: string[]) => Promise<Record<string, boolean>>;
+  /** Send the planned batches */
+  onSubmit: (batches: TransferData[][]) => Promise<BatchTransferResult[]>;
+}
+
+// =============================================================================
+// ADDRESS BOOK TYPES
+// =============================================================================
+
+/**
+ * Saved transfer recipient
+ */
+export interface AddressBookContact {
+  /** Account name */
+  account: string;
+  /** Display label */
+  label: string;
+  /** Memo pre-filled when sending to this contact (e.g. exchange deposit memo) */
+  defaultMemo: string;
+  /** Network the account belongs to */
+  network: NetworkType;
+  /** Last modification time (ms since epoch) */
+  updatedAt: number;
+}
+
+/**
+ * Contact fields entered by the user (network and timestamp are filled in)
+ */
+export type AddressBookContactInput = Pick<
+  AddressBookContact,
+  'account' | 'label' | 'defaultMemo'
+>;
+
+/**
+ * Recently used transfer recipient
+ */
+export interface RecentRecipient {
+  /** Account name */
+  account: string;
+  /** Network the transfer was sent on */
+  network: NetworkType;
+  /** Last transfer time (ms since epoch) */
+  lastUsed: number;
+}
+
+/**
+ * Recipient suggestion shown in recipient autocomplete
+ */
+export interface RecipientSuggestion {
+  /** Account name */
+  account: string;
+  /** Contact label, or "Recent" for unsaved recipients */
+  label: string;
+}
+
+/**
+ * Address book page props
+ */
+export interface AddressBookPageProps {
+  /** Network type */
+  network: NetworkType;
+  /** Contacts on the current network */
+  contacts: AddressBookContact[];
+  /** Add or update a contact */
+  onSaveContact: (contact: AddressBookContact) => void;
+  /** Remove a contact */
+  onRemoveContact: (account: string, network: NetworkType) => void;
+  /** Merge imported contacts into the address book */
+  onImportContacts: (contacts: AddressBookContact[]) => void;
+}
+
+// =============================================================================
+// ACCOUNT PERMISSION TYPES
+// =============================================================================
+
+/**
+ * Account permission level (actor@permission)
+ */
+export interface PermissionLevel {
+  actor: string;
+  permission: string;
+}
+
+/**
+ * Authority required to satisfy a permission
+ */
+export interface PermissionAuthority {
+  threshold: number;
+  keys: { key: string; weight: number }[];
+  accounts: { permission: PermissionLevel; weight: number }[];
+  waits?: { wait_sec: number; weight: number }[];
+}
+
+/**
+ * Action linked to a permission with linkauth
+ * An empty or missing action links every action of the contract.
+ */
+export interface LinkedAction {
+  account: string;
+  action?: string;
+}
+
+/**
+ * Account permission as returned by get_account
+ */
+export interface AccountPermission {
+  perm_name: string;
+  /** Parent permission (empty for owner) */
+  parent: string;
+  required_auth: PermissionAuthority;
+  /** Actions linked to this permission */
+  linked_actions?: LinkedAction[];
+}
+
+/**
+ * Contract action a signing permission is resolved for
+ */
+export interface ContractAction {
+  account: string;
+  name: string;
+  /** Action data (needed for updateauth/deleteauth) */
+  data?: Record<string, unknown>;
+}
+
+/**
+ * Action with data and authorization, as sent to the wallet
+ */
+export interface AuthorizedAction extends ContractAction {
+  authorization: PermissionLevel[];
+  data: Record<string, unknown>;
+}
+
+/**
+ * Change to an account's permissions
+ */
+export type PermissionChange =
+  | {
+      type: 'updateauth';
+      permission: string;
+      parent: string;
+      auth: PermissionAuthority;
+    }
+  | { type: 'deleteauth'; permission: string }
+  | { type: 'linkauth'; permission: string; contract: string; action: string }
+  | { type: 'unlinkauth'; contract: string; action: string };
+
+/**
+ * Permission and its depth in the hierarchy
+ */
+export interface PermissionTreeNode {
+  permission: AccountPermission;
+  depth: number;
+}
+
+/**
+ * Permissions page props
+ */
+export interface PermissionsPageProps {
+  /** Connected wallet */
+  wallet: WalletInstance | null;
+  /** Connected account */
+  account: AccountInfo | null;
+  /** Network type */
+  network: NetworkType;
+  /** Loading state while a transaction is signed */
+  loading: boolean;
+  /** Explicit signing permission ('' = automatic) */
+  signingPermission?: string;
+  /** Sign and broadcast permission changes; resolves true once signed */
+  onUpdatePermissions: (changes: PermissionChange[]) => Promise<boolean>;
+}
+
+/**
+ * Signing permission selector props
+ */
+export interface PermissionSelectorProps {
+  /** Connected account name */
+  actor: string;
+  /** Permission the wallet session signs with */
+  sessionPermission: string;
+  /** Account permission tree */
+  permissions: AccountPermission[];
+  /** Selected permission ('' = automatic) */
+  value: string;
+  /** Change the selected permission */
+  onChange: (permission: string) => void;
+}
+
+// =============================================================================
+// TRANSACTION REVIEW TYPES
+// =============================================================================
+
+/**
+ * Action data field decoded for review
+ */
+export interface ReviewField {
+  /** Field name from the ABI (or data key without one) */
+  name: string;
+  /** ABI type, e.g. "asset" or "name[]" */
+  type: string;
+  /** Human-readable value */
+  value: string;
+}
+
+/**
+ * How strongly a review highlights an action
+ */
+export type TransactionRiskSeverity = 'warning' | 'danger';
+
+/**
+ * Risk highlighted in a transaction review
+ */
+export interface TransactionRisk {
+  severity: TransactionRiskSeverity;
+  message: string;
+}
+
+/**
+ * Action prepared for review
+ */
+export interface ReviewedAction {
+  /** Contract account */
+  account: string;
+  /** Action name */
+  name: string;
+  /** Signing authorities (actor@permission) */
+  authorization: string[];
+  /** Decoded action data */
+  fields: ReviewField[];
+  /** Risks found for this action */
+  risks: TransactionRisk[];
+  /** True when the contract ABI could not be loaded */
+  abiMissing: boolean;
+}
+
+/**
+ * Transaction prepared for review before signing
+ */
+export interface TransactionReview {
+  /** Network the transaction is for */
+  network: NetworkType;
+  /** False when the wallet only signs (e.g. signed payment links) */
+  broadcast: boolean;
+  /** Actions in execution order */
+  actions: ReviewedAction[];
+}
+
+/**
+ * Callback that shows a review and resolves true when approved
+ */
+export type TransactionReviewer = (
+  review: TransactionReview
+) => Promise<boolean>;
+
+/**
+ * Transaction review props
+ */
+export interface TransactionReviewProps {
+  /** Transaction to review */
+  review: TransactionReview;
+  /** Approve and continue to the wallet */
+  onApprove: () => void;
+  /** Cancel the transaction */
+  onReject: () => void;
+}
+
+// =============================================================================
+// TRANSACTION PIPELINE TYPES
+// =============================================================================
+
+/**
+ * Resources available to the signing account
+ */
+export interface ResourceEstimate {
+  /** Available CPU in microseconds */
+  cpuAvailable: number;
+  /** Available NET in bytes */
+  netAvailable: number;
+  /** False when the transaction is expected to fail for lack of resources */
+  sufficient: boolean;
+}
+
+/**
+ * History entry recorded after a transaction is signed
+ */
+export interface TransactionHistoryRecord {
+  type: TransactionHistoryType;
+  /** Type-specific details (producers, quantity, recipient, ...) */
+  data?: Record<string, unknown>;
+}
+
+/**
+ * Transaction submitted through the pipeline
+ */
+export interface TransactionRequest {
+  /** What the transaction does, used in error messages (e.g. "stake resources") */
+  description: string;
+  /** Account the transaction is for */
+  account: string;
+  /** Network name */
+  network: NetworkType;
+  /** Session object from ConnectWallet */
+  session: any;
+  /** Actions to sign, without authorization */
+  actions: ContractAction[];
+  /** Resolve the authorization for the actions */
+  authorize: (actions: ContractAction[]) => Promise<PermissionLevel>;
+  /** Checks run before building, in addition to the pipeline's own */
+  preflight?: PreflightCheck[];
+  /** Resource estimation for this transaction (overrides the pipeline's) */
+  estimateResources?: ResourceEstimator;
+  /** Cache keys to invalidate once signed */
+  invalidate?: string[];
+  /** History entries to record once signed */
+  history?: TransactionHistoryRecord[];
+  /** Post-processors run once signed, in addition to the pipeline's own */
+  postProcess?: PostProcessor[];
+}
+
+/**
+ * Uniform result of a signed transaction
+ */
+export interface SubmittedTransaction {
+  /** Transaction ID */
+  transactionId: string;
+  /** Block reported by the push result (0 if unknown) */
+  blockNum: number;
+  /** Receipt status reported by the push result */
+  status: string;
+  /** Number of actions in the transaction */
+  actions: number;
+  /** Signed actions as sent to the wallet */
+  signedActions: AuthorizedAction[];
+}
+
+/**
+ * Check run before a transaction is built; throws to stop it
+ */
+export type PreflightCheck = (
+  request: TransactionRequest
+) => void | Promise<void>;
+
+/**
+ * Estimate whether the signing account can afford a transaction
+ */
+export type ResourceEstimator = (
+  request: TransactionRequest
+) => Promise<ResourceEstimate>;
+
+/**
+ * Step run after a transaction is signed; failures are ignored
+ */
+export type PostProcessor = (
+  result: SubmittedTransaction,
+  request: TransactionRequest
+) => void | Promise<void>;
@@ -50,7 +50,7 @@ export class RefreshManager {
     // Vote delegation triggers
     this.addTrigger('vote_delegated', {
       action: 'refresh_vote_data',
-      dependencies: ['voteInfo', 'votingResources'],
+      dependencies: ['voteInfo', 'votingResources', 'voterRewards'],
       immediate: true,
     });
 
@@ -61,6 +61,25 @@ export class RefreshManager {
       immediate: true,
     });
 
+    // Refund claim triggers (refunding XPR becomes liquid)
+    this.addTrigger('refund_claimed', {
+      action: 'refresh_token_data',
+      dependencies: ['account', 'tokenBalances'],
+      immediate: true,
+    });
+
+    // Voter reward claim triggers (rewards reset, liquid XPR grows)
+    this.addTrigger('rewards_claimed', {
+      action: 'refresh_vote_data',
+      dependencies: ['voterRewards'],
+      immediate: true,
+    });
+    this.addTrigger('rewards_claimed', {
+      action: 'refresh_token_data',
+      dependencies: ['account', 'tokenBalances'],
+      immediate: true,
+    });
+
     // Token transfer triggers
     this.addTrigger('tokens_transferred', {
       action: 'refresh_token_data',
@@ -68,6 +87,13 @@ export class RefreshManager {
       immediate: true,
     });
 
+    // Permission change triggers (authorities and links)
+    this.addTrigger('permissions_updated', {
+      action: 'refresh_account_data',
+      dependencies: ['account', 'permissions'],
+      immediate: true,
+    });
+
     // Network change triggers
     this.addTrigger('network_changed', {
       action: 'refresh_all_data',
@@ -212,6 +238,7 @@ export class RefreshManager {
     // Invalidate vote-related caches
     smartCache.invalidate(CacheKeys.voteInfo(accountName, network));
     smartCache.invalidate(CacheKeys.votingResources(accountName, network));
+    smartCache.invalidate(CacheKeys.voterRewards(accountName, network));
   }
 
   /**
@@ -316,6 +343,20 @@ export const RefreshTriggers = {
     refreshManager.triggerRefresh('resources_staked', { accountName, network });
   },
 
+  /**
+   * Trigger refresh after claiming an unstaking refund
+   */
+  onRefundClaimed: (accountName: string, network: string) => {
+    refreshManager.triggerRefresh('refund_claimed', { accountName, network });
+  },
+
+  /**
+   * Trigger refresh after claiming voter rewards
+   */
+  onRewardsClaimed: (accountName: string, network: string) => {
+    refreshManager.triggerRefresh('rewards_claimed', { accountName, network });
+  },
+
   /**
    * Trigger refresh after token transfer
    */
@@ -333,6 +374,16 @@ export const RefreshTriggers = {
     refreshManager.triggerRefresh('network_changed', { network });
   },
 
+  /**
+   * Trigger refresh after permission changes
+   */
+  onPermissionsUpdated: (accountName: string, network: string) => {
+    refreshManager.triggerRefresh('permissions_updated', {
+      accountName,
+      network,
+    });
+  },
+
   /**
    * Trigger refresh after account switch
    */
@@ -281,9 +281,27 @@ export const CacheKeys = {
   votingResources: (accountName: string, network: string) =>
     `resources-${accountName}-${network}`,
   blockProducers: (network: string) => `producers-${network}`,
+  proxies: (network: string) => `proxies-${network}`,
+  voterRewards: (accountName: string, network: string) =>
+    `rewards-${accountName}-${network}`,
+  producerMetadata: (producerName: string, network: string) =>
+    `bpjson-${producerName}-${network}`,
+  accountActions: (
+    accountName: string,
+    network: string,
+    page: number,
+    pageSize: number
+  ) => `actions-${accountName}-${network}-${page}-${pageSize}`,
+  recipientInfo: (accountName: string, network: string) =>
+    `recipient-${accountName}-${network}`,
   tokenBalances: (accountName: string, network: string) =>
     `tokens-${accountName}-${network}`,
   coreSymbol: (network: string) => `symbol-${network}`,
+  walletSession: (accountName: string, permission: string, network: string) =>
+    `session-${accountName}-${permission}-${network}`,
+  permissions: (accountName: string, network: string) =>
+    `permissions-${accountName}-${network}`,
+  abi: (contract: string, network: string) => `abi-${contract}-${network}`,
 } as const;
 
 /**
@@ -294,6 +312,14 @@ export const CacheDependencies = {
   voteInfo: 'account',
   votingResources: 'account',
   blockProducers: 'network',
+  proxies: 'network',
+  voterRewards: 'account',
+  producerMetadata: 'network',
+  accountActions: 'account',
+  recipientInfo: 'account',
   tokenBalances: 'account',
   coreSymbol: 'network',
+  walletSession: 'account',
+  permissions: 'account',
+  abi: 'network',
 } as const;
@@ -0,0 +1,123 @@
+import { Serializer } from '@wharfkit/antelope';
+
+import {
+  decodeActionFields,
+  formatAbiValue,
+  getActionRisks,
+  type ContractAbi,
+} from '../abiUtils';
+
+const abi: ContractAbi = {
+  version: 'eosio::abi/1.1',
+  types: [{ new_type_name: 'account_name', type: 'name' }],
+  structs: [
+    {
+      name: 'base',
+      base: '',
+      fields: [{ name: 'from', type: 'account_name' }],
+    },
+    {
+      name: 'transfer',
+      base: 'base',
+      fields: [
+        { name: 'to', type: 'name' },
+        { name: 'quantity', type: 'asset' },
+        { name: 'memo', type: 'string' },
+      ],
+    },
+    {
+      name: 'note',
+      base: '',
+      fields: [{ name: 'text', type: 'string' }],
+    },
+  ],
+  actions: [
+    { name: 'transfer', type: 'transfer', ricardian_contract: '' },
+    { name: 'note', type: 'note', ricardian_contract: '' },
+  ],
+};
+
+const transfer = (quantity: string, permission = 'active') => ({
+  account: 'eosio.token',
+  name: 'transfer',
+  authorization: [{ actor: 'alice', permission }],
+  data: { from: 'alice', to: 'bob', quantity, memo: '' },
+});
+
+describe('abiUtils', () => {
+  test('should format values by ABI type', () => {
+    expect(formatAbiValue('1234567.5000 XPR', 'asset')).toBe(
+      '1,234,567.5000 XPR'
+    );
+    expect(formatAbiValue(true, 'bool')).toBe('Yes');
+    expect(formatAbiValue(['bob', 'carol'], 'name[]')).toBe('bob, carol');
+    expect(formatAbiValue([], 'name[]')).toBe('(none)');
+    expect(formatAbiValue(undefined, 'name?')).toBe('(none)');
+    expect(formatAbiValue('alice', 'account_name', abi)).toBe('alice');
+    expect(formatAbiValue('2024-01-02T03:04:05', 'time_point_sec')).toContain(
+      '(2024-01-02T03:04:05)'
+    );
+  });
+
+  test('should decode fields in ABI order including base structs', () => {
+    expect(
+      decodeActionFields(transfer('10.0000 XPR'), abi).map(
+        field => `${field.name}:${field.type}=${field.value}`
+      )
+    ).toEqual([
+      'from:account_name=alice',
+      'to:name=bob',
+      'quantity:asset=10.0000 XPR',
+      'memo:string=',
+    ]);
+  });
+
+  test('should decode pre-encoded data and fall back without an ABI', () => {
+    const action = {
+      account: 'eosio.token',
+      name: 'note',
+      authorization: [{ actor: 'alice', permission: 'active' }],
+      data: Serializer.encode({ object: 'hello', type: 'string' }),
+    };
+
+    expect(decodeActionFields(action, abi)).toEqual([
+      { name: 'text', type: 'string', value: 'hello' },
+    ]);
+    expect(decodeActionFields(action)).toEqual([
+      { name: 'data', type: 'bytes', value: '0568656c6c6f' },
+    ]);
+    expect(decodeActionFields(transfer('1.0000 XPR'))[0]).toEqual({
+      name: 'from',
+      type: 'unknown',
+      value: 'alice',
+    });
+  });
+
+  test('should flag owner authority, permission changes and large transfers', () => {
+    expect(getActionRisks(transfer('1.0000 XPR', 'owner'))).toEqual([
+      {
+        severity: 'danger',
+        message:
+          'Signed with the owner permission, which has full control of the account',
+      },
+    ]);
+    expect(
+      getActionRisks({
+        account: 'eosio',
+        name: 'updateauth',
+        authorization: [{ actor: 'alice', permission: 'active' }],
+        data: { account: 'alice', permission: 'voting' },
+      })
+    ).toEqual([
+      { severity: 'danger', message: 'Changes who can sign for alice@voting' },
+    ]);
+    expect(
+      getActionRisks(transfer('60.0000 XPR'), { 'eosio.token:XPR': 100 })
+    ).toEqual([
+      { severity: 'warning', message: 'Sends 60% of your XPR balance' },
+    ]);
+    expect(
+      getActionRisks(transfer('10.0000 XPR'), { 'eosio.token:XPR': 100 })
+    ).toEqual([]);
+  });
+});
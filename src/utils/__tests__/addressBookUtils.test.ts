@@ -0,0 +1,82 @@
+import {
+  exportContactsToJson,
+  findContact,
+  getRecipientSuggestions,
+  parseContactsJson,
+} from '../addressBookUtils';
+import type { AddressBookContact } from '../../types';
+
+const contact = (
+  account: string,
+  label: string,
+  defaultMemo = ''
+): AddressBookContact => ({
+  account,
+  label,
+  defaultMemo,
+  network: 'testnet',
+  updatedAt: 0,
+});
+
+describe('addressBookUtils', () => {
+  test('should find contacts by account and network', () => {
+    const contacts = [contact('exchange', 'Exchange', '123456')];
+
+    expect(findContact(contacts, 'exchange', 'testnet')?.defaultMemo).toBe(
+      '123456'
+    );
+    expect(findContact(contacts, 'exchange', 'mainnet')).toBeUndefined();
+  });
+
+  test('should suggest recent recipients first without duplicates', () => {
+    const suggestions = getRecipientSuggestions(
+      [contact('zulu', 'Zulu'), contact('alpha', 'Alpha')],
+      ['zulu', 'other']
+    );
+
+    expect(suggestions).toEqual([
+      { account: 'zulu', label: 'Zulu' },
+      { account: 'other', label: 'Recent' },
+      { account: 'alpha', label: 'Alpha' },
+    ]);
+  });
+
+  test('should round-trip contacts through JSON export', () => {
+    const contacts = [contact('exchange', 'Exchange', '123456')];
+
+    const imported = parseContactsJson(
+      exportContactsToJson(contacts),
+      'mainnet'
+    );
+
+    expect(imported).toHaveLength(1);
+    expect(imported[0]).toMatchObject({
+      account: 'exchange',
+      label: 'Exchange',
+      defaultMemo: '123456',
+      network: 'testnet',
+    });
+  });
+
+  test('should accept a bare array and default the network', () => {
+    const imported = parseContactsJson('[{"account":"alice"}]', 'mainnet');
+
+    expect(imported[0]).toMatchObject({
+      account: 'alice',
+      label: 'alice',
+      network: 'mainnet',
+    });
+  });
+
+  test('should reject invalid documents and contacts', () => {
+    expect(() => parseContactsJson('not json', 'testnet')).toThrow(
+      'File is not valid JSON'
+    );
+    expect(() => parseContactsJson('{}', 'testnet')).toThrow(
+      'No contacts found in file'
+    );
+    expect(() =>
+      parseContactsJson('[{"account":"Bad Name"}]', 'testnet')
+    ).toThrow('Contact 1: invalid account name');
+  });
+});
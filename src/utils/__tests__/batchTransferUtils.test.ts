@@ -0,0 +1,130 @@
+import {
+  MAX_TRANSFERS_PER_TRANSACTION,
+  getBatchTotal,
+  parseTransferCsv,
+  planTransferBatches,
+  toTransferData,
+  validateTransferRows,
+} from '../batchTransferUtils';
+import type { TokenBalance, TransferData } from '../../types';
+
+const token: TokenBalance = {
+  contract: 'eosio.token',
+  symbol: 'XPR',
+  precision: 4,
+  amount: '100.0000',
+  formatted: '100.0000 XPR',
+  liquid: '100.0000',
+  staked: '0.0000',
+  refunding: '0.0000',
+};
+
+const transfer = (to: string, memo = ''): TransferData => ({
+  from: 'sender',
+  to,
+  quantity: '1.0000 XPR',
+  memo,
+  contract: 'eosio.token',
+  permission: 'owner',
+});
+
+describe('batch transfer utilities', () => {
+  test('should parse rows, skipping the header and blank lines', () => {
+    const rows = parseTransferCsv(
+      'account,amount,memo\r\nalice,1.5,"June, payout"\n\nbobby,2,\n'
+    );
+
+    expect(
+      rows.map(({ line, to, amount, memo }) => [line, to, amount, memo])
+    ).toEqual([
+      [2, 'alice', '1.5', 'June, payout'],
+      [4, 'bobby', '2', ''],
+    ]);
+  });
+
+  test('should flag invalid rows', () => {
+    const rows = validateTransferRows(
+      parseTransferCsv(
+        [
+          'alice,1.5',
+          'Not Valid,1',
+          'sender,1',
+          'bobby,-1',
+          'carol,1.00001',
+        ].join('\n')
+      ),
+      token,
+      'sender'
+    );
+
+    expect(rows.map(row => row.status)).toEqual([
+      'valid',
+      'invalid',
+      'invalid',
+      'invalid',
+      'invalid',
+    ]);
+    expect(rows[1].errors).toEqual(['Invalid account name']);
+    expect(rows[2].errors).toEqual(['Cannot transfer to yourself']);
+    expect(rows[3].errors).toEqual(['Invalid amount']);
+  });
+
+  test('should apply exchange memo rules when a network is given', () => {
+    const csv = parseTransferCsv('testexchange,1\ntestexchange,1,123456');
+
+    expect(
+      validateTransferRows(csv, token, 'sender').map(row => row.status)
+    ).toEqual(['valid', 'valid']);
+    expect(
+      validateTransferRows(csv, token, 'sender', 'testnet').map(
+        row => row.status
+      )
+    ).toEqual(['invalid', 'valid']);
+  });
+
+  test('should total valid rows without floating point drift', () => {
+    const rows = validateTransferRows(
+      parseTransferCsv('alice,0.1\nbobby,0.2\nNOPE,5'),
+      token,
+      'sender'
+    );
+
+    expect(getBatchTotal(rows, 4)).toBe(0.3);
+  });
+
+  test('should format quantities with token precision', () => {
+    const [row] = parseTransferCsv('alice,1.5,hi');
+
+    expect(toTransferData(row, token, 'sender')).toEqual({
+      from: 'sender',
+      to: 'alice',
+      quantity: '1.5000 XPR',
+      memo: 'hi',
+      contract: 'eosio.token',
+    });
+  });
+
+  test('should cap transfers per transaction', () => {
+    const transfers = Array.from(
+      { length: MAX_TRANSFERS_PER_TRANSACTION + 1 },
+      () => transfer('alice')
+    );
+
+    expect(planTransferBatches(transfers).map(batch => batch.length)).toEqual([
+      MAX_TRANSFERS_PER_TRANSACTION,
+      1,
+    ]);
+  });
+
+  test('should split batches to fit the remaining CPU allowance', () => {
+    const batches = planTransferBatches(
+      [transfer('alice'), transfer('bobby'), transfer('carol')],
+      {
+        cpu_limit: { used: 0, max: 520 },
+        net_limit: { used: 0, max: 100000 },
+      }
+    );
+
+    expect(batches.map(batch => batch.length)).toEqual([2, 1]);
+  });
+});
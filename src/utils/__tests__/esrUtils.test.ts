@@ -0,0 +1,93 @@
+import * as tokens from '../../config/tokens';
+import {
+  createEsrPaymentRequest,
+  isEsrUri,
+  parseEsrPaymentRequest,
+} from '../esrUtils';
+
+describe('esrUtils', () => {
+  const request = {
+    recipient: 'alice',
+    amount: '10.5 XPR',
+    memo: 'Dinner',
+    symbol: 'XPR',
+    requestId: 'abc123',
+  };
+
+  test('should round-trip a transfer request through an esr: URI', async () => {
+    const uri = createEsrPaymentRequest(request, 'testnet');
+
+    expect(uri).toMatch(/^esr:\/\//);
+    expect(isEsrUri(uri)).toBe(true);
+    await expect(parseEsrPaymentRequest(uri, 'testnet')).resolves.toEqual({
+      recipient: 'alice',
+      amount: '10.5000 XPR',
+      memo: 'Dinner req:abc123',
+      symbol: 'XPR',
+      contract: 'eosio.token',
+    });
+  });
+
+  test('should use the token precision from the registry', async () => {
+    const uri = createEsrPaymentRequest(
+      { ...request, amount: '1 XUSDC', symbol: 'XUSDC' },
+      'testnet'
+    );
+
+    const parsed = await parseEsrPaymentRequest(uri, 'testnet');
+
+    expect(parsed.amount).toBe('1.000000 XUSDC');
+  });
+
+  test('should reject unknown tokens when encoding', () => {
+    expect(() =>
+      createEsrPaymentRequest(
+        { ...request, amount: '1 FOO', symbol: 'FOO' },
+        'testnet'
+      )
+    ).toThrow('No token contract known for FOO on testnet');
+  });
+
+  test('should require a contract when the symbol is ambiguous', async () => {
+    const registry = tokens.getTokenRegistry('testnet');
+    jest
+      .spyOn(tokens, 'getTokenRegistry')
+      .mockReturnValue([
+        ...registry,
+        { contract: 'fake.token', symbol: 'XPR', precision: 4, name: 'Fake' },
+      ]);
+
+    try {
+      expect(() => createEsrPaymentRequest(request, 'testnet')).toThrow(
+        'Several contracts issue XPR on testnet'
+      );
+
+      const uri = createEsrPaymentRequest(
+        { ...request, contract: 'eosio.token' },
+        'testnet'
+      );
+      const parsed = await parseEsrPaymentRequest(uri, 'testnet');
+      expect(parsed.contract).toBe('eosio.token');
+    } finally {
+      jest.restoreAllMocks();
+    }
+  });
+
+  test('should reject requests for another chain', async () => {
+    const uri = createEsrPaymentRequest(request, 'testnet');
+
+    await expect(parseEsrPaymentRequest(uri, 'mainnet')).rejects.toThrow(
+      'Signing request is not for mainnet'
+    );
+  });
+
+  test('should reject links that are not signing requests', async () => {
+    expect(isEsrUri('https://example.com')).toBe(false);
+    await expect(
+      parseEsrPaymentRequest('https://example.com', 'testnet')
+    ).rejects.toThrow('Not a signing request link');
+    await expect(parseEsrPaymentRequest('esr:!!', 'testnet')).rejects.toThrow(
+      'Invalid signing request'
+    );
+  });
+});
@@ -6,9 +6,15 @@ import {
   truncateString,
   formatTransactionId,
   formatBlockNumber,
+  parseChainTimestamp,
+  formatCountdown,
+  diffVoteSelection,
+  calculateVoteWeight,
+  formatVoteWeight,
   getNetworkDisplayName,
   isEmpty,
   createDefaultAccountInfo,
+  createCoreTokenBalance,
   deepClone,
 } from '../helpers';
 
@@ -92,6 +98,70 @@ describe('helpers utility functions', () => {
     });
   });
 
+  describe('parseChainTimestamp', () => {
+    test('should treat chain time as UTC', () => {
+      expect(parseChainTimestamp('2024-01-01T00:00:00')).toBe(
+        Date.UTC(2024, 0, 1)
+      );
+      expect(parseChainTimestamp('2024-01-01T00:00:00Z')).toBe(
+        Date.UTC(2024, 0, 1)
+      );
+    });
+  });
+
+  describe('formatCountdown', () => {
+    test('should format remaining time', () => {
+      expect(formatCountdown(((23 * 60 + 4) * 60 + 9) * 1000)).toBe(
+        '23h 04m 09s'
+      );
+      expect(formatCountdown(-5000)).toBe('0h 00m 00s');
+    });
+  });
+
+  describe('diffVoteSelection', () => {
+    test('should split producers into added, removed and kept', () => {
+      expect(
+        diffVoteSelection(['alpha', 'bravo', 'charlie'], ['bravo', 'delta'])
+      ).toEqual({
+        added: ['delta'],
+        removed: ['alpha', 'charlie'],
+        kept: ['bravo'],
+      });
+    });
+  });
+
+  describe('calculateVoteWeight', () => {
+    test('should double the weight every 52 weeks', () => {
+      const epoch = 946684800000;
+      const year = 52 * 7 * 24 * 3600 * 1000;
+      expect(calculateVoteWeight(100, epoch)).toBe(100);
+      expect(calculateVoteWeight(100, epoch + year)).toBeCloseTo(200);
+    });
+
+    test('should count whole weeks like the system contract', () => {
+      // 1.0000 XPR voted at 2024-01-01T00:00:00Z is 1252 weeks past the epoch
+      const voted = Date.UTC(2024, 0, 1);
+      const day = 24 * 3600 * 1000;
+      expect(calculateVoteWeight(10000, voted)).toBeCloseTo(
+        176960382946.051,
+        2
+      );
+      expect(calculateVoteWeight(10000, voted + day)).toBe(
+        calculateVoteWeight(10000, voted)
+      );
+      expect(calculateVoteWeight(10000, voted + 7 * day)).toBeGreaterThan(
+        calculateVoteWeight(10000, voted)
+      );
+    });
+  });
+
+  describe('formatVoteWeight', () => {
+    test('should format with magnitude suffixes', () => {
+      expect(formatVoteWeight(950)).toBe('950.00');
+      expect(formatVoteWeight(1234567)).toBe('1.23M');
+    });
+  });
+
   describe('getNetworkDisplayName', () => {
     test('should return correct display names', () => {
       expect(getNetworkDisplayName('testnet')).toBe('Testnet');
@@ -130,6 +200,21 @@ describe('helpers utility functions', () => {
     });
   });
 
+  describe('createCoreTokenBalance', () => {
+    test('should keep liquid, staked and refunding separate', () => {
+      const balance = createCoreTokenBalance(10, { staked: 5, refunding: 2.5 });
+      expect(balance).toMatchObject({
+        contract: 'eosio.token',
+        symbol: 'XPR',
+        liquid: '10.0000',
+        staked: '5.0000',
+        refunding: '2.5000',
+        amount: '17.5000',
+        formatted: '17.5000 XPR',
+      });
+    });
+  });
+
   describe('deepClone', () => {
     test('should deep clone objects', () => {
       const original = {
@@ -0,0 +1,225 @@
+import { PrivateKey } from '@wharfkit/antelope';
+
+import {
+  createPermissionAction,
+  getPermissionChain,
+  getPermissionTree,
+  getRequiredPermission,
+  getSignablePermissions,
+  parseAuthorityInput,
+  satisfiesPermission,
+  selectSigningPermission,
+} from '../permissionUtils';
+import type { AccountPermission } from '../../types';
+
+const permission = (
+  perm_name: string,
+  parent: string,
+  linked_actions: AccountPermission['linked_actions'] = [],
+  accounts: AccountPermission['required_auth']['accounts'] = []
+): AccountPermission => ({
+  perm_name,
+  parent,
+  required_auth: { threshold: 1, keys: [], accounts },
+  linked_actions,
+});
+
+// owner > active > stake (eosio::stakexpr), active > transfer (eosio.token)
+const permissions: AccountPermission[] = [
+  permission('owner', ''),
+  permission('active', 'owner'),
+  permission('stake', 'active', [{ account: 'eosio', action: 'stakexpr' }]),
+  permission(
+    'transfer',
+    'active',
+    [{ account: 'eosio.token' }],
+    [{ permission: { actor: 'alice', permission: 'stake' }, weight: 1 }]
+  ),
+];
+
+describe('permissionUtils', () => {
+  test('should find the permission linked to an action or its contract', () => {
+    expect(
+      getRequiredPermission(permissions, {
+        account: 'eosio',
+        name: 'stakexpr',
+      })
+    ).toBe('stake');
+    expect(
+      getRequiredPermission(permissions, {
+        account: 'eosio.token',
+        name: 'transfer',
+      })
+    ).toBe('transfer');
+    expect(
+      getRequiredPermission(permissions, {
+        account: 'eosio',
+        name: 'voteproducer',
+      })
+    ).toBe('active');
+  });
+
+  test('should walk parents up to owner', () => {
+    expect(getPermissionChain(permissions, 'stake')).toEqual([
+      'stake',
+      'active',
+      'owner',
+    ]);
+    expect(satisfiesPermission(permissions, 'owner', 'stake')).toBe(true);
+    expect(satisfiesPermission(permissions, 'stake', 'active')).toBe(false);
+  });
+
+  test('should include permissions delegated to the session permission', () => {
+    expect(
+      getSignablePermissions(permissions, {
+        actor: 'alice',
+        permission: 'stake',
+      })
+    ).toEqual(['stake', 'transfer']);
+  });
+
+  test('should pick the least-privileged permission', () => {
+    expect(
+      selectSigningPermission(
+        permissions,
+        [{ account: 'eosio', name: 'stakexpr' }],
+        { actor: 'alice', permission: 'owner' }
+      )
+    ).toBe('owner');
+    expect(
+      selectSigningPermission(
+        permissions,
+        [{ account: 'eosio.token', name: 'transfer' }],
+        { actor: 'alice', permission: 'stake' }
+      )
+    ).toBe('transfer');
+  });
+
+  test('should fail early when the session key cannot authorize an action', () => {
+    expect(() =>
+      selectSigningPermission(
+        permissions,
+        [{ account: 'eosio', name: 'voteproducer' }],
+        { actor: 'alice', permission: 'stake' }
+      )
+    ).toThrow(
+      'alice@stake cannot authorize eosio::voteproducer, which requires alice@active or a parent permission'
+    );
+  });
+
+  test('should check explicitly chosen permissions', () => {
+    const session = { actor: 'alice', permission: 'active' };
+    const actions = [{ account: 'eosio', name: 'stakexpr' }];
+
+    expect(
+      selectSigningPermission(permissions, actions, session, 'active')
+    ).toBe('active');
+    expect(() =>
+      selectSigningPermission(permissions, actions, session, 'owner')
+    ).toThrow('The connected key (alice@active) cannot sign as alice@owner');
+    expect(() =>
+      selectSigningPermission(permissions, actions, session, 'missing')
+    ).toThrow('alice has no missing permission');
+  });
+
+  test('should require the changed permission for updateauth and deleteauth', () => {
+    expect(
+      getRequiredPermission(permissions, {
+        account: 'eosio',
+        name: 'updateauth',
+        data: { permission: 'stake', parent: 'active' },
+      })
+    ).toBe('stake');
+    expect(
+      getRequiredPermission(permissions, {
+        account: 'eosio',
+        name: 'updateauth',
+        data: { permission: 'voting', parent: 'active' },
+      })
+    ).toBe('active');
+    expect(
+      getRequiredPermission(permissions, {
+        account: 'eosio',
+        name: 'deleteauth',
+        data: { permission: 'transfer' },
+      })
+    ).toBe('transfer');
+  });
+
+  test('should order permissions parents first', () => {
+    expect(
+      getPermissionTree([...permissions].reverse()).map(
+        ({ permission: node, depth }) => `${depth}:${node.perm_name}`
+      )
+    ).toEqual(['0:owner', '1:active', '2:stake', '2:transfer']);
+  });
+
+  test('should parse and sort authority input', () => {
+    const key = PrivateKey.generate('K1').toPublic();
+
+    expect(
+      parseAuthorityInput(
+        '2',
+        `${key.toLegacyString()} 1`,
+        'carol@active\nbob',
+        '3600'
+      )
+    ).toEqual({
+      threshold: 2,
+      keys: [{ key: String(key), weight: 1 }],
+      accounts: [
+        { permission: { actor: 'bob', permission: 'active' }, weight: 1 },
+        { permission: { actor: 'carol', permission: 'active' }, weight: 1 },
+      ],
+      waits: [{ wait_sec: 3600, weight: 1 }],
+    });
+  });
+
+  test('should reject unreachable thresholds and bad keys', () => {
+    const key = String(PrivateKey.generate('K1').toPublic());
+
+    expect(() => parseAuthorityInput('3', key, '')).toThrow(
+      'Threshold 3 is higher than the total weight 1'
+    );
+    expect(() => parseAuthorityInput('1', 'not-a-key', '')).toThrow(
+      'Invalid public key: not-a-key'
+    );
+    expect(() => parseAuthorityInput('1', `${key}\n${key}`, '')).toThrow(
+      'is listed more than once'
+    );
+  });
+
+  test('should build permission change actions', () => {
+    expect(
+      createPermissionAction('alice', {
+        type: 'linkauth',
+        permission: 'voting',
+        contract: 'eosio',
+        action: 'voteproducer',
+      })
+    ).toEqual({
+      account: 'eosio',
+      name: 'linkauth',
+      data: {
+        account: 'alice',
+        code: 'eosio',
+        type: 'voteproducer',
+        requirement: 'voting',
+      },
+    });
+    expect(() =>
+      createPermissionAction('alice', {
+        type: 'deleteauth',
+        permission: 'owner',
+      })
+    ).toThrow('The owner permission cannot be deleted');
+    expect(() =>
+      createPermissionAction('alice', {
+        type: 'linkauth',
+        permission: 'active',
+        contract: 'eosio',
+        action: 'voteproducer',
+      })
+    ).toThrow('Actions cannot be linked to the active permission');
+  });
+});
@@ -0,0 +1,104 @@
+import {
+  createUnusedTokenIssue,
+  evaluateRecipientRules,
+  getBlockingIssues,
+  getRecipientAccountIssues,
+} from '../recipientRules';
+
+jest.mock('../../config/exchanges', () => ({
+  findExchangeRule: jest.fn((_network: string, account: string) => {
+    if (account === 'strictex') {
+      return {
+        account,
+        name: 'Strict',
+        memoPattern: '^\\d+$',
+        memoHint: 'numeric deposit ID',
+        enforcement: 'block',
+      };
+    }
+    if (account === 'lenientex') {
+      return {
+        account,
+        name: 'Lenient',
+        memoPattern: '^\\d+$',
+        memoHint: 'numeric deposit ID',
+        enforcement: 'warn',
+      };
+    }
+    return undefined;
+  }),
+}));
+
+describe('recipient rules', () => {
+  test('should ignore accounts without a rule', () => {
+    expect(
+      evaluateRecipientRules({ to: 'alice', memo: '' }, 'testnet')
+    ).toEqual([]);
+  });
+
+  test('should block a missing memo regardless of enforcement', () => {
+    ['strictex', 'lenientex'].forEach(to => {
+      const issues = evaluateRecipientRules({ to, memo: '  ' }, 'mainnet');
+
+      expect(getBlockingIssues(issues)).toHaveLength(1);
+      expect(issues[0].field).toBe('memo');
+    });
+  });
+
+  test('should block or warn on a malformed memo per rule', () => {
+    const [strict] = evaluateRecipientRules(
+      { to: 'strictex', memo: 'abc' },
+      'mainnet'
+    );
+    const [lenient] = evaluateRecipientRules(
+      { to: 'lenientex', memo: 'abc' },
+      'mainnet'
+    );
+
+    expect(strict.severity).toBe('error');
+    expect(lenient.severity).toBe('warning');
+    expect(lenient.message).toContain('Lenient numeric deposit ID');
+  });
+
+  test('should accept a well-formed memo', () => {
+    expect(
+      evaluateRecipientRules({ to: 'strictex', memo: '123456' }, 'mainnet')
+    ).toEqual([]);
+  });
+
+  test('should warn about recipients that never held the token', () => {
+    const issue = createUnusedTokenIssue('alice', 'XUSDC');
+
+    expect(issue.severity).toBe('warning');
+    expect(getBlockingIssues([issue])).toEqual([]);
+  });
+
+  test('should block missing recipients and warn about contracts and new accounts', () => {
+    expect(
+      getRecipientAccountIssues(
+        { account: 'bobby', exists: false, isNew: false, hasContract: false },
+        'XPR'
+      )
+    ).toEqual([
+      {
+        severity: 'error',
+        field: 'to',
+        message: 'Account bobby does not exist',
+      },
+    ]);
+
+    const issues = getRecipientAccountIssues(
+      {
+        account: 'alice',
+        exists: true,
+        created: new Date().toISOString(),
+        isNew: true,
+        hasContract: true,
+      },
+      'XPR'
+    );
+
+    expect(issues.map(issue => issue.severity)).toEqual(['warning', 'warning']);
+    expect(issues[0].message).toContain('smart contract');
+  });
+});
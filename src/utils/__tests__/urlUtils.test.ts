@@ -0,0 +1,101 @@
+import {
+  createPaymentRequestId,
+  generatePaymentRequestUrl,
+  getPaymentRequestMemo,
+  getPaymentRequestPayload,
+  isPaymentRequestExpired,
+  memoMatchesPaymentRequest,
+  parsePaymentRequestUrl,
+} from '../urlUtils';
+
+describe('payment request URLs', () => {
+  const request = {
+    recipient: 'alice',
+    amount: '10.5 XPR',
+    memo: 'Dinner',
+    symbol: 'XPR',
+    requestId: 'abc123',
+    expirationDate: '2030-01-01T00:00:00.000Z',
+  };
+
+  test('should round-trip request ID and expiry through the URL', () => {
+    const url = generatePaymentRequestUrl(request, 'https://example.com');
+
+    expect(parsePaymentRequestUrl(url)).toEqual({
+      recipient: 'alice',
+      amount: '10.5 XPR',
+      memo: 'Dinner',
+      symbol: 'XPR',
+      requestId: 'abc123',
+      expirationDate: '2030-01-01T00:00:00.000Z',
+    });
+  });
+
+  test('should treat requests past their expiry as expired', () => {
+    const now = new Date('2030-01-01T00:00:00.000Z').getTime();
+
+    expect(isPaymentRequestExpired(request, now - 1)).toBe(false);
+    expect(isPaymentRequestExpired(request, now)).toBe(true);
+    expect(isPaymentRequestExpired({ expirationDate: undefined }, now)).toBe(
+      false
+    );
+  });
+
+  test('should append the request ID to the payment memo', () => {
+    const memo = getPaymentRequestMemo(request);
+
+    expect(memo).toBe('Dinner req:abc123');
+    expect(memoMatchesPaymentRequest(memo, 'abc123')).toBe(true);
+    expect(memoMatchesPaymentRequest(memo, 'abc12')).toBe(false);
+    expect(getPaymentRequestMemo({ memo: '', requestId: 'abc123' })).toBe(
+      'req:abc123'
+    );
+    expect(
+      getPaymentRequestMemo({ memo: 'x'.repeat(300), requestId: 'abc123' })
+    ).toHaveLength(256);
+  });
+
+  test('should generate distinct request IDs', () => {
+    const id = createPaymentRequestId();
+
+    expect(id).toMatch(/^[A-Za-z0-9]{10}$/);
+    expect(createPaymentRequestId()).not.toBe(id);
+  });
+
+  test('should round-trip the request signature through the URL', () => {
+    const signature = { signature: 'SIG_K1_abc', transaction: 'deadbeef' };
+    const url = generatePaymentRequestUrl(
+      { ...request, signature },
+      'https://example.com'
+    );
+
+    expect(parsePaymentRequestUrl(url)?.signature).toEqual(signature);
+  });
+
+  test('should change the signed payload when any field is edited', () => {
+    const payload = getPaymentRequestPayload(request);
+
+    expect(getPaymentRequestPayload({ ...request })).toBe(payload);
+    expect(
+      getPaymentRequestPayload({ ...request, amount: '100.5 XPR' })
+    ).not.toBe(payload);
+    expect(
+      getPaymentRequestPayload({ ...request, recipient: 'mallory' })
+    ).not.toBe(payload);
+    expect(
+      getPaymentRequestPayload({ ...request, expirationDate: undefined })
+    ).not.toBe(payload);
+    expect(
+      getPaymentRequestPayload({ ...request, contract: 'fake.token' })
+    ).not.toBe(payload);
+  });
+
+  test('should round-trip the token contract through the URL', () => {
+    const url = generatePaymentRequestUrl(
+      { ...request, contract: 'eosio.token' },
+      'https://example.com'
+    );
+
+    expect(parsePaymentRequestUrl(url)?.contract).toBe('eosio.token');
+  });
+});
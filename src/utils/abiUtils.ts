@@ -0,0 +1,271 @@
+/**
+ * ABI Utilities
+ *
+ * Turns transaction actions into human-readable review data using the
+ * contract ABIs: fields are listed in ABI order and formatted by type, and
+ * actions that can lock an account or move a large share of a balance are
+ * flagged.
+ *
+ * Features:
+ * - Struct field resolution with base structs and type aliases
+ * - Type-aware formatting (assets, names, times, arrays, optionals, structs)
+ * - Decoding of pre-encoded action data
+ * - Risk detection for owner authority, permission changes and large transfers
+ *
+ * @fileoverview ABI-driven action formatting utilities
+ */
+
+import { ABI, Bytes, Serializer } from '@wharfkit/antelope';
+import type {
+  ContractAction,
+  PermissionLevel,
+  ReviewField,
+  TransactionRisk,
+} from '../types';
+import { parseChainTimestamp } from './helpers';
+
+// Share of a token balance above which a transfer is flagged
+export const LARGE_TRANSFER_SHARE = 0.5;
+
+// eosio actions that change who can sign for an account
+const AUTHORITY_ACTIONS = ['updateauth', 'deleteauth'];
+const LINK_ACTIONS = ['linkauth', 'unlinkauth'];
+
+// Chain time types rendered as local dates
+const TIME_TYPES = ['time_point', 'time_point_sec', 'block_timestamp_type'];
+
+/**
+ * Contract ABI as returned by get_abi
+ */
+export type ContractAbi = Partial<ABI.Def>;
+
+/**
+ * Action as passed to session.transact
+ */
+export type TransactableAction = Omit<ContractAction, 'data'> & {
+  authorization: PermissionLevel[];
+  data?: unknown;
+};
+
+/**
+ * Resolve type aliases from the ABI `types` list
+ */
+const resolveAlias = (abi: ContractAbi, type: string): string => {
+  let resolved = type;
+  for (let depth = 0; depth < 10; depth++) {
+    const alias = abi.types?.find(item => item.new_type_name === resolved);
+    if (!alias) break;
+    resolved = alias.type;
+  }
+  return resolved;
+};
+
+/**
+ * Struct fields including those of base structs
+ */
+const getStructFields = (
+  abi: ContractAbi,
+  structName: string
+): { name: string; type: string }[] => {
+  const struct = abi.structs?.find(item => item.name === structName);
+  if (!struct) return [];
+  return [
+    ...(struct.base ? getStructFields(abi, struct.base) : []),
+    ...struct.fields,
+  ];
+};
+
+/**
+ * Add thousands separators to an asset amount
+ */
+const formatAmount = (amount: string): string => {
+  const [whole, fraction] = amount.split('.');
+  const grouped = whole.replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+  return fraction !== undefined ? `${grouped}.${fraction}` : grouped;
+};
+
+/**
+ * Format a value according to its ABI type
+ * @param value - JSON value from the action data
+ * @param type - ABI type name
+ * @param abi - Contract ABI (optional)
+ * @returns Human-readable value
+ */
+export const formatAbiValue = (
+  value: unknown,
+  type: string,
+  abi?: ContractAbi
+): string => {
+  if (value === null || value === undefined) return '(none)';
+
+  if (type.endsWith('[]')) {
+    const items = Array.isArray(value) ? value : [];
+    return items.length === 0
+      ? '(none)'
+      : items
+          .map(item => formatAbiValue(item, type.slice(0, -2), abi))
+          .join(', ');
+  }
+  if (type.endsWith('?') || type.endsWith('$')) {
+    return formatAbiValue(value, type.slice(0, -1), abi);
+  }
+
+  const resolved = abi ? resolveAlias(abi, type) : type;
+
+  if (resolved === 'asset') {
+    const [amount, symbol] = String(value).split(' ');
+    return symbol ? `${formatAmount(amount)} ${symbol}` : String(value);
+  }
+  if (resolved === 'extended_asset' && typeof value === 'object') {
+    const { quantity, contract } = value as Record<string, unknown>;
+    return `${formatAbiValue(quantity, 'asset')} (${contract})`;
+  }
+  if (TIME_TYPES.includes(resolved)) {
+    const time = parseChainTimestamp(String(value));
+    return Number.isNaN(time)
+      ? String(value)
+      : `${new Date(time).toLocaleString()} (${String(value)})`;
+  }
+  if (resolved === 'bool') {
+    return value ? 'Yes' : 'No';
+  }
+
+  const struct = abi?.structs?.find(item => item.name === resolved);
+  if (struct && typeof value === 'object') {
+    const data = value as Record<string, unknown>;
+    return getStructFields(abi as ContractAbi, resolved)
+      .map(
+        field =>
+          `${field.name}: ${formatAbiValue(data[field.name], field.type, abi)}`
+      )
+      .join('; ');
+  }
+
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+};
+
+/**
+ * Action data as a plain object, decoding pre-encoded data with the ABI
+ */
+const getActionData = (
+  action: TransactableAction,
+  abi: ContractAbi | undefined,
+  actionType: string | undefined
+): Record<string, unknown> | string => {
+  const { data } = action;
+  const isEncoded =
+    typeof data === 'string' ||
+    data instanceof Uint8Array ||
+    (typeof data === 'object' && data !== null && 'hexString' in data);
+
+  if (!isEncoded) {
+    return (data as Record<string, unknown>) || {};
+  }
+
+  const hex = Bytes.from(data as string | Uint8Array | Bytes).hexString;
+  if (abi && actionType) {
+    try {
+      return Serializer.objectify(
+        Serializer.decode({ data: hex, type: actionType, abi: ABI.from(abi) })
+      );
+    } catch {
+      // Fall through to raw data
+    }
+  }
+  return hex;
+};
+
+/**
+ * Decode an action's data into review fields
+ * @param action - Action as passed to session.transact
+ * @param abi - Contract ABI, if it could be loaded
+ * @returns Fields in ABI order (data keys when the ABI is unknown)
+ */
+export const decodeActionFields = (
+  action: TransactableAction,
+  abi?: ContractAbi
+): ReviewField[] => {
+  const actionType = abi?.actions?.find(
+    item => item.name === action.name
+  )?.type;
+  const data = getActionData(action, abi, actionType);
+
+  if (typeof data === 'string') {
+    return [{ name: 'data', type: 'bytes', value: data }];
+  }
+
+  const fields = abi && actionType ? getStructFields(abi, actionType) : [];
+  if (fields.length === 0) {
+    return Object.entries(data).map(([name, value]) => ({
+      name,
+      type: 'unknown',
+      value: formatAbiValue(value, 'unknown'),
+    }));
+  }
+
+  return fields.map(field => ({
+    name: field.name,
+    type: field.type,
+    value: formatAbiValue(data[field.name], field.type, abi),
+  }));
+};
+
+/**
+ * Risks to highlight for an action
+ * @param action - Action as passed to session.transact
+ * @param balances - Sender balances by `contract:SYMBOL` (for transfer size)
+ * @returns Risks, most severe first
+ */
+export const getActionRisks = (
+  action: TransactableAction,
+  balances: Record<string, number> = {}
+): TransactionRisk[] => {
+  const risks: TransactionRisk[] = [];
+  const data =
+    typeof action.data === 'object' && action.data !== null
+      ? (action.data as Record<string, unknown>)
+      : {};
+
+  if (action.authorization.some(auth => auth.permission === 'owner')) {
+    risks.push({
+      severity: 'danger',
+      message:
+        'Signed with the owner permission, which has full control of the account',
+    });
+  }
+
+  if (action.account === 'eosio' && AUTHORITY_ACTIONS.includes(action.name)) {
+    risks.push({
+      severity: 'danger',
+      message: `Changes who can sign for ${data.account}@${data.permission}`,
+    });
+  }
+
+  if (action.account === 'eosio' && LINK_ACTIONS.includes(action.name)) {
+    risks.push({
+      severity: 'warning',
+      message: `Changes which permission can authorize ${data.code}::${
+        data.type || '*'
+      }`,
+    });
+  }
+
+  if (action.name === 'transfer' && typeof data.quantity === 'string') {
+    const [amount, symbol] = data.quantity.split(' ');
+    const balance = balances[`${action.account}:${symbol}`];
+    const share = balance > 0 ? parseFloat(amount) / balance : 0;
+    if (share >= LARGE_TRANSFER_SHARE) {
+      risks.push({
+        severity: 'warning',
+        message: `Sends ${Math.min(100, Math.round(share * 100))}% of your ${symbol} balance`,
+      });
+    }
+  }
+
+  return risks.sort((a, b) =>
+    a.severity === b.severity ? 0 : a.severity === 'danger' ? -1 : 1
+  );
+};
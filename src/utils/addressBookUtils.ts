@@ -0,0 +1,153 @@
+/**
+ * Address Book Utilities
+ *
+ * Helpers for saved transfer recipients: lookup, recipient suggestions and
+ * JSON import/export so contacts can move between browsers.
+ *
+ * Features:
+ * - Contact lookup per account and network
+ * - Recipient suggestions from contacts and recent transfers
+ * - Versioned JSON export
+ * - Validated JSON import (bare array or export document)
+ *
+ * @fileoverview Address book utilities
+ */
+
+import type {
+  AddressBookContact,
+  NetworkType,
+  RecipientSuggestion,
+} from '../types';
+import {
+  sanitizeInput,
+  validateAccountName,
+  validateNetwork,
+} from './security';
+
+const EXPORT_VERSION = 1;
+
+const MAX_LABEL_LENGTH = 64;
+const MAX_MEMO_LENGTH = 256;
+
+/**
+ * Find the contact saved for an account
+ * @param contacts - Saved contacts
+ * @param account - Account name
+ * @param network - Network type
+ * @returns Matching contact, if any
+ */
+export const findContact = (
+  contacts: AddressBookContact[],
+  account: string,
+  network: NetworkType
+): AddressBookContact | undefined =>
+  contacts.find(
+    contact => contact.account === account && contact.network === network
+  );
+
+/**
+ * Build recipient suggestions: recent recipients first, then other contacts
+ * @param contacts - Contacts on the current network
+ * @param recentRecipients - Recent recipient accounts, newest first
+ * @returns Unique suggestions with contact labels where known
+ */
+export const getRecipientSuggestions = (
+  contacts: AddressBookContact[],
+  recentRecipients: string[] = []
+): RecipientSuggestion[] => {
+  const labels = new Map(
+    contacts.map(contact => [contact.account, contact.label])
+  );
+  const accounts = Array.from(
+    new Set([
+      ...recentRecipients,
+      ...[...contacts]
+        .sort((a, b) => a.label.localeCompare(b.label))
+        .map(contact => contact.account),
+    ])
+  );
+
+  return accounts.map(account => ({
+    account,
+    label: labels.get(account) || 'Recent',
+  }));
+};
+
+/**
+ * Serialize contacts for download
+ * @param contacts - Contacts to export
+ * @returns Pretty-printed JSON document
+ */
+export const exportContactsToJson = (contacts: AddressBookContact[]): string =>
+  JSON.stringify(
+    {
+      version: EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      contacts: contacts.map(({ account, label, defaultMemo, network }) => ({
+        account,
+        label,
+        defaultMemo,
+        network,
+      })),
+    },
+    null,
+    2
+  );
+
+/**
+ * Parse and validate an address book JSON document
+ * Accepts the exportContactsToJson format or a bare array of contacts.
+ * Entries without a network are assigned the given fallback network.
+ * @param json - JSON document
+ * @param fallbackNetwork - Network for entries that do not specify one
+ * @returns Validated contacts
+ * @throws {Error} If the document is not valid JSON or a contact is invalid
+ */
+export const parseContactsJson = (
+  json: string,
+  fallbackNetwork: NetworkType
+): AddressBookContact[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  const entries = Array.isArray(parsed)
+    ? parsed
+    : (parsed as { contacts?: unknown })?.contacts;
+  if (!Array.isArray(entries)) {
+    throw new Error('No contacts found in file');
+  }
+
+  const now = Date.now();
+
+  return entries.map((entry, index): AddressBookContact => {
+    const item = (entry || {}) as Record<string, unknown>;
+    const account = String(item.account || '').trim();
+    const network = String(item.network || fallbackNetwork);
+    const label = sanitizeInput(String(item.label || account));
+    const defaultMemo = String(item.defaultMemo || '');
+
+    if (!validateAccountName(account)) {
+      throw new Error(`Contact ${index + 1}: invalid account name`);
+    }
+    if (!validateNetwork(network)) {
+      throw new Error(`Contact ${index + 1}: unknown network ${network}`);
+    }
+    if (defaultMemo.length > MAX_MEMO_LENGTH) {
+      throw new Error(
+        `Contact ${index + 1}: memo exceeds ${MAX_MEMO_LENGTH} characters`
+      );
+    }
+
+    return {
+      account,
+      label: label.slice(0, MAX_LABEL_LENGTH),
+      defaultMemo,
+      network,
+      updatedAt: now,
+    };
+  });
+};
@@ -0,0 +1,251 @@
+/**
+ * Batch Transfer Utilities
+ *
+ * Parses payout CSVs, validates each row and packs transfers into as few
+ * transactions as the sender's CPU/NET allowance permits.
+ *
+ * Features:
+ * - CSV parsing (account, amount, memo) with quoted fields and header row
+ * - Row validation with validateAccountName/validateAmount
+ * - Exchange memo rules per row
+ * - Exact totals in token base units
+ * - Greedy packing within per-transaction CPU/NET budgets
+ *
+ * @fileoverview Batch transfer utilities
+ */
+
+import type {
+  AccountInfo,
+  BatchTransferRow,
+  NetworkType,
+  TokenBalance,
+  TransferData,
+} from '../types';
+import { validateAccountName, validateAmount } from './security';
+import { evaluateRecipientRules, getBlockingIssues } from './recipientRules';
+
+// Rough resource cost of an eosio.token-style transfer
+const TRANSFER_CPU_US = 150;
+const TRANSACTION_BASE_CPU_US = 200;
+const TRANSFER_BASE_NET_BYTES = 96; // Action header, authorization, from/to/quantity
+const TRANSACTION_BASE_NET_BYTES = 128; // Header and signature
+
+// Stay well below the chain's max_transaction_cpu_usage/net_usage
+const MAX_TRANSACTION_CPU_US = 30000;
+const MAX_TRANSACTION_NET_BYTES = 64 * 1024;
+
+// Keep each signing request reviewable in the wallet
+export const MAX_TRANSFERS_PER_TRANSACTION = 50;
+
+const MAX_MEMO_LENGTH = 256;
+
+/**
+ * Split CSV text into rows of cells (RFC 4180 quoting)
+ */
+const splitCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  row.push(cell);
+  rows.push(row);
+  return rows;
+};
+
+/**
+ * Parse a batch transfer CSV with columns account, amount, memo
+ * A leading header row (first cell "account" or "to") is skipped.
+ * @param text - CSV document
+ * @returns Unvalidated rows, blank lines removed
+ */
+export const parseTransferCsv = (text: string): BatchTransferRow[] =>
+  splitCsv(text.replace(/^\uFEFF/, ''))
+    .map((cells, index) => ({ cells, line: index + 1 }))
+    .filter(({ cells }) => cells.some(cell => cell.trim() !== ''))
+    .filter(
+      ({ cells, line }) =>
+        !(line === 1 && /^(account|to)$/i.test(cells[0].trim()))
+    )
+    .map(
+      ({ cells, line }): BatchTransferRow => ({
+        line,
+        to: (cells[0] || '').trim(),
+        amount: (cells[1] || '').trim(),
+        memo: cells.slice(2).join(',').trim(),
+        errors: [],
+        status: 'valid',
+      })
+    );
+
+/**
+ * Validate batch rows against the token and sender
+ * @param rows - Parsed rows
+ * @param token - Token to send
+ * @param sender - Sending account name
+ * @param network - Network for exchange memo rules (skipped if omitted)
+ * @returns Rows with errors and valid/invalid status
+ */
+export const validateTransferRows = (
+  rows: BatchTransferRow[],
+  token: TokenBalance,
+  sender: string,
+  network?: NetworkType
+): BatchTransferRow[] =>
+  rows.map((row): BatchTransferRow => {
+    const errors: string[] = [];
+
+    if (!validateAccountName(row.to)) {
+      errors.push('Invalid account name');
+    } else if (row.to === sender) {
+      errors.push('Cannot transfer to yourself');
+    }
+
+    const decimals = row.amount.split('.')[1]?.length || 0;
+    if (!/^\d+(\.\d+)?$/.test(row.amount) || !validateAmount(row.amount)) {
+      errors.push('Invalid amount');
+    } else if (decimals > token.precision) {
+      errors.push(`Amount exceeds ${token.precision} decimal places`);
+    }
+
+    if (row.memo.length > MAX_MEMO_LENGTH) {
+      errors.push(`Memo exceeds ${MAX_MEMO_LENGTH} characters`);
+    }
+
+    if (network) {
+      getBlockingIssues(evaluateRecipientRules(row, network)).forEach(issue =>
+        errors.push(issue.message)
+      );
+    }
+
+    return { ...row, errors, status: errors.length > 0 ? 'invalid' : 'valid' };
+  });
+
+/**
+ * Sum valid row amounts exactly in token base units
+ * @param rows - Validated rows
+ * @param precision - Token precision
+ * @returns Total as a decimal number
+ */
+export const getBatchTotal = (
+  rows: BatchTransferRow[],
+  precision: number
+): number => {
+  const scale = 10 ** precision;
+  const units = rows
+    .filter(row => row.status !== 'invalid')
+    .reduce((sum, row) => sum + Math.round(parseFloat(row.amount) * scale), 0);
+
+  return units / scale;
+};
+
+/**
+ * Build the transfer for a valid row
+ * @param row - Validated row
+ * @param token - Token to send
+ * @param from - Sending account
+ * @returns Transfer data with formatted quantity
+ */
+export const toTransferData = (
+  row: BatchTransferRow,
+  token: TokenBalance,
+  from: string
+): TransferData => ({
+  from,
+  to: row.to,
+  quantity: `${parseFloat(row.amount).toFixed(token.precision)} ${token.symbol}`,
+  memo: row.memo,
+  contract: token.contract,
+});
+
+/**
+ * Serialized size of a UTF-8 string
+ */
+const utf8Length = (text: string): number =>
+  encodeURIComponent(text).replace(/%[A-F\d]{2}/g, 'x').length;
+
+/**
+ * Remaining allowance for a resource (Infinity when unlimited or unknown)
+ */
+const getAvailable = (limit?: { used: number; max: number }): number =>
+  limit && limit.max > 0 ? Math.max(0, limit.max - limit.used) : Infinity;
+
+/**
+ * Pack transfers into as few transactions as fit CPU/NET limits
+ * Each transaction stays within the sender's current allowance and the
+ * per-transaction ceilings; a transfer that fits nowhere goes alone.
+ * @param transfers - Transfers to send
+ * @param account - Sending account (cpu_limit/net_limit)
+ * @returns Transfers grouped per transaction, in input order
+ */
+export const planTransferBatches = (
+  transfers: TransferData[],
+  account?: Pick<AccountInfo, 'cpu_limit' | 'net_limit'> | null
+): TransferData[][] => {
+  const cpuBudget = Math.min(
+    MAX_TRANSACTION_CPU_US,
+    getAvailable(account?.cpu_limit)
+  );
+  const netBudget = Math.min(
+    MAX_TRANSACTION_NET_BYTES,
+    getAvailable(account?.net_limit)
+  );
+
+  const batches: TransferData[][] = [];
+  let current: TransferData[] = [];
+  let cpu = TRANSACTION_BASE_CPU_US;
+  let net = TRANSACTION_BASE_NET_BYTES;
+
+  transfers.forEach(transfer => {
+    const transferNet = TRANSFER_BASE_NET_BYTES + utf8Length(transfer.memo);
+    const fits =
+      current.length < MAX_TRANSFERS_PER_TRANSACTION &&
+      cpu + TRANSFER_CPU_US <= cpuBudget &&
+      net + transferNet <= netBudget;
+
+    if (!fits && current.length > 0) {
+      batches.push(current);
+      current = [];
+      cpu = TRANSACTION_BASE_CPU_US;
+      net = TRANSACTION_BASE_NET_BYTES;
+    }
+
+    current.push(transfer);
+    cpu += TRANSFER_CPU_US;
+    net += transferNet;
+  });
+
+  if (current.length > 0) {
+    batches.push(current);
+  }
+
+  return batches;
+};
@@ -0,0 +1,238 @@
+/**
+ * ESR (EOSIO Signing Request) Utilities
+ *
+ * Encodes payment requests as standard `esr:` signing requests that any
+ * Anchor or WebAuth wallet can scan and sign directly, and decodes incoming
+ * `esr:` transfer requests into payment request data for the transfer form.
+ *
+ * Requests hold a single token `transfer` action with a placeholder signer,
+ * so whichever account scans the request becomes the sender.
+ *
+ * Features:
+ * - Transfer request encoding with registry precision and contract
+ * - Request memo marker included for payment matching
+ * - Decoding of plain and compressed requests (`esr:`, `web+esr:`, `proton:`)
+ * - Chain ID check against the current network
+ *
+ * @fileoverview ESR payment request utilities
+ */
+
+import {
+  Base64u,
+  PlaceholderAuth,
+  PlaceholderName,
+  SigningRequest,
+} from '@wharfkit/signing-request';
+import { ABI } from '@wharfkit/antelope';
+import type { ABIDef } from '@wharfkit/antelope';
+import { getNetworkConfig } from '../config/networks';
+import { findTokenMetadata, getTokenRegistry } from '../config/tokens';
+import type { NetworkType, RequestPaymentData, TokenMetadata } from '../types';
+import { getPaymentRequestMemo } from './urlUtils';
+
+// Schemes accepted for incoming requests
+const ESR_SCHEMES = ['esr', 'proton', 'proton-dev'] as const;
+
+// Header flag marking zlib-compressed request data
+const COMPRESSED_FLAG = 1 << 7;
+
+// Standard token contract transfer action
+const TOKEN_TRANSFER_ABI: ABIDef = {
+  version: 'eosio::abi/1.1',
+  structs: [
+    {
+      name: 'transfer',
+      base: '',
+      fields: [
+        { name: 'from', type: 'name' },
+        { name: 'to', type: 'name' },
+        { name: 'quantity', type: 'asset' },
+        { name: 'memo', type: 'string' },
+      ],
+    },
+  ],
+  actions: [{ name: 'transfer', type: 'transfer', ricardian_contract: '' }],
+};
+
+/**
+ * Check whether a string is a signing request URI
+ * @param value - Candidate URI
+ * @returns True for `esr:`, `web+esr:` and Proton scheme URIs
+ */
+export const isEsrUri = (value: string): boolean => {
+  const scheme = value.split(':')[0].replace(/^web\+/, '');
+  return (ESR_SCHEMES as readonly string[]).includes(scheme);
+};
+
+/**
+ * Resolve the registry token a payment request asks for
+ * @param requestData - Payment request data
+ * @param symbol - Requested token symbol
+ * @param network - Network the request is for
+ * @returns Token metadata
+ * @throws {Error} If the token is unknown, or the symbol is ambiguous and
+ * the request names no contract
+ */
+const getRequestToken = (
+  requestData: RequestPaymentData,
+  symbol: string,
+  network: NetworkType
+): TokenMetadata => {
+  if (requestData.contract) {
+    const token = findTokenMetadata(network, requestData.contract, symbol);
+    if (!token) {
+      throw new Error(
+        `No token ${symbol} on ${requestData.contract} known on ${network}`
+      );
+    }
+    return token;
+  }
+
+  const tokens = getTokenRegistry(network).filter(t => t.symbol === symbol);
+  if (tokens.length > 1) {
+    throw new Error(
+      `Several contracts issue ${symbol} on ${network}, the request must name one`
+    );
+  }
+  if (tokens.length === 0) {
+    throw new Error(`No token contract known for ${symbol} on ${network}`);
+  }
+  return tokens[0];
+};
+
+/**
+ * Encode a payment request as an `esr:` signing request
+ * @param requestData - Payment request data
+ * @param network - Network the request is for
+ * @returns Uncompressed `esr://` URI
+ * @throws {Error} If the token is not in the network's token registry or is
+ * ambiguous
+ */
+export const createEsrPaymentRequest = (
+  requestData: RequestPaymentData,
+  network: NetworkType
+): string => {
+  const [amount, amountSymbol] = requestData.amount.split(' ');
+  const symbol = requestData.symbol || amountSymbol || 'XPR';
+  const token = getRequestToken(requestData, symbol, network);
+
+  const request = SigningRequest.createSync(
+    {
+      action: {
+        account: token.contract,
+        name: 'transfer',
+        authorization: [PlaceholderAuth],
+        data: {
+          from: PlaceholderName,
+          to: requestData.recipient,
+          quantity: `${parseFloat(amount).toFixed(token.precision)} ${symbol}`,
+          memo: getPaymentRequestMemo(requestData),
+        },
+      },
+      chainId: getNetworkConfig(network).chainId,
+    },
+    {},
+    { [token.contract]: TOKEN_TRANSFER_ABI }
+  );
+
+  return request.encode(false);
+};
+
+/**
+ * Inflate raw deflate data with the browser's DecompressionStream
+ * @param data - Compressed bytes
+ * @returns Inflated bytes
+ */
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new window.Blob([new Uint8Array(data)])
+    .stream()
+    .pipeThrough(new window.DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new window.Response(stream).arrayBuffer());
+};
+
+/**
+ * Decode an `esr:` URI into a signing request
+ * Compressed requests are inflated first since the library's zlib hook is
+ * synchronous.
+ * @param uri - Signing request URI
+ * @returns Signing request
+ */
+const decodeSigningRequest = async (uri: string): Promise<SigningRequest> => {
+  const rawPath = uri.split(':')[1] || '';
+  const path = rawPath.startsWith('//') ? rawPath.slice(2) : rawPath;
+
+  let data = Base64u.decode(path);
+  if (data.length > 0 && data[0] & COMPRESSED_FLAG) {
+    const inflated = await inflateRaw(data.slice(1));
+    data = new Uint8Array([data[0] & ~COMPRESSED_FLAG, ...inflated]);
+  }
+
+  return SigningRequest.fromData(data);
+};
+
+/**
+ * Decode an incoming `esr:` token transfer request
+ * @param uri - Signing request URI
+ * @param network - Network the app is connected to
+ * @returns Payment request data for the transfer form
+ * @throws {Error} If the URI is invalid, for another chain or not a single known token transfer
+ */
+export const parseEsrPaymentRequest = async (
+  uri: string,
+  network: NetworkType
+): Promise<RequestPaymentData> => {
+  if (!isEsrUri(uri)) {
+    throw new Error('Not a signing request link');
+  }
+
+  let request: SigningRequest;
+  try {
+    request = await decodeSigningRequest(uri);
+  } catch (error: unknown) {
+    throw new Error(
+      `Invalid signing request: ${
+        error instanceof Error ? error.message : 'Unknown error'
+      }`
+    );
+  }
+
+  if (
+    !request.isMultiChain() &&
+    !request.getChainId().equals(getNetworkConfig(network).chainId)
+  ) {
+    throw new Error(`Signing request is not for ${network}`);
+  }
+
+  const abis = new Map(
+    request
+      .getRequiredAbis()
+      .map(account => [String(account), ABI.from(TOKEN_TRANSFER_ABI)])
+  );
+  let actions;
+  try {
+    actions = request.resolveActions(abis);
+  } catch {
+    throw new Error('Signing request is not a token transfer');
+  }
+
+  const [action] = actions;
+  if (actions.length !== 1 || String(action.name) !== 'transfer') {
+    throw new Error('Signing request is not a single token transfer');
+  }
+
+  const to = String(action.data.to);
+  const quantity = String(action.data.quantity);
+  const memo = String(action.data.memo || '');
+  const symbol = quantity.split(' ')[1];
+  if (!findTokenMetadata(network, String(action.account), symbol)) {
+    throw new Error(`Unsupported token ${action.account}:${symbol}`);
+  }
+
+  return {
+    recipient: to,
+    amount: quantity,
+    memo,
+    symbol,
+    contract: String(action.account),
+  };
+};
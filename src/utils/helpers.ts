@@ -15,7 +15,15 @@
  */
 /* eslint-disable no-prototype-builtins */
 
-import type { AccountInfo } from '../types';
+import type {
+  AccountInfo,
+  StakeBreakdown,
+  TokenBalance,
+  VoteSelectionDiff,
+} from '../types';
+
+// Vote weight decay epoch (2000-01-01T00:00:00Z) used by the system contract
+const VOTE_WEIGHT_EPOCH_SECONDS = 946684800;
 
 /**
  * Validate Block Producer name according to XPR Network rules
@@ -122,6 +130,86 @@ export const formatBlockNumber = (
   return blockNum.toLocaleString();
 };
 
+/**
+ * Parse a chain timestamp (UTC without zone suffix) into epoch milliseconds
+ * @param timestamp - Chain time such as '2024-01-01T00:00:00'
+ * @returns Milliseconds since epoch, or NaN if unparseable
+ */
+export const parseChainTimestamp = (timestamp: string): number => {
+  const normalized = /(Z|[+-]\d{2}:\d{2})$/.test(timestamp)
+    ? timestamp
+    : `${timestamp}Z`;
+
+  return new Date(normalized).getTime();
+};
+
+/**
+ * Format a remaining duration as a countdown
+ * @param ms - Remaining time in milliseconds
+ * @returns Countdown such as '23h 04m 09s'
+ */
+export const formatCountdown = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => String(value).padStart(2, '0');
+
+  return `${hours}h ${pad(minutes)}m ${pad(seconds)}s`;
+};
+
+/**
+ * Diff current producer votes against a new selection
+ * @param current - Producers currently voted for
+ * @param next - Newly selected producers
+ * @returns Added, removed and kept producers
+ */
+export const diffVoteSelection = (
+  current: string[],
+  next: string[]
+): VoteSelectionDiff => ({
+  added: next.filter(name => !current.includes(name)),
+  removed: current.filter(name => !next.includes(name)),
+  kept: next.filter(name => current.includes(name)),
+});
+
+/**
+ * Calculate vote weight for a stake (same formula as the system contract)
+ * Weight doubles every 52 weeks so newer votes count more than stale ones.
+ * The contract counts whole weeks, so the weight only steps once a week.
+ * @param staked - Staked amount in the smallest unit
+ * @param now - Time of the vote in milliseconds
+ * @returns Vote weight applied to each voted producer
+ */
+export const calculateVoteWeight = (
+  staked: number,
+  now: number = Date.now()
+): number => {
+  const weeks = Math.floor(
+    (now / 1000 - VOTE_WEIGHT_EPOCH_SECONDS) / (24 * 3600 * 7)
+  );
+
+  return staked * Math.pow(2, weeks / 52);
+};
+
+/**
+ * Format a large vote weight with a magnitude suffix
+ * @param weight - Vote weight
+ * @returns Compact weight such as '1.23T'
+ */
+export const formatVoteWeight = (weight: number): string => {
+  const units = ['', 'K', 'M', 'B', 'T', 'Q'];
+  let value = Math.abs(weight);
+  let unit = 0;
+
+  while (value >= 1000 && unit < units.length - 1) {
+    value /= 1000;
+    unit++;
+  }
+
+  return `${weight < 0 ? '-' : ''}${value.toFixed(2)}${units[unit]}`;
+};
+
 /**
  * Get network display name
  * @param network - Network name
@@ -169,6 +257,49 @@ export const createDefaultAccountInfo = (accountName: string): AccountInfo => {
   };
 };
 
+/**
+ * Create XPR token balance with liquid/staked/refunding breakdown
+ * @param liquid - Liquid (transferable) XPR
+ * @param stake - Staked and refunding XPR
+ * @returns XPR token balance whose total includes every component
+ */
+export const createCoreTokenBalance = (
+  liquid: number,
+  stake: StakeBreakdown
+): TokenBalance => {
+  const total = liquid + stake.staked + stake.refunding;
+
+  return {
+    contract: 'eosio.token',
+    symbol: 'XPR',
+    precision: 4,
+    amount: total.toFixed(4),
+    formatted: `${total.toFixed(4)} XPR`,
+    liquid: liquid.toFixed(4),
+    staked: stake.staked.toFixed(4),
+    refunding: stake.refunding.toFixed(4),
+  };
+};
+
+/**
+ * Trigger a browser download of a text document
+ * @param content - File contents
+ * @param filename - Suggested file name
+ * @param type - MIME type
+ */
+export const downloadFile = (
+  content: string,
+  filename: string,
+  type: string
+): void => {
+  const url = URL.createObjectURL(new window.Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
 /**
  * Deep clone object
  * @param obj - Object to clone
@@ -0,0 +1,472 @@
+/**
+ * Permission Utilities
+ *
+ * Resolves which account permission should authorize a set of actions,
+ * following the chain's linkauth rules: an action needs the permission
+ * linked to `contract::action`, else the one linked to the whole contract,
+ * else `active`. Any ancestor of that permission (up to `owner`) also
+ * satisfies it.
+ *
+ * Features:
+ * - Required permission lookup from linked actions
+ * - Parent chain walk for permission satisfaction
+ * - Detection of permissions the session key can sign for
+ * - Least-privileged permission selection with explicit overrides
+ * - updateauth/deleteauth/linkauth/unlinkauth action builders
+ * - Authority parsing and canonical ordering for updateauth
+ *
+ * @fileoverview Account permission resolution utilities
+ */
+
+import { Name, PublicKey } from '@wharfkit/antelope';
+import type {
+  AccountPermission,
+  ContractAction,
+  PermissionAuthority,
+  PermissionChange,
+  PermissionLevel,
+  PermissionTreeNode,
+} from '../types';
+
+// Permission used when no link matches an action
+export const DEFAULT_PERMISSION = 'active';
+
+// Built-in permissions that cannot be deleted or linked
+export const SYSTEM_PERMISSIONS = ['owner', 'active'];
+
+/**
+ * Permission an action must be authorized with
+ * updateauth needs the permission being changed (or its parent when it is
+ * new) and deleteauth the permission being deleted; neither can be linked.
+ * @param permissions - Account permission tree
+ * @param action - Contract action
+ * @returns Linked permission name, or `active` when none is linked
+ */
+export const getRequiredPermission = (
+  permissions: AccountPermission[],
+  action: ContractAction
+): string => {
+  if (action.account === 'eosio' && action.data) {
+    const target = String(action.data.permission || '');
+    if (action.name === 'updateauth') {
+      return permissions.some(permission => permission.perm_name === target)
+        ? target
+        : String(action.data.parent || DEFAULT_PERMISSION);
+    }
+    if (action.name === 'deleteauth') {
+      return target;
+    }
+  }
+
+  const findLink = (actionName: string) =>
+    permissions.find(permission =>
+      (permission.linked_actions || []).some(
+        link =>
+          link.account === action.account && (link.action || '') === actionName
+      )
+    );
+
+  const linked = findLink(action.name) || findLink('');
+  return linked ? linked.perm_name : DEFAULT_PERMISSION;
+};
+
+/**
+ * Permission and its ancestors, nearest first
+ * @param permissions - Account permission tree
+ * @param name - Permission name
+ * @returns Permission names from `name` up to `owner`
+ */
+export const getPermissionChain = (
+  permissions: AccountPermission[],
+  name: string
+): string[] => {
+  const chain: string[] = [];
+  let current: string | undefined = name;
+
+  while (current && !chain.includes(current)) {
+    chain.push(current);
+    const parent: string | undefined = permissions.find(
+      permission => permission.perm_name === current
+    )?.parent;
+    current = parent;
+  }
+
+  return chain;
+};
+
+/**
+ * Check whether a permission satisfies a required permission
+ * @param permissions - Account permission tree
+ * @param candidate - Permission that would sign
+ * @param required - Permission the action needs
+ * @returns True if the candidate is the required permission or an ancestor
+ */
+export const satisfiesPermission = (
+  permissions: AccountPermission[],
+  candidate: string,
+  required: string
+): boolean => getPermissionChain(permissions, required).includes(candidate);
+
+/**
+ * Permissions the session key can sign for
+ * Besides its own permission, a session can sign for permissions whose
+ * authority delegates to the session permission with enough weight.
+ * @param permissions - Account permission tree
+ * @param session - Session authorization
+ * @returns Permission names the session can satisfy
+ */
+export const getSignablePermissions = (
+  permissions: AccountPermission[],
+  session: PermissionLevel
+): string[] => [
+  session.permission,
+  ...permissions
+    .filter(
+      permission =>
+        permission.perm_name !== session.permission &&
+        (permission.required_auth?.accounts || []).some(
+          ({ permission: level, weight }) =>
+            level.actor === session.actor &&
+            level.permission === session.permission &&
+            weight >= permission.required_auth.threshold
+        )
+    )
+    .map(permission => permission.perm_name),
+];
+
+/**
+ * Pick the permission to authorize actions with
+ * @param permissions - Account permission tree
+ * @param actions - Actions in the transaction
+ * @param session - Session authorization
+ * @param requested - Explicitly chosen permission (optional)
+ * @returns Least-privileged permission that satisfies every action
+ * @throws {Error} If the session cannot authorize the actions
+ */
+export const selectSigningPermission = (
+  permissions: AccountPermission[],
+  actions: ContractAction[],
+  session: PermissionLevel,
+  requested?: string
+): string => {
+  const signable = getSignablePermissions(permissions, session);
+  const sessionLabel = `${session.actor}@${session.permission}`;
+
+  if (requested) {
+    if (!permissions.some(permission => permission.perm_name === requested)) {
+      throw new Error(`${session.actor} has no ${requested} permission`);
+    }
+    if (!signable.includes(requested)) {
+      throw new Error(
+        `The connected key (${sessionLabel}) cannot sign as ${session.actor}@${requested}`
+      );
+    }
+  }
+
+  const candidates = requested ? [requested] : signable;
+  for (const action of actions) {
+    const required = getRequiredPermission(permissions, action);
+    if (
+      !candidates.some(candidate =>
+        satisfiesPermission(permissions, candidate, required)
+      )
+    ) {
+      const signer = requested ? `${session.actor}@${requested}` : sessionLabel;
+      throw new Error(
+        `${signer} cannot authorize ${action.account}::${action.name}, which requires ${session.actor}@${required} or a parent permission`
+      );
+    }
+  }
+
+  const [selected] = candidates
+    .filter(candidate =>
+      actions.every(action =>
+        satisfiesPermission(
+          permissions,
+          candidate,
+          getRequiredPermission(permissions, action)
+        )
+      )
+    )
+    .sort(
+      (a, b) =>
+        getPermissionChain(permissions, b).length -
+        getPermissionChain(permissions, a).length
+    );
+
+  if (!selected) {
+    throw new Error(
+      `No single permission of ${session.actor} can authorize all actions in this transaction`
+    );
+  }
+
+  return selected;
+};
+
+/**
+ * Permissions in hierarchy order (parents before children)
+ * @param permissions - Account permission tree
+ * @returns Permissions with their depth below owner
+ */
+export const getPermissionTree = (
+  permissions: AccountPermission[]
+): PermissionTreeNode[] => {
+  const names = new Set(permissions.map(permission => permission.perm_name));
+  const nodes: PermissionTreeNode[] = [];
+
+  const visit = (parent: string, depth: number) => {
+    permissions
+      .filter(
+        permission =>
+          permission.parent === parent &&
+          !nodes.some(node => node.permission === permission)
+      )
+      .sort((a, b) => a.perm_name.localeCompare(b.perm_name))
+      .forEach(permission => {
+        nodes.push({ permission, depth });
+        visit(permission.perm_name, depth + 1);
+      });
+  };
+
+  // Roots are owner plus any permission whose parent is missing
+  visit('', 0);
+  permissions
+    .filter(permission => permission.parent && !names.has(permission.parent))
+    .forEach(permission => {
+      if (!nodes.some(node => node.permission === permission)) {
+        nodes.push({ permission, depth: 0 });
+        visit(permission.perm_name, 1);
+      }
+    });
+
+  return nodes;
+};
+
+/**
+ * Split a `value weight` line, defaulting the weight to 1
+ */
+const parseWeightedLine = (line: string): [string, number] => {
+  const [value, weight = '1'] = line.trim().split(/\s+/);
+  const parsed = Number(weight);
+  if (!Number.isInteger(parsed) || parsed < 1 || parsed > 65535) {
+    throw new Error(`Invalid weight "${weight}" for ${value}`);
+  }
+  return [value, parsed];
+};
+
+/**
+ * Compare byte arrays for canonical key ordering
+ */
+const compareBytes = (a: Uint8Array, b: Uint8Array): number => {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return a.length - b.length;
+};
+
+/**
+ * Validate an authority and sort it the way updateauth requires
+ * @param authority - Authority to check
+ * @returns Authority with normalized keys and sorted entries
+ * @throws {Error} If a key or account is invalid, duplicated or the threshold is unreachable
+ */
+export const normalizeAuthority = (
+  authority: PermissionAuthority
+): PermissionAuthority => {
+  const { threshold } = authority;
+  if (!Number.isInteger(threshold) || threshold < 1) {
+    throw new Error('Threshold must be a positive whole number');
+  }
+
+  const keys = authority.keys.map(({ key, weight }) => {
+    try {
+      return { publicKey: PublicKey.from(key), weight };
+    } catch {
+      throw new Error(`Invalid public key: ${key}`);
+    }
+  });
+  keys.sort((a, b) =>
+    a.publicKey.type === b.publicKey.type
+      ? compareBytes(a.publicKey.data.array, b.publicKey.data.array)
+      : a.publicKey.type.localeCompare(b.publicKey.type)
+  );
+
+  const accounts = authority.accounts.map(({ permission, weight }) => {
+    const actor = Name.from(permission.actor);
+    const name = Name.from(permission.permission);
+    if (
+      String(actor) !== permission.actor ||
+      String(name) !== permission.permission
+    ) {
+      throw new Error(
+        `Invalid account authority: ${permission.actor}@${permission.permission}`
+      );
+    }
+    return { actor, name, weight };
+  });
+  accounts.sort((a, b) =>
+    a.actor.equals(b.actor)
+      ? a.name.value.value.cmp(b.name.value.value)
+      : a.actor.value.value.cmp(b.actor.value.value)
+  );
+
+  const waits = [...(authority.waits || [])].sort(
+    (a, b) => a.wait_sec - b.wait_sec
+  );
+
+  const keyStrings = keys.map(({ publicKey }) => String(publicKey));
+  const accountStrings = accounts.map(({ actor, name }) => `${actor}@${name}`);
+  const duplicate = [...keyStrings, ...accountStrings].find(
+    (value, index, all) => all.indexOf(value) !== index
+  );
+  if (duplicate) {
+    throw new Error(`${duplicate} is listed more than once`);
+  }
+
+  const totalWeight = [...keys, ...accounts, ...waits].reduce(
+    (sum, { weight }) => sum + weight,
+    0
+  );
+  if (keys.length + accounts.length === 0) {
+    throw new Error('Add at least one key or account');
+  }
+  if (totalWeight < threshold) {
+    throw new Error(
+      `Threshold ${threshold} is higher than the total weight ${totalWeight}`
+    );
+  }
+
+  return {
+    threshold,
+    keys: keys.map(({ publicKey, weight }) => ({
+      key: String(publicKey),
+      weight,
+    })),
+    accounts: accounts.map(({ actor, name, weight }) => ({
+      permission: { actor: String(actor), permission: String(name) },
+      weight,
+    })),
+    waits,
+  };
+};
+
+/**
+ * Parse authority form input
+ * Each line is `value [weight]`: a public key, an `actor@permission` or a
+ * delay in seconds.
+ * @param threshold - Threshold text
+ * @param keysText - Key lines
+ * @param accountsText - Account authority lines
+ * @param waitsText - Wait lines
+ * @returns Normalized authority
+ * @throws {Error} If any line is invalid
+ */
+export const parseAuthorityInput = (
+  threshold: string,
+  keysText: string,
+  accountsText: string,
+  waitsText = ''
+): PermissionAuthority => {
+  const lines = (text: string) =>
+    text
+      .split('\n')
+      .map(line => line.trim())
+      .filter(Boolean);
+
+  return normalizeAuthority({
+    threshold: Number(threshold),
+    keys: lines(keysText).map(line => {
+      const [key, weight] = parseWeightedLine(line);
+      return { key, weight };
+    }),
+    accounts: lines(accountsText).map(line => {
+      const [level, weight] = parseWeightedLine(line);
+      const [actor, permission = DEFAULT_PERMISSION] = level.split('@');
+      return { permission: { actor, permission }, weight };
+    }),
+    waits: lines(waitsText).map(line => {
+      const [seconds, weight] = parseWeightedLine(line);
+      const waitSec = Number(seconds);
+      if (!Number.isInteger(waitSec) || waitSec < 1) {
+        throw new Error(`Invalid wait "${seconds}"`);
+      }
+      return { wait_sec: waitSec, weight };
+    }),
+  });
+};
+
+/**
+ * Build the system action for a permission change
+ * @param account - Account whose permissions change
+ * @param change - Permission change
+ * @returns eosio action without authorization
+ * @throws {Error} If the change targets a protected or invalid permission
+ */
+export const createPermissionAction = (
+  account: string,
+  change: PermissionChange
+): Required<ContractAction> => {
+  const checkName = (value: string, label: string) => {
+    if (!value || String(Name.from(value)) !== value) {
+      throw new Error(`Invalid ${label}: ${value || '(empty)'}`);
+    }
+  };
+
+  switch (change.type) {
+    case 'updateauth':
+      checkName(change.permission, 'permission name');
+      if (change.permission !== 'owner') {
+        checkName(change.parent, 'parent permission');
+      }
+      if (change.permission === change.parent) {
+        throw new Error('A permission cannot be its own parent');
+      }
+      return {
+        account: 'eosio',
+        name: 'updateauth',
+        data: {
+          account,
+          permission: change.permission,
+          parent: change.permission === 'owner' ? '' : change.parent,
+          auth: normalizeAuthority(change.auth),
+        },
+      };
+    case 'deleteauth':
+      if (SYSTEM_PERMISSIONS.includes(change.permission)) {
+        throw new Error(
+          `The ${change.permission} permission cannot be deleted`
+        );
+      }
+      return {
+        account: 'eosio',
+        name: 'deleteauth',
+        data: { account, permission: change.permission },
+      };
+    case 'linkauth':
+      if (SYSTEM_PERMISSIONS.includes(change.permission)) {
+        throw new Error(
+          `Actions cannot be linked to the ${change.permission} permission`
+        );
+      }
+      checkName(change.contract, 'contract');
+      if (change.action) checkName(change.action, 'action');
+      return {
+        account: 'eosio',
+        name: 'linkauth',
+        data: {
+          account,
+          code: change.contract,
+          type: change.action,
+          requirement: change.permission,
+        },
+      };
+    case 'unlinkauth':
+      checkName(change.contract, 'contract');
+      if (change.action) checkName(change.action, 'action');
+      return {
+        account: 'eosio',
+        name: 'unlinkauth',
+        data: { account, code: change.contract, type: change.action },
+      };
+  }
+};
@@ -0,0 +1,127 @@
+/**
+ * Recipient Rules
+ *
+ * Checks a transfer's recipient and memo against the known exchange
+ * deposit accounts before it is signed. Used by the transfer form to show
+ * problems inline and by the token service to refuse unsafe transfers.
+ *
+ * Features:
+ * - Missing memo detection for exchange deposit accounts (always blocks)
+ * - Memo format checks with per-exchange block/warn enforcement
+ * - Warning for recipients that never held the token being sent
+ * - Pre-flight account checks: missing, contract and newly created accounts
+ *
+ * @fileoverview Recipient rules engine
+ */
+
+import type {
+  NetworkType,
+  RecipientAccountInfo,
+  RecipientIssue,
+  TransferData,
+} from '../types';
+import { findExchangeRule } from '../config/exchanges';
+
+/**
+ * Check a transfer's recipient and memo against the exchange rules
+ * @param transfer - Recipient and memo to check
+ * @param network - Network the transfer is sent on
+ * @returns Issues found, errors first
+ */
+export const evaluateRecipientRules = (
+  transfer: Pick<TransferData, 'to' | 'memo'>,
+  network: NetworkType
+): RecipientIssue[] => {
+  const rule = findExchangeRule(network, transfer.to.trim());
+  if (!rule) return [];
+
+  const memo = (transfer.memo || '').trim();
+
+  if (!memo) {
+    return [
+      {
+        severity: 'error',
+        field: 'memo',
+        message: `${rule.name} requires a memo (${rule.memoHint}); deposits without one are lost`,
+      },
+    ];
+  }
+
+  if (rule.memoPattern && !new RegExp(rule.memoPattern).test(memo)) {
+    return [
+      {
+        severity: rule.enforcement === 'block' ? 'error' : 'warning',
+        field: 'memo',
+        message: `Memo does not look like a ${rule.name} ${rule.memoHint}`,
+      },
+    ];
+  }
+
+  return [];
+};
+
+/**
+ * Issue for a recipient that has never held the token being sent
+ * @param account - Recipient account
+ * @param symbol - Token symbol
+ * @returns Warning issue
+ */
+export const createUnusedTokenIssue = (
+  account: string,
+  symbol: string
+): RecipientIssue => ({
+  severity: 'warning',
+  field: 'to',
+  message: `${account} has never received ${symbol}. Check the account name and token before sending.`,
+});
+
+/**
+ * Issues from a recipient pre-flight lookup
+ * @param info - Recipient facts from getRecipientInfo
+ * @param symbol - Token symbol being sent
+ * @returns Error for missing accounts, warnings for contracts and new accounts
+ */
+export const getRecipientAccountIssues = (
+  info: RecipientAccountInfo,
+  symbol: string
+): RecipientIssue[] => {
+  if (!info.exists) {
+    return [
+      {
+        severity: 'error',
+        field: 'to',
+        message: `Account ${info.account} does not exist`,
+      },
+    ];
+  }
+
+  const issues: RecipientIssue[] = [];
+
+  if (info.hasContract) {
+    issues.push({
+      severity: 'warning',
+      field: 'to',
+      message: `${info.account} is a smart contract. Make sure it accepts ${symbol} transfers.`,
+    });
+  }
+
+  if (info.isNew && info.created) {
+    issues.push({
+      severity: 'warning',
+      field: 'to',
+      message: `${info.account} was created on ${new Date(
+        info.created
+      ).toLocaleDateString()}. Confirm it belongs to the intended recipient.`,
+    });
+  }
+
+  return issues;
+};
+
+/**
+ * Issues that must stop the transfer
+ * @param issues - Issues from evaluateRecipientRules
+ * @returns Error-severity issues only
+ */
+export const getBlockingIssues = (issues: RecipientIssue[]): RecipientIssue[] =>
+  issues.filter(issue => issue.severity === 'error');
@@ -17,6 +17,27 @@ export interface RetryOptions {
   retryCondition?: (error: any) => boolean;
 }
 
+/**
+ * Whether an error is worth retrying
+ * Network errors, rate limiting and server errors are retried.
+ */
+export const isRetryableError = (error: any): boolean => {
+  if (error instanceof Error) {
+    const message = error.message.toLowerCase();
+    return (
+      message.includes('rate limit') ||
+      message.includes('timeout') ||
+      message.includes('network') ||
+      message.includes('500') ||
+      message.includes('502') ||
+      message.includes('503') ||
+      message.includes('504') ||
+      message.includes('429') // Too Many Requests
+    );
+  }
+  return false;
+};
+
 /**
  * Default retry configuration
  */
@@ -25,23 +46,7 @@ const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
   baseDelay: 1000, // 1 second
   maxDelay: 10000, // 10 seconds
   backoffMultiplier: 2,
-  retryCondition: (error: any) => {
-    // Retry on network errors, rate limiting, and server errors
-    if (error instanceof Error) {
-      const message = error.message.toLowerCase();
-      return (
-        message.includes('rate limit') ||
-        message.includes('timeout') ||
-        message.includes('network') ||
-        message.includes('500') ||
-        message.includes('502') ||
-        message.includes('503') ||
-        message.includes('504') ||
-        message.includes('429') // Too Many Requests
-      );
-    }
-    return false;
-  },
+  retryCondition: isRetryableError,
 };
 
 /**
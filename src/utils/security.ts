@@ -15,6 +15,7 @@
  */
 
 import type { NetworkType } from '../types';
+import { isValidNetwork } from '../config/networks';
 
 /**
  * Sanitize user input to prevent XSS attacks
@@ -52,12 +53,12 @@ export const validateAccountName = (accountName: string): boolean => {
 };
 
 /**
- * Validate network type
+ * Validate network type (built-in or registered custom network)
  * @param network - Network to validate
  * @returns True if valid network type
  */
 export const validateNetwork = (network: string): network is NetworkType => {
-  return ['testnet', 'mainnet'].includes(network);
+  return isValidNetwork(network);
 };
 
 /**
@@ -48,12 +48,18 @@ export const getExplorerUrl = (
     return '#';
   }
 
-  const baseUrls = {
+  const baseUrls: Partial<Record<NetworkType, string>> = {
     testnet: 'https://testnet.explorer.xprnetwork.org',
     mainnet: 'https://explorer.xprnetwork.org',
   };
 
-  return `${baseUrls[network]}/transaction/${transactionId}`;
+  // Custom networks have no public explorer
+  const baseUrl = baseUrls[network];
+  if (!baseUrl) {
+    return '#';
+  }
+
+  return `${baseUrl}/transaction/${transactionId}`;
 };
 
 /**
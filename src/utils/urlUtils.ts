@@ -2,12 +2,101 @@
  * URL Generator for Payment Requests
  *
  * Utility functions for creating shareable payment request URLs
- * and parsing URL parameters to pre-fill request forms.
+ * and parsing URL parameters to pre-fill request forms. Requests carry
+ * a unique ID (echoed in the payment memo), an optional expiry and an
+ * optional wallet signature over the canonical request payload.
  *
  * @fileoverview URL utilities for payment requests
  */
 
 import type { RequestPaymentData } from '../types';
+import { generateSecureRandomString } from './security';
+
+// Length of generated payment request IDs
+const REQUEST_ID_LENGTH = 10;
+
+// Memo marker that identifies the request a transfer pays
+const REQUEST_MEMO_PREFIX = 'req:';
+
+const MAX_MEMO_LENGTH = 256;
+
+// Domain tag and version of the signed request payload
+const PAYLOAD_DOMAIN = 'xpr-payment-request';
+const PAYLOAD_VERSION = 1;
+
+/**
+ * Generate a unique payment request ID
+ * @returns Random alphanumeric ID
+ */
+export const createPaymentRequestId = (): string =>
+  generateSecureRandomString(REQUEST_ID_LENGTH);
+
+/**
+ * Check whether a payment request has expired
+ * @param requestData - Payment request data
+ * @param now - Current time (ms since epoch)
+ * @returns True if the request has an expiry in the past
+ */
+export const isPaymentRequestExpired = (
+  requestData: Pick<RequestPaymentData, 'expirationDate'>,
+  now: number = Date.now()
+): boolean => {
+  if (!requestData.expirationDate) return false;
+  const expiresAt = new Date(requestData.expirationDate).getTime();
+  return !Number.isNaN(expiresAt) && expiresAt <= now;
+};
+
+/**
+ * Memo the payer should send so the request can be matched
+ * @param requestData - Payment request data
+ * @returns Request memo with the request ID appended
+ */
+export const getPaymentRequestMemo = (
+  requestData: Pick<RequestPaymentData, 'memo' | 'requestId'>
+): string => {
+  if (!requestData.requestId) return requestData.memo || '';
+
+  const marker = `${REQUEST_MEMO_PREFIX}${requestData.requestId}`;
+  const memo = (requestData.memo || '')
+    .slice(0, MAX_MEMO_LENGTH - marker.length - 1)
+    .trim();
+
+  return memo ? `${memo} ${marker}` : marker;
+};
+
+/**
+ * Check whether a transfer memo references a payment request
+ * @param memo - Transfer memo
+ * @param requestId - Payment request ID
+ * @returns True if the memo contains the request marker
+ */
+export const memoMatchesPaymentRequest = (
+  memo: string,
+  requestId: string
+): boolean => memo.split(/\s+/).includes(`${REQUEST_MEMO_PREFIX}${requestId}`);
+
+/**
+ * Canonical encoding of a payment request for signing
+ * Covers every field a payer acts on, in a fixed order, so editing any of
+ * them in the URL invalidates the signature.
+ * @param requestData - Payment request data
+ * @returns Payload string
+ */
+export const getPaymentRequestPayload = (
+  requestData: Omit<RequestPaymentData, 'signature' | 'shareableUrl'>
+): string =>
+  JSON.stringify([
+    PAYLOAD_DOMAIN,
+    PAYLOAD_VERSION,
+    requestData.recipient,
+    requestData.amount,
+    requestData.symbol || 'XPR',
+    requestData.memo || '',
+    requestData.requestId || '',
+    requestData.expirationDate || '',
+    // Only present when set so links signed without a contract still verify
+    ...(requestData.contract ? [requestData.contract] : []),
+  ]);
 
 /**
  * Generate a shareable payment request URL
@@ -27,6 +116,19 @@ export const generatePaymentRequestUrl = (
   params.set('amount', encodeURIComponent(requestData.amount));
   params.set('memo', encodeURIComponent(requestData.memo || ''));
   params.set('symbol', requestData.symbol || 'XPR');
+  if (requestData.contract) {
+    params.set('contract', requestData.contract);
+  }
+  if (requestData.requestId) {
+    params.set('id', requestData.requestId);
+  }
+  if (requestData.expirationDate) {
+    params.set('expires', requestData.expirationDate);
+  }
+  if (requestData.signature) {
+    params.set('sig', requestData.signature.signature);
+    params.set('sigtx', requestData.signature.transaction);
+  }
 
   // Add timestamp for uniqueness
   params.set('timestamp', Date.now().toString());
@@ -57,6 +159,11 @@ export const parsePaymentRequestUrl = (
     const amount = params.get('amount');
     const memo = params.get('memo') || '';
     const symbol = params.get('symbol') || 'XPR';
+    const contract = params.get('contract') || undefined;
+    const requestId = params.get('id') || undefined;
+    const expirationDate = params.get('expires') || undefined;
+    const sig = params.get('sig');
+    const sigtx = params.get('sigtx');
 
     console.log('Parsed URL parameters:', { recipient, amount, memo, symbol });
 
@@ -77,6 +184,11 @@ export const parsePaymentRequestUrl = (
       amount: decodedAmount,
       memo: decodedMemo,
       symbol,
+      contract,
+      requestId,
+      expirationDate,
+      signature:
+        sig && sigtx ? { signature: sig, transaction: sigtx } : undefined,
     };
   } catch (error) {
     console.error('Error parsing payment request URL:', error);
@@ -84,6 +196,20 @@ export const parsePaymentRequestUrl = (
   }
 };
 
+/**
+ * Get an `esr:` signing request passed to the app in the `esr` parameter
+ * @param url - URL to parse (optional, defaults to current URL)
+ * @returns Signing request URI or null if none
+ */
+export const getSigningRequestFromUrl = (url?: string): string | null => {
+  try {
+    const urlObj = new URL(url || window.location.href);
+    return urlObj.searchParams.get('esr') || null;
+  } catch {
+    return null;
+  }
+};
+
 /**
  * Check if current URL contains payment request parameters
  * @returns True if URL contains payment request data
@@ -106,6 +232,11 @@ export const clearPaymentRequestFromUrl = (): void => {
     url.searchParams.delete('amount');
     url.searchParams.delete('memo');
     url.searchParams.delete('symbol');
+    url.searchParams.delete('id');
+    url.searchParams.delete('expires');
+    url.searchParams.delete('sig');
+    url.searchParams.delete('sigtx');
+    url.searchParams.delete('esr');
     url.searchParams.delete('timestamp');
 
     // Update URL without page reload
@@ -116,22 +247,18 @@ export const clearPaymentRequestFromUrl = (): void => {
 };
 
 /**
- * Copy payment request URL to clipboard
- * @param requestData - Payment request data
- * @returns Promise that resolves when URL is copied
+ * Copy text to clipboard
+ * @param text - Text to copy
+ * @returns Promise that resolves when text is copied
  */
-export const copyPaymentRequestUrl = async (
-  requestData: RequestPaymentData
-): Promise<void> => {
+export const copyTextToClipboard = async (text: string): Promise<void> => {
   try {
-    const url = generatePaymentRequestUrl(requestData);
-
     if (navigator.clipboard && window.isSecureContext) {
-      await navigator.clipboard.writeText(url);
+      await navigator.clipboard.writeText(text);
     } else {
       // Fallback for older browsers
       const textArea = document.createElement('textarea');
-      textArea.value = url;
+      textArea.value = text;
       textArea.style.position = 'fixed';
       textArea.style.left = '-999999px';
       textArea.style.top = '-999999px';
@@ -142,7 +269,16 @@ export const copyPaymentRequestUrl = async (
       textArea.remove();
     }
   } catch (error) {
-    console.error('Error copying payment request URL:', error);
-    throw new Error('Failed to copy URL to clipboard');
+    console.error('Error copying to clipboard:', error);
+    throw new Error('Failed to copy to clipboard');
   }
 };
+
+/**
+ * Copy payment request URL to clipboard
+ * @param requestData - Payment request data
+ * @returns Promise that resolves when URL is copied
+ */
+export const copyPaymentRequestUrl = async (
+  requestData: RequestPaymentData
+): Promise<void> => copyTextToClipboard(generatePaymentRequestUrl(requestData));